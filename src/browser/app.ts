@@ -1,28 +1,75 @@
 import { wrap } from "comlink";
 import JSZip from "jszip";
+import { createFrameStrip } from "../core/animation";
+import { createAtlasJson, packAtlas } from "../core/atlas";
+import type { ConfidenceMap } from "../core/confidence";
+import type { ConstraintViolation } from "../core/constraints";
+import type { AxisDiagnostics, GridDiagnostics } from "../core/detector";
+import { encodeGif } from "../core/gif";
+import { encodeIndexedPng, getProcessPalette } from "../core/indexedPng";
 import { upscaleNearest } from "../core/ops";
 import type { ProcessOptions } from "../core/processor";
+import {
+	createRecipe,
+	deserializeRecipe,
+	type Recipe,
+	serializeRecipe,
+} from "../core/recipe";
+import { exportTiles, tileExportFiles } from "../core/tiles";
 import type { ProcessorWorker } from "../core/worker";
 import {
 	clampInt,
 	clampNumber,
+	ERROR_DIFFUSION_DITHER_MODES,
 	PROCESS_DEFAULTS,
 	PROCESS_RANGES,
 } from "../shared/config";
-import type { DitherMode, OutlineStyle, RGB } from "../shared/types";
+import type {
+	AlphaPolicy,
+	AnimationExportFormat,
+	BgExtractionMethod,
+	CellSampler,
+	DitherMode,
+	GridDetector,
+	HardwareProfile,
+	IndexedPaletteOrder,
+	ManualGrid,
+	OutlineStyle,
+	PaletteExtractMethod,
+	PaletteFileFormat,
+	PerspectiveQuad,
+	PixelGrid,
+	RawImage,
+	RGB,
+	TileFormat,
+} from "../shared/types";
 import {
-	extractColorsFromImage,
+	extractPaletteFromImage,
 	generateGPL,
+	generatePaletteFile,
 	generatePaletteImage,
-	parseGPL,
+	isPaletteFileName,
+	parsePaletteFile,
 	sortPalette,
 } from "../utils/palette";
 import { ImageComparer } from "./compare";
+import { GridEditor } from "./grid-editor";
 import { i18n } from "./i18n";
-import { drawRawImageToCanvas, imageToRawImage } from "./io";
+import {
+	animationToApngBlob,
+	decodeAnimation,
+	drawRawImageToCanvas,
+	imageToRawImage,
+	rawImageToPngBlob,
+	rawImageToPngFile,
+} from "./io";
+import {
+	defaultPerspectiveQuad,
+	PerspectiveEditor,
+} from "./perspective-editor";
 import { PresetManager } from "./presets";
 import { ResultViewer } from "./result-viewer";
-import { ImageSession } from "./session";
+import { type ImageItem, ImageSession } from "./session";
 
 // Workerのインスタンス化
 const workerInstance = new Worker(
@@ -42,12 +89,22 @@ type Elements = {
 	originalCanvas: HTMLCanvasElement;
 	inputSize: HTMLElement;
 	outputSize: HTMLElement;
+	gridConfidenceWarning: HTMLElement;
+	constraintWarning: HTMLElement;
+	manualGridToggle: HTMLInputElement;
+	manualGridReset: HTMLButtonElement;
+	manualGridInfo: HTMLElement;
+	gridEditorCanvas: HTMLCanvasElement;
+	perspectiveToggle: HTMLInputElement;
+	perspectiveReset: HTMLButtonElement;
+	perspectiveEditorCanvas: HTMLCanvasElement;
 	quantStepInput: HTMLInputElement;
 	quantStepSlider: HTMLInputElement;
 	forcePixelsWInput: HTMLInputElement;
 	forcePixelsHInput: HTMLInputElement;
 	sampleWindowInput: HTMLInputElement;
 	sampleWindowSlider: HTMLInputElement;
+	cellSamplerSelect: HTMLSelectElement;
 	toleranceInput: HTMLInputElement;
 	toleranceSlider: HTMLInputElement;
 	preRemoveCheck: HTMLInputElement;
@@ -55,6 +112,18 @@ type Elements = {
 	removeInnerBackgroundCheck: HTMLInputElement;
 	trimToContentCheck: HTMLInputElement;
 	fastAutoGridFromTrimmedCheck: HTMLInputElement;
+	nonUniformGridCheck: HTMLInputElement;
+	gridDetectorSelect: HTMLSelectElement;
+	deskewCheck: HTMLInputElement;
+	restoreArtifactsCheck: HTMLInputElement;
+	spriteSliceModeSelect: HTMLSelectElement;
+	spriteColumnsInput: HTMLInputElement;
+	spriteRowsInput: HTMLInputElement;
+	spriteSliceButton: HTMLButtonElement;
+	atlasPackMethodSelect: HTMLSelectElement;
+	atlasPaddingInput: HTMLInputElement;
+	atlasPowerOfTwoCheck: HTMLInputElement;
+	animationGridSourceSelect: HTMLSelectElement;
 	enableGridDetectionCheck: HTMLInputElement;
 	reduceColorModeSelect: HTMLSelectElement;
 	ditherModeSelect: HTMLSelectElement;
@@ -64,14 +133,35 @@ type Elements = {
 	ditherStrengthInput: HTMLInputElement;
 	ditherStrengthSlider: HTMLInputElement;
 	ditherStrengthSetting: HTMLElement;
+	ditherSerpentineCheck: HTMLInputElement;
+	ditherSerpentineSetting: HTMLElement;
+	ditherMaskingCheck: HTMLInputElement;
+	ditherMaskingSetting: HTMLElement;
+	ditherMaskThresholdSlider: HTMLInputElement;
+	ditherMaskThresholdInput: HTMLInputElement;
+	ditherMaskThresholdSetting: HTMLElement;
+	ditherMaskSetting: HTMLElement;
+	ditherMaskButton: HTMLButtonElement;
+	ditherMaskClearButton: HTMLButtonElement;
+	ditherMaskInput: HTMLInputElement;
 
 	outlineStyleSelect: HTMLSelectElement;
 	outlineColorInput: HTMLInputElement;
 
+	alphaPolicySelect: HTMLSelectElement;
+	alphaThresholdInput: HTMLInputElement;
+	alphaThresholdSetting: HTMLElement;
+	alphaLevelsInput: HTMLInputElement;
+	alphaLevelsSetting: HTMLElement;
+	hardwareProfileSelect: HTMLSelectElement;
+	enforceHardwareConstraintsCheck: HTMLInputElement;
+	enforceHardwareConstraintsSetting: HTMLElement;
+
 	floatingMaxPercentInput: HTMLInputElement;
 	floatingMaxPercentSlider: HTMLInputElement;
 	zoomOutputCheck: HTMLInputElement;
 	gridOutputCheck: HTMLInputElement;
+	confidenceOutputCheck: HTMLInputElement;
 	outputPanel: HTMLElement;
 	loadingOverlay: HTMLElement;
 	enableBgRemovalCheck: HTMLInputElement;
@@ -89,10 +179,17 @@ type Elements = {
 	// Palette UI
 	// Palette UI
 	paletteColors: HTMLElement;
-	exportGPLButton: HTMLButtonElement;
+	exportPaletteButton: HTMLButtonElement;
+	paletteExportFormat: HTMLSelectElement;
 	exportPNGButton: HTMLButtonElement;
 	fixedPaletteImportButton: HTMLButtonElement;
 	showPaletteButton: HTMLButtonElement;
+	paletteExtractSetting: HTMLElement;
+	paletteExtractMethodSelect: HTMLSelectElement;
+	paletteExtractCountInput: HTMLInputElement;
+	fixedPalettePreview: HTMLElement;
+	batchPaletteButton: HTMLButtonElement;
+	batchPaletteExportButton: HTMLButtonElement;
 	paletteModal: HTMLElement;
 	closePaletteModal: HTMLButtonElement;
 	paletteFileInput: HTMLInputElement;
@@ -127,6 +224,9 @@ type Elements = {
 	presetModal: HTMLElement;
 	closePresetModal: HTMLButtonElement;
 	presetModalList: HTMLElement;
+	importRecipeButton: HTMLButtonElement;
+	exportRecipeButton: HTMLButtonElement;
+	recipeFileInput: HTMLInputElement;
 };
 
 const getElements = (): Elements => {
@@ -148,12 +248,24 @@ const getElements = (): Elements => {
 		originalCanvas: get<HTMLCanvasElement>("original-canvas"),
 		inputSize: get<HTMLElement>("input-size"),
 		outputSize: get<HTMLElement>("output-size"),
+		gridConfidenceWarning: get<HTMLElement>("grid-confidence-warning"),
+		constraintWarning: get<HTMLElement>("constraint-warning"),
+		manualGridToggle: get<HTMLInputElement>("manual-grid-toggle"),
+		manualGridReset: get<HTMLButtonElement>("manual-grid-reset"),
+		manualGridInfo: get<HTMLElement>("manual-grid-info"),
+		gridEditorCanvas: get<HTMLCanvasElement>("grid-editor-canvas"),
+		perspectiveToggle: get<HTMLInputElement>("perspective-toggle"),
+		perspectiveReset: get<HTMLButtonElement>("perspective-reset"),
+		perspectiveEditorCanvas: get<HTMLCanvasElement>(
+			"perspective-editor-canvas",
+		),
 		quantStepInput: get<HTMLInputElement>("quant-step"),
 		quantStepSlider: get<HTMLInputElement>("quant-step-slider"),
 		forcePixelsWInput: get<HTMLInputElement>("force-pixels-w"),
 		forcePixelsHInput: get<HTMLInputElement>("force-pixels-h"),
 		sampleWindowInput: get<HTMLInputElement>("sample-window"),
 		sampleWindowSlider: get<HTMLInputElement>("sample-window-slider"),
+		cellSamplerSelect: get<HTMLSelectElement>("cell-sampler"),
 		toleranceInput: get<HTMLInputElement>("tolerance"),
 		toleranceSlider: get<HTMLInputElement>("tolerance-slider"),
 		preRemoveCheck: get<HTMLInputElement>("pre-remove"),
@@ -165,6 +277,18 @@ const getElements = (): Elements => {
 		fastAutoGridFromTrimmedCheck: get<HTMLInputElement>(
 			"fast-auto-grid-from-trimmed",
 		),
+		nonUniformGridCheck: get<HTMLInputElement>("non-uniform-grid"),
+		gridDetectorSelect: get<HTMLSelectElement>("grid-detector"),
+		deskewCheck: get<HTMLInputElement>("deskew"),
+		restoreArtifactsCheck: get<HTMLInputElement>("restore-artifacts"),
+		spriteSliceModeSelect: get<HTMLSelectElement>("sprite-slice-mode"),
+		spriteColumnsInput: get<HTMLInputElement>("sprite-columns"),
+		spriteRowsInput: get<HTMLInputElement>("sprite-rows"),
+		spriteSliceButton: get<HTMLButtonElement>("sprite-slice-button"),
+		atlasPackMethodSelect: get<HTMLSelectElement>("atlas-pack-method"),
+		atlasPaddingInput: get<HTMLInputElement>("atlas-padding"),
+		atlasPowerOfTwoCheck: get<HTMLInputElement>("atlas-power-of-two"),
+		animationGridSourceSelect: get<HTMLSelectElement>("animation-grid-source"),
 		enableGridDetectionCheck: get<HTMLInputElement>("enable-grid-detection"),
 		reduceColorModeSelect: get<HTMLSelectElement>("reduce-color-mode"),
 		ditherModeSelect: get<HTMLSelectElement>("dither-mode"),
@@ -174,16 +298,45 @@ const getElements = (): Elements => {
 		ditherStrengthInput: get<HTMLInputElement>("dither-strength"),
 		ditherStrengthSlider: get<HTMLInputElement>("dither-strength-slider"),
 		ditherStrengthSetting: get<HTMLElement>("dither-strength-setting"),
+		ditherSerpentineCheck: get<HTMLInputElement>("dither-serpentine"),
+		ditherSerpentineSetting: get<HTMLElement>("dither-serpentine-setting"),
+		ditherMaskingCheck: get<HTMLInputElement>("dither-masking"),
+		ditherMaskingSetting: get<HTMLElement>("dither-masking-setting"),
+		ditherMaskThresholdSlider: get<HTMLInputElement>(
+			"dither-mask-threshold-slider",
+		),
+		ditherMaskThresholdInput: get<HTMLInputElement>("dither-mask-threshold"),
+		ditherMaskThresholdSetting: get<HTMLElement>(
+			"dither-mask-threshold-setting",
+		),
+		ditherMaskSetting: get<HTMLElement>("dither-mask-setting"),
+		ditherMaskButton: get<HTMLButtonElement>("dither-mask-button"),
+		ditherMaskClearButton: get<HTMLButtonElement>("dither-mask-clear-button"),
+		ditherMaskInput: get<HTMLInputElement>("dither-mask-input"),
 
 		outlineStyleSelect: get<HTMLSelectElement>("outline-style"),
 		outlineColorInput: get<HTMLInputElement>("outline-color"),
 
+		alphaPolicySelect: get<HTMLSelectElement>("alpha-policy"),
+		alphaThresholdInput: get<HTMLInputElement>("alpha-threshold"),
+		alphaThresholdSetting: get<HTMLElement>("alpha-threshold-setting"),
+		alphaLevelsInput: get<HTMLInputElement>("alpha-levels"),
+		alphaLevelsSetting: get<HTMLElement>("alpha-levels-setting"),
+		hardwareProfileSelect: get<HTMLSelectElement>("hardware-profile"),
+		enforceHardwareConstraintsCheck: get<HTMLInputElement>(
+			"enforce-hardware-constraints",
+		),
+		enforceHardwareConstraintsSetting: get<HTMLElement>(
+			"enforce-hardware-constraints-setting",
+		),
+
 		floatingMaxPercentInput: get<HTMLInputElement>("floating-max-percent"),
 		floatingMaxPercentSlider: get<HTMLInputElement>(
 			"floating-max-percent-slider",
 		),
 		zoomOutputCheck: get<HTMLInputElement>("zoom-output"),
 		gridOutputCheck: get<HTMLInputElement>("grid-output"),
+		confidenceOutputCheck: get<HTMLInputElement>("confidence-output"),
 		outputPanel: get<HTMLElement>("output-panel"),
 		loadingOverlay: get<HTMLElement>("loading-overlay"),
 		enableBgRemovalCheck: get<HTMLInputElement>("enable-bg-removal"),
@@ -197,12 +350,23 @@ const getElements = (): Elements => {
 		eyedropperCanvas: get<HTMLCanvasElement>("eyedropper-canvas"),
 		autoProcessToggle: get<HTMLInputElement>("auto-process-toggle"),
 		paletteColors: get<HTMLElement>("palette-colors"),
-		exportGPLButton: get<HTMLButtonElement>("export-gpl-button"),
+		exportPaletteButton: get<HTMLButtonElement>("export-palette-button"),
+		paletteExportFormat: get<HTMLSelectElement>("palette-export-format"),
 		exportPNGButton: get<HTMLButtonElement>("export-png-button"),
 		fixedPaletteImportButton: get<HTMLButtonElement>(
 			"fixed-palette-import-button",
 		),
 		showPaletteButton: get<HTMLButtonElement>("show-palette-button"),
+		paletteExtractSetting: get<HTMLElement>("palette-extract-setting"),
+		paletteExtractMethodSelect: get<HTMLSelectElement>(
+			"palette-extract-method",
+		),
+		paletteExtractCountInput: get<HTMLInputElement>("palette-extract-count"),
+		fixedPalettePreview: get<HTMLElement>("fixed-palette-preview"),
+		batchPaletteButton: get<HTMLButtonElement>("batch-palette-button"),
+		batchPaletteExportButton: get<HTMLButtonElement>(
+			"batch-palette-export-button",
+		),
 		paletteModal: get<HTMLElement>("palette-modal"),
 		closePaletteModal: get<HTMLButtonElement>("close-palette-modal"),
 		paletteFileInput: get<HTMLInputElement>("palette-file-input"),
@@ -242,6 +406,9 @@ const getElements = (): Elements => {
 		presetModal: get<HTMLElement>("preset-modal"),
 		closePresetModal: get<HTMLButtonElement>("close-preset-modal"),
 		presetModalList: get<HTMLElement>("preset-modal-list"),
+		importRecipeButton: get<HTMLButtonElement>("import-recipe-button"),
+		exportRecipeButton: get<HTMLButtonElement>("export-recipe-button"),
+		recipeFileInput: get<HTMLInputElement>("recipe-file-input"),
 	};
 };
 
@@ -304,6 +471,7 @@ const STORAGE_KEY = "pixel-refiner-display-settings";
 type SavedSettings = {
 	zoomOutput?: boolean;
 	gridOutput?: boolean;
+	confidenceOutput?: boolean;
 	bgType?: string;
 	autoProcess?: boolean;
 };
@@ -449,10 +617,12 @@ export const initApp = (): void => {
 		bgType?: string,
 		zoom?: boolean,
 		grid?: boolean,
+		confidence?: boolean,
 	) => {
 		if (bgType !== undefined) target.setBackground(bgType);
 		if (zoom !== undefined) target.setZoom(zoom);
 		if (grid !== undefined) target.setGrid(grid);
+		if (confidence !== undefined) target.setConfidenceVisible(confidence);
 		saveSettings();
 	};
 
@@ -496,9 +666,80 @@ export const initApp = (): void => {
 		link.click();
 	};
 
+	// 全画像を現在の設定で処理し直し、成功したものを返す
+	const processAllImages = async (): Promise<ImageItem[]> => {
+		// User Request: Force re-process to apply current settings
+		const imagesToProcess = imageSession.getImages();
+
+		if (imagesToProcess.length > 0) {
+			const originalActiveId = imageSession.getActiveImage()?.id;
+
+			for (let i = 0; i < imagesToProcess.length; i++) {
+				const img = imagesToProcess[i];
+				const index = i + 1;
+				const total = imagesToProcess.length;
+
+				// Update loading text
+				const statusText = i18n.t("status.processing_batch", {
+					current: index,
+					total: total,
+				});
+				const loadingTextEl = els.loadingOverlay.querySelector(".loading-text");
+				if (loadingTextEl) {
+					loadingTextEl.textContent = statusText;
+				}
+
+				imageSession.setActiveImage(img.id);
+				// Wait a tick for UI to update (inputs to reflect, though they shouldn't change for same session if global)
+				await new Promise((r) => setTimeout(r, 10));
+
+				await runProcessing();
+			}
+
+			// Restore original active image
+			if (originalActiveId) {
+				imageSession.setActiveImage(originalActiveId);
+			}
+		}
+
+		// Re-fetch images to get updated results
+		const processed = imageSession
+			.getImages()
+			.filter((img) => img.status === "done" && img.result);
+		if (processed.length === 0) {
+			throw new Error("No successfully processed images.");
+		}
+		return processed;
+	};
+
+	// 元のファイル名から、重複しない出力ファイル名を作る
+	const uniqueFileName = (
+		used: Set<string>,
+		file: File,
+		suffix: string,
+	): string => {
+		const name = file.name.replace(/\.[^/.]+$/, ""); // Remove extension
+		let filename = `${name}${suffix}.png`;
+		let counter = 1;
+		while (used.has(filename)) {
+			filename = `${name}${suffix}_${counter}.png`;
+			counter++;
+		}
+		used.add(filename);
+		return filename;
+	};
+
+	const downloadBlob = (blob: Blob, filename: string) => {
+		const url = URL.createObjectURL(blob);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = filename;
+		link.click();
+		setTimeout(() => URL.revokeObjectURL(url), 1000);
+	};
+
 	const handleDownloadAll = async (scale = 1) => {
-		const allImages = imageSession.getImages();
-		if (allImages.length === 0) {
+		if (imageSession.getImages().length === 0) {
 			showError(
 				i18n.t("error.no_processed_images") ||
 					"No processed images to download.",
@@ -508,50 +749,7 @@ export const initApp = (): void => {
 
 		els.loadingOverlay.style.display = "flex";
 		try {
-			// 1. Process ALL images (User Request: Force re-process to apply current settings)
-			const imagesToProcess = [...allImages];
-
-			if (imagesToProcess.length > 0) {
-				const originalActiveId = imageSession.getActiveImage()?.id;
-
-				for (let i = 0; i < imagesToProcess.length; i++) {
-					const img = imagesToProcess[i];
-					const index = i + 1;
-					const total = imagesToProcess.length;
-
-					// Update loading text
-					const statusText = i18n.t("status.processing_batch", {
-						current: index,
-						total: total,
-					});
-					const loadingTextEl =
-						els.loadingOverlay.querySelector(".loading-text");
-					if (loadingTextEl) {
-						loadingTextEl.textContent = statusText;
-					}
-
-					imageSession.setActiveImage(img.id);
-					// Wait a tick for UI to update (inputs to reflect, though they shouldn't change for same session if global)
-					await new Promise((r) => setTimeout(r, 10));
-
-					await runProcessing();
-				}
-
-				// Restore original active image
-				if (originalActiveId) {
-					imageSession.setActiveImage(originalActiveId);
-				}
-			}
-
-			// 2. Create ZIP
-			// Re-fetch images to get updated results
-			const imagesToZip = imageSession
-				.getImages()
-				.filter((img) => img.status === "done" && img.result);
-
-			if (imagesToZip.length === 0) {
-				throw new Error("No successfully processed images.");
-			}
+			const imagesToZip = await processAllImages();
 
 			const zip = new JSZip();
 			const filenames = new Set<string>();
@@ -559,20 +757,11 @@ export const initApp = (): void => {
 			for (const img of imagesToZip) {
 				if (!img.result) continue;
 
-				const name = img.file.name.replace(/\.[^/.]+$/, ""); // Remove extension
-				let filename =
-					scale === 1 ? `${name}_refined.png` : `${name}_refined_x${scale}.png`;
-
-				// Avoid duplicates
-				let counter = 1;
-				while (filenames.has(filename)) {
-					filename =
-						scale === 1
-							? `${name}_refined_${counter}.png`
-							: `${name}_refined_x${scale}_${counter}.png`;
-					counter++;
-				}
-				filenames.add(filename);
+				const filename = uniqueFileName(
+					filenames,
+					img.file,
+					scale === 1 ? "_refined" : `_refined_x${scale}`,
+				);
 
 				const canvas = document.createElement("canvas");
 				if (scale === 1) {
@@ -591,14 +780,65 @@ export const initApp = (): void => {
 			}
 
 			const content = await zip.generateAsync({ type: "blob" });
-			const url = URL.createObjectURL(content);
-			const link = document.createElement("a");
-			link.href = url;
 			const timestamp = getTimestampString();
 			const suffix = scale === 1 ? "" : `_x${scale}`;
-			link.download = `refined_batch${suffix}_${timestamp}.zip`;
-			link.click();
-			setTimeout(() => URL.revokeObjectURL(url), 1000);
+			downloadBlob(content, `refined_batch${suffix}_${timestamp}.zip`);
+		} catch (e) {
+			console.error(e);
+			showError(`${i18n.t("error.download_failed")}: ${(e as Error).message}`);
+		} finally {
+			els.loadingOverlay.style.display = "none";
+		}
+	};
+
+	// 全画像の結果を 1 枚のアトラス PNG と JSON (Hash) のフレームデータにまとめる
+	const handleDownloadAtlas = async () => {
+		if (imageSession.getImages().length === 0) {
+			showError(
+				i18n.t("error.no_processed_images") ||
+					"No processed images to download.",
+			);
+			return;
+		}
+
+		els.loadingOverlay.style.display = "flex";
+		try {
+			const processed = await processAllImages();
+			const filenames = new Set<string>();
+			const atlas = packAtlas(
+				processed.flatMap((img) =>
+					img.result
+						? [
+								{
+									name: uniqueFileName(filenames, img.file, ""),
+									image: img.result,
+								},
+							]
+						: [],
+				),
+				{
+					method:
+						els.atlasPackMethodSelect.value === "shelf" ? "shelf" : "maxrects",
+					padding: clampInt(
+						Number(els.atlasPaddingInput.value),
+						PROCESS_RANGES.atlasPadding,
+					),
+					powerOfTwo: els.atlasPowerOfTwoCheck.checked,
+				},
+			);
+
+			const canvas = document.createElement("canvas");
+			drawRawImageToCanvas(atlas.image, canvas);
+			const png = await new Promise<Blob | null>((resolve) =>
+				canvas.toBlob(resolve, "image/png"),
+			);
+			if (!png) throw new Error("Failed to encode the atlas image.");
+
+			const zip = new JSZip();
+			zip.file("atlas.png", png);
+			zip.file("atlas.json", createAtlasJson(atlas, "atlas.png"));
+			const content = await zip.generateAsync({ type: "blob" });
+			downloadBlob(content, `refined_atlas_${getTimestampString()}.zip`);
 		} catch (e) {
 			console.error(e);
 			showError(`${i18n.t("error.download_failed")}: ${(e as Error).message}`);
@@ -607,6 +847,84 @@ export const initApp = (): void => {
 		}
 	};
 
+	// アニメーションの結果を GIF / APNG / フレームストリップ（横並びの PNG）で書き出す
+	const handleDownloadAnimation = async (format: AnimationExportFormat) => {
+		const animation = imageSession.getActiveImage()?.animationResult;
+		if (!animation) return;
+
+		const timestamp = getTimestampString();
+		try {
+			if (format === "gif") {
+				const bytes = encodeGif(animation);
+				downloadBlob(
+					new Blob([bytes], { type: "image/gif" }),
+					`refined_${timestamp}.gif`,
+				);
+			} else if (format === "apng") {
+				downloadBlob(
+					await animationToApngBlob(animation),
+					`refined_${timestamp}.png`,
+				);
+			} else {
+				const strip = createFrameStrip(animation.frames.map((f) => f.image));
+				downloadBlob(
+					await rawImageToPngBlob(strip),
+					`refined_strip_${timestamp}.png`,
+				);
+			}
+		} catch (e) {
+			console.error(e);
+			showError(`${i18n.t("error.download_failed")}: ${(e as Error).message}`);
+		}
+	};
+
+	// 結果をインデックスカラー（PLTE + tRNS）の PNG で書き出す。透明色はインデックス 0 に置く
+	const handleDownloadIndexed = (order: IndexedPaletteOrder) => {
+		const currentResult = imageSession.getActiveImage()?.result;
+		if (!currentResult) return;
+
+		try {
+			// 固定パレット・レトロ機のパレットの順。ない場合は使った色（明るい順）にする
+			const processPalette = getProcessPalette(collectProcessOptions());
+			const palette =
+				order === "luminance"
+					? sortPalette(processPalette ?? currentExtractedPalette)
+					: processPalette;
+			const bytes = encodeIndexedPng(currentResult, { palette });
+			downloadBlob(
+				new Blob([bytes], { type: "image/png" }),
+				`refined_indexed_${getTimestampString()}.png`,
+			);
+		} catch (e) {
+			console.error(e);
+			showError(`${i18n.t("error.download_failed")}: ${(e as Error).message}`);
+		}
+	};
+
+	// 結果を 8×8 のタイルに分け、タイルデータ・タイルマップ・パレットを ZIP で書き出す
+	const handleDownloadTiles = async (format: TileFormat) => {
+		const currentResult = imageSession.getActiveImage()?.result;
+		if (!currentResult) return;
+
+		try {
+			const zip = new JSZip();
+			for (const file of tileExportFiles(
+				exportTiles(currentResult, format),
+				"tiles",
+			)) {
+				zip.file(file.name, file.data);
+			}
+			const content = await zip.generateAsync({ type: "blob" });
+			downloadBlob(
+				content,
+				`refined_tiles_${format}_${getTimestampString()}.zip`,
+			);
+		} catch (e) {
+			console.error(e);
+			showError(`${i18n.t("error.download_failed")}: ${(e as Error).message}`);
+		}
+	};
+
 	els.downloadAllButton.addEventListener("click", () => handleDownloadAll(1));
 
 	els.downloadAllDropdownButton.addEventListener("click", (e) => {
@@ -618,7 +936,9 @@ export const initApp = (): void => {
 		const btn = (e.target as HTMLElement).closest("button");
 		if (btn) {
 			const scale = Number(btn.dataset.scale);
-			if (scale) {
+			if (btn.dataset.atlas !== undefined) {
+				handleDownloadAtlas();
+			} else if (scale) {
 				handleDownloadAll(scale);
 			}
 			els.downloadAllMenu.classList.remove("show");
@@ -637,7 +957,19 @@ export const initApp = (): void => {
 			syncViewers(mainResultViewer, modalResultViewer, undefined, z),
 		onGridToggle: (g) =>
 			syncViewers(mainResultViewer, modalResultViewer, undefined, undefined, g),
+		onConfidenceToggle: (c) =>
+			syncViewers(
+				mainResultViewer,
+				modalResultViewer,
+				undefined,
+				undefined,
+				undefined,
+				c,
+			),
 		onDownload: (scale) => handleDownload(scale),
+		onDownloadAnimation: (format) => handleDownloadAnimation(format),
+		onDownloadIndexed: (order) => handleDownloadIndexed(order),
+		onDownloadTiles: (format) => handleDownloadTiles(format),
 		onCompare: () => openCompareModal(),
 		onImageClick: () => {
 			resultModalController.open();
@@ -654,13 +986,157 @@ export const initApp = (): void => {
 			syncViewers(modalResultViewer, mainResultViewer, undefined, z),
 		onGridToggle: (g) =>
 			syncViewers(modalResultViewer, mainResultViewer, undefined, undefined, g),
+		onConfidenceToggle: (c) =>
+			syncViewers(
+				modalResultViewer,
+				mainResultViewer,
+				undefined,
+				undefined,
+				undefined,
+				c,
+			),
 		onDownload: (scale) => handleDownload(scale),
+		onDownloadAnimation: (format) => handleDownloadAnimation(format),
+		onDownloadIndexed: (order) => handleDownloadIndexed(order),
+		onDownloadTiles: (format) => handleDownloadTiles(format),
 		onCompare: () => {
 			closeResultModal();
 			openCompareModal();
 		},
 	});
 
+	// 自動グリッド検出の信頼度が低いときは「指定ピクセル」の利用を促す
+	const updateGridWarning = (diagnostics: GridDiagnostics | undefined) => {
+		const warning = els.gridConfidenceWarning;
+		if (!diagnostics?.lowConfidence) {
+			warning.hidden = true;
+			warning.removeAttribute("title");
+			return;
+		}
+		const [bestX] = diagnostics.x.candidates;
+		const [bestY] = diagnostics.y.candidates;
+		const candidates = (axis: AxisDiagnostics) =>
+			axis.candidates.map((c) => Math.round(c.cellSize)).join("/");
+		warning.title = i18n.t("warning.grid_low_confidence_detail", {
+			cellW: bestX ? Math.round(bestX.cellSize) : "?",
+			cellH: bestY ? Math.round(bestY.cellSize) : "?",
+			confidence: Math.round(diagnostics.confidence * 100),
+			candidates: `x ${candidates(diagnostics.x)}, y ${candidates(diagnostics.y)}`,
+		});
+		warning.hidden = false;
+	};
+
+	// 結果の画素ごとの確からしさ（ヒートマップ）を両方の表示に渡す
+	const updateConfidence = (confidence: ConfidenceMap | undefined) => {
+		mainResultViewer.setConfidence(confidence ?? null);
+		modalResultViewer.setConfidence(confidence ?? null);
+	};
+
+	// 機種の制約に収まらない範囲を警告に数え、結果の上に赤枠で示す
+	const updateConstraintWarning = (
+		violations: ConstraintViolation[] | undefined,
+	) => {
+		const list = violations ?? [];
+		mainResultViewer.setHighlights(list);
+		modalResultViewer.setHighlights(list);
+		const warning = els.constraintWarning;
+		if (list.length === 0) {
+			warning.hidden = true;
+			warning.textContent = "";
+			warning.removeAttribute("title");
+			return;
+		}
+		const colors = list.filter((v) => v.kind === "colors").length;
+		warning.textContent = i18n.t("warning.constraint_violations", {
+			count: list.length,
+		});
+		warning.title = i18n.t("warning.constraint_violations_detail", {
+			profile:
+				els.hardwareProfileSelect.selectedOptions[0]?.textContent?.trim() ??
+				els.hardwareProfileSelect.value,
+			count: list.length,
+			colors,
+			palettes: list.length - colors,
+		});
+		warning.hidden = false;
+	};
+
+	const gridEditor = new GridEditor(
+		els.inputCanvasContainer,
+		els.originalCanvas,
+		els.gridEditorCanvas,
+	);
+
+	// 手動グリッドは元画像の上で編集するので、補正後の画像とは座標が合わない。
+	// deskew や射影補正をするときは手動グリッドを使わず、編集もできないようにする
+	const usesGeometryCorrection = (item: ImageItem | null): boolean =>
+		els.deskewCheck.checked || !!item?.perspectiveQuad;
+
+	// 手動グリッドの有無を入力パネルの表示に反映する
+	const updateManualGridInfo = (grid: ManualGrid | undefined) => {
+		const corrected = usesGeometryCorrection(imageSession.getActiveImage());
+		els.manualGridToggle.disabled = corrected;
+		if (corrected) {
+			els.manualGridToggle.checked = false;
+			gridEditor.setEnabled(false);
+		}
+		els.manualGridReset.hidden = !grid;
+		els.manualGridInfo.hidden = !grid;
+		if (!grid) return;
+		if (corrected) {
+			els.manualGridInfo.textContent = i18n.t("ui.manual_grid_unused");
+			return;
+		}
+		const fmt = (v: number) => String(Math.round(v * 10) / 10);
+		els.manualGridInfo.textContent = i18n.t("ui.manual_grid_info", {
+			cellW: fmt(grid.cellW),
+			cellH: fmt(grid.cellH),
+			offsetX: fmt(grid.offsetX),
+			offsetY: fmt(grid.offsetY),
+		});
+	};
+
+	const perspectiveEditor = new PerspectiveEditor(
+		els.inputCanvasContainer,
+		els.originalCanvas,
+		els.perspectiveEditorCanvas,
+	);
+
+	const updatePerspectiveInfo = (quad: PerspectiveQuad | undefined) => {
+		els.perspectiveReset.hidden = !quad;
+	};
+
+	const updateDitherMaskInfo = (mask: RawImage | undefined) => {
+		els.ditherMaskClearButton.style.display = mask ? "" : "none";
+	};
+
+	const setManualGridEditing = (enabled: boolean) => {
+		els.manualGridToggle.checked = enabled;
+		gridEditor.setEnabled(enabled);
+	};
+
+	// 2 つのオーバーレイは同時に編集しない
+	const setPerspectiveEditing = (enabled: boolean) => {
+		els.perspectiveToggle.checked = enabled;
+		perspectiveEditor.setEnabled(enabled);
+	};
+
+	// 直近の処理結果のグリッドを、手動編集の初期値にする
+	const manualGridFromResult = (grid: PixelGrid | undefined): ManualGrid => {
+		if (!grid) {
+			const cell = PROCESS_RANGES.manualGridCell.default;
+			return { cellW: cell, cellH: cell, offsetX: 0, offsetY: 0 };
+		}
+		const cellW = Math.round(grid.cellW * 10) / 10;
+		const cellH = Math.round(grid.cellH * 10) / 10;
+		return {
+			cellW,
+			cellH,
+			offsetX: Math.round(grid.cropX ?? grid.offsetX) % cellW,
+			offsetY: Math.round(grid.cropY ?? grid.offsetY) % cellH,
+		};
+	};
+
 	const imageSession = new ImageSession({
 		onUpdate: () => {
 			updateImageList();
@@ -681,13 +1157,30 @@ export const initApp = (): void => {
 
 				// Update Viewers
 				drawRawImageToCanvas(item.original, els.originalCanvas);
+				gridEditor.setImageSize(item.original.width, item.original.height);
+				gridEditor.setGrid(item.manualGrid ?? null);
+				setManualGridEditing(false);
+				updateManualGridInfo(item.manualGrid);
+				perspectiveEditor.setImageSize(
+					item.original.width,
+					item.original.height,
+				);
+				perspectiveEditor.setQuad(item.perspectiveQuad ?? null);
+				setPerspectiveEditing(false);
+				updatePerspectiveInfo(item.perspectiveQuad);
+				updateDitherMaskInfo(item.ditherMask);
 
 				// If result exists, show it. If not, clear output?
+				mainResultViewer.setAnimationAvailable(!!item.animationResult);
+				modalResultViewer.setAnimationAvailable(!!item.animationResult);
 				if (item.result) {
 					mainResultViewer.updateImage(item.result);
 					modalResultViewer.updateImage(item.result);
 					els.outputPanel.classList.add("has-image");
 					els.outputSize.textContent = `${item.result.width}x${item.result.height} px`;
+					updateGridWarning(item.gridDiagnostics);
+					updateConstraintWarning(item.constraintViolations);
+					updateConfidence(item.confidence);
 					els.downloadButton.style.display = "flex";
 					els.downloadDropdownButton.style.display = "flex";
 
@@ -713,6 +1206,9 @@ export const initApp = (): void => {
 
 					els.outputPanel.classList.remove("has-image");
 					els.outputSize.textContent = "-";
+					updateGridWarning(undefined);
+					updateConstraintWarning(undefined);
+					updateConfidence(undefined);
 					els.downloadButton.style.display = "none";
 					els.downloadDropdownButton.style.display = "none";
 					els.downloadMenu.classList.remove("show");
@@ -736,6 +1232,13 @@ export const initApp = (): void => {
 				els.outputPanel.classList.remove("has-image");
 				els.inputSize.textContent = "-";
 				els.outputSize.textContent = "-";
+				updateGridWarning(undefined);
+				updateConstraintWarning(undefined);
+				updateConfidence(undefined);
+				setManualGridEditing(false);
+				updateManualGridInfo(undefined);
+				setPerspectiveEditing(false);
+				updatePerspectiveInfo(undefined);
 				const ctx = els.originalCanvas.getContext("2d");
 				ctx?.clearRect(
 					0,
@@ -807,6 +1310,7 @@ export const initApp = (): void => {
 		const settings: SavedSettings = {
 			zoomOutput: els.zoomOutputCheck.checked,
 			gridOutput: els.gridOutputCheck.checked,
+			confidenceOutput: els.confidenceOutputCheck.checked,
 			bgType: mainResultViewer.getBackgroundType(),
 			autoProcess: els.autoProcessToggle.checked,
 		};
@@ -822,6 +1326,10 @@ export const initApp = (): void => {
 				els.zoomOutputCheck.checked = settings.zoomOutput;
 			if (settings.gridOutput !== undefined)
 				els.gridOutputCheck.checked = settings.gridOutput;
+			if (settings.confidenceOutput !== undefined) {
+				mainResultViewer.setConfidenceVisible(settings.confidenceOutput);
+				modalResultViewer.setConfidenceVisible(settings.confidenceOutput);
+			}
 			if (settings.autoProcess !== undefined)
 				els.autoProcessToggle.checked = settings.autoProcess;
 
@@ -849,6 +1357,108 @@ export const initApp = (): void => {
 	let compareAfterUrl = "";
 	let compareBeforeMode: "original" | "sanitized" = "original";
 
+	// UI の設定値を ProcessOptions に変換する（処理・レシピ書き出しで共通）
+	const collectProcessOptions = (): ProcessOptions => {
+		const parseOptionalInt = (
+			input: HTMLInputElement,
+			range: { min: number; max: number; default: number },
+		): number | undefined => {
+			const s = input.value.trim();
+			if (s === "") return undefined;
+			const n = Number(s);
+			if (!Number.isFinite(n)) return undefined;
+			return clampInt(n, range);
+		};
+
+		const bgEnabled = els.enableBgRemovalCheck.checked;
+		const method = (
+			bgEnabled ? els.bgExtractionMethod.value : "none"
+		) as BgExtractionMethod;
+		const floatingMaxPercent = bgEnabled
+			? clampNumber(
+					Number(els.floatingMaxPercentInput.value),
+					PROCESS_RANGES.floatingMaxPercent,
+				)
+			: 0;
+		const reduceColorMode = els.reduceColorModeSelect.value;
+		const outlineHex = els.outlineColorInput.value;
+
+		return {
+			detectionQuantStep: clampInt(
+				Number(els.quantStepInput.value),
+				PROCESS_RANGES.detectionQuantStep,
+			),
+			forcePixelsW: parseOptionalInt(
+				els.forcePixelsWInput,
+				PROCESS_RANGES.forcePixelsW,
+			),
+			forcePixelsH: parseOptionalInt(
+				els.forcePixelsHInput,
+				PROCESS_RANGES.forcePixelsH,
+			),
+			preRemoveBackground: bgEnabled && els.preRemoveCheck.checked,
+			postRemoveBackground: bgEnabled && els.postRemoveCheck.checked,
+			removeInnerBackground:
+				bgEnabled && els.removeInnerBackgroundCheck.checked,
+			backgroundTolerance: clampInt(
+				Number(els.toleranceInput.value),
+				PROCESS_RANGES.backgroundTolerance,
+			),
+			sampleWindow: clampInt(
+				Number(els.sampleWindowInput.value),
+				PROCESS_RANGES.sampleWindow,
+			),
+			trimToContent: els.trimToContentCheck.checked,
+			fastAutoGridFromTrimmed: els.fastAutoGridFromTrimmedCheck.checked,
+			nonUniformGrid: els.nonUniformGridCheck.checked,
+			gridDetector: els.gridDetectorSelect.value as GridDetector,
+			cellSampler: els.cellSamplerSelect.value as CellSampler,
+			deskew: els.deskewCheck.checked,
+			restoreArtifacts: els.restoreArtifactsCheck.checked,
+			enableGridDetection: els.enableGridDetectionCheck.checked,
+			reduceColors: reduceColorMode !== "none",
+			reduceColorMode,
+			ditherMode: els.ditherModeSelect.value as DitherMode,
+			colorCount: clampInt(
+				Number(els.colorCountInput.value),
+				PROCESS_RANGES.colorCount,
+			),
+			ditherStrength: clampInt(
+				Number(els.ditherStrengthInput.value),
+				PROCESS_RANGES.ditherStrength,
+			),
+			ditherSerpentine: els.ditherSerpentineCheck.checked,
+			ditherMasking: els.ditherMaskingCheck.checked,
+			ditherMaskThreshold: clampInt(
+				Number(els.ditherMaskThresholdInput.value),
+				PROCESS_RANGES.ditherMaskThreshold,
+			),
+			floatingMaxPercent,
+			alphaPolicy: els.alphaPolicySelect.value as AlphaPolicy,
+			alphaThreshold: clampInt(
+				Number(els.alphaThresholdInput.value),
+				PROCESS_RANGES.alphaThreshold,
+			),
+			alphaLevels: clampInt(
+				Number(els.alphaLevelsInput.value),
+				PROCESS_RANGES.alphaLevels,
+			),
+			hardwareProfile: els.hardwareProfileSelect.value as HardwareProfile,
+			enforceHardwareConstraints: els.enforceHardwareConstraintsCheck.checked,
+			outlineStyle: els.outlineStyleSelect.value as OutlineStyle,
+			outlineColor: {
+				r: parseInt(outlineHex.slice(1, 3), 16),
+				g: parseInt(outlineHex.slice(3, 5), 16),
+				b: parseInt(outlineHex.slice(5, 7), 16),
+			},
+			bgExtractionMethod: method,
+			bgRgb: /^#?[0-9a-fA-F]{6}$/.test(els.bgRgbInput.value.trim())
+				? els.bgRgbInput.value.trim()
+				: undefined,
+			fixedPalette: currentFixedPalette,
+		};
+	};
+
 	// Processing Function
 	const runProcessing = async () => {
 		const images = imageSession.getImages();
@@ -878,107 +1488,24 @@ export const initApp = (): void => {
 		imageSession.setImageStatus(currentItem.id, "processing");
 
 		try {
-			const parseOptionalInt = (
-				input: HTMLInputElement,
-				range: { min: number; max: number; default: number },
-			): number | undefined => {
-				const s = input.value.trim();
-				if (s === "") return undefined;
-				const n = Number(s);
-				if (!Number.isFinite(n)) return undefined;
-				return clampInt(n, range);
-			};
-
-			const detectionQuantStep = clampInt(
-				Number(els.quantStepInput.value),
-				PROCESS_RANGES.detectionQuantStep,
-			);
-			const forcePixelsW = parseOptionalInt(
-				els.forcePixelsWInput,
-				PROCESS_RANGES.forcePixelsW,
-			);
-			const forcePixelsH = parseOptionalInt(
-				els.forcePixelsHInput,
-				PROCESS_RANGES.forcePixelsH,
-			);
-			const sampleWindow = clampInt(
-				Number(els.sampleWindowInput.value),
-				PROCESS_RANGES.sampleWindow,
-			);
-			const tolerance = clampInt(
-				Number(els.toleranceInput.value),
-				PROCESS_RANGES.backgroundTolerance,
-			);
-			const floatingMaxPercent = clampNumber(
-				Number(els.floatingMaxPercentInput.value),
-				PROCESS_RANGES.floatingMaxPercent,
-			);
-			const totalPixels = currentImage.width * currentImage.height;
-			const bgEnabled = els.enableBgRemovalCheck.checked;
-			const method = (
-				bgEnabled ? els.bgExtractionMethod.value : "none"
-			) as ProcessOptions["bgExtractionMethod"];
-			const floatingMaxPixels = bgEnabled
-				? floatingMaxPercent <= 0
-					? 0
-					: Math.min(
-							totalPixels,
-							Math.max(1, Math.ceil((floatingMaxPercent / 100) * totalPixels)),
-						)
-				: 0;
-
-			const colorCount = clampInt(
-				Number(els.colorCountInput.value),
-				PROCESS_RANGES.colorCount,
-			);
-
-			const reduceColorMode = els.reduceColorModeSelect.value;
-			const reduceColors = reduceColorMode !== "none";
-			const ditherMode = els.ditherModeSelect.value as DitherMode;
-
-			const ditherStrength = clampInt(
-				Number(els.ditherStrengthInput.value),
-				PROCESS_RANGES.ditherStrength,
-			);
-
-			const outlineStyle = els.outlineStyleSelect.value as OutlineStyle;
-			const outlineHex = els.outlineColorInput.value;
-			const outlineColor = {
-				r: parseInt(outlineHex.slice(1, 3), 16),
-				g: parseInt(outlineHex.slice(3, 5), 16),
-				b: parseInt(outlineHex.slice(5, 7), 16),
+			const options: ProcessOptions = {
+				...collectProcessOptions(),
+				manualGrid: usesGeometryCorrection(currentItem)
+					? undefined
+					: currentItem.manualGrid,
+				perspectiveQuad: currentItem.perspectiveQuad,
+				ditherMask: currentItem.ditherMask,
 			};
-
 			const {
 				result,
 				extractedPalette,
 				compareBefore,
 				compareBeforeSanitized,
-			} = await processor.process(currentImage, {
-				detectionQuantStep,
-				forcePixelsW,
-				forcePixelsH,
-				preRemoveBackground: bgEnabled && els.preRemoveCheck.checked,
-				postRemoveBackground: bgEnabled && els.postRemoveCheck.checked,
-				removeInnerBackground:
-					bgEnabled && els.removeInnerBackgroundCheck.checked,
-				backgroundTolerance: tolerance,
-				sampleWindow,
-				trimToContent: els.trimToContentCheck.checked,
-				fastAutoGridFromTrimmed: els.fastAutoGridFromTrimmedCheck.checked,
-				enableGridDetection: els.enableGridDetectionCheck.checked,
-				reduceColors,
-				reduceColorMode,
-				ditherMode,
-				colorCount,
-				ditherStrength,
-				floatingMaxPixels,
-				outlineStyle,
-				outlineColor,
-				bgExtractionMethod: method,
-				bgRgb: els.bgRgbInput.value,
-				fixedPalette: currentFixedPalette,
-			});
+				grid,
+				gridDiagnostics,
+				constraintViolations,
+				confidence,
+			} = await processor.process(currentImage, options);
 
 			// 転送されたデータは元のスレッドで使えなくなる（Comlinkの挙動に依存するが、
 			// 基本的にRawImageは再利用しない設計なので、ここで再代入しておく）
@@ -986,9 +1513,42 @@ export const initApp = (): void => {
 			// 明示的に transfer を使わない限り currentImage は維持される。
 			// 今回はシンプルさを優先してコピーのままにする。
 
-			const resultImage = result;
+			let resultImage = result;
 			// currentResult = resultImage; // No longer used directly
-			imageSession.updateImageResult(currentItem.id, resultImage);
+
+			// アニメーションは全フレームを共通のグリッド・パレットで処理し、先頭フレームを表示する
+			if (currentItem.animation) {
+				const { animation } = await processor.processAnimation(
+					currentItem.animation,
+					options,
+					{
+						gridSource:
+							els.animationGridSourceSelect.value === "first"
+								? "first"
+								: "shared",
+					},
+				);
+				imageSession.setAnimationResult(currentItem.id, animation);
+				resultImage = animation.frames[0].image;
+			}
+			mainResultViewer.setAnimationAvailable(!!currentItem.animation);
+			modalResultViewer.setAnimationAvailable(!!currentItem.animation);
+			// アニメーションは共通パレットで処理し直すので、先頭フレームだけの結果の制約は示さない
+			const violations = currentItem.animation
+				? undefined
+				: constraintViolations;
+			const confidenceMap = currentItem.animation ? undefined : confidence;
+			imageSession.updateImageResult(
+				currentItem.id,
+				resultImage,
+				grid,
+				gridDiagnostics,
+				violations,
+				confidenceMap,
+			);
+			updateGridWarning(gridDiagnostics);
+			updateConstraintWarning(violations);
+			updateConfidence(confidenceMap);
 
 			mainResultViewer.updateImage(resultImage);
 			modalResultViewer.updateImage(resultImage);
@@ -1201,11 +1761,41 @@ export const initApp = (): void => {
 			els.ditherStrengthSlider,
 			PROCESS_RANGES.ditherStrength,
 		);
+		setNumberInput(
+			els.ditherMaskThresholdInput,
+			els.ditherMaskThresholdSlider,
+			PROCESS_RANGES.ditherMaskThreshold,
+		);
 
 		els.forcePixelsWInput.min = String(PROCESS_RANGES.forcePixelsW.min);
 		els.forcePixelsWInput.max = String(PROCESS_RANGES.forcePixelsW.max);
 		els.forcePixelsHInput.min = String(PROCESS_RANGES.forcePixelsH.min);
 		els.forcePixelsHInput.max = String(PROCESS_RANGES.forcePixelsH.max);
+		for (const input of [els.spriteColumnsInput, els.spriteRowsInput]) {
+			input.min = String(PROCESS_RANGES.spriteGridCount.min);
+			input.max = String(PROCESS_RANGES.spriteGridCount.max);
+			input.value = String(PROCESS_RANGES.spriteGridCount.default);
+		}
+		for (const [input, range] of [
+			[els.alphaThresholdInput, PROCESS_RANGES.alphaThreshold],
+			[els.alphaLevelsInput, PROCESS_RANGES.alphaLevels],
+		] as const) {
+			input.min = String(range.min);
+			input.max = String(range.max);
+			input.value = String(range.default);
+		}
+		els.atlasPaddingInput.min = String(PROCESS_RANGES.atlasPadding.min);
+		els.atlasPaddingInput.max = String(PROCESS_RANGES.atlasPadding.max);
+		els.atlasPaddingInput.value = String(PROCESS_RANGES.atlasPadding.default);
+		els.paletteExtractCountInput.min = String(
+			PROCESS_RANGES.paletteExtractCount.min,
+		);
+		els.paletteExtractCountInput.max = String(
+			PROCESS_RANGES.paletteExtractCount.max,
+		);
+		els.paletteExtractCountInput.value = String(
+			PROCESS_RANGES.paletteExtractCount.default,
+		);
 
 		els.preRemoveCheck.checked = PROCESS_DEFAULTS.preRemoveBackground;
 		els.postRemoveCheck.checked = PROCESS_DEFAULTS.postRemoveBackground;
@@ -1214,9 +1804,20 @@ export const initApp = (): void => {
 		els.trimToContentCheck.checked = PROCESS_DEFAULTS.trimToContent;
 		els.fastAutoGridFromTrimmedCheck.checked =
 			PROCESS_DEFAULTS.fastAutoGridFromTrimmed;
+		els.nonUniformGridCheck.checked = PROCESS_DEFAULTS.nonUniformGrid;
+		els.gridDetectorSelect.value = PROCESS_DEFAULTS.gridDetector;
+		els.cellSamplerSelect.value = PROCESS_DEFAULTS.cellSampler;
+		els.deskewCheck.checked = PROCESS_DEFAULTS.deskew;
+		els.restoreArtifactsCheck.checked = PROCESS_DEFAULTS.restoreArtifacts;
 		els.enableGridDetectionCheck.checked = PROCESS_DEFAULTS.enableGridDetection;
 		els.reduceColorModeSelect.value = PROCESS_DEFAULTS.reduceColorMode;
 		els.ditherModeSelect.value = PROCESS_DEFAULTS.ditherMode;
+		els.ditherSerpentineCheck.checked = PROCESS_DEFAULTS.ditherSerpentine;
+		els.ditherMaskingCheck.checked = PROCESS_DEFAULTS.ditherMasking;
+		els.alphaPolicySelect.value = PROCESS_DEFAULTS.alphaPolicy;
+		els.hardwareProfileSelect.value = PROCESS_DEFAULTS.hardwareProfile;
+		els.enforceHardwareConstraintsCheck.checked =
+			PROCESS_DEFAULTS.enforceHardwareConstraints;
 
 		els.enableBgRemovalCheck.checked = true;
 
@@ -1245,12 +1846,23 @@ export const initApp = (): void => {
 		);
 		applyTooltipRange("help-color-count", PROCESS_RANGES.colorCount);
 		applyTooltipRange("help-dither-strength", PROCESS_RANGES.ditherStrength);
+		applyTooltipRange(
+			"help-dither-mask-threshold",
+			PROCESS_RANGES.ditherMaskThreshold,
+		);
+		applyTooltipRange("help-alpha-threshold", PROCESS_RANGES.alphaThreshold);
+		applyTooltipRange("help-alpha-levels", PROCESS_RANGES.alphaLevels);
 
 		// 言語切り替えボタンのイベントリスナー
 		document.querySelectorAll("[data-lang-btn]").forEach((el) => {
 			el.addEventListener("click", () => {
 				const lang = el.getAttribute("data-lang-btn") as "ja" | "en";
 				if (lang) i18n.setLanguage(lang);
+				updateGridWarning(imageSession.getActiveImage()?.gridDiagnostics);
+				updateConstraintWarning(
+					imageSession.getActiveImage()?.constraintViolations,
+				);
+				updateManualGridInfo(imageSession.getActiveImage()?.manualGrid);
 			});
 		});
 
@@ -1302,6 +1914,10 @@ export const initApp = (): void => {
 	syncSliderAndInput(els.floatingMaxPercentSlider, els.floatingMaxPercentInput);
 	syncSliderAndInput(els.colorCountSlider, els.colorCountInput);
 	syncSliderAndInput(els.ditherStrengthSlider, els.ditherStrengthInput);
+	syncSliderAndInput(
+		els.ditherMaskThresholdSlider,
+		els.ditherMaskThresholdInput,
+	);
 
 	// グリッド検出無効時のUI制御
 	const updateDisabledStates = () => {
@@ -1314,7 +1930,10 @@ export const initApp = (): void => {
 			els.forcePixelsHInput,
 			els.sampleWindowInput,
 			els.sampleWindowSlider,
+			els.cellSamplerSelect,
 			els.fastAutoGridFromTrimmedCheck,
+			els.nonUniformGridCheck,
+			els.gridDetectorSelect,
 		].forEach((el) => {
 			const item = el.closest(".setting-item");
 			if (item) {
@@ -1339,6 +1958,24 @@ export const initApp = (): void => {
 		const hasPalette = currentExtractedPalette.length > 0;
 		els.showPaletteButton.style.display =
 			hasPalette && hasImage ? "flex" : "none";
+
+		// 参照画像からの抽出設定と、固定パレットのプレビュー
+		els.paletteExtractSetting.style.display = isFixed ? "flex" : "none";
+		updateFixedPalettePreview(isFixed ? (currentFixedPalette ?? []) : []);
+	};
+
+	const updateFixedPalettePreview = (palette: RGB[]) => {
+		els.fixedPalettePreview.innerHTML = "";
+		for (const c of palette) {
+			const hex = `#${[c.r, c.g, c.b]
+				.map((x) => x.toString(16).padStart(2, "0"))
+				.join("")}`.toUpperCase();
+			const swatch = document.createElement("div");
+			swatch.className = "color-swatch";
+			swatch.style.backgroundColor = hex;
+			swatch.dataset.tooltip = hex;
+			els.fixedPalettePreview.appendChild(swatch);
+		}
 	};
 
 	const updateReduceColorsDisabledStates = () => {
@@ -1355,6 +1992,16 @@ export const initApp = (): void => {
 		const isDitherNone = ditherMode === "none";
 		// ディザリングが有効なら強度を表示
 		els.ditherStrengthSetting.style.display = !isDitherNone ? "flex" : "none";
+		// 蛇行走査は誤差拡散系のときだけ表示
+		els.ditherSerpentineSetting.style.display =
+			ERROR_DIFFUSION_DITHER_MODES.some((m) => m === ditherMode)
+				? "flex"
+				: "none";
+		// ディザリングの範囲の制限はディザリングが有効なときだけ表示
+		els.ditherMaskingSetting.style.display = !isDitherNone ? "flex" : "none";
+		els.ditherMaskThresholdSetting.style.display =
+			!isDitherNone && els.ditherMaskingCheck.checked ? "flex" : "none";
+		els.ditherMaskSetting.style.display = !isDitherNone ? "flex" : "none";
 
 		// 減色モードが None のときはディザリング設定を無効化
 		const ditherModeItem = els.ditherModeSelect.closest(".setting-item");
@@ -1368,6 +2015,16 @@ export const initApp = (): void => {
 			outlineColorItem.classList.toggle("disabled", !outlineEnabled);
 		}
 
+		// しきい値・段階数は選んだ扱いのものだけ表示
+		const alphaPolicy = els.alphaPolicySelect.value;
+		els.alphaThresholdSetting.style.display =
+			alphaPolicy === "binary" ? "flex" : "none";
+		els.alphaLevelsSetting.style.display =
+			alphaPolicy === "quantize" ? "flex" : "none";
+
+		els.enforceHardwareConstraintsSetting.style.display =
+			els.hardwareProfileSelect.value !== "none" ? "flex" : "none";
+
 		updatePaletteButtonVisibility();
 	};
 
@@ -1384,6 +2041,10 @@ export const initApp = (): void => {
 		updateReduceColorsDisabledStates();
 		triggerAutoProcess();
 	});
+	els.ditherMaskingCheck.addEventListener(
+		"change",
+		updateReduceColorsDisabledStates,
+	);
 
 	els.outlineStyleSelect.addEventListener("change", () => {
 		updateReduceColorsDisabledStates();
@@ -1391,6 +2052,16 @@ export const initApp = (): void => {
 	});
 	els.outlineColorInput.addEventListener("input", triggerAutoProcess);
 
+	els.alphaPolicySelect.addEventListener("change", () => {
+		updateReduceColorsDisabledStates();
+		triggerAutoProcess();
+	});
+
+	els.hardwareProfileSelect.addEventListener("change", () => {
+		updateReduceColorsDisabledStates();
+		triggerAutoProcess();
+	});
+
 	// ディザリング設定のUI制御（常に表示、ただし減色モードがNone以外のときのみ有効など検討可能）
 	// 現状はシンプルに維持
 	updateReduceColorsDisabledStates();
@@ -1498,11 +2169,14 @@ export const initApp = (): void => {
 	updateProcessButtonVisibility();
 
 	// 設定変更時に保存するための共通リスナー（表示条件のみ）
-	[els.zoomOutputCheck, els.gridOutputCheck, els.autoProcessToggle].forEach(
-		(el) => {
-			el.addEventListener("change", () => saveSettings());
-		},
-	);
+	[
+		els.zoomOutputCheck,
+		els.gridOutputCheck,
+		els.confidenceOutputCheck,
+		els.autoProcessToggle,
+	].forEach((el) => {
+		el.addEventListener("change", () => saveSettings());
+	});
 
 	// Auto Process トグル変更時にプロセスボタンの表示/非表示を切り替え
 	els.autoProcessToggle.addEventListener("change", () => {
@@ -1518,9 +2192,19 @@ export const initApp = (): void => {
 		els.removeInnerBackgroundCheck,
 		els.trimToContentCheck,
 		els.fastAutoGridFromTrimmedCheck,
+		els.nonUniformGridCheck,
+		els.gridDetectorSelect,
+		els.cellSamplerSelect,
+		els.deskewCheck,
+		els.restoreArtifactsCheck,
 		els.enableGridDetectionCheck,
 		els.reduceColorModeSelect,
 		els.ditherModeSelect,
+		els.ditherSerpentineCheck,
+		els.ditherMaskingCheck,
+		els.alphaThresholdInput,
+		els.alphaLevelsInput,
+		els.enforceHardwareConstraintsCheck,
 
 		els.bgExtractionMethod,
 		els.bgRgbInput,
@@ -1591,9 +2275,9 @@ export const initApp = (): void => {
 		);
 
 		if (imageFiles.length === 0) {
-			if (files.length > 0 && !files[0].name.endsWith(".gpl")) {
-				// If files were dropped but none were images (and not GPL), show error
-				// But we handle GPL separately in drop handler.
+			if (files.length > 0 && !isPaletteFileName(files[0].name)) {
+				// If files were dropped but none were images (and not a palette), show error
+				// But we handle palette files separately in drop handler.
 			}
 			return;
 		}
@@ -1603,8 +2287,15 @@ export const initApp = (): void => {
 			// Creating raw images is fast, sequential is fine.
 
 			for (const file of imageFiles) {
-				const raw = await imageToRawImage(file);
-				imageSession.addImage(file, raw);
+				// GIF / APNG は全フレームを読み込み、先頭フレームを元画像として扱う
+				const animation = await decodeAnimation(file).catch((err) => {
+					console.warn("Failed to decode animation frames", err);
+					return null;
+				});
+				const raw = animation
+					? animation.frames[0].image
+					: await imageToRawImage(file);
+				imageSession.addImage(file, raw, animation ?? undefined);
 			}
 
 			// Select the last added image (User Request)
@@ -1618,6 +2309,65 @@ export const initApp = (): void => {
 		}
 	};
 
+	// スプライトシートをフレームに分割し、アクティブ画像をフレーム群で置き換える
+	const updateSpriteSliceDisabledStates = () => {
+		const isGrid = els.spriteSliceModeSelect.value === "grid";
+		els.spriteColumnsInput.disabled = !isGrid;
+		els.spriteRowsInput.disabled = !isGrid;
+	};
+	els.spriteSliceModeSelect.addEventListener(
+		"change",
+		updateSpriteSliceDisabledStates,
+	);
+	updateSpriteSliceDisabledStates();
+
+	els.spriteSliceButton.addEventListener("click", async () => {
+		const item = imageSession.getActiveImage();
+		if (!item) return;
+
+		let entries: Array<{ file: File; raw: RawImage }> = [];
+		els.loadingOverlay.style.display = "flex";
+		try {
+			const frames = await processor.slice(
+				item.original,
+				{
+					mode: els.spriteSliceModeSelect.value === "grid" ? "grid" : "auto",
+					columns: clampInt(
+						Number(els.spriteColumnsInput.value),
+						PROCESS_RANGES.spriteGridCount,
+					),
+					rows: clampInt(
+						Number(els.spriteRowsInput.value),
+						PROCESS_RANGES.spriteGridCount,
+					),
+				},
+				collectProcessOptions(),
+			);
+			if (frames.length === 0) {
+				showError(i18n.t("error.no_sprites"));
+				return;
+			}
+			const name = item.file.name.replace(/\.[^/.]+$/, "");
+			const digits = String(frames.length).length;
+			entries = await Promise.all(
+				frames.map(async (frame, i) => ({
+					file: await rawImageToPngFile(
+						frame.image,
+						`${name}_${String(i + 1).padStart(digits, "0")}.png`,
+					),
+					raw: frame.image,
+				})),
+			);
+		} catch (e) {
+			console.error(e);
+			showError(`${i18n.t("error.process_failed")}: ${(e as Error).message}`);
+		} finally {
+			els.loadingOverlay.style.display = "none";
+		}
+		// 置き換え後の自動処理がローディング表示を使うので、表示を戻してから置き換える
+		imageSession.replaceImage(item.id, entries);
+	});
+
 	els.clearAllButton.addEventListener("click", () => {
 		if (confirm(i18n.t("ui.confirm_clear_all") || "Clear all images?")) {
 			imageSession.clearAll();
@@ -1644,6 +2394,93 @@ export const initApp = (): void => {
 		});
 	});
 
+	els.deskewCheck.addEventListener("change", () => {
+		updateManualGridInfo(imageSession.getActiveImage()?.manualGrid);
+	});
+
+	// 手動グリッド編集
+	els.manualGridToggle.addEventListener("change", () => {
+		const item = imageSession.getActiveImage();
+		if (!item) {
+			setManualGridEditing(false);
+			return;
+		}
+		if (els.manualGridToggle.checked) setPerspectiveEditing(false);
+		if (els.manualGridToggle.checked && !item.manualGrid) {
+			const grid = manualGridFromResult(item.grid);
+			gridEditor.setGrid(grid);
+			imageSession.setManualGrid(item.id, gridEditor.getGrid() ?? undefined);
+			updateManualGridInfo(item.manualGrid);
+			triggerAutoProcess();
+		}
+		gridEditor.setEnabled(els.manualGridToggle.checked);
+	});
+
+	els.manualGridReset.addEventListener("click", () => {
+		const item = imageSession.getActiveImage();
+		if (!item) return;
+		imageSession.setManualGrid(item.id, undefined);
+		gridEditor.setGrid(null);
+		setManualGridEditing(false);
+		updateManualGridInfo(undefined);
+		triggerAutoProcess();
+	});
+
+	gridEditor.setCallbacks({
+		onChange: (grid, committed) => {
+			const item = imageSession.getActiveImage();
+			if (!item) return;
+			imageSession.setManualGrid(item.id, grid);
+			updateManualGridInfo(grid);
+			if (committed) triggerAutoProcess();
+		},
+	});
+
+	// 射影補正（4 隅の指定）
+	els.perspectiveToggle.addEventListener("change", () => {
+		const item = imageSession.getActiveImage();
+		if (!item) {
+			setPerspectiveEditing(false);
+			return;
+		}
+		if (els.perspectiveToggle.checked) setManualGridEditing(false);
+		if (els.perspectiveToggle.checked && !item.perspectiveQuad) {
+			perspectiveEditor.setQuad(
+				defaultPerspectiveQuad(item.original.width, item.original.height),
+			);
+			imageSession.setPerspectiveQuad(
+				item.id,
+				perspectiveEditor.getQuad() ?? undefined,
+			);
+			updatePerspectiveInfo(item.perspectiveQuad);
+			updateManualGridInfo(item.manualGrid);
+			triggerAutoProcess();
+		}
+		perspectiveEditor.setEnabled(els.perspectiveToggle.checked);
+	});
+
+	els.perspectiveReset.addEventListener("click", () => {
+		const item = imageSession.getActiveImage();
+		if (!item) return;
+		imageSession.setPerspectiveQuad(item.id, undefined);
+		perspectiveEditor.setQuad(null);
+		setPerspectiveEditing(false);
+		updatePerspectiveInfo(undefined);
+		updateManualGridInfo(item.manualGrid);
+		triggerAutoProcess();
+	});
+
+	perspectiveEditor.setCallbacks({
+		onChange: (quad, committed) => {
+			const item = imageSession.getActiveImage();
+			if (!item) return;
+			imageSession.setPerspectiveQuad(item.id, quad);
+			updatePerspectiveInfo(quad);
+			updateManualGridInfo(item.manualGrid);
+			if (committed) triggerAutoProcess();
+		},
+	});
+
 	// Click on input canvas container triggers file input
 	els.inputCanvasContainer.addEventListener("click", () => {
 		els.fileInput.click();
@@ -1663,22 +2500,85 @@ export const initApp = (): void => {
 		els.fileInput.value = "";
 	});
 
+	// パレットファイルを形式を自動判別して読み込み、固定パレットとして適用する
+	const importPaletteFile = async (file: File) => {
+		const bytes = new Uint8Array(await file.arrayBuffer());
+		const palette = parsePaletteFile(bytes, file.name);
+		if (palette.length > 0) {
+			currentFixedPalette = palette;
+			els.reduceColorModeSelect.value = "fixed";
+			updateReduceColorsDisabledStates();
+			runProcessing();
+		}
+	};
+
+	// 参照画像（ゲームのタイトル画面など）から、選択した方法で N 色のパレットを抽出する
+	const importPaletteImage = async (file: File) => {
+		const image = await imageToRawImage(file);
+		const method = els.paletteExtractMethodSelect.value as PaletteExtractMethod;
+		const maxColors = clampInt(
+			Number(els.paletteExtractCountInput.value),
+			PROCESS_RANGES.paletteExtractCount,
+		);
+		els.paletteExtractCountInput.value = String(maxColors);
+		const { colors, totalColors } = extractPaletteFromImage(
+			image,
+			method,
+			maxColors,
+		);
+
+		// "unique" can only keep the exact colors up to 256
+		if (method === "unique" && totalColors > colors.length) {
+			showError(
+				i18n.t("error.palette_reduced", {
+					count: totalColors,
+					max: colors.length,
+				}),
+			);
+		}
+
+		if (colors.length > 0) {
+			currentFixedPalette = colors;
+			els.reduceColorModeSelect.value = "fixed";
+			updateReduceColorsDisabledStates();
+			runProcessing();
+		}
+	};
+
+	els.paletteExtractSetting.addEventListener("dragover", (e) => {
+		e.preventDefault();
+		e.stopPropagation();
+	});
+
+	els.paletteExtractSetting.addEventListener("drop", async (e) => {
+		e.preventDefault();
+		e.stopPropagation();
+		const file = (e as DragEvent).dataTransfer?.files?.[0];
+		if (!file) return;
+		try {
+			if (isPaletteFileName(file.name)) {
+				await importPaletteFile(file);
+			} else if (file.type.startsWith("image/")) {
+				await importPaletteImage(file);
+			}
+		} catch (err) {
+			console.error(err);
+			showError(i18n.t("error.load_failed"));
+		}
+	});
+
 	els.dropArea.addEventListener("drop", async (e) => {
 		const dt = (e as DragEvent).dataTransfer;
 		const files = dt?.files;
 		if (files && files.length > 0) {
 			const file = files[0];
-			if (file.name.toLowerCase().endsWith(".gpl")) {
+			if (isPaletteFileName(file.name)) {
 				// Handle palette file
-				const text = await file.text();
-				const palette = parseGPL(text);
-				if (palette.length > 0) {
-					if (palette.length > 0) {
-						currentFixedPalette = palette;
-						els.reduceColorModeSelect.value = "fixed";
-						updateReduceColorsDisabledStates();
-						runProcessing();
-					}
+				try {
+					await importPaletteFile(file);
+				} catch (err) {
+					console.error(err);
+					showError(i18n.t("error.load_failed"));
 				}
 			} else {
 				loadFiles(Array.from(files));
@@ -1689,16 +2589,66 @@ export const initApp = (): void => {
 	});
 
 	// Palette Import/Export
-	els.exportGPLButton.addEventListener("click", () => {
+	els.exportPaletteButton.addEventListener("click", () => {
 		if (currentExtractedPalette.length === 0) return;
-		const content = generateGPL(currentExtractedPalette, "PixelRefiner Export");
-		const blob = new Blob([content], { type: "text/plain" });
-		const url = URL.createObjectURL(blob);
-		const link = document.createElement("a");
-		link.href = url;
-		link.download = "palette.gpl";
-		link.click();
-		URL.revokeObjectURL(url);
+		const format = els.paletteExportFormat.value as PaletteFileFormat;
+		const bytes = generatePaletteFile(
+			currentExtractedPalette,
+			format,
+			"PixelRefiner Export",
+		);
+		downloadBlob(
+			new Blob([bytes], { type: "application/octet-stream" }),
+			`palette.${format}`,
+		);
+	});
+
+	// 画像一覧の全画像から共通パレットを作り、固定パレットとして全画像に適用する
+	let currentBatchPalette: RGB[] = [];
+	els.batchPaletteButton.addEventListener("click", async () => {
+		const images = imageSession.getImages();
+		if (images.length === 0) {
+			showError(i18n.t("error.no_image"));
+			return;
+		}
+
+		els.loadingOverlay.style.display = "flex";
+		try {
+			const palette = await processor.batchPalette(
+				images.map((img) => ({
+					image: img.original,
+					manualGrid: usesGeometryCorrection(img) ? undefined : img.manualGrid,
+					perspectiveQuad: img.perspectiveQuad,
+				})),
+				collectProcessOptions(),
+			);
+			if (palette.length === 0) return;
+			currentBatchPalette = sortPalette(palette);
+			els.batchPaletteExportButton.style.display = "flex";
+
+			currentFixedPalette = currentBatchPalette;
+			els.reduceColorModeSelect.value = "fixed";
+			updateReduceColorsDisabledStates();
+		} catch (e) {
+			console.error(e);
+			showError(`${i18n.t("error.process_failed")}: ${(e as Error).message}`);
+			return;
+		} finally {
+			els.loadingOverlay.style.display = "none";
+		}
+		runProcessing();
+	});
+
+	els.batchPaletteExportButton.addEventListener("click", () => {
+		if (currentBatchPalette.length === 0) return;
+		const content = generateGPL(
+			currentBatchPalette,
+			"PixelRefiner Batch Palette",
+		);
+		downloadBlob(
+			new Blob([content], { type: "text/plain" }),
+			"batch_palette.gpl",
+		);
 	});
 
 	els.exportPNGButton.addEventListener("click", async () => {
@@ -1753,48 +2703,12 @@ export const initApp = (): void => {
 		if (!file) return;
 
 		try {
-			if (file.name.toLowerCase().endsWith(".gpl")) {
-				// Handle GIMP Palette files
-				const text = await file.text();
-				const palette = parseGPL(text);
-				if (palette.length > 0) {
-					currentFixedPalette = palette;
-					els.reduceColorModeSelect.value = "fixed";
-					updateReduceColorsDisabledStates();
-					runProcessing();
-				}
+			if (isPaletteFileName(file.name)) {
+				// Handle palette files (GPL / ASE / ACO / JASC-PAL / Paint.NET / HEX / Lospec JSON)
+				await importPaletteFile(file);
 			} else if (file.type.startsWith("image/")) {
 				// Handle all image formats (PNG, JPEG, GIF, WebP, etc.)
-				const img = new Image();
-				img.onload = () => {
-					const canvas = document.createElement("canvas");
-					canvas.width = img.width;
-					canvas.height = img.height;
-					const ctx = canvas.getContext("2d");
-					if (!ctx) return;
-					ctx.drawImage(img, 0, 0);
-					const imageData = ctx.getImageData(0, 0, img.width, img.height);
-
-					// Extract colors with 256 color limit
-					const { colors, totalColors } = extractColorsFromImage(
-						imageData,
-						256,
-					);
-
-					// Show warning if there were more than 256 colors
-					if (totalColors > 256) {
-						showError(i18n.t("error.palette_limit", { count: totalColors }));
-					}
-
-					if (colors.length > 0) {
-						currentFixedPalette = colors;
-						els.reduceColorModeSelect.value = "fixed";
-						updateReduceColorsDisabledStates();
-						runProcessing();
-					}
-					URL.revokeObjectURL(img.src);
-				};
-				img.src = URL.createObjectURL(file);
+				await importPaletteImage(file);
 			}
 		} catch (err) {
 			console.error(err);
@@ -1804,6 +2718,35 @@ export const initApp = (): void => {
 		els.paletteFileInput.value = "";
 	});
 
+	els.ditherMaskButton.addEventListener("click", () => {
+		els.ditherMaskInput.click();
+	});
+
+	els.ditherMaskInput.addEventListener("change", async (e) => {
+		const file = (e.target as HTMLInputElement).files?.[0];
+		const item = imageSession.getActiveImage();
+		if (file && item) {
+			try {
+				const mask = await imageToRawImage(file);
+				imageSession.setDitherMask(item.id, mask);
+				updateDitherMaskInfo(mask);
+				triggerAutoProcess();
+			} catch (err) {
+				console.error(err);
+				showError(i18n.t("error.load_failed"));
+			}
+		}
+		els.ditherMaskInput.value = "";
+	});
+
+	els.ditherMaskClearButton.addEventListener("click", () => {
+		const item = imageSession.getActiveImage();
+		if (!item) return;
+		imageSession.setDitherMask(item.id, undefined);
+		updateDitherMaskInfo(undefined);
+		triggerAutoProcess();
+	});
+
 	els.processButton.addEventListener("click", () => {
 		runProcessing();
 	});
@@ -1903,80 +2846,140 @@ export const initApp = (): void => {
 	// ---------------------------------------------------------
 	// Presets Logic
 	// ---------------------------------------------------------
-	const getUiState = (): Record<string, string | number | boolean> => {
-		const state: Record<string, string | number | boolean> = {};
-		const inputs = [
+	// レシピの内容を UI に反映する（未指定の項目は既定値に戻す）
+	const applyRecipeToUi = (recipe: Recipe) => {
+		const o = recipe.options;
+		const setNumber = (
+			input: HTMLInputElement,
+			slider: HTMLInputElement | null,
+			value: number,
+		) => {
+			input.value = String(value);
+			if (slider) slider.value = String(value);
+		};
+		const toHex = (c: RGB) =>
+			`#${[c.r, c.g, c.b].map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+
+		setNumber(
 			els.quantStepInput,
 			els.quantStepSlider,
-			els.forcePixelsWInput,
-			els.forcePixelsHInput,
+			o.detectionQuantStep ?? PROCESS_RANGES.detectionQuantStep.default,
+		);
+		setNumber(
 			els.sampleWindowInput,
 			els.sampleWindowSlider,
+			o.sampleWindow ?? PROCESS_RANGES.sampleWindow.default,
+		);
+		setNumber(
 			els.toleranceInput,
 			els.toleranceSlider,
-			els.preRemoveCheck,
-			els.postRemoveCheck,
-			els.removeInnerBackgroundCheck,
-			els.trimToContentCheck,
-			els.fastAutoGridFromTrimmedCheck,
-			els.enableGridDetectionCheck,
-			els.reduceColorModeSelect,
-			els.ditherModeSelect,
+			o.backgroundTolerance ?? PROCESS_RANGES.backgroundTolerance.default,
+		);
+		setNumber(
+			els.floatingMaxPercentInput,
+			els.floatingMaxPercentSlider,
+			o.floatingMaxPercent ?? PROCESS_RANGES.floatingMaxPercent.default,
+		);
+		setNumber(
 			els.colorCountInput,
 			els.colorCountSlider,
+			o.colorCount ?? PROCESS_DEFAULTS.colorCount,
+		);
+		setNumber(
 			els.ditherStrengthInput,
 			els.ditherStrengthSlider,
-			els.outlineStyleSelect,
-			els.outlineColorInput,
-			els.floatingMaxPercentInput,
-			els.floatingMaxPercentSlider,
-			els.enableBgRemovalCheck,
-			els.bgExtractionMethod,
-			els.bgRgbInput,
-			els.bgColorInput,
-			els.autoProcessToggle,
-		];
-
-		for (const input of inputs) {
-			if (input instanceof HTMLInputElement) {
-				if (input.type === "checkbox") {
-					state[input.id] = input.checked;
-				} else if (input.type === "number" || input.type === "range") {
-					state[input.id] = Number(input.value);
-				} else {
-					state[input.id] = input.value;
-				}
-			} else if (input instanceof HTMLSelectElement) {
-				state[input.id] = input.value;
-			}
-		}
-		return state;
-	};
+			o.ditherStrength ?? PROCESS_DEFAULTS.ditherStrength,
+		);
+		setNumber(
+			els.ditherMaskThresholdInput,
+			els.ditherMaskThresholdSlider,
+			o.ditherMaskThreshold ?? PROCESS_RANGES.ditherMaskThreshold.default,
+		);
+		els.forcePixelsWInput.value =
+			o.forcePixelsW !== undefined ? String(o.forcePixelsW) : "";
+		els.forcePixelsHInput.value =
+			o.forcePixelsH !== undefined ? String(o.forcePixelsH) : "";
 
-	const applyUiState = (state: Record<string, string | number | boolean>) => {
-		for (const [id, value] of Object.entries(state)) {
-			const el = document.getElementById(id);
-			if (!el) continue;
+		els.trimToContentCheck.checked =
+			o.trimToContent ?? PROCESS_DEFAULTS.trimToContent;
+		els.fastAutoGridFromTrimmedCheck.checked =
+			o.fastAutoGridFromTrimmed ?? PROCESS_DEFAULTS.fastAutoGridFromTrimmed;
+		els.nonUniformGridCheck.checked =
+			o.nonUniformGrid ?? PROCESS_DEFAULTS.nonUniformGrid;
+		els.gridDetectorSelect.value =
+			o.gridDetector ?? PROCESS_DEFAULTS.gridDetector;
+		els.cellSamplerSelect.value = o.cellSampler ?? PROCESS_DEFAULTS.cellSampler;
+		els.deskewCheck.checked = o.deskew ?? PROCESS_DEFAULTS.deskew;
+		updateManualGridInfo(imageSession.getActiveImage()?.manualGrid);
+		els.restoreArtifactsCheck.checked =
+			o.restoreArtifacts ?? PROCESS_DEFAULTS.restoreArtifacts;
+		els.enableGridDetectionCheck.checked =
+			o.enableGridDetection ?? PROCESS_DEFAULTS.enableGridDetection;
+
+		const reduceColorMode =
+			o.reduceColorMode ?? PROCESS_DEFAULTS.reduceColorMode;
+		els.reduceColorModeSelect.value = reduceColorMode;
+		currentFixedPalette =
+			reduceColorMode === "fixed" ? o.fixedPalette : undefined;
+		els.ditherModeSelect.value = o.ditherMode ?? PROCESS_DEFAULTS.ditherMode;
+		els.ditherSerpentineCheck.checked =
+			o.ditherSerpentine ?? PROCESS_DEFAULTS.ditherSerpentine;
+		els.ditherMaskingCheck.checked =
+			o.ditherMasking ?? PROCESS_DEFAULTS.ditherMasking;
+		els.alphaPolicySelect.value = o.alphaPolicy ?? PROCESS_DEFAULTS.alphaPolicy;
+		els.alphaThresholdInput.value = String(
+			o.alphaThreshold ?? PROCESS_RANGES.alphaThreshold.default,
+		);
+		els.alphaLevelsInput.value = String(
+			o.alphaLevels ?? PROCESS_RANGES.alphaLevels.default,
+		);
+		els.hardwareProfileSelect.value =
+			o.hardwareProfile ?? PROCESS_DEFAULTS.hardwareProfile;
+		els.enforceHardwareConstraintsCheck.checked =
+			o.enforceHardwareConstraints ??
+			PROCESS_DEFAULTS.enforceHardwareConstraints;
+		els.outlineStyleSelect.value =
+			o.outlineStyle ?? PROCESS_DEFAULTS.outlineStyle;
+		els.outlineColorInput.value = toHex(
+			o.outlineColor ?? PROCESS_DEFAULTS.outlineColor,
+		);
 
-			if (el instanceof HTMLInputElement) {
-				if (el.type === "checkbox") {
-					el.checked = value as boolean;
-				} else {
-					el.value = String(value);
-				}
-			} else if (el instanceof HTMLSelectElement) {
-				el.value = String(value);
-			}
-			// Trigger change event to update UI dependencies
-			el.dispatchEvent(new Event("change"));
+		// 背景除去: "none" はチェックボックス OFF に対応する
+		const method = o.bgExtractionMethod ?? "top-left";
+		lastBgChecks = null;
+		els.preRemoveCheck.checked =
+			o.preRemoveBackground ?? PROCESS_DEFAULTS.preRemoveBackground;
+		els.postRemoveCheck.checked =
+			o.postRemoveBackground ?? PROCESS_DEFAULTS.postRemoveBackground;
+		els.removeInnerBackgroundCheck.checked =
+			o.removeInnerBackground ?? PROCESS_DEFAULTS.removeInnerBackground;
+		els.enableBgRemovalCheck.checked = method !== "none";
+		if (method !== "none") {
+			els.bgExtractionMethod.value = method;
+		}
+		if (o.bgRgb) {
+			updateRgbInputs(o.bgRgb);
 		}
+
 		updateDisabledStates();
 		updateReduceColorsDisabledStates();
 		updateBgDisabledStates();
-		updateProcessButtonVisibility();
+		updateBgColorFromMethod();
 		triggerAutoProcess();
 	};
 
+	const downloadRecipe = (recipe: Recipe, name: string) => {
+		const blob = new Blob([serializeRecipe(recipe)], {
+			type: "application/json",
+		});
+		const url = URL.createObjectURL(blob);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `${name.replace(/[\\/:*?"<>|]+/g, "_") || "recipe"}.json`;
+		link.click();
+		URL.revokeObjectURL(url);
+	};
+
 	const updatePresetList = () => {
 		const presets = PresetManager.loadPresets();
 		els.presetModalList.innerHTML = "";
@@ -2003,13 +3006,22 @@ export const initApp = (): void => {
 			loadBtn.className = "action-button small-button outline-button";
 			loadBtn.textContent = i18n.t("ui.load_preset");
 			loadBtn.onclick = () => {
-				applyUiState(preset.data);
+				applyRecipeToUi(preset.recipe);
 				els.presetNameInput.value = preset.name;
 				showInfo(i18n.t("ui.preset_loaded", { name: preset.name }));
 				presetModalController.close();
 			};
 			actions.appendChild(loadBtn);
 
+			const exportBtn = document.createElement("button");
+			exportBtn.type = "button";
+			exportBtn.className = "text-button";
+			exportBtn.textContent = i18n.t("ui.export_preset");
+			exportBtn.onclick = () => {
+				downloadRecipe(preset.recipe, preset.name);
+			};
+			actions.appendChild(exportBtn);
+
 			const deleteBtn = document.createElement("button");
 			deleteBtn.type = "button";
 			deleteBtn.className = "text-button danger-text";
@@ -2033,17 +3045,17 @@ export const initApp = (): void => {
 			name = new Date().toLocaleString();
 		}
 
-		const state = getUiState();
+		const recipe = createRecipe(collectProcessOptions(), name);
 		const presets = PresetManager.loadPresets();
 		const existing = presets.find((p) => p.name === name);
 
 		if (existing) {
 			if (confirm(i18n.t("ui.confirm_overwrite_preset"))) {
-				PresetManager.updatePreset(existing.id, state);
+				PresetManager.updatePreset(existing.id, recipe);
 				showInfo(i18n.t("ui.preset_saved", { name: name }));
 			}
 		} else {
-			PresetManager.savePreset(name, state);
+			PresetManager.savePreset(name, recipe);
 			showInfo(i18n.t("ui.preset_saved", { name: name }));
 		}
 		updatePresetList();
@@ -2058,6 +3070,32 @@ export const initApp = (): void => {
 		presetModalController.close();
 	});
 
+	els.exportRecipeButton.addEventListener("click", () => {
+		const name = els.presetNameInput.value.trim() || "recipe";
+		downloadRecipe(createRecipe(collectProcessOptions(), name), name);
+	});
+
+	els.importRecipeButton.addEventListener("click", () => {
+		els.recipeFileInput.click();
+	});
+
+	els.recipeFileInput.addEventListener("change", async () => {
+		const file = els.recipeFileInput.files?.[0];
+		els.recipeFileInput.value = "";
+		if (!file) return;
+		try {
+			const recipe = deserializeRecipe(await file.text());
+			const name = recipe.name || file.name.replace(/\.json$/i, "");
+			PresetManager.savePreset(name, recipe);
+			applyRecipeToUi(recipe);
+			els.presetNameInput.value = name;
+			updatePresetList();
+			showInfo(i18n.t("ui.preset_imported", { name }));
+		} catch (err) {
+			showError(`${i18n.t("error.recipe_invalid")}: ${(err as Error).message}`);
+		}
+	});
+
 	els.presetModal.addEventListener("click", (e) => {
 		if (e.target === els.presetModal) {
 			presetModalController.close();
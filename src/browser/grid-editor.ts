@@ -0,0 +1,326 @@
+import { clampNumber, PROCESS_RANGES } from "../shared/config";
+import type { ManualGrid } from "../shared/types";
+
+type GridEditorCallbacks = {
+	/**
+	 * グリッドが変わるたびに呼ばれる。
+	 * committed はドラッグ終了・キー操作など、処理を走らせてよいタイミングで true になる。
+	 */
+	onChange?: (grid: ManualGrid, committed: boolean) => void;
+};
+
+type DragState = {
+	mode: "move" | "resize";
+	pointerId: number;
+	startX: number;
+	startY: number;
+	startGrid: ManualGrid;
+};
+
+// ハンドルの当たり判定（CSS px）
+const HANDLE_SIZE = 10;
+// これより細かい格子は線を間引く（CSS px）
+const MIN_LINE_SPACING = 3;
+
+const roundStep = (v: number, step: number): number =>
+	Math.round(v / step) * step;
+
+/**
+ * 元画像キャンバスの上に重ねて、手動グリッド（原点とセルサイズ）を編集するオーバーレイ。
+ *
+ * - ドラッグ: 原点 (offsetX/offsetY) を移動
+ * - 原点セル右下のハンドルをドラッグ: cellW/cellH を変更
+ * - 矢印キー: 原点を 1px 移動、Shift+矢印: セルサイズを 1px 変更（Alt 併用で 0.1px）
+ */
+export class GridEditor {
+	private container: HTMLElement;
+	private source: HTMLCanvasElement;
+	private overlay: HTMLCanvasElement;
+
+	private imageWidth = 0;
+	private imageHeight = 0;
+	private grid: ManualGrid | null = null;
+	private enabled = false;
+	private drag: DragState | null = null;
+	private callbacks: GridEditorCallbacks = {};
+	private scheduledRaf: number | null = null;
+
+	constructor(
+		container: HTMLElement,
+		source: HTMLCanvasElement,
+		overlay: HTMLCanvasElement,
+	) {
+		this.container = container;
+		this.source = source;
+		this.overlay = overlay;
+		this.initEventListeners();
+	}
+
+	public setCallbacks(callbacks: GridEditorCallbacks) {
+		this.callbacks = callbacks;
+	}
+
+	public setImageSize(width: number, height: number) {
+		this.imageWidth = width;
+		this.imageHeight = height;
+		this.scheduleDraw();
+	}
+
+	public getGrid(): ManualGrid | null {
+		return this.grid ? { ...this.grid } : null;
+	}
+
+	public setGrid(grid: ManualGrid | null) {
+		this.grid = grid ? this.normalize(grid) : null;
+		this.scheduleDraw();
+	}
+
+	public isEnabled(): boolean {
+		return this.enabled;
+	}
+
+	public setEnabled(enabled: boolean) {
+		this.enabled = enabled;
+		this.drag = null;
+		this.container.classList.toggle("grid-editing", enabled);
+		if (enabled) this.overlay.focus({ preventScroll: true });
+		this.scheduleDraw();
+	}
+
+	private normalize(grid: ManualGrid): ManualGrid {
+		const cellW = clampNumber(grid.cellW, PROCESS_RANGES.manualGridCell);
+		const cellH = clampNumber(grid.cellH, PROCESS_RANGES.manualGridCell);
+		const wrap = (v: number, cell: number) => ((v % cell) + cell) % cell;
+		return {
+			cellW,
+			cellH,
+			offsetX: wrap(grid.offsetX, cellW),
+			offsetY: wrap(grid.offsetY, cellH),
+		};
+	}
+
+	private update(grid: ManualGrid, committed: boolean) {
+		this.grid = this.normalize(grid);
+		this.scheduleDraw();
+		this.callbacks.onChange?.({ ...this.grid }, committed);
+	}
+
+	/**
+	 * 元画像の表示位置（オーバーレイ座標系, CSS px）と拡大率。
+	 */
+	private getImageRect() {
+		const containerRect = this.container.getBoundingClientRect();
+		const rect = this.source.getBoundingClientRect();
+		return {
+			left: rect.left - containerRect.left,
+			top: rect.top - containerRect.top,
+			width: rect.width,
+			height: rect.height,
+			scaleX: this.imageWidth > 0 ? rect.width / this.imageWidth : 1,
+			scaleY: this.imageHeight > 0 ? rect.height / this.imageHeight : 1,
+		};
+	}
+
+	private initEventListeners() {
+		// 入力エリアのクリック（ファイル選択）に伝播させない
+		this.overlay.addEventListener("click", (e) => {
+			e.stopPropagation();
+		});
+
+		this.overlay.addEventListener("pointerdown", (e) => {
+			if (!this.enabled || !this.grid) return;
+			e.preventDefault();
+			e.stopPropagation();
+			this.overlay.focus({ preventScroll: true });
+
+			this.drag = {
+				mode: this.isOnHandle(e) ? "resize" : "move",
+				pointerId: e.pointerId,
+				startX: e.clientX,
+				startY: e.clientY,
+				startGrid: { ...this.grid },
+			};
+			this.overlay.setPointerCapture(e.pointerId);
+		});
+
+		this.overlay.addEventListener("pointermove", (e) => {
+			if (!this.drag || e.pointerId !== this.drag.pointerId) {
+				this.updateCursor(e);
+				return;
+			}
+			const r = this.getImageRect();
+			const dx = (e.clientX - this.drag.startX) / r.scaleX;
+			const dy = (e.clientY - this.drag.startY) / r.scaleY;
+			const g = this.drag.startGrid;
+			if (this.drag.mode === "move") {
+				this.update(
+					{
+						...g,
+						offsetX: Math.round(g.offsetX + dx),
+						offsetY: Math.round(g.offsetY + dy),
+					},
+					false,
+				);
+			} else {
+				this.update(
+					{
+						...g,
+						cellW: Math.round(g.cellW + dx),
+						cellH: Math.round(g.cellH + dy),
+					},
+					false,
+				);
+			}
+		});
+
+		const endDrag = (e: PointerEvent) => {
+			if (!this.drag || e.pointerId !== this.drag.pointerId) return;
+			this.drag = null;
+			if (this.overlay.hasPointerCapture(e.pointerId)) {
+				this.overlay.releasePointerCapture(e.pointerId);
+			}
+			if (this.grid) this.update(this.grid, true);
+		};
+		this.overlay.addEventListener("pointerup", endDrag);
+		this.overlay.addEventListener("pointercancel", endDrag);
+
+		this.overlay.addEventListener("keydown", (e) => {
+			if (!this.enabled || !this.grid) return;
+			const dir: Record<string, [number, number]> = {
+				ArrowLeft: [-1, 0],
+				ArrowRight: [1, 0],
+				ArrowUp: [0, -1],
+				ArrowDown: [0, 1],
+			};
+			const d = dir[e.key];
+			if (!d) return;
+			e.preventDefault();
+			const g = this.grid;
+			if (e.shiftKey) {
+				const step = e.altKey ? 0.1 : 1;
+				this.update(
+					{
+						...g,
+						cellW: roundStep(g.cellW + d[0] * step, step),
+						cellH: roundStep(g.cellH + d[1] * step, step),
+					},
+					true,
+				);
+			} else {
+				this.update(
+					{ ...g, offsetX: g.offsetX + d[0], offsetY: g.offsetY + d[1] },
+					true,
+				);
+			}
+		});
+
+		if (typeof ResizeObserver !== "undefined") {
+			new ResizeObserver(() => this.scheduleDraw()).observe(this.container);
+		} else {
+			window.addEventListener("resize", () => this.scheduleDraw());
+		}
+	}
+
+	// 原点セル右下のハンドル上にポインタがあるか
+	private isOnHandle(e: PointerEvent): boolean {
+		if (!this.grid) return false;
+		const r = this.getImageRect();
+		const containerRect = this.container.getBoundingClientRect();
+		const px = e.clientX - containerRect.left;
+		const py = e.clientY - containerRect.top;
+		const handleX = r.left + (this.grid.offsetX + this.grid.cellW) * r.scaleX;
+		const handleY = r.top + (this.grid.offsetY + this.grid.cellH) * r.scaleY;
+		return (
+			Math.abs(px - handleX) <= HANDLE_SIZE &&
+			Math.abs(py - handleY) <= HANDLE_SIZE
+		);
+	}
+
+	private updateCursor(e: PointerEvent) {
+		if (!this.enabled || !this.grid) return;
+		this.overlay.style.cursor = this.isOnHandle(e) ? "nwse-resize" : "move";
+	}
+
+	private scheduleDraw() {
+		if (this.scheduledRaf !== null) return;
+		this.scheduledRaf = requestAnimationFrame(() => {
+			this.scheduledRaf = null;
+			this.draw();
+		});
+	}
+
+	public draw() {
+		const ctx = this.overlay.getContext("2d");
+		if (!ctx) return;
+
+		const containerRect = this.container.getBoundingClientRect();
+		const dpr = window.devicePixelRatio || 1;
+		const targetWidth = Math.round(containerRect.width * dpr);
+		const targetHeight = Math.round(containerRect.height * dpr);
+		if (
+			this.overlay.width !== targetWidth ||
+			this.overlay.height !== targetHeight
+		) {
+			this.overlay.width = targetWidth;
+			this.overlay.height = targetHeight;
+		}
+		ctx.resetTransform();
+		ctx.clearRect(0, 0, this.overlay.width, this.overlay.height);
+
+		const grid = this.grid;
+		if (!this.enabled || !grid || this.imageWidth === 0) return;
+
+		ctx.scale(dpr, dpr);
+		const r = this.getImageRect();
+		const stepX = grid.cellW * r.scaleX;
+		const stepY = grid.cellH * r.scaleY;
+
+		// 格子（細かすぎる場合は間引く）
+		const skipX = Math.max(1, Math.ceil(MIN_LINE_SPACING / stepX));
+		const skipY = Math.max(1, Math.ceil(MIN_LINE_SPACING / stepY));
+		ctx.beginPath();
+		ctx.strokeStyle = "rgba(6, 182, 212, 0.55)";
+		ctx.lineWidth = 1;
+		for (let i = 0; ; i += skipX) {
+			const x = grid.offsetX + i * grid.cellW;
+			if (x > this.imageWidth) break;
+			const px = r.left + x * r.scaleX;
+			ctx.moveTo(px, r.top);
+			ctx.lineTo(px, r.top + r.height);
+		}
+		for (let i = 0; ; i += skipY) {
+			const y = grid.offsetY + i * grid.cellH;
+			if (y > this.imageHeight) break;
+			const py = r.top + y * r.scaleY;
+			ctx.moveTo(r.left, py);
+			ctx.lineTo(r.left + r.width, py);
+		}
+		ctx.stroke();
+
+		// 原点セルとリサイズハンドル
+		const ox = r.left + grid.offsetX * r.scaleX;
+		const oy = r.top + grid.offsetY * r.scaleY;
+		ctx.fillStyle = "rgba(99, 102, 241, 0.25)";
+		ctx.fillRect(ox, oy, stepX, stepY);
+		ctx.strokeStyle = "rgba(99, 102, 241, 0.9)";
+		ctx.lineWidth = 2;
+		ctx.strokeRect(ox, oy, stepX, stepY);
+
+		const half = HANDLE_SIZE / 2;
+		ctx.fillStyle = "#6366f1";
+		ctx.fillRect(
+			ox + stepX - half,
+			oy + stepY - half,
+			HANDLE_SIZE,
+			HANDLE_SIZE,
+		);
+		ctx.strokeStyle = "#ffffff";
+		ctx.lineWidth = 1;
+		ctx.strokeRect(
+			ox + stepX - half,
+			oy + stepY - half,
+			HANDLE_SIZE,
+			HANDLE_SIZE,
+		);
+	}
+}
@@ -16,11 +16,27 @@ const resources = {
 		"ui.download_btn": "ダウンロード",
 		"ui.export_gpl": ".GPLを書き出し",
 		"ui.export_png": ".PNGを書き出し",
+		"ui.export_palette": "パレットを書き出し",
+		"ui.load_dither_mask": "マスク画像を読み込む",
+		"ui.clear_dither_mask": "マスクを解除",
+		"ui.palette_format": "パレットの形式",
+		"ui.palette_extract_count": "抽出する色数",
 		"ui.import_palette": "パレットを読み込み",
 		"ui.show_palette": "パレットを表示",
+		"ui.build_batch_palette": "全画像から作成",
 		"ui.clear_all": "すべてクリア",
 		"ui.download_all": "一括ダウンロード",
 		"ui.download_all_zip": "一括ダウンロード (ZIP)",
+		"ui.download_atlas": "アトラス (PNG + JSON)",
+		"ui.download_gif": "GIF アニメ",
+		"ui.download_apng": "APNG アニメ",
+		"ui.download_strip": "フレームストリップ (PNG)",
+		"ui.download_indexed_palette": "インデックスカラー PNG（パレット順）",
+		"ui.download_indexed_luminance": "インデックスカラー PNG（明るい順）",
+		"ui.download_tiles_nes": "タイル: NES CHR",
+		"ui.download_tiles_gb": "タイル: ゲームボーイ 2bpp",
+		"ui.download_tiles_snes4": "タイル: SFC 4bpp",
+		"ui.download_tiles_snes8": "タイル: SFC 8bpp",
 		"ui.remove_image": "画像を削除",
 		"ui.confirm_clear_all": "すべての画像を削除してもよろしいですか？",
 		"ui.size": "サイズ",
@@ -39,15 +55,42 @@ const resources = {
 		"setting.color_mode": "減色モード",
 		"setting.color_count": "色数",
 		"setting.dither_mode": "ディザリング",
+		"setting.batch_palette": "共通パレット（一括）",
+		"setting.palette_extract": "画像からパレットを抽出",
 		"setting.dither_strength": "ディザリング強度 (%)",
+		"setting.dither_serpentine": "蛇行走査",
+		"setting.dither_masking": "階調部分のみ",
+		"setting.dither_mask_threshold": "階調のしきい値",
+		"setting.dither_mask": "ディザ除外マスク",
 		"setting.advanced": "詳細設定",
 		"setting.grid_detection": "グリッド検出",
 		"setting.enable_grid": "グリッド検出有効",
 		"setting.quant_step": "減色ステップ",
 		"setting.sample_window": "サンプル範囲",
+		"setting.cell_sampler": "セルの色",
 		"setting.force_width": "指定ピクセル(横)",
 		"setting.force_height": "指定ピクセル(縦)",
 		"setting.fast_mode": "高速モード",
+		"setting.non_uniform_grid": "不均一グリッド",
+		"setting.grid_detector": "セルサイズの推定",
+		"setting.deskew": "傾きの自動補正",
+		"setting.restore_artifacts": "圧縮ノイズの除去",
+		"setting.sprite_sheet": "スプライトシート",
+		"setting.sprite_slice_mode": "分割方法",
+		"setting.sprite_grid_size": "列 × 行",
+		"option.sprite_slice_auto": "自動（スプライトごと）",
+		"option.sprite_slice_grid": "グリッド（列 × 行）",
+		"ui.sprite_slice": "フレームに分割",
+		"setting.atlas": "アトラス書き出し",
+		"setting.animation": "アニメーション",
+		"setting.animation_grid_source": "共通グリッド",
+		"option.animation_grid_shared": "全フレームから検出",
+		"option.animation_grid_first": "先頭フレームから検出",
+		"setting.atlas_pack_method": "詰め方",
+		"setting.atlas_padding": "余白 (px)",
+		"setting.atlas_power_of_two": "2の累乗サイズ",
+		"option.atlas_maxrects": "MaxRects",
+		"option.atlas_shelf": "シェルフ",
 		"setting.bg_removal": "背景透過",
 		"setting.enable_bg_removal": "背景透過有効",
 		"setting.bg_method": "背景抽出方法",
@@ -63,6 +106,23 @@ const resources = {
 		"setting.outline": "アウトライン",
 		"setting.outline_style": "スタイル",
 		"setting.outline_color": "色",
+		"setting.alpha": "透明度",
+		"setting.alpha_policy": "半透明",
+		"setting.alpha_threshold": "不透明にする alpha",
+		"setting.alpha_levels": "alpha の段階数",
+		"tooltip.help.alpha_policy":
+			"半透明の画素の扱いです。\n\nそのまま: alpha を変えません。\n2 値化: しきい値以上を不透明、未満を透明にします。\n段階化: alpha を数段階に丸め、RGBA で減色します（光や影を半透明の色のまま残せます）。",
+		"tooltip.help.alpha_threshold":
+			"alpha がこの値以上の画素を不透明に、未満を透明にします。\n範囲: {min} 〜 {max}（既定: {default}）",
+		"tooltip.help.alpha_levels":
+			"alpha の段階数です（完全な透明と不透明を含みます）。\n範囲: {min} 〜 {max}（既定: {default}）",
+		"setting.hardware": "機種の制約",
+		"setting.hardware_profile": "機種",
+		"setting.enforce_hardware_constraints": "サブパレットに合わせる",
+		"tooltip.help.hardware_profile":
+			"結果が機種のタイルごとの色数の制約に収まるかを確かめ、収まらない 8×8 のタイル（NES は 16×16 px の範囲）を強調表示します。\n\nNES: 16×16 px ごとに背景色 + 3 色、パレット 4 つ\nゲームボーイ: 背景色 + 3 色、パレット 1 つ\nSFC 4bpp: タイルごとに背景色 + 15 色、パレット 8 つ\nSFC 8bpp: 背景色 + 255 色、パレット 1 つ",
+		"tooltip.help.enforce_hardware_constraints":
+			"タイルごとに最も近い使えるサブパレットへ減色し直し、機種の制約に収めます。",
 		"setting.processing": "処理",
 		"setting.auto_process": "自動変換",
 		"section.presets": "プリセット",
@@ -75,12 +135,21 @@ const resources = {
 			"同じ名前のプリセットが既に存在します。上書きしますか？",
 		"ui.preset_loaded": "プリセット「{name}」を読み込みました",
 		"ui.preset_saved": "プリセット「{name}」を保存しました",
+		"ui.preset_imported": "レシピ「{name}」を読み込みました",
+		"ui.export_preset": "書き出し",
+		"ui.import_recipe": ".JSONを読み込み",
+		"ui.export_recipe": "現在の設定を.JSONで書き出し",
+		"error.recipe_invalid": "レシピを読み込めませんでした",
 		"tooltip.help.auto_process":
 			"設定変更時に自動で処理を実行します。\n\nOFFにすると、手動で「処理を実行」ボタンをクリックする必要があります。",
 
 		// Tooltips
 		"tooltip.help.color_mode":
 			"出力結果の色数を制限します。\n\nドット絵らしい色使いに整えたい場合に有効です。\n無効: 減色を行いません。\nGame Boy / PICO-8 / NES: 各ゲーム機のパレットを使用します。\n色数指定 (Auto): 指定した色数に自動で減色します。",
+		"tooltip.help.batch_palette":
+			"画像一覧のすべての画像の色をまとめて1回だけ減色し、共通のパレットを作ります。\n\n作ったパレットは「固定パレット」としてすべての画像に適用されるため、同じキャラクターの肌の色などが画像ごとにずれません。\n色数は「色数指定」の色数（SFC風を選んでいる場合はその色数）を使います。",
+		"tooltip.help.palette_extract":
+			"参照画像（ゲームのタイトル画面など）から色を抽出し、固定パレットにします。\n「読み込み」で画像を選ぶか、ここに画像をドロップしてください。\n\nメディアンカット: 色の分布を分割して代表色を選びます。\nK-means (Oklab): 出現頻度を考慮して代表色を選びます。\nそのままの色: 256色以下なら画像の色をそのまま使います。",
 		"tooltip.help.color_count":
 			"出力する最大の色数を指定します。\n\n設定範囲: {min}〜{max} (デフォルト: {default})",
 		"tooltip.help.dither_strength":
@@ -91,12 +160,36 @@ const resources = {
 			"グリッド検出用の減色レベルを設定します。\n\n【大】色がまとまりノイズに強くなりますが、微妙な色の違いが消える場合があります。\n【小】色の境界を細かく拾いますが、ノイズを誤検出するリスクが高まります。\n\n設定範囲: {min}〜{max} (デフォルト: {default})",
 		"tooltip.help.sample_window":
 			"各ドットの色を決める際の参照範囲（ピクセル数）です。\n\n【大】ノイズが除去され色が安定しますが、細部のディテールが失われやすくなります。\n【小】元画像を忠実に再現しますが、位置ズレやノイズの影響を強く受けます。\n\n設定範囲: {min}〜{max} (デフォルト: {default})",
+		"tooltip.help.cell_sampler":
+			"サンプル範囲の画素から各ドットの色を決める方法です。\n\n【中央値】チャンネルごとの中央値。安定しますが、セルのどこにも無い色になることがあります。\n【最頻色】最も多い色そのもの。\n【メドイド】他の画素との色の差（Oklab）の和が最小の画素の色。\n【リニア平均】リニア RGB での平均。ぼけた輪郭が暗くなりません。\n【中央の画素】セルの中央の画素の色。\n\n最頻色・メドイド・中央の画素は、元画像にある色だけを出力します。",
 		"tooltip.help.force_width":
 			"指定サイズに強制変換します。\n指定ピクセルが有効なときは自動検出は行いません。\n\n設定範囲: 1〜1024 (デフォルト: 自動)",
 		"tooltip.help.force_height":
 			"指定サイズに強制変換します。\n指定ピクセルが有効なときは自動検出は行いません。\n\n設定範囲: 1〜1024 (デフォルト: 自動)",
 		"tooltip.help.fast_mode":
 			"ONにすると、効率的なアルゴリズムで探索を高速化します。\nOFFにすると、より広範囲を精密に探索します。\n\n自動検出の結果がズレる場合や、ノイズ・細かい模様が多い画像では、OFFにすると精度が向上します。",
+		"tooltip.help.dither_serpentine":
+			"誤差拡散で奇数行を右から左へ走査します。\n\nすべての行を左から右へ走査したときに出る斜めの筋を抑えます。",
+		"tooltip.help.dither_masking":
+			"周りの色にばらつきのある所（グラデーション）だけをディザリングします。\n\n単色の塗りや 1px の線はディザリングせず、最も近いパレット色にします。",
+		"tooltip.help.dither_mask_threshold":
+			"ディザリングするのに必要な周りの色のばらつき（Oklab の標準偏差 ×1000）です。\n\n大きくすると急なグラデーションだけをディザリングします。\n範囲: {min} 〜 {max}（既定: {default}）",
+		"tooltip.help.dither_mask":
+			"ディザリングしない所を指定する画像です（画像ごとに設定）。\n\nディザリングしたくない所を黒（または透明）、それ以外を白で塗ります。\n出力の大きさに合わせて伸縮するので、書き出した結果の上に塗ったものも使えます。",
+		"tooltip.help.grid_detector":
+			"グリッド検出でセルサイズを推定する方法です。\n\nrun 長: 同じ色の続く長さで多数決します。\n周波数: 色の変わり目の周期（自己相関）も求め、run 長による推定と比べて軸ごとに信頼度の高い方を使います。ディザやノイズが多く、同じ色が 1 セルで途切れる画像に向いています。",
+		"tooltip.help.deskew":
+			"画像全体のわずかな回転や斜めの歪みを輪郭から推定し、グリッド検出の前にまっすぐにします。\n\n水平に撮れていないドット絵の写真やスクリーンショット向けです。斜めから撮った写真は、入力画像の上の射影補正ツールを使ってください。",
+		"tooltip.help.restore_artifacts":
+			"JPEG で保存した画像や、なめらかに拡大縮小した画像向けです。\n\nグリッド検出の前に 8×8 のブロックの境界とリンギングを均し、輪郭ににじんだ色を戻します。縮小の前に、セルの大きさに合わせてぼけた輪郭を鋭くします。\n\nセルが 4 px 以上のときに効果があります。",
+		"tooltip.help.non_uniform_grid":
+			"検出したグリッドを基準に、列・行ごとの境界を画像のエッジに合わせて個別に調整します。\n\nAI生成のドット絵など、セル幅が場所によって少しずつずれている画像で有効です。",
+		"tooltip.help.sprite_slice_mode":
+			"現在の画像をフレームに分割する方法です。\n\n自動: 背景透過後にスプライトを1つずつ見つけます（近くのパーツはまとめます）。\nグリッド: 決まった列数・行数で分割します。空のフレームは除きます。",
+		"tooltip.help.animation_grid_source":
+			"GIF / APNG の全フレームで使うグリッドの決め方です。\n\n全フレームから検出: 各フレームで検出し、最も多いセルサイズを使います。\n先頭フレームから検出: 先頭フレームだけで検出します（速い）。\n\n色も全フレーム共通のパレットで減色するため、フレーム間でちらつきません。",
+		"tooltip.help.atlas_pack_method":
+			"「一括ダウンロード → アトラス」で、すべての結果を1枚のPNGに詰める方法です。\n\nMaxRects: サイズがばらばらでも隙間なく詰めます。\nシェルフ: 高さ順に行単位で並べます。配置が分かりやすくなります。",
 		"tooltip.help.enable_bg_removal":
 			"背景透過処理を有効にします。\n\nOFFにすると、背景透過に関する全ての設定が無効になり、背景はそのまま維持されます。",
 		"tooltip.help.bg_method":
@@ -127,20 +220,52 @@ const resources = {
 		"option.pc98": "PC-9801",
 		"option.msx": "MSX1",
 		"option.c64": "Commodore 64",
+		"option.zx_spectrum": "ZX Spectrum (2色/8×8 セル)",
+		"option.c64_multicolor": "C64 マルチカラー (4色/4×8 セル)",
 		"option.arne16": "Arne 16",
 		"option.sfc_sprite": "SFC風 (16色/スプライト)",
 		"option.sfc_bg": "SFC風 (256色/背景)",
 		"option.auto": "色数指定",
 		"option.fixed": "固定パレット (Imported)",
+		"option.palette_extract_median": "メディアンカット",
+		"option.palette_extract_kmeans": "K-means (Oklab)",
+		"option.palette_extract_unique": "そのままの色 (256色以下)",
 		"option.dither_none": "無効",
 		"option.dither_floyd": "Floyd-Steinberg",
+		"option.dither_atkinson": "Atkinson",
+		"option.dither_jjn": "Jarvis-Judice-Ninke",
+		"option.dither_stucki": "Stucki",
+		"option.dither_burkes": "Burkes",
+		"option.dither_sierra": "Sierra",
+		"option.dither_sierra_two_row": "Sierra (2行)",
+		"option.dither_sierra_lite": "Sierra Lite",
 		"option.dither_bayer2": "Bayer 2x2",
 		"option.dither_bayer4": "Bayer 4x4",
 		"option.dither_bayer8": "Bayer 8x8",
+		"option.dither_blue_noise16": "ブルーノイズ 16x16",
+		"option.dither_blue_noise32": "ブルーノイズ 32x32",
+		"option.dither_blue_noise64": "ブルーノイズ 64x64",
 		"option.dither_ordered": "Ordered",
+		"option.dither_yliluoma": "Yliluoma (パターン)",
+		"option.dither_knoll": "Knoll (パターン)",
 		"option.outline_none": "なし",
 		"option.outline_rounded": "Rounded (8近傍)",
 		"option.outline_sharp": "Sharp (4近傍)",
+		"option.alpha_preserve": "そのまま",
+		"option.alpha_binary": "2 値化（しきい値）",
+		"option.alpha_quantize": "段階化",
+		"option.hardware_none": "確かめない",
+		"option.grid_detector_runlength": "run 長",
+		"option.grid_detector_frequency": "周波数",
+		"option.cell_sampler_median": "中央値",
+		"option.cell_sampler_mode": "最頻色",
+		"option.cell_sampler_medoid": "メドイド",
+		"option.cell_sampler_linear_mean": "リニア平均",
+		"option.cell_sampler_center": "中央の画素",
+		"option.hardware_nes": "NES（ファミコン）",
+		"option.hardware_gb": "ゲームボーイ",
+		"option.hardware_snes4": "SFC 4bpp",
+		"option.hardware_snes8": "SFC 8bpp",
 		"option.bg_none": "透過しない",
 		"option.bg_top_left": "左上（デフォルト）",
 		"option.bg_bottom_left": "左下",
@@ -152,12 +277,31 @@ const resources = {
 		"error.no_image": "先に画像を選択してください。",
 		"error.process_failed": "処理失敗",
 		"error.load_failed": "読み込み失敗",
+		"error.no_sprites": "スプライトが見つかりませんでした",
 
 		"error.palette_limit":
 			"警告: 画像には{count}色が含まれています。パレットは256色に制限されます。",
+		"error.palette_reduced":
+			"警告: 画像には{count}色が含まれています。パレットは{max}色に減色されます。",
 		"error.no_processed_images": "ダウンロード可能な処理済み画像がありません。",
 		"error.download_failed": "ダウンロードに失敗しました",
 		"status.processing": "処理中...",
+		"ui.manual_grid_reset": "自動",
+		"ui.manual_grid_info": "手動グリッド {cellW}x{cellH} @ {offsetX},{offsetY}",
+		"ui.manual_grid_unused": "傾き・射影補正中は手動グリッドを使いません",
+		"attr.title.manual_grid":
+			"グリッドを手動で編集（ドラッグ: 原点移動 / ハンドル・Shift+矢印: セルサイズ変更 / 矢印: 1px 移動）",
+		"attr.title.manual_grid_reset": "手動グリッドを破棄して自動検出に戻す",
+		"ui.perspective_reset": "解除",
+		"attr.title.perspective":
+			"射影補正（4 つの角をドット絵の角に合わせてドラッグ / 矢印: 最後に動かした角を 1px 移動）",
+		"attr.title.perspective_reset": "射影補正を解除する",
+		"warning.grid_low_confidence": "⚠ グリッド検出の信頼度が低い",
+		"warning.grid_low_confidence_detail":
+			"検出セルサイズ {cellW}x{cellH} の信頼度が低いです（{confidence}%）。縮小後のサイズがおかしい場合は「指定ピクセル(横/縦)」を設定してください。候補: {candidates}",
+		"warning.constraint_violations": "⚠ 制約を超えるタイル: {count}",
+		"warning.constraint_violations_detail":
+			"{profile} の制約に収まらない範囲が {count} 箇所あります（色数超過 {colors} / パレット不足 {palettes}）。結果では赤枠で示しています。「サブパレットに合わせる」で減色し直せます。",
 		"status.processing_batch": "一括処理中... ({current}/{total})",
 
 		// Attributes & Titles
@@ -166,6 +310,8 @@ const resources = {
 		"attr.title.bg_black": "背景: 黒",
 		"attr.title.bg_green": "背景: 緑",
 		"attr.title.grid_toggle": "グリッドを表示する（拡大時のみ有効）",
+		"attr.title.confidence_toggle":
+			"色を選びきれなかった画素（セルが複数の色にまたがる所）を黄色〜赤で示す",
 		"attr.title.zoom_toggle": "拡大表示する",
 		"attr.title.eyedropper": "スポイトで画像から色を選択",
 		"attr.placeholder.auto": "自動",
@@ -193,11 +339,27 @@ const resources = {
 		"ui.download_btn": "Download",
 		"ui.export_gpl": "Export .GPL",
 		"ui.export_png": "Export .PNG",
+		"ui.export_palette": "Export Palette",
+		"ui.load_dither_mask": "Load Mask Image",
+		"ui.clear_dither_mask": "Clear Mask",
+		"ui.palette_format": "Palette format",
+		"ui.palette_extract_count": "Number of colors to extract",
 		"ui.import_palette": "Import Palette",
 		"ui.show_palette": "Show Palette",
+		"ui.build_batch_palette": "Build from All Images",
 		"ui.clear_all": "Clear All",
 		"ui.download_all": "Download All",
 		"ui.download_all_zip": "Download All (ZIP)",
+		"ui.download_atlas": "Atlas (PNG + JSON)",
+		"ui.download_gif": "Animated GIF",
+		"ui.download_apng": "Animated PNG (APNG)",
+		"ui.download_strip": "Frame Strip (PNG)",
+		"ui.download_indexed_palette": "Indexed PNG (palette order)",
+		"ui.download_indexed_luminance": "Indexed PNG (brightness order)",
+		"ui.download_tiles_nes": "Tiles: NES CHR",
+		"ui.download_tiles_gb": "Tiles: Game Boy 2bpp",
+		"ui.download_tiles_snes4": "Tiles: SNES 4bpp",
+		"ui.download_tiles_snes8": "Tiles: SNES 8bpp",
 		"ui.remove_image": "Remove Image",
 		"ui.confirm_clear_all": "Are you sure you want to clear all images?",
 		"ui.size": "Size",
@@ -216,15 +378,42 @@ const resources = {
 		"setting.color_mode": "Reduction Mode",
 		"setting.color_count": "Color Count",
 		"setting.dither_mode": "Dithering",
+		"setting.batch_palette": "Shared Batch Palette",
+		"setting.palette_extract": "Palette from Image",
 		"setting.dither_strength": "Dither Strength (%)",
+		"setting.dither_serpentine": "Serpentine Scan",
+		"setting.dither_masking": "Gradients Only",
+		"setting.dither_mask_threshold": "Gradient Threshold",
+		"setting.dither_mask": "Dither Mask",
 		"setting.advanced": "Advanced Settings",
 		"setting.grid_detection": "Grid Detection",
 		"setting.enable_grid": "Enable Grid Detection",
 		"setting.quant_step": "Quantization Step",
 		"setting.sample_window": "Sample Window",
+		"setting.cell_sampler": "Cell Color",
 		"setting.force_width": "Force Width (px)",
 		"setting.force_height": "Force Height (px)",
 		"setting.fast_mode": "Fast Mode",
+		"setting.non_uniform_grid": "Non-uniform Grid",
+		"setting.grid_detector": "Cell Size Estimation",
+		"setting.deskew": "Auto Deskew",
+		"setting.restore_artifacts": "Artifact Cleanup",
+		"setting.sprite_sheet": "Sprite Sheet",
+		"setting.sprite_slice_mode": "Split Method",
+		"setting.sprite_grid_size": "Columns × Rows",
+		"option.sprite_slice_auto": "Auto (per sprite)",
+		"option.sprite_slice_grid": "Grid (columns × rows)",
+		"ui.sprite_slice": "Split into Frames",
+		"setting.atlas": "Atlas Export",
+		"setting.animation": "Animation",
+		"setting.animation_grid_source": "Shared Grid",
+		"option.animation_grid_shared": "Detect across all frames",
+		"option.animation_grid_first": "From the first frame",
+		"setting.atlas_pack_method": "Packing",
+		"setting.atlas_padding": "Padding (px)",
+		"setting.atlas_power_of_two": "Power of Two",
+		"option.atlas_maxrects": "MaxRects",
+		"option.atlas_shelf": "Shelf",
 		"setting.bg_removal": "Background Removal",
 		"setting.enable_bg_removal": "Enable Background Removal",
 		"setting.bg_method": "Extraction Method",
@@ -240,6 +429,23 @@ const resources = {
 		"setting.outline": "Outline",
 		"setting.outline_style": "Style",
 		"setting.outline_color": "Color",
+		"setting.alpha": "Transparency",
+		"setting.alpha_policy": "Semi-transparency",
+		"setting.alpha_threshold": "Alpha Threshold",
+		"setting.alpha_levels": "Alpha Levels",
+		"tooltip.help.alpha_policy":
+			"How semi-transparent pixels are handled.\n\nKeep: Leaves alpha as it is.\nBinary: Pixels at or above the threshold become opaque, others transparent.\nLevels: Rounds alpha to a few levels and reduces colors in RGBA, so glows and shadows stay as separate semi-transparent colors.",
+		"tooltip.help.alpha_threshold":
+			"Pixels with alpha at or above this value become opaque; the rest become transparent.\nRange: {min} to {max} (Default: {default})",
+		"tooltip.help.alpha_levels":
+			"Number of alpha levels, including fully transparent and fully opaque.\nRange: {min} to {max} (Default: {default})",
+		"setting.hardware": "Hardware Constraints",
+		"setting.hardware_profile": "Platform",
+		"setting.enforce_hardware_constraints": "Fit to Sub-palettes",
+		"tooltip.help.hardware_profile":
+			"Checks the result against the per-tile color limits of a platform and highlights the 8x8 tiles (16x16 px areas on NES) that do not fit.\n\nNES: 3 colors + backdrop per 16x16 px, 4 palettes.\nGame Boy: 3 colors + backdrop, 1 palette.\nSNES 4bpp: 15 colors + backdrop per tile, 8 palettes.\nSNES 8bpp: 255 colors + backdrop, 1 palette.",
+		"tooltip.help.enforce_hardware_constraints":
+			"Re-quantizes each tile to the nearest allowed sub-palette so the result fits the platform limits.",
 		"setting.processing": "Processing",
 		"setting.auto_process": "Auto Process",
 		"section.presets": "Presets",
@@ -252,12 +458,21 @@ const resources = {
 			"A preset with this name already exists. Do you want to overwrite it?",
 		"ui.preset_loaded": 'Preset "{name}" loaded',
 		"ui.preset_saved": 'Preset "{name}" saved',
+		"ui.preset_imported": 'Recipe "{name}" imported',
+		"ui.export_preset": "Export",
+		"ui.import_recipe": "Import .JSON",
+		"ui.export_recipe": "Export current settings as .JSON",
+		"error.recipe_invalid": "Could not load the recipe",
 		"tooltip.help.auto_process":
 			"Automatically runs processing when settings are changed.\n\nTurn OFF if you prefer to manually click the Process button.",
 
 		// Tooltips
 		"tooltip.help.color_mode":
 			"Limits the number of colors in the output.\n\nUseful for achieving a classic pixel art look.\nNone: No color reduction.\nGame Boy / PICO-8 / NES: Uses specific console palettes.\nAuto: Automatically reduces to the specified number of colors.",
+		"tooltip.help.batch_palette":
+			"Reduces the colors of every image in the list together, once, to build one shared palette.\n\nThe palette is applied to every image as a fixed palette, so the same character's skin tone stays identical across files.\nUses the Custom Count color count (or the SFC Style count if selected).",
+		"tooltip.help.palette_extract":
+			"Extracts colors from a reference image (e.g. a game's title screen) and uses them as the fixed palette.\nChoose an image with Import, or drop one here.\n\nMedian Cut: Splits the color distribution to pick representative colors.\nK-means (Oklab): Picks representative colors weighted by how often they appear.\nExact Colors: Uses the image's colors as-is when there are 256 or fewer.",
 		"tooltip.help.color_count":
 			"Specifies the maximum number of colors in the output.\n\nRange: {min} to {max} (Default: {default})",
 		"tooltip.help.dither_strength":
@@ -268,12 +483,36 @@ const resources = {
 			"Sets the color reduction level for grid detection.\n\nHigh: Colors are grouped, making it resistant to noise, but subtle color differences may be lost.\nLow: Picks up fine color boundaries, but increases the risk of false noise detection.\n\nRange: {min} to {max} (Default: {default})",
 		"tooltip.help.sample_window":
 			"The reference range (in pixels) used when determining the color of each dot.\n\nHigh: Noise is removed and colors become stable, but fine details may be lost.\nLow: Faithfully reproduces the original image, but is more affected by misalignment and noise.\n\nRange: {min} to {max} (Default: {default})",
+		"tooltip.help.cell_sampler":
+			"How the color of each dot is picked from the pixels in the sample window.\n\nMedian: per-channel median. Stable, but can produce a color that appears nowhere in the cell.\nMost Frequent: the most common exact color.\nMedoid: the pixel color closest to all the others (Oklab).\nLinear Mean: the average in linear light. Blurred edges do not turn darker.\nCenter Pixel: the pixel at the center of the cell.\n\nMost Frequent, Medoid and Center Pixel only output colors that exist in the source image.",
 		"tooltip.help.force_width":
 			"Forces conversion to the specified size.\nAutomatic detection is not performed when a specific size is set.\n\nRange: 1 to 1024 (Default: Auto)",
 		"tooltip.help.force_height":
 			"Forces conversion to the specified size.\nAutomatic detection is not performed when a specific size is set.\n\nRange: 1 to 1024 (Default: Auto)",
 		"tooltip.help.fast_mode":
 			"When ON, uses an efficient algorithm to speed up the search.\nWhen OFF, performs a more comprehensive and precise search.\n\nIf automatic detection results are misaligned or the image has a lot of noise/fine patterns, turning this OFF may improve accuracy.",
+		"tooltip.help.dither_serpentine":
+			"Error diffusion scans odd rows from right to left.\n\nReduces the diagonal streaks that appear when every row is scanned left to right.",
+		"tooltip.help.dither_masking":
+			"Dithers only where nearby colors vary (gradients).\n\nFlat fills and 1px lines are snapped to the nearest palette color without dithering.",
+		"tooltip.help.dither_mask_threshold":
+			"How much nearby colors must vary (Oklab standard deviation x1000) for a pixel to be dithered.\n\nHigher values dither only steep gradients.\nRange: {min} to {max} (Default: {default})",
+		"tooltip.help.dither_mask":
+			"An image that excludes areas from dithering, set per image.\n\nPaint black (or transparent) where dithering is not wanted and white elsewhere.\nThe mask is stretched to the output size, so painting over the exported result works.",
+		"tooltip.help.grid_detector":
+			"How grid detection estimates the cell size.\n\nRun Length: votes on the lengths of same-color runs.\nFrequency: also finds the period of the color changes (autocorrelation), compares it with the run-length estimate, and keeps the more confident one for each axis. Works on heavily dithered or noisy art where runs are only one cell long.",
+		"tooltip.help.deskew":
+			"Estimates a slight rotation or shear of the whole image from its edges and straightens it before grid detection.\n\nFor photos or screenshots of pixel art that are not perfectly level. Use the perspective tool above the input image for photos taken at an angle.",
+		"tooltip.help.restore_artifacts":
+			"For images saved as JPEG or resized with smoothing.\n\nBefore grid detection, smooths 8×8 block edges and ringing, and moves colors that bled across outlines back into place. Before sampling, sharpens blurred cell edges to match the cell size.\n\nWorks best when cells are 4 px or larger.",
+		"tooltip.help.non_uniform_grid":
+			"Starting from the detected grid, fits each column and row boundary to the image edges individually.\n\nUseful for AI-generated pixel art whose cell widths drift slightly across the image.",
+		"tooltip.help.sprite_slice_mode":
+			"How to split the current image into frames.\n\nAuto: Finds each sprite after background removal (nearby parts are kept together).\nGrid: Splits into a fixed number of columns and rows; empty frames are skipped.",
+		"tooltip.help.animation_grid_source":
+			"How the grid shared by every GIF / APNG frame is chosen.\n\nDetect across all frames: Detects each frame and uses the most common cell size.\nFrom the first frame: Detects the first frame only (faster).\n\nColors are also reduced with one palette shared by all frames, so nothing flickers between frames.",
+		"tooltip.help.atlas_pack_method":
+			'How "Download All → Atlas" packs every result into one PNG.\n\nMaxRects: Tighter packing for mixed sizes.\nShelf: Simple rows sorted by height; easy to read.',
 		"tooltip.help.enable_bg_removal":
 			"Enables background removal processing.\n\nWhen OFF, all background removal settings are disabled and the background is kept as-is.",
 		"tooltip.help.bg_method":
@@ -304,20 +543,52 @@ const resources = {
 		"option.pc98": "PC-9801",
 		"option.msx": "MSX1",
 		"option.c64": "Commodore 64",
+		"option.zx_spectrum": "ZX Spectrum (2 colors/8x8 cell)",
+		"option.c64_multicolor": "C64 Multicolor (4 colors/4x8 cell)",
 		"option.arne16": "Arne 16",
 		"option.sfc_sprite": "SFC Style (16 colors/Sprite)",
 		"option.sfc_bg": "SFC Style (256 colors/BG)",
 		"option.auto": "Custom Count",
 		"option.fixed": "Fixed / Custom Palette",
+		"option.palette_extract_median": "Median Cut",
+		"option.palette_extract_kmeans": "K-means (Oklab)",
+		"option.palette_extract_unique": "Exact Colors (≤256)",
 		"option.dither_none": "None",
 		"option.dither_floyd": "Floyd-Steinberg",
+		"option.dither_atkinson": "Atkinson",
+		"option.dither_jjn": "Jarvis-Judice-Ninke",
+		"option.dither_stucki": "Stucki",
+		"option.dither_burkes": "Burkes",
+		"option.dither_sierra": "Sierra",
+		"option.dither_sierra_two_row": "Two-Row Sierra",
+		"option.dither_sierra_lite": "Sierra Lite",
 		"option.dither_bayer2": "Bayer 2x2",
 		"option.dither_bayer4": "Bayer 4x4",
 		"option.dither_bayer8": "Bayer 8x8",
+		"option.dither_blue_noise16": "Blue noise 16x16",
+		"option.dither_blue_noise32": "Blue noise 32x32",
+		"option.dither_blue_noise64": "Blue noise 64x64",
 		"option.dither_ordered": "Ordered",
+		"option.dither_yliluoma": "Yliluoma (pattern)",
+		"option.dither_knoll": "Knoll (pattern)",
 		"option.outline_none": "None",
 		"option.outline_rounded": "Rounded (8-way)",
 		"option.outline_sharp": "Sharp (4-way)",
+		"option.alpha_preserve": "Keep",
+		"option.alpha_binary": "Binary (threshold)",
+		"option.alpha_quantize": "Levels",
+		"option.hardware_none": "Off",
+		"option.grid_detector_runlength": "Run Length",
+		"option.grid_detector_frequency": "Frequency",
+		"option.cell_sampler_median": "Median",
+		"option.cell_sampler_mode": "Most Frequent",
+		"option.cell_sampler_medoid": "Medoid",
+		"option.cell_sampler_linear_mean": "Linear Mean",
+		"option.cell_sampler_center": "Center Pixel",
+		"option.hardware_nes": "NES",
+		"option.hardware_gb": "Game Boy",
+		"option.hardware_snes4": "SNES 4bpp",
+		"option.hardware_snes8": "SNES 8bpp",
 		"option.bg_none": "None",
 		"option.bg_top_left": "Top-Left (Default)",
 		"option.bg_bottom_left": "Bottom-Left",
@@ -329,12 +600,33 @@ const resources = {
 		"error.no_image": "Please select an image first.",
 		"error.process_failed": "Processing failed",
 		"error.load_failed": "Loading failed",
+		"error.no_sprites": "No sprites were found",
 
 		"error.palette_limit":
 			"Warning: The image contains {count} colors. Palette will be limited to 256 colors.",
+		"error.palette_reduced":
+			"Warning: The image contains {count} colors. Palette will be reduced to {max} colors.",
 		"error.no_processed_images": "No processed images available to download.",
 		"error.download_failed": "Download failed",
 		"status.processing": "Processing...",
+		"ui.manual_grid_reset": "Auto",
+		"ui.manual_grid_info": "Manual grid {cellW}x{cellH} @ {offsetX},{offsetY}",
+		"ui.manual_grid_unused":
+			"Manual grid is not used while straightening or perspective correction is on",
+		"attr.title.manual_grid":
+			"Edit grid manually (drag: move origin / handle or Shift+arrows: cell size / arrows: nudge 1px)",
+		"attr.title.manual_grid_reset":
+			"Discard the manual grid and use auto detection",
+		"ui.perspective_reset": "Clear",
+		"attr.title.perspective":
+			"Correct perspective (drag the 4 corners onto the corners of the art / arrows: nudge the last corner 1px)",
+		"attr.title.perspective_reset": "Discard the perspective correction",
+		"warning.grid_low_confidence": "⚠ Low grid confidence",
+		"warning.grid_low_confidence_detail":
+			"Detected cell size {cellW}x{cellH} has low confidence ({confidence}%). If the output scale looks wrong, set Force Width/Height. Candidates: {candidates}",
+		"warning.constraint_violations": "⚠ Tiles over limit: {count}",
+		"warning.constraint_violations_detail":
+			"{count} areas do not fit the {profile} limits ({colors} with too many colors / {palettes} without a free palette). They are outlined in red on the result. Turn on Fit to Sub-palettes to re-quantize them.",
 		"status.processing_batch": "Batch Processing... ({current}/{total})",
 
 		// Attributes & Titles
@@ -343,6 +635,8 @@ const resources = {
 		"attr.title.bg_black": "Background: Black",
 		"attr.title.bg_green": "Background: Green",
 		"attr.title.grid_toggle": "Show Grid (Zoom only)",
+		"attr.title.confidence_toggle":
+			"Highlight uncertain pixels (cells that straddle several colors) in yellow to red",
 		"attr.title.zoom_toggle": "Zoom Output",
 		"attr.title.eyedropper": "Pick color from image",
 		"attr.placeholder.auto": "Auto",
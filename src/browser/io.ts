@@ -1,3 +1,11 @@
+import type { Animation } from "../core/animation";
+import {
+	assembleApng,
+	composeApngFrames,
+	isApng,
+	splitApng,
+} from "../core/apng";
+import { decodeGif, isGif } from "../core/gif";
 import type { RawImage } from "../shared/types";
 
 const imageDataToRawImage = (imageData: ImageData): RawImage => ({
@@ -46,6 +54,82 @@ export const drawRawImageToCanvas = (
 	ctx.putImageData(imageData, 0, 0);
 };
 
+export const rawImageToPngBlob = async (img: RawImage): Promise<Blob> => {
+	const canvas = document.createElement("canvas");
+	drawRawImageToCanvas(img, canvas);
+	const blob = await new Promise<Blob | null>((resolve) =>
+		canvas.toBlob(resolve, "image/png"),
+	);
+	if (!blob) {
+		throw new Error("PNG への変換に失敗しました。");
+	}
+	return blob;
+};
+
+/**
+ * RawImage を PNG の File にする（スプライトシートから切り出したフレームなど）。
+ */
+export const rawImageToPngFile = async (
+	img: RawImage,
+	name: string,
+): Promise<File> => {
+	const blob = await rawImageToPngBlob(img);
+	return new File([blob], name, { type: "image/png" });
+};
+
+/**
+ * GIF / APNG のアニメーションを全フレームデコードする。
+ * 静止画（1 フレームしかないものを含む）のときは null を返す。
+ */
+export const decodeAnimation = async (
+	file: File,
+): Promise<Animation | null> => {
+	const bytes = new Uint8Array(await file.arrayBuffer());
+	let animation: Animation | null = null;
+	if (isGif(bytes)) {
+		animation = decodeGif(bytes);
+	} else if (isApng(bytes)) {
+		const container = splitApng(bytes);
+		const images: RawImage[] = [];
+		for (const frame of container.frames) {
+			const bitmap = await createImageBitmap(
+				new Blob([frame.png], { type: "image/png" }),
+			);
+			images.push(await imageToRawImage(bitmap));
+		}
+		const composed = composeApngFrames(container, images);
+		animation = {
+			width: container.width,
+			height: container.height,
+			loopCount: container.loopCount,
+			frames: composed.map((image, i) => ({
+				image,
+				delay: container.frames[i].delay,
+			})),
+		};
+	}
+	return animation && animation.frames.length > 1 ? animation : null;
+};
+
+/**
+ * アニメーションを APNG にエンコードする（各フレームの圧縮は canvas の PNG エンコーダを使う）。
+ */
+export const animationToApngBlob = async (
+	animation: Animation,
+): Promise<Blob> => {
+	const pngs: Uint8Array[] = [];
+	for (const frame of animation.frames) {
+		const blob = await rawImageToPngBlob(frame.image);
+		pngs.push(new Uint8Array(await blob.arrayBuffer()));
+	}
+	const bytes = assembleApng(
+		pngs,
+		animation.frames.map((f) => f.delay),
+		animation.loopCount,
+	);
+	return new Blob([bytes], { type: "image/apng" });
+};
+
 export const drawGridToCanvas = (
 	width: number,
 	height: number,
@@ -0,0 +1,312 @@
+import type { PerspectiveQuad, Point } from "../shared/types";
+
+type PerspectiveEditorCallbacks = {
+	/**
+	 * 四角形が変わるたびに呼ばれる。
+	 * committed はドラッグ終了・キー操作など、処理を走らせてよいタイミングで true になる。
+	 */
+	onChange?: (quad: PerspectiveQuad, committed: boolean) => void;
+};
+
+type DragState = {
+	corner: number;
+	pointerId: number;
+	startX: number;
+	startY: number;
+	startPoint: Point;
+};
+
+// 角のハンドルの当たり判定（CSS px）
+const HANDLE_SIZE = 12;
+// 四角形の中に引く補助線の数（各方向）
+const GUIDE_DIVISIONS = 4;
+// 新しく四角形を置くときの、画像の端からの余白（画像の大きさに対する割合）
+const DEFAULT_INSET = 0.1;
+
+/**
+ * 画像の端から少し内側に置いた、四角形の初期値。
+ */
+export const defaultPerspectiveQuad = (
+	width: number,
+	height: number,
+): PerspectiveQuad => {
+	const dx = Math.round(width * DEFAULT_INSET);
+	const dy = Math.round(height * DEFAULT_INSET);
+	return [
+		{ x: dx, y: dy },
+		{ x: width - dx, y: dy },
+		{ x: width - dx, y: height - dy },
+		{ x: dx, y: height - dy },
+	];
+};
+
+/**
+ * 元画像キャンバスの上に重ねて、射影変換する四角形の 4 つの角（左上・右上・右下・左下）を編集するオーバーレイ。
+ *
+ * - 角のハンドルをドラッグ: その角を移動
+ * - 矢印キー: 最後に動かした角を 1px 移動（Shift 併用で 10px）
+ */
+export class PerspectiveEditor {
+	private container: HTMLElement;
+	private source: HTMLCanvasElement;
+	private overlay: HTMLCanvasElement;
+
+	private imageWidth = 0;
+	private imageHeight = 0;
+	private quad: PerspectiveQuad | null = null;
+	private activeCorner = 0;
+	private enabled = false;
+	private drag: DragState | null = null;
+	private callbacks: PerspectiveEditorCallbacks = {};
+	private scheduledRaf: number | null = null;
+
+	constructor(
+		container: HTMLElement,
+		source: HTMLCanvasElement,
+		overlay: HTMLCanvasElement,
+	) {
+		this.container = container;
+		this.source = source;
+		this.overlay = overlay;
+		this.initEventListeners();
+	}
+
+	public setCallbacks(callbacks: PerspectiveEditorCallbacks) {
+		this.callbacks = callbacks;
+	}
+
+	public setImageSize(width: number, height: number) {
+		this.imageWidth = width;
+		this.imageHeight = height;
+		this.scheduleDraw();
+	}
+
+	public getQuad(): PerspectiveQuad | null {
+		return this.quad ? this.copy(this.quad) : null;
+	}
+
+	public setQuad(quad: PerspectiveQuad | null) {
+		this.quad = quad ? this.copy(quad) : null;
+		this.scheduleDraw();
+	}
+
+	public isEnabled(): boolean {
+		return this.enabled;
+	}
+
+	public setEnabled(enabled: boolean) {
+		this.enabled = enabled;
+		this.drag = null;
+		this.container.classList.toggle("perspective-editing", enabled);
+		if (enabled) this.overlay.focus({ preventScroll: true });
+		this.scheduleDraw();
+	}
+
+	private copy(quad: PerspectiveQuad): PerspectiveQuad {
+		return quad.map((p) => ({ x: p.x, y: p.y })) as PerspectiveQuad;
+	}
+
+	private moveCorner(corner: number, point: Point, committed: boolean) {
+		if (!this.quad) return;
+		const quad = this.copy(this.quad);
+		// 画像の外に出た角は、つかみ直せるように画像の端で止める
+		quad[corner] = {
+			x: Math.min(this.imageWidth, Math.max(0, Math.round(point.x))),
+			y: Math.min(this.imageHeight, Math.max(0, Math.round(point.y))),
+		};
+		this.quad = quad;
+		this.activeCorner = corner;
+		this.scheduleDraw();
+		this.callbacks.onChange?.(this.copy(quad), committed);
+	}
+
+	/**
+	 * 元画像の表示位置（オーバーレイ座標系, CSS px）と拡大率。
+	 */
+	private getImageRect() {
+		const containerRect = this.container.getBoundingClientRect();
+		const rect = this.source.getBoundingClientRect();
+		return {
+			left: rect.left - containerRect.left,
+			top: rect.top - containerRect.top,
+			scaleX: this.imageWidth > 0 ? rect.width / this.imageWidth : 1,
+			scaleY: this.imageHeight > 0 ? rect.height / this.imageHeight : 1,
+		};
+	}
+
+	private toScreen(p: Point): Point {
+		const r = this.getImageRect();
+		return { x: r.left + p.x * r.scaleX, y: r.top + p.y * r.scaleY };
+	}
+
+	// ポインタの下にある角（無ければ -1）
+	private cornerAt(e: PointerEvent): number {
+		if (!this.quad) return -1;
+		const containerRect = this.container.getBoundingClientRect();
+		const px = e.clientX - containerRect.left;
+		const py = e.clientY - containerRect.top;
+		return this.quad.findIndex((p) => {
+			const s = this.toScreen(p);
+			return (
+				Math.abs(px - s.x) <= HANDLE_SIZE && Math.abs(py - s.y) <= HANDLE_SIZE
+			);
+		});
+	}
+
+	private initEventListeners() {
+		// 入力エリアのクリック（ファイル選択）に伝播させない
+		this.overlay.addEventListener("click", (e) => {
+			e.stopPropagation();
+		});
+
+		this.overlay.addEventListener("pointerdown", (e) => {
+			if (!this.enabled || !this.quad) return;
+			e.preventDefault();
+			e.stopPropagation();
+			this.overlay.focus({ preventScroll: true });
+			const corner = this.cornerAt(e);
+			if (corner < 0) return;
+
+			this.activeCorner = corner;
+			this.drag = {
+				corner,
+				pointerId: e.pointerId,
+				startX: e.clientX,
+				startY: e.clientY,
+				startPoint: { ...this.quad[corner] },
+			};
+			this.overlay.setPointerCapture(e.pointerId);
+			this.scheduleDraw();
+		});
+
+		this.overlay.addEventListener("pointermove", (e) => {
+			if (!this.drag || e.pointerId !== this.drag.pointerId) {
+				if (this.enabled) {
+					this.overlay.style.cursor = this.cornerAt(e) >= 0 ? "move" : "";
+				}
+				return;
+			}
+			const r = this.getImageRect();
+			const p = this.drag.startPoint;
+			this.moveCorner(
+				this.drag.corner,
+				{
+					x: p.x + (e.clientX - this.drag.startX) / r.scaleX,
+					y: p.y + (e.clientY - this.drag.startY) / r.scaleY,
+				},
+				false,
+			);
+		});
+
+		const endDrag = (e: PointerEvent) => {
+			if (!this.drag || e.pointerId !== this.drag.pointerId) return;
+			const { corner } = this.drag;
+			this.drag = null;
+			if (this.overlay.hasPointerCapture(e.pointerId)) {
+				this.overlay.releasePointerCapture(e.pointerId);
+			}
+			if (this.quad) this.moveCorner(corner, this.quad[corner], true);
+		};
+		this.overlay.addEventListener("pointerup", endDrag);
+		this.overlay.addEventListener("pointercancel", endDrag);
+
+		this.overlay.addEventListener("keydown", (e) => {
+			if (!this.enabled || !this.quad) return;
+			const dir: Record<string, [number, number]> = {
+				ArrowLeft: [-1, 0],
+				ArrowRight: [1, 0],
+				ArrowUp: [0, -1],
+				ArrowDown: [0, 1],
+			};
+			const d = dir[e.key];
+			if (!d) return;
+			e.preventDefault();
+			const step = e.shiftKey ? 10 : 1;
+			const p = this.quad[this.activeCorner];
+			this.moveCorner(
+				this.activeCorner,
+				{ x: p.x + d[0] * step, y: p.y + d[1] * step },
+				true,
+			);
+		});
+
+		if (typeof ResizeObserver !== "undefined") {
+			new ResizeObserver(() => this.scheduleDraw()).observe(this.container);
+		} else {
+			window.addEventListener("resize", () => this.scheduleDraw());
+		}
+	}
+
+	private scheduleDraw() {
+		if (this.scheduledRaf !== null) return;
+		this.scheduledRaf = requestAnimationFrame(() => {
+			this.scheduledRaf = null;
+			this.draw();
+		});
+	}
+
+	public draw() {
+		const ctx = this.overlay.getContext("2d");
+		if (!ctx) return;
+
+		const containerRect = this.container.getBoundingClientRect();
+		const dpr = window.devicePixelRatio || 1;
+		const targetWidth = Math.round(containerRect.width * dpr);
+		const targetHeight = Math.round(containerRect.height * dpr);
+		if (
+			this.overlay.width !== targetWidth ||
+			this.overlay.height !== targetHeight
+		) {
+			this.overlay.width = targetWidth;
+			this.overlay.height = targetHeight;
+		}
+		ctx.resetTransform();
+		ctx.clearRect(0, 0, this.overlay.width, this.overlay.height);
+
+		const quad = this.quad;
+		if (!this.enabled || !quad || this.imageWidth === 0) return;
+
+		ctx.scale(dpr, dpr);
+		const [tl, tr, br, bl] = quad.map((p) => this.toScreen(p));
+		const lerp = (a: Point, b: Point, t: number): Point => ({
+			x: a.x + (b.x - a.x) * t,
+			y: a.y + (b.y - a.y) * t,
+		});
+
+		// 補助線（向かい合う辺を等分した点を結ぶ）
+		ctx.beginPath();
+		ctx.strokeStyle = "rgba(6, 182, 212, 0.45)";
+		ctx.lineWidth = 1;
+		for (let i = 1; i < GUIDE_DIVISIONS; i += 1) {
+			const t = i / GUIDE_DIVISIONS;
+			const top = lerp(tl, tr, t);
+			const bottom = lerp(bl, br, t);
+			const left = lerp(tl, bl, t);
+			const right = lerp(tr, br, t);
+			ctx.moveTo(top.x, top.y);
+			ctx.lineTo(bottom.x, bottom.y);
+			ctx.moveTo(left.x, left.y);
+			ctx.lineTo(right.x, right.y);
+		}
+		ctx.stroke();
+
+		ctx.beginPath();
+		ctx.moveTo(tl.x, tl.y);
+		for (const p of [tr, br, bl]) ctx.lineTo(p.x, p.y);
+		ctx.closePath();
+		ctx.fillStyle = "rgba(99, 102, 241, 0.12)";
+		ctx.fill();
+		ctx.strokeStyle = "rgba(99, 102, 241, 0.9)";
+		ctx.lineWidth = 2;
+		ctx.stroke();
+
+		const half = HANDLE_SIZE / 2;
+		[tl, tr, br, bl].forEach((p, i) => {
+			ctx.fillStyle = i === this.activeCorner ? "#f59e0b" : "#6366f1";
+			ctx.fillRect(p.x - half, p.y - half, HANDLE_SIZE, HANDLE_SIZE);
+			ctx.strokeStyle = "#ffffff";
+			ctx.lineWidth = 1;
+			ctx.strokeRect(p.x - half, p.y - half, HANDLE_SIZE, HANDLE_SIZE);
+		});
+	}
+}
@@ -1,56 +1,81 @@
+import { parseRecipe, type Recipe } from "../core/recipe";
+
 export interface Preset {
 	id: string;
 	name: string;
 	timestamp: number;
-	data: Record<string, string | number | boolean>;
+	recipe: Recipe;
 }
 
 const STORAGE_KEY = "pixel-refiner-presets";
 
+type StoredPreset = Omit<Preset, "recipe"> & {
+	recipe?: unknown;
+	// v1 形式（UI 要素IDをキーにした設定値）
+	data?: unknown;
+};
+
+const writePresets = (presets: Preset[]): void => {
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
 export const PresetManager = {
-	savePreset(
-		name: string,
-		data: Record<string, string | number | boolean>,
-	): Preset {
+	savePreset(name: string, recipe: Recipe): Preset {
 		const presets = this.loadPresets();
+		const presetName = name || new Date().toLocaleString();
 		const newPreset: Preset = {
 			id: crypto.randomUUID(),
-			name: name || new Date().toLocaleString(),
+			name: presetName,
 			timestamp: Date.now(),
-			data,
+			recipe: { ...recipe, name: presetName },
 		};
 		presets.push(newPreset);
-		localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+		writePresets(presets);
 		return newPreset;
 	},
 
-	updatePreset(
-		id: string,
-		data: Record<string, string | number | boolean>,
-	): void {
+	updatePreset(id: string, recipe: Recipe): void {
 		const presets = this.loadPresets();
 		const idx = presets.findIndex((p) => p.id === id);
 		if (idx !== -1) {
-			presets[idx].data = data;
+			presets[idx].recipe = { ...recipe, name: presets[idx].name };
 			presets[idx].timestamp = Date.now();
-			localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+			writePresets(presets);
 		}
 	},
 
 	loadPresets(): Preset[] {
 		const saved = localStorage.getItem(STORAGE_KEY);
 		if (!saved) return [];
+		let stored: StoredPreset[];
 		try {
-			return JSON.parse(saved) as Preset[];
+			stored = JSON.parse(saved) as StoredPreset[];
 		} catch (e) {
 			console.error("Failed to parse presets:", e);
 			return [];
 		}
+
+		// 旧形式のプリセットはここでレシピに移行する（壊れたものは読み飛ばす）
+		const presets: Preset[] = [];
+		for (const p of stored) {
+			try {
+				const recipe = parseRecipe(p.recipe ?? p.data);
+				presets.push({
+					id: p.id,
+					name: p.name,
+					timestamp: p.timestamp,
+					recipe: { ...recipe, name: p.name },
+				});
+			} catch (e) {
+				console.error(`Failed to migrate preset "${p.name}":`, e);
+			}
+		}
+		return presets;
 	},
 
 	deletePreset(id: string): void {
 		const presets = this.loadPresets();
 		const filtered = presets.filter((p) => p.id !== id);
-		localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+		writePresets(filtered);
 	},
 };
@@ -1,15 +1,39 @@
-import type { RawImage } from "../shared/types";
+import type { ConfidenceMap } from "../core/confidence";
+import { INDEXED_PALETTE_ORDERS } from "../shared/config";
+import type {
+	AnimationExportFormat,
+	IndexedPaletteOrder,
+	RawImage,
+	TileFormat,
+} from "../shared/types";
 import { drawRawImageToCanvas } from "./io";
 
 type ResultViewerCallbacks = {
 	onDownload?: (scale: number) => void;
+	onDownloadAnimation?: (format: AnimationExportFormat) => void;
+	onDownloadIndexed?: (order: IndexedPaletteOrder) => void;
+	onDownloadTiles?: (format: TileFormat) => void;
 	onCompare?: () => void;
 	onZoomToggle?: (enabled: boolean) => void;
 	onGridToggle?: (enabled: boolean) => void;
+	onConfidenceToggle?: (enabled: boolean) => void;
 	onBgChange?: (bgType: string) => void;
 	onImageClick?: () => void;
 };
 
+/** 結果の上に枠で示す範囲（結果の画素座標） */
+type HighlightRect = {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+};
+
+// 確からしさがこれ以上の画素はヒートマップに塗らない
+const CONFIDENCE_SHOWN = 0.9;
+// 確からしさがこれ以下の画素は最も強い色で塗る
+const CONFIDENCE_LOWEST = 0.5;
+
 export class ResultViewer {
 	private static instances = new Set<ResultViewer>();
 	private static globalListenersInitialized = false;
@@ -22,6 +46,7 @@ export class ResultViewer {
 	private bgSelector: HTMLElement;
 	private zoomCheck: HTMLInputElement;
 	private gridCheck: HTMLInputElement;
+	private confidenceCheck: HTMLInputElement;
 	private downloadBtn: HTMLButtonElement;
 	private downloadDropdownBtn: HTMLButtonElement;
 	private downloadMenu: HTMLElement;
@@ -29,6 +54,8 @@ export class ResultViewer {
 	private loadingOverlay: HTMLElement;
 
 	private currentImage: RawImage | null = null;
+	private highlights: HighlightRect[] = [];
+	private confidence: ConfidenceMap | null = null;
 	private currentBgType = "checkered";
 	private callbacks: ResultViewerCallbacks = {};
 	private resizeObserver: ResizeObserver | null = null;
@@ -42,6 +69,9 @@ export class ResultViewer {
 		this.bgSelector = this.get<HTMLElement>(".js-bg-selector");
 		this.zoomCheck = this.get<HTMLInputElement>(".js-zoom-output");
 		this.gridCheck = this.get<HTMLInputElement>(".js-grid-output");
+		this.confidenceCheck = this.get<HTMLInputElement>(".js-confidence-output");
+		// 確からしさは処理の後に setConfidence で渡される
+		this.confidenceCheck.disabled = true;
 		this.downloadBtn = this.get<HTMLButtonElement>(".js-download-button");
 		this.downloadDropdownBtn = this.get<HTMLButtonElement>(
 			".js-download-dropdown-button",
@@ -105,6 +135,12 @@ export class ResultViewer {
 			this.callbacks.onGridToggle?.(this.gridCheck.checked);
 		});
 
+		// Confidence heatmap Toggle
+		this.confidenceCheck.addEventListener("change", () => {
+			this.drawGrid();
+			this.callbacks.onConfidenceToggle?.(this.confidenceCheck.checked);
+		});
+
 		// Background Selector
 		this.bgSelector.querySelectorAll(".bg-btn").forEach((btn) => {
 			btn.addEventListener("click", (e) => {
@@ -140,6 +176,27 @@ export class ResultViewer {
 			btn.setAttribute("role", "menuitem");
 			btn.addEventListener("click", (e) => {
 				e.stopPropagation();
+				const format = btn.dataset.animation;
+				if (format) {
+					this.callbacks.onDownloadAnimation?.(format as AnimationExportFormat);
+					this.closeDownloadMenu();
+					return;
+				}
+				if (btn.dataset.indexed !== undefined) {
+					// 並び順は既知の値だけを受け付ける（不明な値では何もしない）
+					const order = INDEXED_PALETTE_ORDERS.find(
+						(v) => v === btn.dataset.indexed,
+					);
+					if (order) this.callbacks.onDownloadIndexed?.(order);
+					this.closeDownloadMenu();
+					return;
+				}
+				const tiles = btn.dataset.tiles;
+				if (tiles) {
+					this.callbacks.onDownloadTiles?.(tiles as TileFormat);
+					this.closeDownloadMenu();
+					return;
+				}
 				const scale = Number.parseInt(
 					btn.getAttribute("data-scale") || "1",
 					10,
@@ -264,6 +321,36 @@ export class ResultViewer {
 		this.drawGrid();
 	}
 
+	/**
+	 * アニメーション用の書き出し項目（GIF / APNG / フレームストリップ）の表示を切り替える。
+	 */
+	public setAnimationAvailable(available: boolean) {
+		this.downloadMenu
+			.querySelectorAll<HTMLElement>("[data-animation]")
+			.forEach((btn) => {
+				btn.hidden = !available;
+			});
+	}
+
+	/**
+	 * 結果の上に赤枠で示す範囲（機種の制約に収まらないタイルなど）を設定する。
+	 * グリッドと違い、ズームしていなくても表示する。
+	 */
+	public setHighlights(rects: HighlightRect[]) {
+		this.highlights = rects;
+		this.drawGrid();
+	}
+
+	/**
+	 * 結果の画素ごとの確からしさ（ProcessResult.confidence）を設定する。
+	 * ヒートマップを ON にすると、確からしさの低い画素を黄色〜赤で塗って示す（ズームしていなくても表示する）。
+	 */
+	public setConfidence(confidence: ConfidenceMap | null) {
+		this.confidence = confidence;
+		this.confidenceCheck.disabled = !confidence;
+		this.drawGrid();
+	}
+
 	public setLoading(isLoading: boolean) {
 		this.loadingOverlay.style.display = isLoading ? "flex" : "none";
 	}
@@ -300,6 +387,11 @@ export class ResultViewer {
 		this.drawGrid();
 	}
 
+	public setConfidenceVisible(enabled: boolean) {
+		this.confidenceCheck.checked = enabled;
+		this.drawGrid();
+	}
+
 	private updateZoomState() {
 		const container = this.canvas.parentElement;
 		if (container) {
@@ -326,10 +418,18 @@ export class ResultViewer {
 		ctx.clearRect(0, 0, this.gridCanvas.width, this.gridCanvas.height);
 
 		// Grid is only drawn if enabled and zoom is enabled
+		const showGrid =
+			this.gridCheck.checked && this.zoomCheck.checked && !!this.currentImage;
+		const showHighlights = this.highlights.length > 0 && !!this.currentImage;
+		const confidence = this.confidence;
+		const showConfidence =
+			this.confidenceCheck.checked &&
+			!!confidence &&
+			confidence.width === this.currentImage?.width &&
+			confidence.height === this.currentImage?.height;
 		if (
-			!this.gridCheck.checked ||
-			!this.zoomCheck.checked ||
-			!this.currentImage
+			!this.currentImage ||
+			(!showGrid && !showHighlights && !showConfidence)
 		) {
 			this.canvas.parentElement?.classList.remove("grid-enabled");
 			return;
@@ -345,9 +445,16 @@ export class ResultViewer {
 
 		if (cssW === 0 || cssH === 0) return;
 
+		// ズームしていないときは結果の canvas が枠の canvas より小さいので、その位置のずれ
+		const overlayRect = this.gridCanvas.getBoundingClientRect();
+		const baseX = showGrid ? 0 : rect.left - overlayRect.left;
+		const baseY = showGrid ? 0 : rect.top - overlayRect.top;
+		const canvasW = showGrid ? cssW : overlayRect.width;
+		const canvasH = showGrid ? cssH : overlayRect.height;
+
 		// Set grid canvas resolution to screen pixels
-		const targetWidth = Math.round(cssW * dpr);
-		const targetHeight = Math.round(cssH * dpr);
+		const targetWidth = Math.round(canvasW * dpr);
+		const targetHeight = Math.round(canvasH * dpr);
 
 		if (
 			this.gridCanvas.width !== targetWidth ||
@@ -365,19 +472,19 @@ export class ResultViewer {
 
 		let drawW = cssW;
 		let drawH = cssH;
-		let offsetX = 0;
-		let offsetY = 0;
+		let offsetX = baseX;
+		let offsetY = baseY;
 
 		if (containerRatio > imgRatio) {
 			// Container is wider than image -> Pillarbox (bars on sides)
 			drawH = cssH;
 			drawW = cssH * imgRatio;
-			offsetX = (cssW - drawW) / 2;
+			offsetX += (cssW - drawW) / 2;
 		} else {
 			// Container is taller than image -> Letterbox (bars top/bottom)
 			drawW = cssW;
 			drawH = cssW / imgRatio;
-			offsetY = (cssH - drawH) / 2;
+			offsetY += (cssH - drawH) / 2;
 		}
 
 		// Adjust calculations to canvas coordinate space (Multiplying by DPR)
@@ -398,29 +505,66 @@ export class ResultViewer {
 		const stepX = drawW / imgW;
 		const stepY = drawH / imgH;
 
-		// Vertical lines
-		// We avoid drawing the very first and last lines if they overlap with container border,
-		// but typically we draw all internal lines.
-		// Optimization: if step is very small (zoom out), don't draw grid?
-		// User asked for "Zoom Mode" so it's likely zoomed in.
+		if (showGrid) {
+			// Vertical lines
+			// We avoid drawing the very first and last lines if they overlap with container border,
+			// but typically we draw all internal lines.
+			// Optimization: if step is very small (zoom out), don't draw grid?
+			// User asked for "Zoom Mode" so it's likely zoomed in.
+
+			for (let x = 0; x <= imgW; x++) {
+				const px = offsetX + x * stepX;
+				ctx.moveTo(px, offsetY);
+				ctx.lineTo(px, offsetY + drawH);
+			}
 
-		for (let x = 0; x <= imgW; x++) {
-			const px = offsetX + x * stepX;
-			ctx.moveTo(px, offsetY);
-			ctx.lineTo(px, offsetY + drawH);
+			// Horizontal lines
+			for (let y = 0; y <= imgH; y++) {
+				const py = offsetY + y * stepY;
+				ctx.moveTo(offsetX, py);
+				ctx.lineTo(offsetX + drawW, py);
+			}
+			ctx.stroke();
 		}
 
-		// Horizontal lines
-		for (let y = 0; y <= imgH; y++) {
-			const py = offsetY + y * stepY;
-			ctx.moveTo(offsetX, py);
-			ctx.lineTo(offsetX + drawW, py);
+		if (showConfidence && confidence) {
+			// 確からしさが低いほど赤く、濃くする
+			for (let y = 0; y < imgH; y++) {
+				for (let x = 0; x < imgW; x++) {
+					const c = confidence.data[y * imgW + x];
+					if (c >= CONFIDENCE_SHOWN) continue;
+					const t = Math.min(
+						1,
+						(CONFIDENCE_SHOWN - c) / (CONFIDENCE_SHOWN - CONFIDENCE_LOWEST),
+					);
+					ctx.fillStyle = `rgba(255, ${Math.round(200 * (1 - t))}, 0, ${0.3 + 0.4 * t})`;
+					ctx.fillRect(offsetX + x * stepX, offsetY + y * stepY, stepX, stepY);
+				}
+			}
+		}
+
+		if (showHighlights) {
+			ctx.fillStyle = "rgba(255, 0, 0, 0.2)";
+			ctx.strokeStyle = "rgba(255, 40, 40, 0.9)";
+			ctx.lineWidth = 2;
+			for (const h of this.highlights) {
+				const hx = offsetX + h.x * stepX;
+				const hy = offsetY + h.y * stepY;
+				ctx.fillRect(hx, hy, h.width * stepX, h.height * stepY);
+				ctx.strokeRect(
+					hx + 1,
+					hy + 1,
+					h.width * stepX - 2,
+					h.height * stepY - 2,
+				);
+			}
 		}
-		ctx.stroke();
 	}
 
 	public clear() {
 		this.currentImage = null;
+		this.highlights = [];
+		this.confidence = null;
 		this.closeDownloadMenu();
 		const ctx = this.canvas.getContext("2d");
 		ctx?.clearRect(0, 0, this.canvas.width, this.canvas.height);
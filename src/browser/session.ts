@@ -1,4 +1,13 @@
-import type { RawImage } from "../shared/types";
+import type { Animation } from "../core/animation";
+import type { ConfidenceMap } from "../core/confidence";
+import type { ConstraintViolation } from "../core/constraints";
+import type { GridDiagnostics } from "../core/detector";
+import type {
+	ManualGrid,
+	PerspectiveQuad,
+	PixelGrid,
+	RawImage,
+} from "../shared/types";
 import { drawRawImageToCanvas } from "./io";
 
 export interface ImageItem {
@@ -6,6 +15,24 @@ export interface ImageItem {
 	file: File;
 	original: RawImage;
 	result?: RawImage;
+	/** GIF / APNG のアニメーション（original は先頭フレーム） */
+	animation?: Animation;
+	/** 共通グリッド・共通パレットで処理したアニメーション */
+	animationResult?: Animation;
+	/** 直近の処理で使われたグリッド */
+	grid?: PixelGrid;
+	/** 自動グリッド検出の診断情報（detectGrid が走ったときのみ） */
+	gridDiagnostics?: GridDiagnostics;
+	/** 機種の制約に収まらない範囲（機種を選んだときのみ） */
+	constraintViolations?: ConstraintViolation[];
+	/** 結果の画素ごとの確からしさ（グリッドで縮小したときのみ） */
+	confidence?: ConfidenceMap;
+	/** ユーザーが手動で指定したグリッド（指定時は自動検出しない） */
+	manualGrid?: ManualGrid;
+	/** ユーザーが指定した射影補正の 4 隅（元画像の座標） */
+	perspectiveQuad?: PerspectiveQuad;
+	/** ディザリングしない所を黒で塗ったマスク画像 */
+	ditherMask?: RawImage;
 	thumbnail: string;
 	status: "pending" | "processing" | "done" | "error";
 	error?: string;
@@ -25,13 +52,14 @@ export class ImageSession {
 		this.onActiveChange = callbacks.onActiveChange;
 	}
 
-	public addImage(file: File, raw: RawImage): void {
+	public addImage(file: File, raw: RawImage, animation?: Animation): void {
 		const id = crypto.randomUUID();
 		const thumbnail = this.createThumbnail(raw);
 		const item: ImageItem = {
 			id,
 			file,
 			original: raw,
+			animation,
 			thumbnail,
 			status: "pending",
 		};
@@ -45,6 +73,28 @@ export class ImageSession {
 		}
 	}
 
+	/**
+	 * 1 枚の画像を複数の画像（スプライトシートのフレームなど）で置き換える。
+	 * 置き換えた先頭の画像をアクティブにする。
+	 */
+	public replaceImage(
+		id: string,
+		entries: Array<{ file: File; raw: RawImage }>,
+	): void {
+		const idx = this.images.findIndex((img) => img.id === id);
+		if (idx === -1 || entries.length === 0) return;
+
+		const items: ImageItem[] = entries.map(({ file, raw }) => ({
+			id: crypto.randomUUID(),
+			file,
+			original: raw,
+			thumbnail: this.createThumbnail(raw),
+			status: "pending",
+		}));
+		this.images.splice(idx, 1, ...items);
+		this.setActiveImage(items[0].id);
+	}
+
 	public removeImage(id: string): void {
 		const idx = this.images.findIndex((img) => img.id === id);
 		if (idx === -1) return;
@@ -89,15 +139,57 @@ export class ImageSession {
 		return [...this.images];
 	}
 
-	public updateImageResult(id: string, result: RawImage): void {
+	public updateImageResult(
+		id: string,
+		result: RawImage,
+		grid?: PixelGrid,
+		gridDiagnostics?: GridDiagnostics,
+		constraintViolations?: ConstraintViolation[],
+		confidence?: ConfidenceMap,
+	): void {
 		const img = this.images.find((i) => i.id === id);
 		if (img) {
 			img.result = result;
+			img.grid = grid;
+			img.gridDiagnostics = gridDiagnostics;
+			img.constraintViolations = constraintViolations;
+			img.confidence = confidence;
 			img.status = "done";
 			this.onUpdate();
 		}
 	}
 
+	public setAnimationResult(id: string, animation: Animation): void {
+		const img = this.images.find((i) => i.id === id);
+		if (img) {
+			img.animationResult = animation;
+		}
+	}
+
+	public setManualGrid(id: string, grid: ManualGrid | undefined): void {
+		const img = this.images.find((i) => i.id === id);
+		if (img) {
+			img.manualGrid = grid;
+		}
+	}
+
+	public setPerspectiveQuad(
+		id: string,
+		quad: PerspectiveQuad | undefined,
+	): void {
+		const img = this.images.find((i) => i.id === id);
+		if (img) {
+			img.perspectiveQuad = quad;
+		}
+	}
+
+	public setDitherMask(id: string, mask: RawImage | undefined): void {
+		const img = this.images.find((i) => i.id === id);
+		if (img) {
+			img.ditherMask = mask;
+		}
+	}
+
 	public setImageStatus(
 		id: string,
 		status: ImageItem["status"],
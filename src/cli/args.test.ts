@@ -0,0 +1,260 @@
+import { describe, expect, it } from "vitest";
+import { parseCliArgs, parseHexColor } from "./args";
+import { globBase, globToRegExp } from "./files";
+
+describe("parseCliArgs", () => {
+	it("入力とフラグを ProcessOptions に変換する", () => {
+		const args = parseCliArgs([
+			"in/a.png",
+			"--out",
+			"dist/x",
+			"--scale=4",
+			"--reduce-color-mode",
+			"pico8",
+			"--dither-mode",
+			"bayer-4x4",
+			"--force-pixels-w",
+			"32",
+			"--force-pixels-h=24",
+			"--outline-color",
+			"#ff8000",
+			"in/b",
+		]);
+		expect(args.inputs).toEqual(["in/a.png", "in/b"]);
+		expect(args.outDir).toBe("dist/x");
+		expect(args.scale).toBe(4);
+		expect(args.options).toMatchObject({
+			reduceColors: true,
+			reduceColorMode: "pico8",
+			ditherMode: "bayer-4x4",
+			forcePixelsW: 32,
+			forcePixelsH: 24,
+			outlineColor: { r: 255, g: 128, b: 0 },
+		});
+	});
+
+	it("真偽値フラグは --no- 形式と =false を受け付ける", () => {
+		const args = parseCliArgs([
+			"--no-enable-grid-detection",
+			"--trim-to-content=false",
+			"--pre-remove-background",
+			"x.png",
+		]);
+		expect(args.options.enableGridDetection).toBe(false);
+		expect(args.options.trimToContent).toBe(false);
+		expect(args.options.preRemoveBackground).toBe(true);
+	});
+
+	it("--grid で手動グリッドを指定できる", () => {
+		expect(parseCliArgs(["--grid", "8x6+2+1"]).options.manualGrid).toEqual({
+			cellW: 8,
+			cellH: 6,
+			offsetX: 2,
+			offsetY: 1,
+		});
+		expect(parseCliArgs(["--grid=7.5x7.5"]).options.manualGrid).toEqual({
+			cellW: 7.5,
+			cellH: 7.5,
+			offsetX: 0,
+			offsetY: 0,
+		});
+		expect(() => parseCliArgs(["--grid", "8"])).toThrow(/--grid/);
+	});
+
+	it("--split で自動分割か列×行の分割を指定できる", () => {
+		expect(parseCliArgs(["--split", "auto"]).split).toEqual({ mode: "auto" });
+		expect(parseCliArgs(["--split=4x2"]).split).toEqual({
+			mode: "grid",
+			columns: 4,
+			rows: 2,
+		});
+		expect(() => parseCliArgs(["--split", "4"])).toThrow(/--split/);
+	});
+
+	it("--atlas とアトラスの詰め方を指定できる", () => {
+		const args = parseCliArgs([
+			"--atlas",
+			"sheet",
+			"--atlas-pack",
+			"shelf",
+			"--atlas-padding",
+			"4",
+			"--atlas-pot",
+		]);
+		expect(args.atlasName).toBe("sheet");
+		expect(args.atlas).toEqual({
+			method: "shelf",
+			padding: 4,
+			powerOfTwo: true,
+		});
+		expect(() => parseCliArgs(["--atlas-pack", "grid"])).toThrow();
+	});
+
+	it("アニメーションの共通グリッドと書き出し形式を指定できる", () => {
+		const args = parseCliArgs([
+			"--anim-grid",
+			"first",
+			"--anim-format",
+			"strip",
+		]);
+		expect(args.animation).toEqual({ gridSource: "first" });
+		expect(args.animationFormat).toBe("strip");
+		expect(parseCliArgs([]).animationFormat).toBeUndefined();
+		expect(() => parseCliArgs(["--anim-format", "webp"])).toThrow();
+	});
+
+	it("--shared-palette と --save-palette を指定できる", () => {
+		const args = parseCliArgs([
+			"--shared-palette",
+			"--save-palette",
+			"out/batch.gpl",
+		]);
+		expect(args.sharedPalette).toBe(true);
+		expect(args.savePaletteFile).toBe("out/batch.gpl");
+		expect(parseCliArgs([]).sharedPalette).toBe(false);
+	});
+
+	it("参照画像からのパレット抽出方法と色数を指定できる", () => {
+		const args = parseCliArgs([
+			"--palette",
+			"title.png",
+			"--palette-method",
+			"kmeans",
+			"--palette-colors",
+			"24",
+		]);
+		expect(args.paletteFile).toBe("title.png");
+		expect(args.paletteMethod).toBe("kmeans");
+		expect(args.paletteColors).toBe(24);
+		expect(() => parseCliArgs(["--palette-method", "octree"])).toThrow();
+	});
+
+	it("ディザリングの範囲指定のフラグを受け付ける", () => {
+		const args = parseCliArgs([
+			"--dither-masking",
+			"--dither-mask-threshold=12",
+			"--dither-mask",
+			"mask.png",
+		]);
+		expect(args.options.ditherMasking).toBe(true);
+		expect(args.options.ditherMaskThreshold).toBe(12);
+		expect(args.ditherMaskFile).toBe("mask.png");
+	});
+
+	it("半透明の扱いのフラグを受け付ける", () => {
+		const args = parseCliArgs([
+			"--alpha-policy",
+			"quantize",
+			"--alpha-levels=3",
+			"--alpha-threshold=100",
+		]);
+		expect(args.options.alphaPolicy).toBe("quantize");
+		expect(args.options.alphaLevels).toBe(3);
+		expect(args.options.alphaThreshold).toBe(100);
+		expect(() => parseCliArgs(["--alpha-policy", "dither"])).toThrow();
+	});
+
+	it("傾き・射影の補正のフラグを受け付ける", () => {
+		const args = parseCliArgs([
+			"--deskew",
+			"--perspective",
+			"12,8,300,20.5,310,240,4,230",
+		]);
+		expect(args.options.deskew).toBe(true);
+		expect(args.options.perspectiveQuad).toEqual([
+			{ x: 12, y: 8 },
+			{ x: 300, y: 20.5 },
+			{ x: 310, y: 240 },
+			{ x: 4, y: 230 },
+		]);
+		expect(() => parseCliArgs(["--perspective", "1,2,3"])).toThrow();
+		expect(() => parseCliArgs(["--perspective", "1,2,3,4,5,6,7,x"])).toThrow();
+	});
+
+	it("圧縮ノイズの除去のフラグを受け付ける", () => {
+		expect(parseCliArgs([]).options.restoreArtifacts).toBeUndefined();
+		expect(parseCliArgs(["--restore-artifacts"]).options.restoreArtifacts).toBe(
+			true,
+		);
+	});
+
+	it("グリッド検出の推定方法のフラグを受け付ける", () => {
+		expect(parseCliArgs([]).options.gridDetector).toBeUndefined();
+		const args = parseCliArgs(["--grid-detector", "frequency"]);
+		expect(args.options.gridDetector).toBe("frequency");
+		expect(() => parseCliArgs(["--grid-detector", "fft"])).toThrow();
+	});
+
+	it("セルの色の決め方のフラグを受け付ける", () => {
+		expect(parseCliArgs([]).options.cellSampler).toBeUndefined();
+		const args = parseCliArgs(["--cell-sampler", "linear_mean"]);
+		expect(args.options.cellSampler).toBe("linear_mean");
+		expect(() => parseCliArgs(["--cell-sampler", "mean"])).toThrow();
+	});
+
+	it("機種の制約のフラグを受け付ける", () => {
+		const args = parseCliArgs([
+			"--hardware-profile",
+			"nes",
+			"--enforce-hardware-constraints",
+		]);
+		expect(args.options.hardwareProfile).toBe("nes");
+		expect(args.options.enforceHardwareConstraints).toBe(true);
+		expect(() => parseCliArgs(["--hardware-profile", "msx"])).toThrow();
+	});
+
+	it("インデックスカラー PNG のフラグを受け付ける", () => {
+		expect(parseCliArgs([]).transparentIndex0).toBe(true);
+		const args = parseCliArgs([
+			"--indexed",
+			"luminance",
+			"--no-transparent-index0",
+		]);
+		expect(args.indexed).toBe("luminance");
+		expect(args.transparentIndex0).toBe(false);
+		expect(() => parseCliArgs(["--indexed", "hue"])).toThrow();
+	});
+
+	it("タイル形式のフラグを受け付ける", () => {
+		expect(parseCliArgs(["--tiles", "snes-4bpp"]).tiles).toBe("snes-4bpp");
+		expect(() => parseCliArgs(["--tiles", "genesis"])).toThrow();
+	});
+
+	it("不正な値はエラーになる", () => {
+		expect(() => parseCliArgs(["--unknown"])).toThrow();
+		expect(() => parseCliArgs(["--dither-mode", "nope"])).toThrow();
+		expect(() => parseCliArgs(["--color-count", "abc"])).toThrow();
+		expect(() => parseCliArgs(["--sample-window"])).toThrow();
+		expect(() => parseCliArgs(["--outline-color", "red"])).toThrow();
+	});
+});
+
+describe("parseHexColor", () => {
+	it("# の有無に関わらず解析する", () => {
+		expect(parseHexColor("#0a0B0c")).toEqual({ r: 10, g: 11, b: 12 });
+		expect(parseHexColor("ffffff")).toEqual({ r: 255, g: 255, b: 255 });
+		expect(parseHexColor("#fff")).toBeNull();
+	});
+});
+
+describe("glob", () => {
+	it("** はゼロ個以上のディレクトリに一致する", () => {
+		const re = globToRegExp("assets/**/*.png");
+		expect(re.test("assets/a.png")).toBe(true);
+		expect(re.test("assets/x/y/a.png")).toBe(true);
+		expect(re.test("assets/a.jpg")).toBe(false);
+		expect(re.test("other/a.png")).toBe(false);
+	});
+
+	it("* と ? はパス区切りをまたがない", () => {
+		const re = globToRegExp("a/*_?.png");
+		expect(re.test("a/hero_1.png")).toBe(true);
+		expect(re.test("a/b/hero_1.png")).toBe(false);
+	});
+
+	it("ワイルドカードを含まない先頭ディレクトリを基準にする", () => {
+		expect(globBase("assets/raw/**/*.png")).toBe("assets/raw");
+		expect(globBase("*.png")).toBe(".");
+		expect(globBase("/abs/dir/*.png")).toBe("/abs/dir");
+	});
+});
@@ -0,0 +1,773 @@
+import type { AnimationProcessOptions } from "../core/animation";
+import type { AtlasPackOptions } from "../core/atlas";
+import type { ProcessOptions } from "../core/processor";
+import type { SpriteSliceOptions } from "../core/spritesheet";
+import {
+	ALPHA_POLICIES,
+	ANIMATION_EXPORT_FORMATS,
+	ANIMATION_GRID_SOURCES,
+	ATLAS_PACK_METHODS,
+	BG_EXTRACTION_METHODS,
+	CELL_SAMPLERS,
+	DITHER_MODES,
+	GRID_DETECTORS,
+	HARDWARE_PROFILES,
+	INDEXED_PALETTE_ORDERS,
+	OUTLINE_STYLES,
+	PALETTE_EXTRACT_METHODS,
+	TILE_FORMATS,
+} from "../shared/config";
+import type {
+	AnimationExportFormat,
+	IndexedPaletteOrder,
+	PaletteExtractMethod,
+	RGB,
+	TileFormat,
+} from "../shared/types";
+
+export type CliArgs = {
+	inputs: string[];
+	outDir: string;
+	/** 追加で書き出す拡大版の倍率（未指定なら書き出さない） */
+	scale?: number;
+	/** 静止画をインデックスカラー（PLTE + tRNS）の PNG で書き出すときのパレットの並び */
+	indexed?: IndexedPaletteOrder;
+	/** インデックスカラーの PNG で透明色をインデックス 0 に置く */
+	transparentIndex0: boolean;
+	/** 静止画の結果をこの機種のタイル形式でも書き出す（<name>.chr など） */
+	tiles?: TileFormat;
+	/** fixedPalette として読み込むパレットファイル（.gpl / .ase / .aco / .pal / .txt / .hex / .json）、または色を抽出する参照画像 (.png / .gif) */
+	paletteFile?: string;
+	/** 参照画像からの抽出方法（未指定なら "median"） */
+	paletteMethod?: PaletteExtractMethod;
+	/** 参照画像から抽出する色数 */
+	paletteColors?: number;
+	/** ディザリングしない所を黒で塗ったマスク画像 (.png / .gif)。全入力に同じものを使う */
+	ditherMaskFile?: string;
+	/** ベースとなるレシピ (.json)。個別のフラグが優先される */
+	recipeFile?: string;
+	/** 実際に使用した設定をレシピとして書き出す先 */
+	saveRecipeFile?: string;
+	/** 全入力から共通パレットを作り、fixedPalette として全画像に使う */
+	sharedPalette: boolean;
+	/** 共通パレットの書き出し先（形式は拡張子で決まる。既定は .gpl） */
+	savePaletteFile?: string;
+	/** グリッド検出の診断情報を <name>.grid.json に書き出す */
+	gridReport: boolean;
+	/** スプライトシートとしてフレームに分割してから処理する（<name>_<連番>.png） */
+	split?: SpriteSliceOptions;
+	/** 全結果を詰めたアトラスの書き出し名（<out>/<name>.png と <name>.json） */
+	atlasName?: string;
+	atlas: AtlasPackOptions;
+	animation: AnimationProcessOptions;
+	/** アニメーション入力の書き出し形式（未指定なら入力と同じ GIF / APNG） */
+	animationFormat?: AnimationExportFormat;
+	overwrite: boolean;
+	help: boolean;
+	options: ProcessOptions;
+};
+
+type FlagKind = "boolean" | "int" | "number" | "string";
+
+type FlagSpec = {
+	kind: FlagKind;
+	description: string;
+	apply: (args: CliArgs, value: string | number | boolean) => void;
+};
+
+const oneOf = <T extends string>(
+	flag: string,
+	value: string,
+	allowed: readonly T[],
+): T => {
+	const found = allowed.find((v) => v === value);
+	if (found === undefined) {
+		throw new Error(
+			`--${flag}: "${value}" は無効な値です (${allowed.join(" | ")})`,
+		);
+	}
+	return found;
+};
+
+/**
+ * "#rrggbb" / "rrggbb" を RGB に変換する。
+ */
+export const parseHexColor = (value: string): RGB | null => {
+	const m = /^#?([0-9a-f]{6})$/i.exec(value.trim());
+	if (!m) return null;
+	const n = parseInt(m[1], 16);
+	return { r: (n >> 16) & 0xff, g: (n >> 8) & 0xff, b: n & 0xff };
+};
+
+const FLAGS: Record<string, FlagSpec> = {
+	out: {
+		kind: "string",
+		description: "Output directory (default: out)",
+		apply: (a, v) => {
+			a.outDir = String(v);
+		},
+	},
+	scale: {
+		kind: "int",
+		description: "Also write an upscaled copy (<name>_x<scale>.png)",
+		apply: (a, v) => {
+			const n = Number(v);
+			if (n < 2) throw new Error("--scale は 2 以上を指定してください");
+			a.scale = n;
+		},
+	},
+	indexed: {
+		kind: "string",
+		description: `Write still images as indexed PNG (PLTE + tRNS) with the palette in the given order (${INDEXED_PALETTE_ORDERS.join(" | ")})`,
+		apply: (a, v) => {
+			a.indexed = oneOf("indexed", String(v), INDEXED_PALETTE_ORDERS);
+		},
+	},
+	"transparent-index0": {
+		kind: "boolean",
+		description:
+			"Put the transparent colour at index 0 of indexed PNGs (default: on)",
+		apply: (a, v) => {
+			a.transparentIndex0 = Boolean(v);
+		},
+	},
+	tiles: {
+		kind: "string",
+		description: `Also write still images as 8x8 tiles, tilemap and palette (${TILE_FORMATS.join(" | ")})`,
+		apply: (a, v) => {
+			a.tiles = oneOf("tiles", String(v), TILE_FORMATS);
+		},
+	},
+	overwrite: {
+		kind: "boolean",
+		description: "Overwrite existing output files (default: on)",
+		apply: (a, v) => {
+			a.overwrite = Boolean(v);
+		},
+	},
+	recipe: {
+		kind: "string",
+		description: "Recipe (.json) to start from; other flags override it",
+		apply: (a, v) => {
+			a.recipeFile = String(v);
+		},
+	},
+	"save-recipe": {
+		kind: "string",
+		description: "Write the effective settings as a recipe (.json)",
+		apply: (a, v) => {
+			a.saveRecipeFile = String(v);
+		},
+	},
+	"shared-palette": {
+		kind: "boolean",
+		description:
+			"Build one palette from every input (K-means once) and apply it to all images",
+		apply: (a, v) => {
+			a.sharedPalette = Boolean(v);
+		},
+	},
+	"save-palette": {
+		kind: "string",
+		description:
+			"Write the shared palette to a file (.gpl/.ase/.aco/.pal/.txt/.hex/.json by extension)",
+		apply: (a, v) => {
+			a.savePaletteFile = String(v);
+		},
+	},
+	"grid-report": {
+		kind: "boolean",
+		description:
+			"Write grid detection candidates and confidence to <name>.grid.json",
+		apply: (a, v) => {
+			a.gridReport = Boolean(v);
+		},
+	},
+	split: {
+		kind: "string",
+		description:
+			"Split each input as a sprite sheet: auto (per sprite) or <columns>x<rows>",
+		apply: (a, v) => {
+			const value = String(v);
+			if (value === "auto") {
+				a.split = { mode: "auto" };
+				return;
+			}
+			const m = /^(\d+)x(\d+)$/.exec(value);
+			if (!m) {
+				throw new Error(`--split: "${v}" は無効な値です (例: auto, 4x2)`);
+			}
+			a.split = { mode: "grid", columns: Number(m[1]), rows: Number(m[2]) };
+		},
+	},
+	atlas: {
+		kind: "string",
+		description:
+			"Also pack every result into <out>/<name>.png with <name>.json frame data",
+		apply: (a, v) => {
+			a.atlasName = String(v);
+		},
+	},
+	"atlas-pack": {
+		kind: "string",
+		description: `Atlas packing method (${ATLAS_PACK_METHODS.join(" | ")})`,
+		apply: (a, v) => {
+			a.atlas.method = oneOf("atlas-pack", String(v), ATLAS_PACK_METHODS);
+		},
+	},
+	"atlas-padding": {
+		kind: "int",
+		description: "Transparent margin between atlas frames (px)",
+		apply: (a, v) => {
+			a.atlas.padding = Number(v);
+		},
+	},
+	"atlas-pot": {
+		kind: "boolean",
+		description: "Round the atlas size up to powers of two",
+		apply: (a, v) => {
+			a.atlas.powerOfTwo = Boolean(v);
+		},
+	},
+	"anim-grid": {
+		kind: "string",
+		description: `How the grid shared by all animation frames is chosen (${ANIMATION_GRID_SOURCES.join(" | ")})`,
+		apply: (a, v) => {
+			a.animation.gridSource = oneOf(
+				"anim-grid",
+				String(v),
+				ANIMATION_GRID_SOURCES,
+			);
+		},
+	},
+	"anim-format": {
+		kind: "string",
+		description: `Output format of GIF / APNG inputs (${ANIMATION_EXPORT_FORMATS.join(" | ")}; default: same as input)`,
+		apply: (a, v) => {
+			a.animationFormat = oneOf(
+				"anim-format",
+				String(v),
+				ANIMATION_EXPORT_FORMATS,
+			);
+		},
+	},
+	help: {
+		kind: "boolean",
+		description: "Show this help",
+		apply: (a, v) => {
+			a.help = Boolean(v);
+		},
+	},
+	"enable-grid-detection": {
+		kind: "boolean",
+		description: "Detect the pixel grid and downsample (default: on)",
+		apply: (a, v) => {
+			a.options.enableGridDetection = Boolean(v);
+		},
+	},
+	"detection-quant-step": {
+		kind: "int",
+		description: "Posterize step used by grid detection",
+		apply: (a, v) => {
+			a.options.detectionQuantStep = Number(v);
+		},
+	},
+	"detection-strips": {
+		kind: "int",
+		description: "Number of scanlines sampled per axis by grid detection",
+		apply: (a, v) => {
+			a.options.detectionStrips = Number(v);
+		},
+	},
+	"auto-max-cells-w": {
+		kind: "int",
+		description: "Upper bound of detected cells (horizontal)",
+		apply: (a, v) => {
+			a.options.autoMaxCellsW = Number(v);
+		},
+	},
+	"auto-max-cells-h": {
+		kind: "int",
+		description: "Upper bound of detected cells (vertical)",
+		apply: (a, v) => {
+			a.options.autoMaxCellsH = Number(v);
+		},
+	},
+	"background-mask": {
+		kind: "boolean",
+		description: "Mask the background while detecting the grid",
+		apply: (a, v) => {
+			a.options.backgroundMask = Boolean(v);
+		},
+	},
+	"background-mask-tolerance": {
+		kind: "int",
+		description: "Tolerance of the detection background mask",
+		apply: (a, v) => {
+			a.options.backgroundMaskTolerance = Number(v);
+		},
+	},
+	"grid-detector": {
+		kind: "string",
+		description: `How grid detection estimates the cell size (${GRID_DETECTORS.join(" | ")}; frequency cross-checks both and keeps the more confident one)`,
+		apply: (a, v) => {
+			a.options.gridDetector = oneOf(
+				"grid-detector",
+				String(v),
+				GRID_DETECTORS,
+			);
+		},
+	},
+	"auto-grid-from-trimmed": {
+		kind: "boolean",
+		description: "Estimate the output grid from the trimmed content",
+		apply: (a, v) => {
+			a.options.autoGridFromTrimmed = Boolean(v);
+		},
+	},
+	"fast-auto-grid-from-trimmed": {
+		kind: "boolean",
+		description: "Use the fast trimmed-grid search",
+		apply: (a, v) => {
+			a.options.fastAutoGridFromTrimmed = Boolean(v);
+		},
+	},
+	"non-uniform-grid": {
+		kind: "boolean",
+		description: "Fit each column/row boundary to the image edges",
+		apply: (a, v) => {
+			a.options.nonUniformGrid = Boolean(v);
+		},
+	},
+	"force-pixels-w": {
+		kind: "int",
+		description: "Force output width in pixels (requires --force-pixels-h)",
+		apply: (a, v) => {
+			a.options.forcePixelsW = Number(v);
+		},
+	},
+	"force-pixels-h": {
+		kind: "int",
+		description: "Force output height in pixels (requires --force-pixels-w)",
+		apply: (a, v) => {
+			a.options.forcePixelsH = Number(v);
+		},
+	},
+	grid: {
+		kind: "string",
+		description:
+			"Use an explicit grid instead of auto detection: <cellW>x<cellH>[+<offsetX>+<offsetY>]",
+		apply: (a, v) => {
+			const m =
+				/^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)(?:\+(\d+(?:\.\d+)?)\+(\d+(?:\.\d+)?))?$/.exec(
+					String(v),
+				);
+			if (!m) {
+				throw new Error(`--grid: "${v}" は無効な値です (例: 8x8, 8x8+2+3)`);
+			}
+			a.options.manualGrid = {
+				cellW: Number(m[1]),
+				cellH: Number(m[2]),
+				offsetX: Number(m[3] ?? 0),
+				offsetY: Number(m[4] ?? 0),
+			};
+		},
+	},
+	deskew: {
+		kind: "boolean",
+		description:
+			"Estimate rotation / skew from the dominant edge directions and straighten the image before background removal and grid detection",
+		apply: (a, v) => {
+			a.options.deskew = Boolean(v);
+		},
+	},
+	perspective: {
+		kind: "string",
+		description:
+			"Map the quadrilateral <x1,y1,x2,y2,x3,y3,x4,y4> (top-left, top-right, bottom-right, bottom-left; source pixels) onto an axis-aligned image first",
+		apply: (a, v) => {
+			const values = String(v).split(",").map(Number);
+			if (values.length !== 8 || values.some((n) => !Number.isFinite(n))) {
+				throw new Error(
+					`--perspective: "${v}" は無効な値です (例: 12,8,300,20,310,240,4,230)`,
+				);
+			}
+			a.options.perspectiveQuad = [
+				{ x: values[0], y: values[1] },
+				{ x: values[2], y: values[3] },
+				{ x: values[4], y: values[5] },
+				{ x: values[6], y: values[7] },
+			];
+		},
+	},
+	"restore-artifacts": {
+		kind: "boolean",
+		description:
+			"Repair JPEG blocking / ringing and chroma bleeding before grid detection, and sharpen blurred cell edges before sampling",
+		apply: (a, v) => {
+			a.options.restoreArtifacts = Boolean(v);
+		},
+	},
+	"sample-window": {
+		kind: "int",
+		description: "Median window used when sampling each cell",
+		apply: (a, v) => {
+			a.options.sampleWindow = Number(v);
+		},
+	},
+	"cell-sampler": {
+		kind: "string",
+		description: `How each cell's color is picked from its sample window (${CELL_SAMPLERS.join(" | ")}; mode, medoid and center only emit colors from the source)`,
+		apply: (a, v) => {
+			a.options.cellSampler = oneOf("cell-sampler", String(v), CELL_SAMPLERS);
+		},
+	},
+	"pre-remove-background": {
+		kind: "boolean",
+		description: "Remove the background before grid detection",
+		apply: (a, v) => {
+			a.options.preRemoveBackground = Boolean(v);
+		},
+	},
+	"post-remove-background": {
+		kind: "boolean",
+		description: "Make the background transparent after processing",
+		apply: (a, v) => {
+			a.options.postRemoveBackground = Boolean(v);
+		},
+	},
+	"remove-inner-background": {
+		kind: "boolean",
+		description: "Also remove background-coloured areas not touching edges",
+		apply: (a, v) => {
+			a.options.removeInnerBackground = Boolean(v);
+		},
+	},
+	"background-tolerance": {
+		kind: "int",
+		description: "Per-channel tolerance of background removal",
+		apply: (a, v) => {
+			a.options.backgroundTolerance = Number(v);
+		},
+	},
+	"bg-extraction-method": {
+		kind: "string",
+		description: `Background colour source (${BG_EXTRACTION_METHODS.join(" | ")})`,
+		apply: (a, v) => {
+			a.options.bgExtractionMethod = oneOf(
+				"bg-extraction-method",
+				String(v),
+				BG_EXTRACTION_METHODS,
+			);
+		},
+	},
+	"bg-rgb": {
+		kind: "string",
+		description: "Background colour when --bg-extraction-method=rgb (#rrggbb)",
+		apply: (a, v) => {
+			if (!parseHexColor(String(v))) {
+				throw new Error(`--bg-rgb: "${v}" は #rrggbb 形式ではありません`);
+			}
+			const hex = String(v).trim();
+			a.options.bgRgb = hex.startsWith("#") ? hex : `#${hex}`;
+		},
+	},
+	"floating-max-pixels": {
+		kind: "int",
+		description: "Remove floating islands up to this many pixels (0: off)",
+		apply: (a, v) => {
+			a.options.floatingMaxPixels = Number(v);
+		},
+	},
+	"floating-max-percent": {
+		kind: "number",
+		description:
+			"Same as --floating-max-pixels, as a percentage of the input pixels",
+		apply: (a, v) => {
+			a.options.floatingMaxPercent = Number(v);
+		},
+	},
+	"trim-to-content": {
+		kind: "boolean",
+		description: "Trim transparent margins",
+		apply: (a, v) => {
+			a.options.trimToContent = Boolean(v);
+		},
+	},
+	"trim-alpha-threshold": {
+		kind: "int",
+		description: "Alpha threshold used for the content bounding box",
+		apply: (a, v) => {
+			a.options.trimAlphaThreshold = Number(v);
+		},
+	},
+	"reduce-color-mode": {
+		kind: "string",
+		description:
+			"Colour reduction (none | auto | fixed | gb_legacy | pico8 | nes | zx_spectrum | c64_multicolor | ...)",
+		apply: (a, v) => {
+			const mode = String(v);
+			a.options.reduceColorMode = mode;
+			a.options.reduceColors = mode !== "none";
+		},
+	},
+	"color-count": {
+		kind: "int",
+		description: "Colour count for --reduce-color-mode=auto",
+		apply: (a, v) => {
+			a.options.colorCount = Number(v);
+		},
+	},
+	palette: {
+		kind: "string",
+		description:
+			"Palette file used as the fixed palette (.gpl/.ase/.aco/.pal/.txt/.hex/.json), or a reference image (.png/.gif) to extract it from",
+		apply: (a, v) => {
+			a.paletteFile = String(v);
+		},
+	},
+	"palette-method": {
+		kind: "string",
+		description: `How --palette extracts colors from a reference image (${PALETTE_EXTRACT_METHODS.join(" | ")})`,
+		apply: (a, v) => {
+			a.paletteMethod = oneOf(
+				"palette-method",
+				String(v),
+				PALETTE_EXTRACT_METHODS,
+			);
+		},
+	},
+	"palette-colors": {
+		kind: "int",
+		description: "Number of colors extracted from a --palette reference image",
+		apply: (a, v) => {
+			a.paletteColors = Number(v);
+		},
+	},
+	"dither-mode": {
+		kind: "string",
+		description: `Dithering (${DITHER_MODES.join(" | ")})`,
+		apply: (a, v) => {
+			a.options.ditherMode = oneOf("dither-mode", String(v), DITHER_MODES);
+		},
+	},
+	"dither-strength": {
+		kind: "int",
+		description: "Dither strength (0-100)",
+		apply: (a, v) => {
+			a.options.ditherStrength = Number(v);
+		},
+	},
+	"dither-serpentine": {
+		kind: "boolean",
+		description: "Scan odd rows right-to-left in error-diffusion dithering",
+		apply: (a, v) => {
+			a.options.ditherSerpentine = Boolean(v);
+		},
+	},
+	"dither-masking": {
+		kind: "boolean",
+		description:
+			"Dither only gradients, keeping flat fills and 1px lines undithered",
+		apply: (a, v) => {
+			a.options.ditherMasking = Boolean(v);
+		},
+	},
+	"dither-mask-threshold": {
+		kind: "int",
+		description:
+			"Local colour variation (Oklab std. dev. x1000) needed for --dither-masking to dither a pixel (0-100)",
+		apply: (a, v) => {
+			a.options.ditherMaskThreshold = Number(v);
+		},
+	},
+	"dither-mask": {
+		kind: "string",
+		description:
+			"Mask image (.png/.gif) whose black or transparent areas are not dithered, stretched to the output size",
+		apply: (a, v) => {
+			a.ditherMaskFile = String(v);
+		},
+	},
+	"alpha-policy": {
+		kind: "string",
+		description: `Semi-transparent pixels (${ALPHA_POLICIES.join(" | ")})`,
+		apply: (a, v) => {
+			a.options.alphaPolicy = oneOf("alpha-policy", String(v), ALPHA_POLICIES);
+		},
+	},
+	"alpha-threshold": {
+		kind: "int",
+		description:
+			"Minimum alpha kept opaque by --alpha-policy binary; lower becomes transparent (1-255)",
+		apply: (a, v) => {
+			a.options.alphaThreshold = Number(v);
+		},
+	},
+	"alpha-levels": {
+		kind: "int",
+		description:
+			"Number of alpha levels for --alpha-policy quantize, including 0 and 255 (2-16)",
+		apply: (a, v) => {
+			a.options.alphaLevels = Number(v);
+		},
+	},
+	"hardware-profile": {
+		kind: "string",
+		description: `Check per-tile colour and palette limits of a platform (${HARDWARE_PROFILES.join(" | ")})`,
+		apply: (a, v) => {
+			a.options.hardwareProfile = oneOf(
+				"hardware-profile",
+				String(v),
+				HARDWARE_PROFILES,
+			);
+		},
+	},
+	"enforce-hardware-constraints": {
+		kind: "boolean",
+		description:
+			"Re-quantize each tile to the nearest allowed sub-palette of --hardware-profile",
+		apply: (a, v) => {
+			a.options.enforceHardwareConstraints = Boolean(v);
+		},
+	},
+	"outline-style": {
+		kind: "string",
+		description: `Outline (${OUTLINE_STYLES.join(" | ")})`,
+		apply: (a, v) => {
+			a.options.outlineStyle = oneOf(
+				"outline-style",
+				String(v),
+				OUTLINE_STYLES,
+			);
+		},
+	},
+	"outline-color": {
+		kind: "string",
+		description: "Outline colour (#rrggbb)",
+		apply: (a, v) => {
+			const color = parseHexColor(String(v));
+			if (!color) {
+				throw new Error(
+					`--outline-color: "${v}" は #rrggbb 形式ではありません`,
+				);
+			}
+			a.options.outlineColor = color;
+		},
+	},
+	debug: {
+		kind: "boolean",
+		description: "Print processing logs",
+		apply: (a, v) => {
+			a.options.debug = Boolean(v);
+		},
+	},
+};
+
+const SHORT_FLAGS: Record<string, string> = {
+	o: "out",
+	s: "scale",
+	h: "help",
+};
+
+/**
+ * CLI 引数を解析する。
+ * 真偽値フラグは `--flag` / `--no-flag` / `--flag=false` を受け付ける。
+ */
+export const parseCliArgs = (argv: string[]): CliArgs => {
+	const args: CliArgs = {
+		inputs: [],
+		outDir: "out",
+		sharedPalette: false,
+		gridReport: false,
+		transparentIndex0: true,
+		atlas: {},
+		animation: {},
+		overwrite: true,
+		help: false,
+		options: {},
+	};
+
+	for (let i = 0; i < argv.length; i++) {
+		const token = argv[i];
+		if (token === "--") {
+			args.inputs.push(...argv.slice(i + 1));
+			break;
+		}
+		if (!token.startsWith("-") || token === "-") {
+			args.inputs.push(token);
+			continue;
+		}
+
+		let name: string;
+		let inline: string | undefined;
+		if (token.startsWith("--")) {
+			const eq = token.indexOf("=");
+			name = eq >= 0 ? token.slice(2, eq) : token.slice(2);
+			inline = eq >= 0 ? token.slice(eq + 1) : undefined;
+		} else {
+			name = SHORT_FLAGS[token.slice(1)] ?? token.slice(1);
+		}
+
+		let negated = false;
+		let spec = FLAGS[name];
+		if (!spec && name.startsWith("no-")) {
+			const positive = FLAGS[name.slice(3)];
+			if (positive?.kind === "boolean") {
+				spec = positive;
+				negated = true;
+			}
+		}
+		if (!spec) {
+			throw new Error(`不明なオプションです: ${token}`);
+		}
+
+		if (spec.kind === "boolean") {
+			let value = true;
+			if (inline !== undefined) {
+				if (inline === "true" || inline === "1") value = true;
+				else if (inline === "false" || inline === "0") value = false;
+				else throw new Error(`${token}: 真偽値を指定してください`);
+			}
+			spec.apply(args, negated ? !value : value);
+			continue;
+		}
+
+		const raw = inline ?? argv[++i];
+		if (raw === undefined) {
+			throw new Error(`${token} には値が必要です`);
+		}
+		if (spec.kind === "int" || spec.kind === "number") {
+			const n = Number(raw);
+			if (spec.kind === "int" ? !Number.isInteger(n) : !Number.isFinite(n)) {
+				throw new Error(
+					`${token}: "${raw}" は${spec.kind === "int" ? "整数" : "数値"}ではありません`,
+				);
+			}
+			spec.apply(args, n);
+		} else {
+			spec.apply(args, raw);
+		}
+	}
+
+	return args;
+};
+
+export const formatCliHelp = (): string => {
+	const lines = [
+		"Usage: pixel-refiner [options] <file | directory | glob>...",
+		"",
+		"Options:",
+	];
+	const names = Object.keys(FLAGS);
+	const width = Math.max(...names.map((n) => n.length)) + 10;
+	for (const name of names) {
+		const spec = FLAGS[name];
+		const label =
+			spec.kind === "boolean"
+				? `--[no-]${name}`
+				: `--${name} <${spec.kind === "string" ? "value" : "n"}>`;
+		lines.push(`  ${label.padEnd(width)} ${spec.description}`);
+	}
+	return lines.join("\n");
+};
@@ -0,0 +1,138 @@
+import { readdirSync, statSync } from "node:fs";
+import path from "node:path";
+
+export type InputFile = {
+	/** 入力ファイルの絶対パス */
+	file: string;
+	/** 出力先でフォルダ構成を再現するための、基準ディレクトリからの相対パス */
+	relative: string;
+};
+
+const GLOB_CHARS = /[*?[]/;
+
+const isImageFile = (file: string): boolean => /\.(png|gif)$/i.test(file);
+
+/**
+ * glob パターンを正規表現に変換する（`**`, `*`, `?`, `[...]` に対応）。
+ * パス区切りは "/" に正規化した文字列に対して使う。
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+	let re = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const c = pattern[i];
+		if (c === "*") {
+			if (pattern[i + 1] === "*") {
+				// "**/" はゼロ個以上のディレクトリに一致させる
+				if (pattern[i + 2] === "/") {
+					re += "(?:.*/)?";
+					i += 2;
+				} else {
+					re += ".*";
+					i += 1;
+				}
+			} else {
+				re += "[^/]*";
+			}
+		} else if (c === "?") {
+			re += "[^/]";
+		} else if (c === "[") {
+			const end = pattern.indexOf("]", i + 1);
+			if (end < 0) {
+				re += "\\[";
+			} else {
+				re += `[${pattern.slice(i + 1, end).replace(/^!/, "^")}]`;
+				i = end;
+			}
+		} else {
+			re += c.replace(/[.+^${}()|\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${re}$`);
+};
+
+/**
+ * glob パターンのうち、ワイルドカードを含まない先頭のディレクトリ部分を返す。
+ */
+export const globBase = (pattern: string): string => {
+	const parts = pattern.split("/");
+	const base: string[] = [];
+	for (let i = 0; i < parts.length - 1; i++) {
+		if (GLOB_CHARS.test(parts[i])) break;
+		base.push(parts[i]);
+	}
+	if (base.length === 0) return ".";
+	const joined = base.join("/");
+	return joined === "" ? "/" : joined;
+};
+
+const toPosix = (p: string): string => p.split(path.sep).join("/");
+
+const walkImageFiles = (dir: string): string[] => {
+	const out: string[] = [];
+	const entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) =>
+		a.name.localeCompare(b.name),
+	);
+	for (const entry of entries) {
+		const full = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			out.push(...walkImageFiles(full));
+		} else if (entry.isFile() && isImageFile(entry.name)) {
+			out.push(full);
+		}
+	}
+	return out;
+};
+
+/**
+ * CLI に渡されたファイル・ディレクトリ・glob を PNG / GIF ファイルの一覧に展開する。
+ * ディレクトリと glob は基準ディレクトリからの相対パスを保持し、出力側で同じ構成を再現できるようにする。
+ */
+export const resolveInputFiles = (
+	inputs: string[],
+	cwd: string,
+): InputFile[] => {
+	const result: InputFile[] = [];
+	const seen = new Set<string>();
+	const push = (file: string, relative: string) => {
+		if (seen.has(file)) return;
+		seen.add(file);
+		result.push({ file, relative: toPosix(relative) });
+	};
+
+	for (const input of inputs) {
+		const pattern = toPosix(input);
+		if (GLOB_CHARS.test(pattern)) {
+			const base = path.resolve(cwd, globBase(pattern));
+			const matcher = globToRegExp(toPosix(path.resolve(cwd, pattern)));
+			let files: string[] = [];
+			try {
+				files = walkImageFiles(base);
+			} catch {
+				throw new Error(`ディレクトリを読み込めません: ${base}`);
+			}
+			const matched = files.filter((f) => matcher.test(toPosix(f)));
+			if (matched.length === 0) {
+				throw new Error(`一致する PNG / GIF ファイルがありません: ${input}`);
+			}
+			for (const f of matched) push(f, path.relative(base, f));
+			continue;
+		}
+
+		const full = path.resolve(cwd, input);
+		let stat: ReturnType<typeof statSync>;
+		try {
+			stat = statSync(full);
+		} catch {
+			throw new Error(`入力が見つかりません: ${input}`);
+		}
+		if (stat.isDirectory()) {
+			for (const f of walkImageFiles(full)) push(f, path.relative(full, f));
+		} else {
+			if (!isImageFile(full)) {
+				throw new Error(`PNG / GIF ファイルではありません: ${input}`);
+			}
+			push(full, path.basename(full));
+		}
+	}
+	return result;
+};
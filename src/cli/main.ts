@@ -0,0 +1,462 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { PNG } from "pngjs";
+import {
+	type Animation,
+	createFrameStrip,
+	processAnimation,
+} from "../core/animation";
+import {
+	assembleApng,
+	composeApngFrames,
+	isApng,
+	splitApng,
+} from "../core/apng";
+import { type AtlasInput, createAtlasJson, packAtlas } from "../core/atlas";
+import { decodeGif, encodeGif, isGif } from "../core/gif";
+import { encodeIndexedPng, getProcessPalette } from "../core/indexedPng";
+import { upscaleNearest } from "../core/ops";
+import { type ProcessOptions, processImage } from "../core/processor";
+import {
+	createRecipe,
+	deserializeRecipe,
+	serializeRecipe,
+} from "../core/recipe";
+import {
+	createBatchPalette,
+	type SharedPaletteInput,
+} from "../core/sharedPalette";
+import { sliceSpriteSheet } from "../core/spritesheet";
+import { exportTiles, tileExportFiles } from "../core/tiles";
+import { PALETTE_FILE_FORMATS, PROCESS_RANGES } from "../shared/config";
+import type { AnimationExportFormat, RawImage, RGB } from "../shared/types";
+import {
+	extractPaletteFromImage,
+	generatePaletteFile,
+	parsePaletteFile,
+	sortPalette,
+} from "../utils/palette";
+import { formatCliHelp, parseCliArgs } from "./args";
+import { resolveInputFiles } from "./files";
+
+const decodePng = (bytes: Uint8Array): RawImage => {
+	const png = PNG.sync.read(Buffer.from(bytes));
+	return {
+		width: png.width,
+		height: png.height,
+		data: new Uint8ClampedArray(png.data),
+	};
+};
+
+const encodePng = (img: RawImage): Uint8Array => {
+	const png = new PNG({ width: img.width, height: img.height });
+	png.data = Buffer.from(img.data);
+	return PNG.sync.write(png);
+};
+
+const writeBytes = (file: string, bytes: Uint8Array): void => {
+	mkdirSync(path.dirname(file), { recursive: true });
+	writeFileSync(file, bytes);
+};
+
+const writePng = (file: string, img: RawImage): void => {
+	writeBytes(file, encodePng(img));
+};
+
+type InputImage = {
+	/** 静止画、またはアニメーションの先頭フレーム */
+	image: RawImage;
+	/** 2 フレーム以上の GIF / APNG のときだけ設定される */
+	animation?: Animation;
+	format: "png" | "gif" | "apng";
+};
+
+const readInput = (file: string): InputImage => {
+	const bytes = new Uint8Array(readFileSync(file));
+	let animation: Animation;
+	let format: InputImage["format"];
+	if (isGif(bytes)) {
+		animation = decodeGif(bytes);
+		format = "gif";
+	} else if (isApng(bytes)) {
+		const container = splitApng(bytes);
+		const frames = composeApngFrames(
+			container,
+			container.frames.map((f) => decodePng(f.png)),
+		);
+		animation = {
+			width: container.width,
+			height: container.height,
+			loopCount: container.loopCount,
+			frames: frames.map((image, i) => ({
+				image,
+				delay: container.frames[i].delay,
+			})),
+		};
+		format = "apng";
+	} else {
+		return { image: decodePng(bytes), format: "png" };
+	}
+	return {
+		image: animation.frames[0].image,
+		animation: animation.frames.length > 1 ? animation : undefined,
+		format,
+	};
+};
+
+const encodeAnimation = (
+	animation: Animation,
+	format: AnimationExportFormat,
+): Uint8Array => {
+	if (format === "gif") return encodeGif(animation);
+	if (format === "apng") {
+		return assembleApng(
+			animation.frames.map((f) => encodePng(f.image)),
+			animation.frames.map((f) => f.delay),
+			animation.loopCount,
+		);
+	}
+	return encodePng(createFrameStrip(animation.frames.map((f) => f.image)));
+};
+
+const INPUT_EXT = /\.(png|gif)$/i;
+
+// アトラスのフレーム名は OS に関係なく "/" 区切りにする
+const toAtlasName = (relative: string): string =>
+	relative.split(path.sep).join("/");
+
+/**
+ * 書き出した結果をアトラスの入力にする。アニメーションは <name>_<連番>.png の各フレームとして詰める
+ * （フレームストリップは 1 枚の画像として扱う）。
+ */
+const toAtlasInputs = (
+	relative: string,
+	output: InputImage,
+	format: AnimationExportFormat | undefined,
+): AtlasInput[] => {
+	const { animation } = output;
+	if (!animation || format === "strip") {
+		return [{ name: toAtlasName(relative), image: output.image }];
+	}
+	const digits = String(animation.frames.length).length;
+	return animation.frames.map((f, i) => ({
+		name: toAtlasName(
+			relative.replace(
+				INPUT_EXT,
+				`_${String(i + 1).padStart(digits, "0")}.png`,
+			),
+		),
+		image: f.image,
+	}));
+};
+
+const run = (argv: string[]): number => {
+	const args = parseCliArgs(argv);
+	if (args.help || args.inputs.length === 0) {
+		console.log(formatCliHelp());
+		return args.help ? 0 : 1;
+	}
+
+	const cwd = process.cwd();
+	const options: ProcessOptions = args.recipeFile
+		? {
+				...deserializeRecipe(
+					readFileSync(path.resolve(cwd, args.recipeFile), "utf8"),
+				).options,
+				...args.options,
+			}
+		: { ...args.options };
+	if (args.sharedPalette && args.paletteFile) {
+		throw new Error("--shared-palette と --palette は同時に指定できません");
+	}
+	if (args.savePaletteFile && !args.sharedPalette) {
+		throw new Error("--save-palette には --shared-palette が必要です");
+	}
+	if (args.paletteFile) {
+		const palettePath = path.resolve(cwd, args.paletteFile);
+		// 画像が渡されたときは参照画像として色を抽出する
+		const colors = INPUT_EXT.test(palettePath)
+			? extractPaletteFromImage(
+					readInput(palettePath).image,
+					args.paletteMethod ?? "median",
+					args.paletteColors ?? PROCESS_RANGES.paletteExtractCount.default,
+				).colors
+			: parsePaletteFile(readFileSync(palettePath), args.paletteFile);
+		if (colors.length === 0) {
+			throw new Error(`パレットに色がありません: ${args.paletteFile}`);
+		}
+		options.fixedPalette = colors;
+		options.reduceColors = true;
+		options.reduceColorMode = "fixed";
+	} else if (
+		options.reduceColorMode === "fixed" &&
+		!options.fixedPalette &&
+		!args.sharedPalette
+	) {
+		throw new Error("--reduce-color-mode=fixed には --palette が必要です");
+	}
+
+	if (args.ditherMaskFile) {
+		options.ditherMask = readInput(
+			path.resolve(cwd, args.ditherMaskFile),
+		).image;
+	}
+
+	const files = resolveInputFiles(args.inputs, cwd);
+	if (files.length === 0) {
+		throw new Error("処理対象の PNG / GIF ファイルがありません");
+	}
+
+	// 全入力（分割後のフレーム・アニメーションの全フレーム）の画素をまとめて 1 回だけ K-means にかける
+	if (args.sharedPalette) {
+		const inputs: SharedPaletteInput[] = [];
+		for (const { file, relative } of files) {
+			try {
+				const input = readInput(file);
+				const images = args.split
+					? sliceSpriteSheet(input.image, args.split, options).map(
+							(f) => f.image,
+						)
+					: (input.animation?.frames.map((f) => f.image) ?? [input.image]);
+				inputs.push(...images.map((image) => ({ image })));
+			} catch (e) {
+				// 読み込めない入力は本処理で fail として報告する
+				console.warn(`warn ${relative}: ${(e as Error).message}`);
+			}
+		}
+		const palette = createBatchPalette(inputs, options);
+		if (palette.length === 0) {
+			throw new Error("共通パレットを作れる色がありません");
+		}
+		options.fixedPalette = palette;
+		options.reduceColors = true;
+		options.reduceColorMode = "fixed";
+		console.log(
+			`palette ${palette.length} shared colors from ${inputs.length} images`,
+		);
+		if (args.savePaletteFile) {
+			const palettePath = path.resolve(cwd, args.savePaletteFile);
+			mkdirSync(path.dirname(palettePath), { recursive: true });
+			// 形式は拡張子で決める（不明なら .gpl）
+			const ext = path.extname(palettePath).slice(1).toLowerCase();
+			const format = PALETTE_FILE_FORMATS.find((f) => f === ext) ?? "gpl";
+			writeFileSync(
+				palettePath,
+				generatePaletteFile(palette, format, "PixelRefiner Batch Palette"),
+			);
+		}
+	}
+
+	if (args.saveRecipeFile) {
+		const recipePath = path.resolve(cwd, args.saveRecipeFile);
+		mkdirSync(path.dirname(recipePath), { recursive: true });
+		writeFileSync(recipePath, serializeRecipe(createRecipe(options)));
+	}
+
+	const outDir = path.resolve(cwd, args.outDir);
+	let failed = 0;
+	let skipped = 0;
+	let total = 0;
+	const atlasInputs: AtlasInput[] = [];
+	for (const { file, relative } of files) {
+		let input: InputImage;
+		try {
+			input = readInput(file);
+		} catch (e) {
+			total++;
+			failed++;
+			console.error(`fail ${relative}: ${(e as Error).message}`);
+			continue;
+		}
+
+		// GIF / APNG は全フレームを共通のグリッド・パレットで処理し、既定では入力と同じ形式で書き出す
+		const animationFormat: AnimationExportFormat | undefined =
+			input.animation && !args.split
+				? (args.animationFormat ?? (input.format === "gif" ? "gif" : "apng"))
+				: undefined;
+		const outExt = animationFormat === "gif" ? ".gif" : ".png";
+
+		// --split 指定時はフレームごとに <name>_<連番>.png として処理する
+		let jobs: Array<{ image: RawImage; relative: string }> = [
+			{ image: input.image, relative: relative.replace(INPUT_EXT, outExt) },
+		];
+		if (args.split) {
+			try {
+				const frames = sliceSpriteSheet(input.image, args.split, options);
+				if (frames.length === 0) {
+					console.warn(`warn ${relative}: スプライトが見つかりません`);
+				}
+				const digits = String(frames.length).length;
+				jobs = frames.map((frame, i) => ({
+					image: frame.image,
+					relative: relative.replace(
+						INPUT_EXT,
+						`_${String(i + 1).padStart(digits, "0")}.png`,
+					),
+				}));
+			} catch (e) {
+				total++;
+				failed++;
+				console.error(`fail ${relative}: ${(e as Error).message}`);
+				continue;
+			}
+		}
+
+		for (const job of jobs) {
+			total++;
+			const outPath = path.join(outDir, job.relative);
+			const scaledPath = args.scale
+				? outPath.replace(/(\.[^./\\]+)$/, `_x${args.scale}$1`)
+				: undefined;
+			if (!args.overwrite && existsSync(outPath)) {
+				console.log(`skip ${job.relative} (exists)`);
+				skipped++;
+				if (args.atlasName) {
+					atlasInputs.push(
+						...toAtlasInputs(job.relative, readInput(outPath), animationFormat),
+					);
+				}
+				continue;
+			}
+			try {
+				if (input.animation && animationFormat) {
+					const { animation, grid, palette } = processAnimation(
+						input.animation,
+						options,
+						args.animation,
+					);
+					writeBytes(outPath, encodeAnimation(animation, animationFormat));
+					if (args.atlasName) {
+						atlasInputs.push(
+							...toAtlasInputs(
+								job.relative,
+								{ image: animation.frames[0].image, animation, format: "png" },
+								animationFormat,
+							),
+						);
+					}
+					if (scaledPath && args.scale) {
+						const scale = args.scale;
+						writeBytes(
+							scaledPath,
+							encodeAnimation(
+								{
+									...animation,
+									width: animation.width * scale,
+									height: animation.height * scale,
+									frames: animation.frames.map((f) => ({
+										...f,
+										image: upscaleNearest(f.image, scale),
+									})),
+								},
+								animationFormat,
+							),
+						);
+					}
+					console.log(
+						`ok   ${job.relative} -> ${animation.width}x${animation.height} x ${animation.frames.length} frames (cell ${grid.cellW.toFixed(2)}x${grid.cellH.toFixed(2)}${palette.length > 0 ? `, ${palette.length} shared colors` : ""})`,
+					);
+					continue;
+				}
+
+				const {
+					result,
+					grid,
+					gridDiagnostics,
+					extractedPalette,
+					constraintViolations,
+				} = processImage(job.image, options);
+				const indexedOrder = args.indexed;
+				// インデックスカラーの PNG のパレットは処理の設定のもの（なければ使った色）。luminance では明るい順に並べる
+				const writeResult = (file: string, img: RawImage) => {
+					if (!indexedOrder) {
+						writePng(file, img);
+						return;
+					}
+					const palette: RGB[] | undefined =
+						getProcessPalette(options) ??
+						(indexedOrder === "luminance" ? extractedPalette : undefined);
+					writeBytes(
+						file,
+						encodeIndexedPng(img, {
+							palette:
+								palette && indexedOrder === "luminance"
+									? sortPalette(palette)
+									: palette,
+							transparentFirst: args.transparentIndex0,
+						}),
+					);
+				};
+				writeResult(outPath, result);
+				if (args.tiles) {
+					const baseName = path.basename(outPath).replace(INPUT_EXT, "");
+					for (const file of tileExportFiles(
+						exportTiles(result, args.tiles),
+						baseName,
+					)) {
+						writeBytes(path.join(path.dirname(outPath), file.name), file.data);
+					}
+				}
+				if (args.atlasName) {
+					atlasInputs.push({ name: toAtlasName(job.relative), image: result });
+				}
+				if (scaledPath && args.scale) {
+					writeResult(scaledPath, upscaleNearest(result, args.scale));
+				}
+				if (args.gridReport && gridDiagnostics) {
+					writeFileSync(
+						outPath.replace(INPUT_EXT, ".grid.json"),
+						`${JSON.stringify({ grid, diagnostics: gridDiagnostics }, null, 2)}\n`,
+					);
+				}
+				console.log(
+					`ok   ${job.relative} -> ${result.width}x${result.height} (cell ${grid.cellW.toFixed(2)}x${grid.cellH.toFixed(2)})`,
+				);
+				if (gridDiagnostics?.lowConfidence) {
+					console.warn(
+						`warn ${job.relative}: グリッド検出の信頼度が低い (${Math.round(gridDiagnostics.confidence * 100)}%)。サイズが違う場合は --force-pixels-w / --force-pixels-h を指定してください`,
+					);
+				}
+				if (constraintViolations && constraintViolations.length > 0) {
+					const list = constraintViolations
+						.map(
+							(v) =>
+								`(${v.x}, ${v.y}) ${v.width}x${v.height} ${v.kind === "colors" ? `色数 ${v.colorCount}` : "パレット不足"}`,
+						)
+						.join(", ");
+					console.warn(
+						`warn ${job.relative}: ${options.hardwareProfile} の制約に収まらない範囲が ${constraintViolations.length} 箇所あります: ${list}。--enforce-hardware-constraints で減色し直せます`,
+					);
+				}
+			} catch (e) {
+				failed++;
+				console.error(`fail ${job.relative}: ${(e as Error).message}`);
+			}
+		}
+	}
+
+	if (args.atlasName && atlasInputs.length > 0) {
+		const atlas = packAtlas(atlasInputs, args.atlas);
+		const imageName = `${args.atlasName}.png`;
+		writePng(path.join(outDir, imageName), atlas.image);
+		writeFileSync(
+			path.join(outDir, `${args.atlasName}.json`),
+			createAtlasJson(atlas, imageName),
+		);
+		console.log(
+			`atlas ${imageName} -> ${atlas.image.width}x${atlas.image.height} (${atlas.frames.length} frames)`,
+		);
+	}
+
+	console.log(
+		`${total - failed - skipped}/${total} files written to ${outDir}`,
+	);
+	return failed > 0 ? 1 : 0;
+};
+
+try {
+	process.exitCode = run(process.argv.slice(2));
+} catch (e) {
+	console.error((e as Error).message);
+	process.exitCode = 2;
+}
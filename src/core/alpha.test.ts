@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import { applyAlphaPolicy, quantizeAlphaValue } from "./alpha";
+
+const alphaRow = (alphas: number[]): RawImage => {
+	const data = new Uint8ClampedArray(alphas.length * 4);
+	alphas.forEach((a, i) => {
+		data.set([200, 100, 50, a], i * 4);
+	});
+	return { width: alphas.length, height: 1, data };
+};
+
+const alphasOf = (img: RawImage): number[] =>
+	Array.from({ length: img.width * img.height }, (_, i) => img.data[i * 4 + 3]);
+
+describe("alpha.ts", () => {
+	describe("quantizeAlphaValue", () => {
+		it("0 と 255 を含む等間隔の段階に丸める", () => {
+			expect(quantizeAlphaValue(0, 4)).toBe(0);
+			expect(quantizeAlphaValue(40, 4)).toBe(0);
+			expect(quantizeAlphaValue(50, 4)).toBe(85);
+			expect(quantizeAlphaValue(128, 4)).toBe(170);
+			expect(quantizeAlphaValue(255, 4)).toBe(255);
+			expect(quantizeAlphaValue(127, 2)).toBe(0);
+			expect(quantizeAlphaValue(128, 2)).toBe(255);
+		});
+	});
+
+	describe("applyAlphaPolicy", () => {
+		const img = alphaRow([0, 60, 127, 128, 200, 255]);
+
+		it("preserve はそのまま返す", () => {
+			const out = applyAlphaPolicy(img, {
+				policy: "preserve",
+				threshold: 128,
+				levels: 4,
+			});
+			expect(out).toBe(img);
+		});
+
+		it("binary はしきい値で 2 値化する", () => {
+			const out = applyAlphaPolicy(img, {
+				policy: "binary",
+				threshold: 128,
+				levels: 4,
+			});
+			expect(alphasOf(out)).toEqual([0, 0, 0, 255, 255, 255]);
+		});
+
+		it("quantize は段階に丸め、RGB は変えない", () => {
+			const out = applyAlphaPolicy(img, {
+				policy: "quantize",
+				threshold: 128,
+				levels: 3,
+			});
+			expect(alphasOf(out)).toEqual([0, 0, 128, 128, 255, 255]);
+			expect(Array.from(out.data.subarray(4, 7))).toEqual([200, 100, 50]);
+			// 入力は書き換えない
+			expect(alphasOf(img)).toEqual([0, 60, 127, 128, 200, 255]);
+		});
+	});
+});
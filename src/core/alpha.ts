@@ -0,0 +1,42 @@
+import type { AlphaPolicy, RawImage } from "../shared/types";
+
+export type AlphaOptions = {
+	policy: AlphaPolicy;
+	/** policy="binary" で不透明にする alpha の下限 (1-255) */
+	threshold: number;
+	/** policy="quantize" の段階数（0 と 255 を含む） */
+	levels: number;
+};
+
+/**
+ * alpha を 0 から 255 までを等分した levels 段階のうち、最も近い値に丸める。
+ */
+export const quantizeAlphaValue = (alpha: number, levels: number): number => {
+	const steps = Math.max(1, levels - 1);
+	return Math.round((Math.round((alpha / 255) * steps) * 255) / steps);
+};
+
+/**
+ * alpha の扱いを揃える。
+ * - preserve: そのまま
+ * - binary: threshold 以上を不透明 (255)、未満を透明 (0) にする
+ * - quantize: levels 段階に丸める（光や影のレイヤーを数段階の半透明として残す）
+ * RGB は変えない。
+ */
+export const applyAlphaPolicy = (
+	img: RawImage,
+	options: AlphaOptions,
+): RawImage => {
+	if (options.policy === "preserve") return img;
+
+	const data = new Uint8ClampedArray(img.data);
+	for (let i = 3; i < data.length; i += 4) {
+		data[i] =
+			options.policy === "binary"
+				? data[i] >= options.threshold
+					? 255
+					: 0
+				: quantizeAlphaValue(data[i], options.levels);
+	}
+	return { width: img.width, height: img.height, data };
+};
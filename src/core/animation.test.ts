@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import { createFrameStrip, processAnimation } from "./animation";
+
+const CELL = 6;
+
+// cells[y][x] の色で塗った、1 ドット = CELL px のドット絵
+const makeArt = (cells: number[][][]): RawImage => {
+	const h = cells.length * CELL;
+	const w = cells[0].length * CELL;
+	const data = new Uint8ClampedArray(w * h * 4);
+	for (let y = 0; y < h; y += 1) {
+		for (let x = 0; x < w; x += 1) {
+			const [r, g, b] = cells[Math.floor(y / CELL)][Math.floor(x / CELL)];
+			data.set([r, g, b, 255], (y * w + x) * 4);
+		}
+	}
+	return { width: w, height: h, data };
+};
+
+const colorsOf = (img: RawImage): Set<string> => {
+	const set = new Set<string>();
+	for (let i = 0; i < img.data.length; i += 4) {
+		if (img.data[i + 3] > 0) {
+			set.add(`${img.data[i]},${img.data[i + 1]},${img.data[i + 2]}`);
+		}
+	}
+	return set;
+};
+
+describe("processAnimation", () => {
+	it("全フレームを共通のグリッドと共通のパレットで処理する", () => {
+		// フレームごとに少しずつ色が違うグラデーションの市松模様
+		const frames = [0, 1, 2].map((f) => ({
+			image: makeArt(
+				Array.from({ length: 8 }, (_, y) =>
+					Array.from({ length: 8 }, (_, x) =>
+						(x + y) % 2 === 0
+							? [20 + x * 8 + f * 3, 40, 60]
+							: [200, 180 - y * 10 - f * 2, 90],
+					),
+				),
+			),
+			delay: 100,
+		}));
+		const { animation, grid, palette } = processAnimation(
+			{ width: 48, height: 48, loopCount: 0, frames },
+			{
+				preRemoveBackground: false,
+				postRemoveBackground: false,
+				trimToContent: false,
+				floatingMaxPixels: 0,
+				reduceColors: true,
+				reduceColorMode: "auto",
+				colorCount: 4,
+			},
+		);
+
+		expect(grid.cellW).toBe(CELL);
+		expect(palette.length).toBeGreaterThan(1);
+		expect(palette.length).toBeLessThanOrEqual(4);
+		const paletteKeys = new Set(palette.map((c) => `${c.r},${c.g},${c.b}`));
+		for (const frame of animation.frames) {
+			expect(frame.image.width).toBe(8);
+			expect(frame.image.height).toBe(8);
+			for (const c of colorsOf(frame.image)) {
+				expect(paletteKeys.has(c)).toBe(true);
+			}
+		}
+	});
+
+	it("トリムは全フレームの内容物を含む範囲に揃える", () => {
+		const white = [255, 255, 255];
+		const black = [0, 0, 0];
+		// 白背景の上を 2x2 ドットの四角が右へ移動する
+		const frames = [1, 3].map((left) => ({
+			image: makeArt(
+				Array.from({ length: 8 }, (_, y) =>
+					Array.from({ length: 8 }, (_, x) =>
+						y >= 3 && y < 5 && x >= left && x < left + 2 ? black : white,
+					),
+				),
+			),
+			delay: 80,
+		}));
+		const { animation } = processAnimation(
+			{ width: 48, height: 48, loopCount: 0, frames },
+			{
+				floatingMaxPixels: 0,
+				manualGrid: { cellW: CELL, cellH: CELL, offsetX: 0, offsetY: 0 },
+			},
+		);
+
+		expect(animation.width).toBe(4);
+		expect(animation.height).toBe(2);
+		expect(animation.frames.map((f) => f.delay)).toEqual([80, 80]);
+		expect(animation.frames[0].image.data[3]).toBe(255);
+		expect(animation.frames[0].image.data[3 * 4 + 3]).toBe(0);
+		expect(animation.frames[1].image.data[3]).toBe(0);
+		expect(animation.frames[1].image.data[3 * 4 + 3]).toBe(255);
+
+		const strip = createFrameStrip(animation.frames.map((f) => f.image));
+		expect(strip.width).toBe(8);
+		expect(strip.height).toBe(2);
+	});
+});
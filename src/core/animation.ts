@@ -0,0 +1,243 @@
+import {
+	ATTRIBUTE_CELL_MODES,
+	clampInt,
+	PROCESS_DEFAULTS,
+	PROCESS_RANGES,
+	RETRO_PALETTES,
+} from "../shared/config";
+import type {
+	AnimationGridSource,
+	ManualGrid,
+	PixelGrid,
+	RawImage,
+	RGB,
+} from "../shared/types";
+import { quantizeAttributeCells } from "./attributeClash";
+import { applyOutline } from "./outline";
+import {
+	cropRawImage,
+	findOpaqueBounds,
+	maskBackground,
+	type ProcessOptions,
+	processImage,
+} from "./processor";
+import { buildSharedPalette } from "./sharedPalette";
+
+export type AnimationFrame = {
+	image: RawImage;
+	/** 表示時間（ms） */
+	delay: number;
+};
+
+export type Animation = {
+	width: number;
+	height: number;
+	frames: AnimationFrame[];
+	/** 再生回数（0 = 無限ループ） */
+	loopCount: number;
+};
+
+export type AnimationProcessOptions = {
+	/** 共通グリッドの決め方（既定: "shared"） */
+	gridSource?: AnimationGridSource;
+};
+
+export type AnimationProcessResult = {
+	animation: Animation;
+	/** 全フレームで共有したグリッド（先頭フレームの処理結果） */
+	grid: PixelGrid;
+	/** 全フレームで共有した減色パレット（共有していないときは空） */
+	palette: RGB[];
+};
+
+/**
+ * 各フレームを個別に検出し、最も多いセルサイズ（同数ならスコアの高いもの）のグリッドを選ぶ。
+ * gridSource="first" のときは先頭フレームだけで決める。
+ */
+const findSharedGrid = (
+	frames: AnimationFrame[],
+	options: ProcessOptions,
+	gridSource: AnimationGridSource,
+): ManualGrid => {
+	const targets = gridSource === "first" ? frames.slice(0, 1) : frames;
+	const votes = new Map<string, { count: number; grid: PixelGrid }>();
+	for (const frame of targets) {
+		// トリムなしで処理すると、グリッドはフレーム全体の座標で返る
+		const { grid } = processImage(frame.image, {
+			...options,
+			trimToContent: false,
+			reduceColors: false,
+			fixedPalette: undefined,
+			outlineStyle: "none",
+		});
+		const key = `${grid.cellW}x${grid.cellH}`;
+		const vote = votes.get(key);
+		if (!vote) {
+			votes.set(key, { count: 1, grid });
+		} else {
+			vote.count += 1;
+			if (grid.score > vote.grid.score) vote.grid = grid;
+		}
+	}
+	let best: { count: number; grid: PixelGrid } | null = null;
+	for (const vote of votes.values()) {
+		if (!best || vote.count > best.count) best = vote;
+	}
+	if (!best) {
+		throw new Error("アニメーションにフレームがありません。");
+	}
+	const { grid } = best;
+	return {
+		cellW: grid.cellW,
+		cellH: grid.cellH,
+		offsetX: grid.cropX ?? grid.offsetX,
+		offsetY: grid.cropY ?? grid.offsetY,
+	};
+};
+
+const padToSize = (img: RawImage, width: number, height: number): RawImage => {
+	const data = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < img.height; y += 1) {
+		const src = y * img.width * 4;
+		data.set(img.data.subarray(src, src + img.width * 4), y * width * 4);
+	}
+	return { width, height, data };
+};
+
+/**
+ * アニメーションの全フレームを、共通のグリッド・共通のパレットで処理する。
+ * フレームごとに検出・減色するとドットの位置や色がちらつくため、
+ * 1) 共通グリッドを決める 2) 減色なしで処理して共通パレットを作る 3) 固定グリッド・固定パレットで処理する
+ * の順に行い、最後に全フレームの内容物を含む範囲で揃えてトリムする。
+ */
+export const processAnimation = (
+	animation: Animation,
+	options: ProcessOptions = {},
+	animOptions: AnimationProcessOptions = {},
+): AnimationProcessResult => {
+	const { frames } = animation;
+	if (frames.length === 0) {
+		throw new Error("アニメーションにフレームがありません。");
+	}
+	const gridSource = animOptions.gridSource ?? "shared";
+	const enableGridDetection =
+		options.enableGridDetection ?? PROCESS_DEFAULTS.enableGridDetection;
+	const forced =
+		options.forcePixelsW !== undefined && options.forcePixelsH !== undefined;
+
+	// 指定ピクセル・グリッド検出OFFのときはフレーム間でグリッドがずれないので共有しない
+	const manualGrid =
+		options.manualGrid ??
+		(enableGridDetection && !forced
+			? findSharedGrid(frames, options, gridSource)
+			: undefined);
+
+	const base: ProcessOptions = {
+		...options,
+		manualGrid,
+		trimToContent: false,
+		outlineStyle: "none",
+	};
+
+	const reduceColors = options.reduceColors ?? PROCESS_DEFAULTS.reduceColors;
+	const mode = options.reduceColorMode ?? PROCESS_DEFAULTS.reduceColorMode;
+	let palette: RGB[] = [];
+	if (reduceColors && !options.fixedPalette && !RETRO_PALETTES[mode]) {
+		const plain = frames.map(
+			(f) => processImage(f.image, { ...base, reduceColors: false }).result,
+		);
+		palette = buildSharedPalette(plain, options);
+	}
+
+	const processed = frames.map((f) =>
+		processImage(f.image, {
+			...base,
+			fixedPalette: palette.length > 0 ? palette : options.fixedPalette,
+		}),
+	);
+	let images = processed.map((p) => p.result);
+
+	// 大きさが揃わない場合（指定ピクセルなど）は左上に寄せて最大サイズに揃える
+	let width = 0;
+	let height = 0;
+	for (const img of images) {
+		width = Math.max(width, img.width);
+		height = Math.max(height, img.height);
+	}
+	images = images.map((img) =>
+		img.width === width && img.height === height
+			? img
+			: padToSize(img, width, height),
+	);
+
+	if (options.trimToContent ?? PROCESS_DEFAULTS.trimToContent) {
+		const alphaThreshold = clampInt(
+			options.trimAlphaThreshold ?? PROCESS_RANGES.trimAlphaThreshold.default,
+			PROCESS_RANGES.trimAlphaThreshold,
+		);
+		let minX = width;
+		let minY = height;
+		let maxX = 0;
+		let maxY = 0;
+		for (const img of images) {
+			const b = findOpaqueBounds(maskBackground(img, options), alphaThreshold);
+			if (!b) continue;
+			minX = Math.min(minX, b.x);
+			minY = Math.min(minY, b.y);
+			maxX = Math.max(maxX, b.x + b.w);
+			maxY = Math.max(maxY, b.y + b.h);
+		}
+		if (maxX > minX && maxY > minY) {
+			images = images.map((img) =>
+				cropRawImage(img, minX, minY, maxX - minX, maxY - minY),
+			);
+		}
+	}
+
+	const outlineStyle = options.outlineStyle ?? PROCESS_DEFAULTS.outlineStyle;
+	if (outlineStyle !== "none") {
+		const outlineColor = options.outlineColor ?? PROCESS_DEFAULTS.outlineColor;
+		images = images.map((img) => applyOutline(img, outlineColor, outlineStyle));
+	}
+	// セルごとに色を選ぶモードは、切り抜きとアウトラインでセルの位置や色が変わるので、最後にセルの色を選び直す
+	if (
+		reduceColors &&
+		!options.fixedPalette &&
+		ATTRIBUTE_CELL_MODES.includes(mode)
+	) {
+		images = images.map((img) => quantizeAttributeCells(img, mode));
+	}
+
+	return {
+		animation: {
+			width: images[0].width,
+			height: images[0].height,
+			loopCount: animation.loopCount,
+			frames: images.map((image, i) => ({ image, delay: frames[i].delay })),
+		},
+		grid: processed[0].grid,
+		palette,
+	};
+};
+
+/**
+ * フレームを左から右へ 1 列に並べたフレームストリップ画像を作る。
+ */
+export const createFrameStrip = (frames: RawImage[]): RawImage => {
+	let width = 0;
+	let height = 0;
+	for (const f of frames) {
+		width += f.width;
+		height = Math.max(height, f.height);
+	}
+	const data = new Uint8ClampedArray(width * height * 4);
+	let x = 0;
+	for (const f of frames) {
+		for (let y = 0; y < f.height; y += 1) {
+			const src = y * f.width * 4;
+			data.set(f.data.subarray(src, src + f.width * 4), (y * width + x) * 4);
+		}
+		x += f.width;
+	}
+	return { width, height, data };
+};
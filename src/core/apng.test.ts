@@ -0,0 +1,130 @@
+import { PNG } from "pngjs";
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import {
+	type ApngSubFrame,
+	assembleApng,
+	composeApngFrames,
+	isApng,
+	splitApng,
+} from "./apng";
+
+const solid = (
+	w: number,
+	h: number,
+	[r, g, b, a]: [number, number, number, number],
+): RawImage => {
+	const data = new Uint8ClampedArray(w * h * 4);
+	for (let i = 0; i < w * h; i += 1) data.set([r, g, b, a], i * 4);
+	return { width: w, height: h, data };
+};
+
+const encodePng = (img: RawImage): Uint8Array => {
+	const png = new PNG({ width: img.width, height: img.height });
+	png.data = Buffer.from(img.data);
+	return new Uint8Array(PNG.sync.write(png));
+};
+
+const decodePng = (bytes: Uint8Array): RawImage => {
+	const png = PNG.sync.read(Buffer.from(bytes));
+	return {
+		width: png.width,
+		height: png.height,
+		data: new Uint8ClampedArray(png.data),
+	};
+};
+
+const pixel = (img: RawImage, x: number, y: number): number[] =>
+	Array.from(
+		img.data.subarray((y * img.width + x) * 4, (y * img.width + x + 1) * 4),
+	);
+
+describe("APNG", () => {
+	it("assembleApng で作った APNG を splitApng で同じフレームに戻せる", () => {
+		const frames = [
+			solid(5, 4, [255, 0, 0, 255]),
+			solid(5, 4, [0, 255, 0, 255]),
+			solid(5, 4, [0, 0, 255, 128]),
+		];
+		const bytes = assembleApng(frames.map(encodePng), [100, 50, 1000], 0);
+		expect(isApng(bytes)).toBe(true);
+		expect(isApng(encodePng(frames[0]))).toBe(false);
+
+		const container = splitApng(bytes);
+		expect(container.width).toBe(5);
+		expect(container.height).toBe(4);
+		expect(container.loopCount).toBe(0);
+		expect(container.frames.map((f) => f.delay)).toEqual([100, 50, 1000]);
+
+		// 通常の PNG デコーダで読める（先頭フレームが既定画像になる）
+		expect(pixel(decodePng(bytes), 0, 0)).toEqual([255, 0, 0, 255]);
+
+		const composed = composeApngFrames(
+			container,
+			container.frames.map((f) => decodePng(f.png)),
+		);
+		composed.forEach((img, i) => {
+			expect(Array.from(img.data)).toEqual(Array.from(frames[i].data));
+		});
+	});
+
+	it("大きさの違うフレームはまとめられない", () => {
+		expect(() =>
+			assembleApng(
+				[
+					encodePng(solid(2, 2, [0, 0, 0, 255])),
+					encodePng(solid(3, 2, [0, 0, 0, 255])),
+				],
+				[100, 100],
+				0,
+			),
+		).toThrow();
+	});
+
+	it("composeApngFrames: 部分フレームの dispose / blend を反映する", () => {
+		const frame = (
+			x: number,
+			y: number,
+			w: number,
+			h: number,
+			dispose: ApngSubFrame["dispose"],
+			blend: boolean,
+		): ApngSubFrame => ({
+			png: new Uint8Array(),
+			x,
+			y,
+			w,
+			h,
+			delay: 100,
+			dispose,
+			blend,
+		});
+		const composed = composeApngFrames(
+			{
+				width: 4,
+				height: 4,
+				frames: [
+					frame(0, 0, 4, 4, "none", false),
+					frame(1, 1, 2, 2, "previous", true),
+					frame(2, 2, 2, 2, "background", false),
+					frame(0, 0, 1, 1, "none", true),
+				],
+			},
+			[
+				solid(4, 4, [10, 10, 10, 255]),
+				solid(2, 2, [200, 0, 0, 255]),
+				solid(2, 2, [0, 200, 0, 0]),
+				solid(1, 1, [0, 0, 200, 255]),
+			],
+		);
+
+		expect(pixel(composed[1], 1, 1)).toEqual([200, 0, 0, 255]);
+		// "previous" で 2 枚目は取り消され、3 枚目は透明で上書き（blend なし）
+		expect(pixel(composed[2], 1, 1)).toEqual([10, 10, 10, 255]);
+		expect(pixel(composed[2], 3, 3)).toEqual([0, 200, 0, 0]);
+		// "background" で 3 枚目の範囲は透明に戻る
+		expect(pixel(composed[3], 3, 3)).toEqual([0, 0, 0, 0]);
+		expect(pixel(composed[3], 0, 0)).toEqual([0, 0, 200, 255]);
+		expect(pixel(composed[3], 1, 0)).toEqual([10, 10, 10, 255]);
+	});
+});
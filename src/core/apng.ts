@@ -0,0 +1,313 @@
+import type { RawImage } from "../shared/types";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n += 1) {
+		let c = n;
+		for (let k = 0; k < 8; k += 1) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+	let c = 0xffffffff;
+	for (let i = 0; i < bytes.length; i += 1) {
+		c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+	}
+	return (c ^ 0xffffffff) >>> 0;
+};
+
+export type PngChunk = { type: string; data: Uint8Array };
+
+const readU32 = (b: Uint8Array, i: number): number =>
+	((b[i] << 24) | (b[i + 1] << 16) | (b[i + 2] << 8) | b[i + 3]) >>> 0;
+const readU16 = (b: Uint8Array, i: number): number => (b[i] << 8) | b[i + 1];
+
+const writeU32 = (b: Uint8Array, i: number, v: number) => {
+	b[i] = (v >>> 24) & 0xff;
+	b[i + 1] = (v >>> 16) & 0xff;
+	b[i + 2] = (v >>> 8) & 0xff;
+	b[i + 3] = v & 0xff;
+};
+
+const isPngSignature = (bytes: Uint8Array): boolean =>
+	bytes.length >= 8 && PNG_SIGNATURE.every((v, i) => bytes[i] === v);
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+	if (!isPngSignature(bytes)) {
+		throw new Error("PNG ファイルではありません。");
+	}
+	const chunks: PngChunk[] = [];
+	let pos = 8;
+	while (pos + 8 <= bytes.length) {
+		const length = readU32(bytes, pos);
+		const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+		chunks.push({ type, data: bytes.subarray(pos + 8, pos + 8 + length) });
+		pos += 12 + length;
+		if (type === "IEND") break;
+	}
+	return chunks;
+};
+
+/**
+ * チャンク列にシグネチャと各チャンクの長さ・CRC を付けて PNG のバイト列にする。
+ */
+export const writePng = (chunks: PngChunk[]): Uint8Array<ArrayBuffer> => {
+	let size = 8;
+	for (const c of chunks) size += 12 + c.data.length;
+	const out = new Uint8Array(size);
+	out.set(PNG_SIGNATURE, 0);
+	let pos = 8;
+	for (const { type, data } of chunks) {
+		writeU32(out, pos, data.length);
+		for (let i = 0; i < 4; i += 1) out[pos + 4 + i] = type.charCodeAt(i);
+		out.set(data, pos + 8);
+		writeU32(
+			out,
+			pos + 8 + data.length,
+			crc32(out.subarray(pos + 4, pos + 8 + data.length)),
+		);
+		pos += 12 + data.length;
+	}
+	return out;
+};
+
+/** APNG の dispose_op */
+export type ApngDispose = "none" | "background" | "previous";
+
+export type ApngSubFrame = {
+	/** 単独の PNG として読めるサブフレーム（大きさは w×h） */
+	png: Uint8Array<ArrayBuffer>;
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+	/** 表示時間（ms） */
+	delay: number;
+	dispose: ApngDispose;
+	/** true: 直前の内容に重ねる (APNG_BLEND_OP_OVER) / false: 置き換える */
+	blend: boolean;
+};
+
+export type ApngContainer = {
+	width: number;
+	height: number;
+	/** 再生回数（0 = 無限） */
+	loopCount: number;
+	frames: ApngSubFrame[];
+};
+
+/**
+ * acTL チャンクを持つ（アニメーション）PNG かどうか。
+ */
+export const isApng = (bytes: Uint8Array): boolean => {
+	if (!isPngSignature(bytes)) return false;
+	for (const c of readChunks(bytes)) {
+		if (c.type === "acTL") return true;
+		if (c.type === "IDAT") return false;
+	}
+	return false;
+};
+
+/**
+ * APNG を、単独でデコードできる PNG のサブフレーム列に分解する。
+ * PNG のデコード（inflate）は呼び出し側（ブラウザ / pngjs）に任せ、合成は composeApngFrames で行う。
+ */
+export const splitApng = (bytes: Uint8Array): ApngContainer => {
+	const chunks = readChunks(bytes);
+	const ihdr = chunks.find((c) => c.type === "IHDR");
+	const actl = chunks.find((c) => c.type === "acTL");
+	if (!ihdr || !actl) {
+		throw new Error("APNG ではありません。");
+	}
+	const width = readU32(ihdr.data, 0);
+	const height = readU32(ihdr.data, 4);
+	const loopCount = readU32(actl.data, 4);
+
+	// IDAT より前の補助チャンク（PLTE / tRNS / gAMA など）は各サブフレームにも付ける
+	const shared: PngChunk[] = [];
+	for (const c of chunks) {
+		if (c.type === "IDAT" || c.type === "fcTL") break;
+		if (c.type !== "IHDR" && c.type !== "acTL") shared.push(c);
+	}
+
+	const frames: ApngSubFrame[] = [];
+	let current: { fctl: Uint8Array; data: Uint8Array[] } | null = null;
+	const flush = () => {
+		if (!current) return;
+		const f = current.fctl;
+		const w = readU32(f, 4);
+		const h = readU32(f, 8);
+		const delayNum = readU16(f, 20);
+		const delayDen = readU16(f, 22) || 100;
+		const header = new Uint8Array(ihdr.data);
+		writeU32(header, 0, w);
+		writeU32(header, 4, h);
+		frames.push({
+			png: writePng([
+				{ type: "IHDR", data: header },
+				...shared,
+				...current.data.map((data) => ({ type: "IDAT", data })),
+				{ type: "IEND", data: new Uint8Array(0) },
+			]),
+			x: readU32(f, 12),
+			y: readU32(f, 16),
+			w,
+			h,
+			delay: Math.round((delayNum / delayDen) * 1000),
+			dispose: (["none", "background", "previous"] as const)[f[24]] ?? "none",
+			blend: f[25] === 1,
+		});
+		current = null;
+	};
+
+	for (const c of chunks) {
+		if (c.type === "fcTL") {
+			flush();
+			current = { fctl: c.data, data: [] };
+		} else if (c.type === "IDAT") {
+			// fcTL が先行しない IDAT はアニメーションに含まれない（既定画像）
+			current?.data.push(c.data);
+		} else if (c.type === "fdAT") {
+			current?.data.push(c.data.subarray(4));
+		}
+	}
+	flush();
+
+	if (frames.length === 0) {
+		throw new Error("APNG にフレームがありません。");
+	}
+	return { width, height, loopCount, frames };
+};
+
+/**
+ * デコード済みのサブフレームを、dispose / blend に従ってキャンバスサイズの画像列に合成する。
+ */
+export const composeApngFrames = (
+	container: Pick<ApngContainer, "width" | "height" | "frames">,
+	images: RawImage[],
+): RawImage[] => {
+	const { width, height } = container;
+	const canvas = new Uint8ClampedArray(width * height * 4);
+	const out: RawImage[] = [];
+
+	container.frames.forEach((frame, i) => {
+		const img = images[i];
+		// 最初のフレームの "previous" は "background" として扱う
+		const dispose =
+			i === 0 && frame.dispose === "previous" ? "background" : frame.dispose;
+		const saved = dispose === "previous" ? new Uint8ClampedArray(canvas) : null;
+
+		for (let y = 0; y < frame.h && frame.y + y < height; y += 1) {
+			for (let x = 0; x < frame.w && frame.x + x < width; x += 1) {
+				const src = (y * img.width + x) * 4;
+				const dst = ((frame.y + y) * width + frame.x + x) * 4;
+				const sa = img.data[src + 3];
+				if (!frame.blend || sa === 255) {
+					canvas[dst] = img.data[src];
+					canvas[dst + 1] = img.data[src + 1];
+					canvas[dst + 2] = img.data[src + 2];
+					canvas[dst + 3] = sa;
+				} else if (sa > 0) {
+					// source-over 合成
+					const da = canvas[dst + 3];
+					const outA = sa + (da * (255 - sa)) / 255;
+					for (let c = 0; c < 3; c += 1) {
+						canvas[dst + c] =
+							(img.data[src + c] * sa +
+								(canvas[dst + c] * da * (255 - sa)) / 255) /
+							outA;
+					}
+					canvas[dst + 3] = outA;
+				}
+			}
+		}
+		out.push({ width, height, data: new Uint8ClampedArray(canvas) });
+
+		if (dispose === "background") {
+			for (let y = frame.y; y < Math.min(height, frame.y + frame.h); y += 1) {
+				canvas.fill(
+					0,
+					(y * width + frame.x) * 4,
+					(y * width + Math.min(width, frame.x + frame.w)) * 4,
+				);
+			}
+		} else if (saved) {
+			canvas.set(saved);
+		}
+	});
+	return out;
+};
+
+/**
+ * 同じ大きさ・形式でエンコードされた PNG を、フレームとして APNG にまとめる。
+ * 圧縮（deflate）は呼び出し側の PNG エンコーダ（canvas / pngjs）の出力をそのまま使う。
+ */
+export const assembleApng = (
+	pngs: Uint8Array[],
+	delays: number[],
+	loopCount: number,
+): Uint8Array<ArrayBuffer> => {
+	if (pngs.length === 0) {
+		throw new Error("APNG にするフレームがありません。");
+	}
+	const parsed = pngs.map(readChunks);
+	const ihdr = parsed[0].find((c) => c.type === "IHDR");
+	if (!ihdr) throw new Error("PNG に IHDR がありません。");
+	for (const chunks of parsed) {
+		const h = chunks.find((c) => c.type === "IHDR");
+		if (!h || h.data.some((v, i) => v !== ihdr.data[i])) {
+			throw new Error(
+				"APNG のフレームは同じ大きさ・形式の PNG である必要があります。",
+			);
+		}
+	}
+	const width = readU32(ihdr.data, 0);
+	const height = readU32(ihdr.data, 4);
+
+	const actl = new Uint8Array(8);
+	writeU32(actl, 0, pngs.length);
+	writeU32(actl, 4, loopCount);
+	const out: PngChunk[] = [
+		{ type: "IHDR", data: ihdr.data },
+		{ type: "acTL", data: actl },
+	];
+	for (const c of parsed[0]) {
+		if (c.type === "IDAT") break;
+		if (c.type !== "IHDR") out.push(c);
+	}
+
+	let seq = 0;
+	parsed.forEach((chunks, i) => {
+		const fctl = new Uint8Array(26);
+		writeU32(fctl, 0, seq++);
+		writeU32(fctl, 4, width);
+		writeU32(fctl, 8, height);
+		// delay は ms 単位 (delay_num / 1000)
+		const delay = Math.min(0xffff, Math.max(0, Math.round(delays[i] ?? 100)));
+		fctl[20] = delay >> 8;
+		fctl[21] = delay & 0xff;
+		fctl[22] = 1000 >> 8;
+		fctl[23] = 1000 & 0xff;
+		// dispose_op = NONE, blend_op = SOURCE（毎フレーム全体を置き換える）
+		out.push({ type: "fcTL", data: fctl });
+		for (const c of chunks) {
+			if (c.type !== "IDAT") continue;
+			if (i === 0) {
+				out.push(c);
+			} else {
+				const fdat = new Uint8Array(4 + c.data.length);
+				writeU32(fdat, 0, seq++);
+				fdat.set(c.data, 4);
+				out.push({ type: "fdAT", data: fdat });
+			}
+		}
+	});
+	out.push({ type: "IEND", data: new Uint8Array(0) });
+	return writePng(out);
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import { type AtlasFrame, createAtlasJson, packAtlas } from "./atlas";
+
+// 単色で塗りつぶした不透明画像
+const solid = (w: number, h: number, v: number): RawImage => {
+	const data = new Uint8ClampedArray(w * h * 4);
+	for (let i = 0; i < data.length; i += 4) {
+		data[i] = v;
+		data[i + 1] = v;
+		data[i + 2] = v;
+		data[i + 3] = 255;
+	}
+	return { width: w, height: h, data };
+};
+
+const overlaps = (a: AtlasFrame, b: AtlasFrame, padding: number): boolean =>
+	a.x < b.x + b.w + padding &&
+	b.x < a.x + a.w + padding &&
+	a.y < b.y + b.h + padding &&
+	b.y < a.y + a.h + padding;
+
+const inputs = [
+	{ name: "a.png", image: solid(16, 16, 10) },
+	{ name: "b.png", image: solid(8, 24, 20) },
+	{ name: "c.png", image: solid(30, 6, 30) },
+	{ name: "d.png", image: solid(5, 5, 40) },
+	{ name: "e.png", image: solid(12, 9, 50) },
+];
+
+describe("packAtlas", () => {
+	for (const method of ["shelf", "maxrects"] as const) {
+		it(`${method}: フレームが余白を空けて重ならずに収まり、画素がコピーされる`, () => {
+			const padding = 2;
+			const atlas = packAtlas(inputs, { method, padding });
+
+			expect(atlas.frames.map((f) => f.name)).toEqual(
+				inputs.map((i) => i.name),
+			);
+			atlas.frames.forEach((f, i) => {
+				expect(f.x).toBeGreaterThanOrEqual(padding);
+				expect(f.y).toBeGreaterThanOrEqual(padding);
+				expect(f.x + f.w + padding).toBeLessThanOrEqual(atlas.image.width);
+				expect(f.y + f.h + padding).toBeLessThanOrEqual(atlas.image.height);
+				for (const g of atlas.frames.slice(i + 1)) {
+					expect(overlaps(f, g, padding)).toBe(false);
+				}
+				const idx = (f.y * atlas.image.width + f.x) * 4;
+				expect(atlas.image.data[idx]).toBe(inputs[i].image.data[0]);
+				expect(atlas.image.data[idx + 3]).toBe(255);
+			});
+		});
+	}
+
+	it("powerOfTwo で幅と高さを 2 の累乗にする", () => {
+		const atlas = packAtlas(inputs, { powerOfTwo: true });
+		const isPow2 = (n: number) => n > 0 && (n & (n - 1)) === 0;
+		expect(isPow2(atlas.image.width)).toBe(true);
+		expect(isPow2(atlas.image.height)).toBe(true);
+	});
+
+	it("JSON (Hash) 形式のフレームデータを出力する", () => {
+		const atlas = packAtlas(inputs.slice(0, 2), { padding: 0 });
+		const json = JSON.parse(createAtlasJson(atlas, "atlas.png"));
+
+		expect(json.meta.image).toBe("atlas.png");
+		expect(json.meta.size).toEqual({
+			w: atlas.image.width,
+			h: atlas.image.height,
+		});
+		expect(json.frames["b.png"].frame).toEqual({
+			x: atlas.frames[1].x,
+			y: atlas.frames[1].y,
+			w: 8,
+			h: 24,
+		});
+		expect(json.frames["b.png"].sourceSize).toEqual({ w: 8, h: 24 });
+	});
+});
@@ -0,0 +1,258 @@
+import { clampInt, PROCESS_RANGES } from "../shared/config";
+import type { AtlasPackMethod, RawImage } from "../shared/types";
+
+export type AtlasInput = {
+	name: string;
+	image: RawImage;
+};
+
+export type AtlasPackOptions = {
+	method?: AtlasPackMethod;
+	/** フレームどうし・外周の透明な余白（px） */
+	padding?: number;
+	/** 幅・高さを 2 の累乗に揃える */
+	powerOfTwo?: boolean;
+};
+
+export type AtlasFrame = {
+	name: string;
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+};
+
+export type Atlas = {
+	image: RawImage;
+	frames: AtlasFrame[];
+};
+
+type Rect = { x: number; y: number; w: number; h: number };
+type Size = { w: number; h: number };
+
+const nextPowerOfTwo = (n: number): number => {
+	let p = 1;
+	while (p < n) p *= 2;
+	return p;
+};
+
+/**
+ * シェルフ（棚）詰め。高い順に左から並べ、幅を超えたら次の段に移る。
+ * sizes は余白込みの大きさ。戻り値は sizes と同じ順の配置。
+ */
+const packShelf = (sizes: Size[], binW: number): Rect[] | null => {
+	const order = sizes
+		.map((_, i) => i)
+		.sort((a, b) => sizes[b].h - sizes[a].h || sizes[b].w - sizes[a].w);
+	const placed = new Array<Rect>(sizes.length);
+	let x = 0;
+	let y = 0;
+	let shelfH = 0;
+	for (const i of order) {
+		const { w, h } = sizes[i];
+		if (w > binW) return null;
+		if (x + w > binW) {
+			x = 0;
+			y += shelfH;
+			shelfH = 0;
+		}
+		placed[i] = { x, y, w, h };
+		x += w;
+		shelfH = Math.max(shelfH, h);
+	}
+	return placed;
+};
+
+const contains = (a: Rect, b: Rect): boolean =>
+	b.x >= a.x && b.y >= a.y && b.x + b.w <= a.x + a.w && b.y + b.h <= a.y + a.h;
+
+/**
+ * MaxRects 詰め（Bottom-Left ルール）。高さは制限せず、使った分だけを後で切り詰める。
+ */
+const packMaxRects = (sizes: Size[], binW: number): Rect[] | null => {
+	const order = sizes
+		.map((_, i) => i)
+		.sort(
+			(a, b) =>
+				Math.max(sizes[b].w, sizes[b].h) - Math.max(sizes[a].w, sizes[a].h) ||
+				sizes[b].w * sizes[b].h - sizes[a].w * sizes[a].h,
+		);
+	let binH = 0;
+	for (const s of sizes) binH += s.h;
+	let free: Rect[] = [{ x: 0, y: 0, w: binW, h: binH }];
+	const placed = new Array<Rect>(sizes.length);
+
+	for (const i of order) {
+		const { w, h } = sizes[i];
+		let best: Rect | null = null;
+		for (const f of free) {
+			if (w > f.w || h > f.h) continue;
+			if (
+				!best ||
+				f.y + h < best.y + best.h ||
+				(f.y + h === best.y + best.h && f.x < best.x)
+			) {
+				best = { x: f.x, y: f.y, w, h };
+			}
+		}
+		if (!best) return null;
+		placed[i] = best;
+
+		// 配置した矩形と重なる空き領域を分割する
+		const next: Rect[] = [];
+		for (const f of free) {
+			if (
+				best.x >= f.x + f.w ||
+				best.x + best.w <= f.x ||
+				best.y >= f.y + f.h ||
+				best.y + best.h <= f.y
+			) {
+				next.push(f);
+				continue;
+			}
+			if (best.x > f.x) next.push({ ...f, w: best.x - f.x });
+			if (best.x + best.w < f.x + f.w) {
+				next.push({
+					...f,
+					x: best.x + best.w,
+					w: f.x + f.w - (best.x + best.w),
+				});
+			}
+			if (best.y > f.y) next.push({ ...f, h: best.y - f.y });
+			if (best.y + best.h < f.y + f.h) {
+				next.push({
+					...f,
+					y: best.y + best.h,
+					h: f.y + f.h - (best.y + best.h),
+				});
+			}
+		}
+		// 他の空き領域に含まれるものは捨てる
+		free = next.filter(
+			(f, a) =>
+				!next.some(
+					(g, b) => a !== b && contains(g, f) && (!contains(f, g) || b < a),
+				),
+		);
+	}
+	return placed;
+};
+
+/**
+ * 複数の画像を 1 枚のアトラス画像に詰める。
+ * 幅の候補をいくつか試し、面積が最小（同じなら正方形に近い）の配置を採用する。
+ */
+export const packAtlas = (
+	inputs: AtlasInput[],
+	options: AtlasPackOptions = {},
+): Atlas => {
+	const padding = clampInt(
+		options.padding ?? PROCESS_RANGES.atlasPadding.default,
+		PROCESS_RANGES.atlasPadding,
+	);
+	const pack = options.method === "shelf" ? packShelf : packMaxRects;
+	const powerOfTwo = options.powerOfTwo ?? false;
+
+	if (inputs.length === 0) {
+		return {
+			image: { width: 0, height: 0, data: new Uint8ClampedArray() },
+			frames: [],
+		};
+	}
+
+	// 外周の余白は配置後に左上へ足す。各フレームは右と下に余白を持つ
+	const sizes = inputs.map(({ image }) => ({
+		w: image.width + padding,
+		h: image.height + padding,
+	}));
+	let area = 0;
+	let maxW = 0;
+	for (const s of sizes) {
+		area += s.w * s.h;
+		maxW = Math.max(maxW, s.w);
+	}
+
+	const side = Math.ceil(Math.sqrt(area));
+	const candidates = new Set<number>();
+	for (const f of [1, 1.25, 1.5, 2]) {
+		const w = Math.max(maxW, Math.ceil(side * f));
+		candidates.add(powerOfTwo ? nextPowerOfTwo(w + padding) - padding : w);
+	}
+	candidates.add(powerOfTwo ? nextPowerOfTwo(maxW + padding) - padding : maxW);
+
+	let best: { rects: Rect[]; width: number; height: number } | null = null;
+	for (const binW of [...candidates].sort((a, b) => a - b)) {
+		const rects = pack(sizes, binW);
+		if (!rects) continue;
+		let usedW = 0;
+		let usedH = 0;
+		for (const r of rects) {
+			usedW = Math.max(usedW, r.x + r.w);
+			usedH = Math.max(usedH, r.y + r.h);
+		}
+		let width = usedW + padding;
+		let height = usedH + padding;
+		if (powerOfTwo) {
+			width = nextPowerOfTwo(width);
+			height = nextPowerOfTwo(height);
+		}
+		if (
+			!best ||
+			width * height < best.width * best.height ||
+			(width * height === best.width * best.height &&
+				Math.abs(width - height) < Math.abs(best.width - best.height))
+		) {
+			best = { rects, width, height };
+		}
+	}
+	if (!best) {
+		throw new Error("アトラスに画像を配置できませんでした。");
+	}
+
+	const { rects, width, height } = best;
+	const data = new Uint8ClampedArray(width * height * 4);
+	const frames = inputs.map(({ name, image }, i) => {
+		const x = rects[i].x + padding;
+		const y = rects[i].y + padding;
+		for (let j = 0; j < image.height; j += 1) {
+			const src = j * image.width * 4;
+			data.set(
+				image.data.subarray(src, src + image.width * 4),
+				((y + j) * width + x) * 4,
+			);
+		}
+		return { name, x, y, w: image.width, h: image.height };
+	});
+	return { image: { width, height, data }, frames };
+};
+
+/**
+ * TexturePacker 互換の「JSON (Hash)」形式のフレームデータを作る。
+ * Phaser / PixiJS / Godot のインポータなどでそのまま読める。
+ */
+export const createAtlasJson = (atlas: Atlas, imageName: string): string => {
+	const frames: Record<string, unknown> = {};
+	for (const f of atlas.frames) {
+		frames[f.name] = {
+			frame: { x: f.x, y: f.y, w: f.w, h: f.h },
+			rotated: false,
+			trimmed: false,
+			spriteSourceSize: { x: 0, y: 0, w: f.w, h: f.h },
+			sourceSize: { w: f.w, h: f.h },
+		};
+	}
+	return `${JSON.stringify(
+		{
+			frames,
+			meta: {
+				app: "Pixel Refiner",
+				image: imageName,
+				format: "RGBA8888",
+				size: { w: atlas.image.width, h: atlas.image.height },
+				scale: "1",
+			},
+		},
+		null,
+		2,
+	)}\n`;
+};
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import { quantizeAttributeCells } from "./attributeClash";
+import { processImage } from "./processor";
+
+type Color = [number, number, number, number];
+
+const makeImage = (
+	width: number,
+	height: number,
+	color: (x: number, y: number) => Color,
+): RawImage => {
+	const data = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			data.set(color(x, y), (y * width + x) * 4);
+		}
+	}
+	return { width, height, data };
+};
+
+const pixel = (img: RawImage, x: number, y: number): number[] =>
+	Array.from(
+		img.data.subarray((y * img.width + x) * 4, (y * img.width + x) * 4 + 4),
+	);
+
+/** セルごとの不透明な画素の色 */
+const cellColors = (
+	img: RawImage,
+	cellW: number,
+	cellH: number,
+): Set<string>[] => {
+	const cells: Set<string>[] = [];
+	for (let cy = 0; cy < img.height; cy += cellH) {
+		for (let cx = 0; cx < img.width; cx += cellW) {
+			const set = new Set<string>();
+			for (let y = cy; y < Math.min(img.height, cy + cellH); y++) {
+				for (let x = cx; x < Math.min(img.width, cx + cellW); x++) {
+					const p = pixel(img, x, y);
+					if (p[3] > 0) set.add(p.slice(0, 3).join(","));
+				}
+			}
+			cells.push(set);
+		}
+	}
+	return cells;
+};
+
+describe("attributeClash.ts", () => {
+	describe("quantizeAttributeCells", () => {
+		it("ZX Spectrum: 8×8 のセルごとに 2 色までにする", () => {
+			// 赤・緑・青・白の縦縞
+			const stripes: Color[] = [
+				[255, 0, 0, 255],
+				[0, 255, 0, 255],
+				[0, 0, 255, 255],
+				[255, 255, 255, 255],
+			];
+			const img = makeImage(16, 16, (x) => stripes[x % 4]);
+			const result = quantizeAttributeCells(img, "zx_spectrum");
+			for (const colors of cellColors(result, 8, 8)) {
+				expect(colors.size).toBeLessThanOrEqual(2);
+			}
+		});
+
+		it("ZX Spectrum: 2 色は同じ明るさの組から選ぶ", () => {
+			// 明るい白と暗い赤は同じセルに置けない
+			const img = makeImage(8, 8, (x) =>
+				x < 4 ? [255, 255, 255, 255] : [215, 0, 0, 255],
+			);
+			const result = quantizeAttributeCells(img, "zx_spectrum");
+			const [colors] = cellColors(result, 8, 8);
+			const bright = [...colors].some((c) => c.split(",").includes("255"));
+			const normal = [...colors].some((c) => c.split(",").includes("215"));
+			expect(bright && normal).toBe(false);
+		});
+
+		it("ZX Spectrum: 2 色のセルはそのままの色になる", () => {
+			const img = makeImage(8, 8, (x, y) =>
+				(x + y) % 2 ? [0, 0, 255, 255] : [255, 255, 0, 255],
+			);
+			const result = quantizeAttributeCells(img, "zx_spectrum");
+			expect(pixel(result, 0, 0)).toEqual([255, 255, 0, 255]);
+			expect(pixel(result, 1, 0)).toEqual([0, 0, 255, 255]);
+		});
+
+		it("C64 マルチカラー: 横 2px を同じ色にし、セルごとに共通の背景色 + 3 色までにする", () => {
+			const colors: Color[] = [
+				[0, 0, 0, 255],
+				[255, 255, 255, 255],
+				[129, 51, 56, 255],
+				[86, 172, 77, 255],
+				[46, 44, 155, 255],
+				[237, 241, 113, 255],
+			];
+			const img = makeImage(16, 8, (x, y) => colors[(x + y * 3) % 6]);
+			const result = quantizeAttributeCells(img, "c64_multicolor");
+			for (let y = 0; y < 8; y++) {
+				for (let x = 0; x < 16; x += 2) {
+					expect(pixel(result, x + 1, y)).toEqual(pixel(result, x, y));
+				}
+			}
+			// どのセルも、ある 1 色（背景色）を除けば 3 色以下
+			const cells = cellColors(result, 8, 8);
+			const all = new Set(cells.flatMap((cell) => [...cell]));
+			const background = [...all].find((c) =>
+				cells.every((cell) => [...cell].filter((k) => k !== c).length <= 3),
+			);
+			expect(background).toBeDefined();
+		});
+
+		it("透明の画素は変えない", () => {
+			const img = makeImage(8, 8, (x) =>
+				x === 0 ? [10, 20, 30, 0] : [255, 255, 255, 255],
+			);
+			const result = quantizeAttributeCells(img, "zx_spectrum");
+			expect(pixel(result, 0, 0)).toEqual([10, 20, 30, 0]);
+			expect(pixel(result, 1, 0)).toEqual([255, 255, 255, 255]);
+		});
+
+		it("対応していないモードはエラー", () => {
+			const img = makeImage(8, 8, () => [0, 0, 0, 255]);
+			expect(() => quantizeAttributeCells(img, "pico8")).toThrow();
+		});
+	});
+
+	describe("processImage", () => {
+		it("ZX Spectrum: アウトラインを付けてもセルごとに 2 色までにする", () => {
+			// 透明の余白の中の、赤・緑・青・白の縦縞
+			const stripes: Color[] = [
+				[255, 0, 0, 255],
+				[0, 255, 0, 255],
+				[0, 0, 255, 255],
+				[255, 255, 255, 255],
+			];
+			const img = makeImage(16, 16, (x, y) =>
+				x < 2 || y < 2 || x >= 14 || y >= 14 ? [0, 0, 0, 0] : stripes[x % 4],
+			);
+			const { result } = processImage(img, {
+				manualGrid: { cellW: 1, cellH: 1, offsetX: 0, offsetY: 0 },
+				preRemoveBackground: false,
+				postRemoveBackground: false,
+				trimToContent: false,
+				reduceColors: true,
+				reduceColorMode: "zx_spectrum",
+				outlineStyle: "sharp",
+				outlineColor: { r: 255, g: 255, b: 0 },
+			});
+			expect(result.width).toBe(18);
+			for (const colors of cellColors(result, 8, 8)) {
+				expect(colors.size).toBeLessThanOrEqual(2);
+			}
+		});
+	});
+});
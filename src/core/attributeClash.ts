@@ -0,0 +1,232 @@
+import { RETRO_PALETTES } from "../shared/config";
+import type { RawImage, RGB } from "../shared/types";
+import { rgbToOklab } from "./colorUtils";
+
+type CellRule = {
+	/** セルの大きさ（出力画像の px） */
+	cellW: number;
+	cellH: number;
+	/** 機種の 1 画素の横幅（出力画像の px）。C64 マルチカラーは横長の 2px */
+	pixelW: number;
+	/** セルで選べる色の組（パレットのインデックス）。セルの色はどれか 1 つの組から選ぶ */
+	groups: number[][];
+	/** セルごとに選ぶ色の数 */
+	cellColors: number;
+	/** 画像全体で共通の色（背景色）を 1 つ選ぶ */
+	sharedBackground: boolean;
+};
+
+const ZX_NORMAL = [0, 1, 2, 3, 4, 5, 6, 7];
+// 明るい色の組。黒は明るさによらず同じ色
+const ZX_BRIGHT = [0, 8, 9, 10, 11, 12, 13, 14];
+const C64_ALL = Array.from({ length: 16 }, (_, i) => i);
+
+const CELL_RULES: Record<string, CellRule> = {
+	// 8×8 ごとに INK と PAPER の 2 色。BRIGHT ビットは 2 色で共通
+	zx_spectrum: {
+		cellW: 8,
+		cellH: 8,
+		pixelW: 1,
+		groups: [ZX_NORMAL, ZX_BRIGHT],
+		cellColors: 2,
+		sharedBackground: false,
+	},
+	// 横 2px の画素で 4×8 ごとに、共通の背景色 + 3 色
+	c64_multicolor: {
+		cellW: 8,
+		cellH: 8,
+		pixelW: 2,
+		groups: [C64_ALL],
+		cellColors: 3,
+		sharedBackground: true,
+	},
+};
+
+/** セルの色の組み合わせを探すときに候補にする色の数の上限（セルの画素に近い順） */
+const MAX_CELL_CANDIDATES = 8;
+/** 共通の背景色として試す色の数（画像全体で最も近い色になる画素の多い順） */
+const BACKGROUND_CANDIDATES = 4;
+
+/** セルの中の機種の 1 画素（C64 マルチカラーは横 2px）の、パレットの各色との誤差 */
+type Cell = {
+	/** 画素ごとの出力画像のインデックス（同じ機種の画素は同じ色になる） */
+	pixels: number[][];
+	/** pixels.length × パレットの色数。透明の画素は 0 */
+	dist: Float64Array;
+};
+
+const combinations = (items: number[], size: number): number[][] => {
+	if (size <= 0) return [[]];
+	const out: number[][] = [];
+	const walk = (start: number, picked: number[]) => {
+		if (picked.length === size) {
+			out.push([...picked]);
+			return;
+		}
+		for (let i = start; i <= items.length - (size - picked.length); i += 1) {
+			picked.push(items[i]);
+			walk(i + 1, picked);
+			picked.pop();
+		}
+	};
+	walk(0, []);
+	return out;
+};
+
+/**
+ * セルごとに使える色の数が決まっている機種（属性クラッシュ）向けに減色する。
+ * - zx_spectrum: 8×8 のセルごとに、同じ明るさの組から 2 色（INK / PAPER）
+ * - c64_multicolor: 横 2px を 1 画素とし、4×8 画素（出力では 8×8 px）のセルごとに、
+ *   画像全体で共通の背景色 + 3 色。横に並んだ 2px は同じ色にする
+ * セルの色の組み合わせは、セルの画素を最も近い色に置いたときの Oklab の誤差の合計が最小になるものを選ぶ。
+ * alpha 0 の画素は誤差に数えず、alpha は変えない。ディザリングはしない。
+ */
+export const quantizeAttributeCells = (
+	img: RawImage,
+	mode: string,
+): RawImage => {
+	const rule = CELL_RULES[mode];
+	const paletteDef = RETRO_PALETTES[mode];
+	if (!rule || !paletteDef) {
+		throw new Error(`セルごとの減色に対応していないモードです: ${mode}`);
+	}
+	const palette: RGB[] = paletteDef.colors.map((hex) => ({
+		r: Number.parseInt(hex.slice(1, 3), 16),
+		g: Number.parseInt(hex.slice(3, 5), 16),
+		b: Number.parseInt(hex.slice(5, 7), 16),
+	}));
+	const paletteLab = palette.map(rgbToOklab);
+	const P = palette.length;
+	const { width, height, data } = img;
+
+	const cells: Cell[] = [];
+	// 画像全体で、各色が最も近い色になる画素の数（背景色の候補に使う）
+	const nearestCounts = new Float64Array(P);
+	for (let cy = 0; cy < height; cy += rule.cellH) {
+		for (let cx = 0; cx < width; cx += rule.cellW) {
+			const pixels: number[][] = [];
+			for (let y = cy; y < Math.min(height, cy + rule.cellH); y += 1) {
+				for (
+					let x = cx;
+					x < Math.min(width, cx + rule.cellW);
+					x += rule.pixelW
+				) {
+					const unit: number[] = [];
+					for (let dx = 0; dx < rule.pixelW && x + dx < width; dx += 1) {
+						unit.push(y * width + x + dx);
+					}
+					pixels.push(unit);
+				}
+			}
+			const dist = new Float64Array(pixels.length * P);
+			pixels.forEach((unit, u) => {
+				for (const i of unit) {
+					if (data[i * 4 + 3] === 0) continue;
+					const lab = rgbToOklab({
+						r: data[i * 4],
+						g: data[i * 4 + 1],
+						b: data[i * 4 + 2],
+					});
+					let nearest = 0;
+					let nearestDist = Number.POSITIVE_INFINITY;
+					for (let c = 0; c < P; c += 1) {
+						const q = paletteLab[c];
+						const d =
+							(lab.L - q.L) ** 2 + (lab.a - q.a) ** 2 + (lab.b - q.b) ** 2;
+						dist[u * P + c] += d;
+						if (d < nearestDist) {
+							nearest = c;
+							nearestDist = d;
+						}
+					}
+					nearestCounts[nearest] += 1;
+				}
+			});
+			cells.push({ pixels, dist });
+		}
+	}
+
+	const costOf = (cell: Cell, colors: number[]): number => {
+		let cost = 0;
+		for (let u = 0; u < cell.pixels.length; u += 1) {
+			let best = Number.POSITIVE_INFINITY;
+			for (const c of colors) best = Math.min(best, cell.dist[u * P + c]);
+			cost += best;
+		}
+		return cost;
+	};
+
+	// セルの色を選ぶ。候補はセルの画素の誤差の合計が小さい色に絞る
+	const solveCell = (
+		cell: Cell,
+		background: number | undefined,
+	): { colors: number[]; cost: number } => {
+		let best: number[] = [];
+		let bestCost = Number.POSITIVE_INFINITY;
+		for (const group of rule.groups) {
+			const totals = group.map((c) => {
+				let sum = 0;
+				for (let u = 0; u < cell.pixels.length; u += 1) {
+					sum += cell.dist[u * P + c];
+				}
+				return { c, sum };
+			});
+			const candidates = totals
+				.filter((t) => t.c !== background)
+				.sort((a, b) => a.sum - b.sum)
+				.slice(0, MAX_CELL_CANDIDATES)
+				.map((t) => t.c);
+			const size = Math.min(rule.cellColors, candidates.length);
+			for (const combo of combinations(candidates, size)) {
+				const colors =
+					background === undefined ? combo : [background, ...combo];
+				const cost = costOf(cell, colors);
+				if (cost < bestCost) {
+					best = colors;
+					bestCost = cost;
+				}
+			}
+		}
+		return { colors: best, cost: bestCost };
+	};
+
+	let backgrounds: (number | undefined)[] = [undefined];
+	if (rule.sharedBackground) {
+		backgrounds = Array.from({ length: P }, (_, c) => c)
+			.sort((a, b) => nearestCounts[b] - nearestCounts[a])
+			.slice(0, BACKGROUND_CANDIDATES);
+	}
+	let chosen: number[][] = [];
+	let chosenCost = Number.POSITIVE_INFINITY;
+	for (const background of backgrounds) {
+		let total = 0;
+		const colors = cells.map((cell) => {
+			const solved = solveCell(cell, background);
+			total += solved.cost;
+			return solved.colors;
+		});
+		if (total < chosenCost) {
+			chosen = colors;
+			chosenCost = total;
+		}
+	}
+
+	const out = new Uint8ClampedArray(data);
+	cells.forEach((cell, k) => {
+		const colors = chosen[k];
+		cell.pixels.forEach((unit, u) => {
+			let best = colors[0];
+			for (const c of colors) {
+				if (cell.dist[u * P + c] < cell.dist[u * P + best]) best = c;
+			}
+			const rgb = palette[best];
+			for (const i of unit) {
+				if (data[i * 4 + 3] === 0) continue;
+				out[i * 4] = rgb.r;
+				out[i * 4 + 1] = rgb.g;
+				out[i * 4 + 2] = rgb.b;
+			}
+		});
+	});
+	return { width, height, data: out };
+};
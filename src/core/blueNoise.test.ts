@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { getBlueNoiseMatrix } from "./blueNoise";
+
+describe("blueNoise.ts", () => {
+	describe("getBlueNoiseMatrix", () => {
+		it.each([16, 32, 64] as const)(
+			"%i: 全ての順位が 1 回ずつ現れること",
+			(size) => {
+				const n = size * size;
+				const matrix = getBlueNoiseMatrix(size);
+				expect(matrix).toHaveLength(n);
+				const ranks = matrix.map((v) => Math.round(v * n - 0.5));
+				expect(new Set(ranks).size).toBe(n);
+				expect(Math.min(...ranks)).toBe(0);
+				expect(Math.max(...ranks)).toBe(n - 1);
+			},
+		);
+
+		it("生成結果が決定的であること", () => {
+			const a = getBlueNoiseMatrix(16);
+			expect([...a]).toEqual([...getBlueNoiseMatrix(16)]);
+		});
+
+		it("点が固まらず均等に散らばること", () => {
+			const size = 32;
+			const matrix = getBlueNoiseMatrix(size);
+			// 1/8 の密度の点どうしの最短距離（上下左右はつながる）
+			const points: [number, number][] = [];
+			matrix.forEach((v, i) => {
+				if (v < 1 / 8) points.push([i % size, Math.floor(i / size)]);
+			});
+			let minDistSq = Number.MAX_VALUE;
+			for (let i = 0; i < points.length; i++) {
+				for (let j = i + 1; j < points.length; j++) {
+					const dx = Math.abs(points[i][0] - points[j][0]);
+					const dy = Math.abs(points[i][1] - points[j][1]);
+					const wx = Math.min(dx, size - dx);
+					const wy = Math.min(dy, size - dy);
+					minDistSq = Math.min(minDistSq, wx * wx + wy * wy);
+				}
+			}
+			// 平均間隔は √8 ≈ 2.8。隣接（距離 1 や斜め √2）する点はない
+			expect(minDistSq).toBeGreaterThanOrEqual(4);
+
+			// 4x4 ブロックごとに、半分の密度の点がほぼ均等に入る
+			for (let by = 0; by < size; by += 4) {
+				for (let bx = 0; bx < size; bx += 4) {
+					let count = 0;
+					for (let y = by; y < by + 4; y++) {
+						for (let x = bx; x < bx + 4; x++) {
+							if (matrix[y * size + x] < 0.5) count++;
+						}
+					}
+					expect(count).toBeGreaterThanOrEqual(5);
+					expect(count).toBeLessThanOrEqual(11);
+				}
+			}
+		});
+	});
+});
@@ -0,0 +1,161 @@
+/** 生成できるブルーノイズ閾値マップの一辺の大きさ */
+export type BlueNoiseSize = 16 | 32 | 64;
+
+/** エネルギー計算に使うガウス関数の標準偏差（Ulichney の推奨値） */
+const SIGMA = 1.5;
+
+/** 初期パターンで 1 にする画素の割合 */
+const INITIAL_DENSITY = 0.1;
+
+/** 初期パターンの乱数シード（毎回同じ閾値マップになるよう固定する） */
+const SEED = 0x9e3779b9;
+
+const cache = new Map<BlueNoiseSize, number[]>();
+
+/** mulberry32。再現性のある初期パターンを作るためだけに使う */
+const createRandom = (seed: number) => {
+	let s = seed >>> 0;
+	return (): number => {
+		s = (s + 0x6d2b79f5) >>> 0;
+		let t = s;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+/**
+ * 画素 (0, 0) を中心にしたトーラス（上下左右がつながる）上のガウス関数。
+ * 閾値マップはタイル状に敷き詰めるため、距離は端で折り返して測る。
+ */
+const createKernel = (size: number): Float64Array => {
+	const kernel = new Float64Array(size * size);
+	for (let y = 0; y < size; y += 1) {
+		const dy = Math.min(y, size - y);
+		for (let x = 0; x < size; x += 1) {
+			const dx = Math.min(x, size - x);
+			kernel[y * size + x] = Math.exp(
+				-(dx * dx + dy * dy) / (2 * SIGMA * SIGMA),
+			);
+		}
+	}
+	return kernel;
+};
+
+/**
+ * void-and-cluster 法（Ulichney, 1993）でブルーノイズの順位表を作る。
+ * 1 の画素が最も密集している所（cluster）と最も空いている所（void）を
+ * ガウス関数で測ったエネルギーで探し、点が均等に散らばる順に 0..n-1 の順位を振る。
+ */
+const generateRanks = (size: number): Int32Array => {
+	const n = size * size;
+	const kernel = createKernel(size);
+	const energy = new Float64Array(n);
+	const pattern = new Uint8Array(n);
+
+	// p にある点のエネルギーへの寄与を sign 倍して足す
+	const splat = (p: number, sign: number) => {
+		const px = p % size;
+		const py = Math.floor(p / size);
+		for (let y = 0; y < size; y += 1) {
+			const ky = ((y - py + size) % size) * size;
+			for (let x = 0; x < size; x += 1) {
+				energy[y * size + x] += sign * kernel[ky + ((x - px + size) % size)];
+			}
+		}
+	};
+	// bits の値が value の画素のうち、エネルギーが最大（tightest cluster）/ 最小（largest void）の位置
+	const findExtreme = (bits: Uint8Array, value: number, max: boolean) => {
+		let best = -1;
+		for (let i = 0; i < n; i += 1) {
+			if (bits[i] !== value) continue;
+			if (
+				best < 0 ||
+				(max ? energy[i] > energy[best] : energy[i] < energy[best])
+			) {
+				best = i;
+			}
+		}
+		return best;
+	};
+
+	// 1) 乱数の初期パターンを、最も密な点を最も空いた所へ移し続けて均す（通常は数十回で収束する）
+	const random = createRandom(SEED);
+	const initialCount = Math.max(1, Math.round(n * INITIAL_DENSITY));
+	let placed = 0;
+	while (placed < initialCount) {
+		const p = Math.floor(random() * n);
+		if (pattern[p]) continue;
+		pattern[p] = 1;
+		splat(p, 1);
+		placed += 1;
+	}
+	for (let iter = 0; iter < n; iter += 1) {
+		const cluster = findExtreme(pattern, 1, true);
+		pattern[cluster] = 0;
+		splat(cluster, -1);
+		const voidPos = findExtreme(pattern, 0, false);
+		if (voidPos === cluster) {
+			pattern[cluster] = 1;
+			splat(cluster, 1);
+			break;
+		}
+		pattern[voidPos] = 1;
+		splat(voidPos, 1);
+	}
+
+	const ranks = new Int32Array(n);
+	const prototype = new Uint8Array(pattern);
+	const prototypeEnergy = new Float64Array(energy);
+
+	// 2) 初期パターンの点を、密な所から順に取り除いて大きい順位から振る
+	let ones = initialCount;
+	while (ones > 0) {
+		const cluster = findExtreme(pattern, 1, true);
+		pattern[cluster] = 0;
+		splat(cluster, -1);
+		ones -= 1;
+		ranks[cluster] = ones;
+	}
+
+	// 3) 初期パターンから、半分に達するまで最も空いた所に点を足す
+	pattern.set(prototype);
+	energy.set(prototypeEnergy);
+	ones = initialCount;
+	while (ones < n / 2) {
+		const voidPos = findExtreme(pattern, 0, false);
+		pattern[voidPos] = 1;
+		splat(voidPos, 1);
+		ranks[voidPos] = ones;
+		ones += 1;
+	}
+
+	// 4) 残りは少数派になった 0 の画素のエネルギーで、0 が最も密な所から埋める
+	energy.fill(0);
+	for (let i = 0; i < n; i += 1) {
+		if (!pattern[i]) splat(i, 1);
+	}
+	while (ones < n) {
+		const cluster = findExtreme(pattern, 0, true);
+		pattern[cluster] = 1;
+		splat(cluster, -1);
+		ranks[cluster] = ones;
+		ones += 1;
+	}
+
+	return ranks;
+};
+
+/**
+ * size×size のブルーノイズ閾値マップ（行優先、値は Bayer と同じく (順位 + 0.5) / n）。
+ * 生成は決定的で、初回の呼び出し時に作ってキャッシュする。
+ */
+export const getBlueNoiseMatrix = (size: BlueNoiseSize): number[] => {
+	let matrix = cache.get(size);
+	if (!matrix) {
+		const n = size * size;
+		matrix = Array.from(generateRanks(size), (rank) => (rank + 0.5) / n);
+		cache.set(size, matrix);
+	}
+	return matrix;
+};
@@ -3,7 +3,7 @@ import type { Oklab, RGB } from "../shared/types";
 /**
  * sRGB (0-255) to Linear RGB (0.0-1.0)
  */
-function srgbToLinear(c: number): number {
+export function srgbToLinear(c: number): number {
 	const v = c / 255;
 	return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
 }
@@ -11,7 +11,7 @@ function srgbToLinear(c: number): number {
 /**
  * Linear RGB (0.0-1.0) to sRGB (0-255)
  */
-function linearToSrgb(c: number): number {
+export function linearToSrgb(c: number): number {
 	const v = c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055;
 	return Math.max(0, Math.min(255, Math.round(v * 255)));
 }
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import type { PixelGrid, RawImage } from "../shared/types";
+import {
+	computeCellConfidence,
+	cropConfidenceMap,
+	padConfidenceMap,
+} from "./confidence";
+import { downsample, processImage } from "./processor";
+
+type Color = [number, number, number, number];
+const T: Color = [0, 0, 0, 0];
+const R: Color = [220, 30, 30, 255];
+const B: Color = [30, 40, 220, 255];
+
+const CELL = 6;
+
+const makeImage = (
+	width: number,
+	height: number,
+	color: (x: number, y: number) => Color,
+): RawImage => {
+	const data = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			data.set(color(x, y), (y * width + x) * 4);
+		}
+	}
+	return { width, height, data };
+};
+
+const grid: PixelGrid = {
+	cellW: CELL,
+	cellH: CELL,
+	offsetX: 0,
+	offsetY: 0,
+	score: 0,
+};
+
+const confidenceOf = (img: RawImage) =>
+	computeCellConfidence(img, grid, downsample(img, grid));
+
+describe("confidence.ts", () => {
+	describe("computeCellConfidence", () => {
+		it("セルの中が 1 色なら 1", () => {
+			const img = makeImage(CELL * 4, CELL * 2, (x) => (x < CELL * 2 ? R : B));
+			const map = confidenceOf(img);
+			expect(map.width).toBe(4);
+			expect(map.height).toBe(2);
+			expect(Array.from(map.data)).toEqual(new Array(8).fill(1));
+		});
+
+		it("2 色にまたがるセルだけが低くなる", () => {
+			// 色の境界がセルの真ん中（x = 9）にある
+			const img = makeImage(CELL * 4, CELL * 2, (x) =>
+				x < CELL + CELL / 2 ? R : B,
+			);
+			const map = confidenceOf(img);
+			for (let y = 0; y < 2; y++) {
+				expect(map.data[y * 4]).toBe(1);
+				expect(map.data[y * 4 + 1]).toBeCloseTo(0.5, 5);
+				expect(map.data[y * 4 + 2]).toBe(1);
+				expect(map.data[y * 4 + 3]).toBe(1);
+			}
+		});
+
+		it("透明な画素は、出力と透明かどうかが食い違うときだけ下げる", () => {
+			const img = makeImage(CELL * 2, CELL, (x, y) =>
+				x < CELL || y < CELL / 3 ? T : R,
+			);
+			const map = confidenceOf(img);
+			expect(map.data[0]).toBe(1);
+			expect(map.data[1]).toBeCloseTo(2 / 3, 5);
+		});
+
+		it("1 画素しかないセル（拡大）は 1", () => {
+			const img = makeImage(2, 2, (x) => (x === 0 ? R : B));
+			const small = { ...grid, cellW: 1, cellH: 1 };
+			const map = computeCellConfidence(img, small, downsample(img, small, 1));
+			expect(Array.from(map.data)).toEqual([1, 1, 1, 1]);
+		});
+	});
+
+	describe("cropConfidenceMap / padConfidenceMap", () => {
+		const map = {
+			width: 3,
+			height: 2,
+			data: Float32Array.from([0.1, 0.2, 0.3, 0.4, 0.5, 0.6]),
+		};
+
+		it("一部を切り出す", () => {
+			const cropped = cropConfidenceMap(map, 1, 0, 2, 2);
+			expect(cropped.width).toBe(2);
+			expect(cropped.height).toBe(2);
+			expect(Array.from(cropped.data)).toEqual(
+				Array.from(Float32Array.from([0.2, 0.3, 0.5, 0.6])),
+			);
+		});
+
+		it("周りを 1 で広げる", () => {
+			const padded = padConfidenceMap(map, 1, 0, 0, 1);
+			expect(padded.width).toBe(4);
+			expect(padded.height).toBe(3);
+			expect(Array.from(padded.data)).toEqual(
+				Array.from(
+					Float32Array.from([1, 0.1, 0.2, 0.3, 1, 0.4, 0.5, 0.6, 1, 1, 1, 1]),
+				),
+			);
+		});
+	});
+
+	describe("processImage", () => {
+		it("結果と同じ大きさの確からしさを返し、トリムにも合わせる", () => {
+			// 透明な余白の中の 4x2 セルの絵（3 列目のセルの真ん中に色の境界がある）
+			const img = makeImage(CELL * 6, CELL * 4, (x, y) => {
+				if (x < CELL || x >= CELL * 5 || y < CELL || y >= CELL * 3) return T;
+				return x < CELL * 3 + CELL / 2 ? R : B;
+			});
+			const { result, confidence } = processImage(img, {
+				manualGrid: { cellW: CELL, cellH: CELL, offsetX: 0, offsetY: 0 },
+				preRemoveBackground: false,
+				postRemoveBackground: false,
+			});
+			expect(result.width).toBe(4);
+			expect(result.height).toBe(2);
+			expect(confidence?.width).toBe(4);
+			expect(confidence?.height).toBe(2);
+			const row = Array.from(confidence?.data.subarray(0, 4) ?? []);
+			expect(row[0]).toBe(1);
+			expect(row[1]).toBe(1);
+			expect(row[2]).toBeCloseTo(0.5, 5);
+			expect(row[3]).toBe(1);
+		});
+
+		it("グリッド検出をしないときは返さない", () => {
+			const img = makeImage(4, 4, () => R);
+			const { confidence } = processImage(img, { enableGridDetection: false });
+			expect(confidence).toBeUndefined();
+		});
+	});
+});
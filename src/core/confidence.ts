@@ -0,0 +1,147 @@
+import type { Oklab, PixelGrid, RawImage } from "../shared/types";
+import { rgbToOklab } from "./colorUtils";
+
+/**
+ * 出力の画素ごとの確からしさ（0〜1, 行優先で width×height）。
+ * 1 はセルの中がすべて出力の色と同じ、0.5 前後はセルが 2 色にまたがっていることを表す。
+ */
+export type ConfidenceMap = {
+	width: number;
+	height: number;
+	data: Float32Array;
+};
+
+/** 出力の色との Oklab の距離がこれ以上の画素は、セルの色と一致しないとみなす */
+const CONFIDENCE_RANGE = 0.1;
+/** Oklab に変換した色を覚えておく数の上限（JPEG などで色が多いときに増えすぎないように） */
+const LAB_CACHE_LIMIT = 65536;
+
+/**
+ * セル i の範囲 [start, end)（元画像の座標, 画像の外は切る）。
+ */
+const cellRange = (
+	i: number,
+	crop: number,
+	cellSize: number,
+	bounds: number[] | undefined,
+	limit: number,
+): [number, number] => {
+	const start = bounds ? bounds[i] : Math.round(crop + i * cellSize);
+	const end = bounds ? bounds[i + 1] : Math.round(crop + (i + 1) * cellSize);
+	return [Math.max(0, start), Math.min(limit, end)];
+};
+
+/**
+ * 縮小した画像の各画素について、元画像のセルの中の色のばらつきから確からしさを求める。
+ * セルの各画素の重みを「出力の色との Oklab の距離が 0 なら 1、CONFIDENCE_RANGE 以上なら 0」とし、その平均をとる。
+ * 透明（alpha 16 未満）かどうかが出力と食い違う画素は 0、どちらも透明なら 1 とする。
+ * 画像の外にしかないセルや 1 画素しかないセル（拡大）は 1。
+ * sampled は img を grid で downsample した画像（大きさは grid の outW×outH）。
+ */
+export const computeCellConfidence = (
+	img: RawImage,
+	grid: PixelGrid,
+	sampled: RawImage,
+): ConfidenceMap => {
+	const { width, height, data } = img;
+	const outW = sampled.width;
+	const outH = sampled.height;
+	const cropX = grid.cropX ?? grid.offsetX;
+	const cropY = grid.cropY ?? grid.offsetY;
+	const confidence = new Float32Array(outW * outH).fill(1);
+
+	const labCache = new Map<number, Oklab>();
+	const labOf = (d: Uint8ClampedArray, i: number): Oklab => {
+		const key = (d[i] << 16) | (d[i + 1] << 8) | d[i + 2];
+		let lab = labCache.get(key);
+		if (!lab) {
+			if (labCache.size >= LAB_CACHE_LIMIT) labCache.clear();
+			lab = rgbToOklab({ r: d[i], g: d[i + 1], b: d[i + 2] });
+			labCache.set(key, lab);
+		}
+		return lab;
+	};
+
+	for (let j = 0; j < outH; j += 1) {
+		const [y0, y1] = cellRange(j, cropY, grid.cellH, grid.rowBounds, height);
+		for (let i = 0; i < outW; i += 1) {
+			const [x0, x1] = cellRange(i, cropX, grid.cellW, grid.colBounds, width);
+			if (x1 <= x0 || y1 <= y0 || (x1 - x0) * (y1 - y0) < 2) continue;
+
+			const outIdx = (j * outW + i) * 4;
+			const outR = sampled.data[outIdx];
+			const outG = sampled.data[outIdx + 1];
+			const outB = sampled.data[outIdx + 2];
+			const outOpaque = sampled.data[outIdx + 3] >= 16;
+			const outLab = outOpaque ? labOf(sampled.data, outIdx) : null;
+			let sum = 0;
+			for (let y = y0; y < y1; y += 1) {
+				for (let x = x0; x < x1; x += 1) {
+					const idx = (y * width + x) * 4;
+					const opaque = data[idx + 3] >= 16;
+					if (!outLab || !opaque) {
+						sum += outLab || opaque ? 0 : 1;
+						continue;
+					}
+					// 出力と同じ色の画素が多いので、Oklab に変換せずに数える
+					if (
+						data[idx] === outR &&
+						data[idx + 1] === outG &&
+						data[idx + 2] === outB
+					) {
+						sum += 1;
+						continue;
+					}
+					const lab = labOf(data, idx);
+					const dL = lab.L - outLab.L;
+					const da = lab.a - outLab.a;
+					const db = lab.b - outLab.b;
+					const dist = Math.sqrt(dL * dL + da * da + db * db);
+					sum += Math.max(0, 1 - dist / CONFIDENCE_RANGE);
+				}
+			}
+			confidence[j * outW + i] = sum / ((x1 - x0) * (y1 - y0));
+		}
+	}
+	return { width: outW, height: outH, data: confidence };
+};
+
+/**
+ * 確からしさの一部を切り出す（縮小した画像のトリムに合わせる）。
+ */
+export const cropConfidenceMap = (
+	map: ConfidenceMap,
+	x: number,
+	y: number,
+	w: number,
+	h: number,
+): ConfidenceMap => {
+	const data = new Float32Array(w * h);
+	for (let j = 0; j < h; j += 1) {
+		const start = (y + j) * map.width + x;
+		data.set(map.data.subarray(start, start + w), j * w);
+	}
+	return { width: w, height: h, data };
+};
+
+/**
+ * 確からしさの周りを 1 で広げる（アウトラインで広がった結果に合わせる。足した画素は縮小していない）。
+ */
+export const padConfidenceMap = (
+	map: ConfidenceMap,
+	left: number,
+	top: number,
+	right: number,
+	bottom: number,
+): ConfidenceMap => {
+	const width = map.width + left + right;
+	const height = map.height + top + bottom;
+	const data = new Float32Array(width * height).fill(1);
+	for (let j = 0; j < map.height; j += 1) {
+		data.set(
+			map.data.subarray(j * map.width, (j + 1) * map.width),
+			(j + top) * width + left,
+		);
+	}
+	return { width, height, data };
+};
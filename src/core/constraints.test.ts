@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import {
+	checkHardwareConstraints,
+	enforceHardwareConstraints,
+} from "./constraints";
+import { exportTiles } from "./tiles";
+
+type Color = [number, number, number, number];
+const T: Color = [0, 0, 0, 0];
+const W: Color = [255, 255, 255, 255];
+const K: Color = [0, 0, 0, 255];
+const R: Color = [255, 0, 0, 255];
+const G: Color = [0, 200, 0, 255];
+const B: Color = [0, 0, 255, 255];
+const DARK_R: Color = [200, 0, 0, 255];
+
+const makeImage = (
+	width: number,
+	height: number,
+	color: (x: number, y: number) => Color,
+): RawImage => {
+	const data = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			data.set(color(x, y), (y * width + x) * 4);
+		}
+	}
+	return { width, height, data };
+};
+
+const colorsIn = (img: RawImage): Set<string> => {
+	const set = new Set<string>();
+	for (let i = 0; i < img.data.length; i += 4) {
+		if (img.data[i + 3] === 0) continue;
+		set.add(Array.from(img.data.subarray(i, i + 3)).join(","));
+	}
+	return set;
+};
+
+describe("constraints.ts", () => {
+	describe("checkHardwareConstraints", () => {
+		it("制約に収まる画像では何も返さない", () => {
+			const colors = [T, W, K, R];
+			const img = makeImage(16, 8, (x) => colors[x % 4]);
+			expect(checkHardwareConstraints(img, "gb")).toEqual([]);
+		});
+
+		it("色数の多いタイルの範囲を返す（画像の外は切り詰める）", () => {
+			// 左のタイルは 4 色、右のタイル（幅 4px）は透明 + 4 色
+			const left = [T, W, K, R];
+			const right = [W, K, R, G];
+			const img = makeImage(12, 8, (x) => (x < 8 ? left[x % 4] : right[x % 4]));
+			expect(checkHardwareConstraints(img, "gb")).toEqual([
+				{ kind: "colors", x: 8, y: 0, width: 4, height: 8, colorCount: 5 },
+			]);
+		});
+
+		it("NES: 16×16 px の属性の範囲ごとに色数を数える", () => {
+			// タイルはそれぞれ透明 + 3 色までだが、16×16 px では透明 + 4 色
+			const img = makeImage(16, 16, (x, y) =>
+				y === 0 ? T : x < 8 ? (y % 2 ? W : K) : y < 8 ? R : G,
+			);
+			const violations = checkHardwareConstraints(img, "nes");
+			expect(violations).toHaveLength(1);
+			expect(violations[0]).toMatchObject({
+				kind: "colors",
+				width: 16,
+				height: 16,
+			});
+		});
+
+		it("パレットが足りない範囲を返す", () => {
+			// GB はパレット 1 つ。タイルごとには透明 + 2 色だが、合わせると透明 + 4 色
+			const img = makeImage(16, 8, (x, y) =>
+				y === 0 ? T : x < 8 ? (y % 2 ? W : K) : y % 2 ? R : G,
+			);
+			const violations = checkHardwareConstraints(img, "gb");
+			expect(violations).toHaveLength(1);
+			expect(violations[0].kind).toBe("palettes");
+		});
+	});
+
+	describe("enforceHardwareConstraints", () => {
+		it("制約に収まる画像はそのまま返す", () => {
+			const img = makeImage(8, 8, (x) => (x % 2 ? W : K));
+			expect(enforceHardwareConstraints(img, "gb")).toBe(img);
+		});
+
+		it("タイルの色を上限まで減らし、近い色にまとめる", () => {
+			// 透明 + 4 色 → 赤と暗い赤がまとまる
+			const colors = [T, W, K, R, DARK_R];
+			const img = makeImage(10, 8, (x) => colors[x % 5]);
+			const result = enforceHardwareConstraints(img, "gb");
+			expect(checkHardwareConstraints(result, "gb")).toEqual([]);
+			expect(colorsIn(result).size).toBe(3);
+			expect(colorsIn(result).has("255,255,255")).toBe(true);
+			expect(colorsIn(result).has("0,0,0")).toBe(true);
+			// alpha は変えない
+			expect(result.data[3]).toBe(0);
+		});
+
+		it("SNES 4bpp: タイルごとに近いサブパレットを割り当て、書き出せるようにする", () => {
+			// 8 つのタイルにそれぞれ別の 16 色のグラデーション（背景色込みで 17 色）
+			const img = makeImage(64, 8, (x, y) => {
+				const tile = Math.floor(x / 8);
+				const v = (x % 8) * 2 + (y % 2);
+				return [tile * 30, v * 16, 255 - v * 8, 255];
+			});
+			expect(checkHardwareConstraints(img, "snes-4bpp")).not.toEqual([]);
+			const result = enforceHardwareConstraints(img, "snes-4bpp");
+			expect(checkHardwareConstraints(result, "snes-4bpp")).toEqual([]);
+			expect(() => exportTiles(result, "snes-4bpp")).not.toThrow();
+		});
+
+		it("背景色が不透明なときは背景色を残す", () => {
+			const colors = [W, K, R, G, B];
+			const img = makeImage(16, 16, (x, y) =>
+				x < 8 && y < 8 ? colors[(x + y) % 5] : W,
+			);
+			const result = enforceHardwareConstraints(img, "gb");
+			expect(checkHardwareConstraints(result, "gb")).toEqual([]);
+			expect(colorsIn(result).has("255,255,255")).toBe(true);
+			expect(colorsIn(result).size).toBe(4);
+		});
+	});
+});
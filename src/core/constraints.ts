@@ -0,0 +1,257 @@
+import type { RawImage, TileFormat } from "../shared/types";
+import { rgbToOklab } from "./colorUtils";
+import {
+	assignPalettes,
+	keyToRgb,
+	readTileKeys,
+	TILE_FORMAT_SPECS,
+	TILE_SIZE,
+	type TileKeyGrid,
+	TRANSPARENT,
+} from "./tiles";
+
+export type ConstraintViolation = {
+	/**
+	 * "colors": 範囲の色数が 1 つのパレットに収まらない
+	 * "palettes": パレットの数が足りず、範囲の色をどのパレットにも入れられない
+	 */
+	kind: "colors" | "palettes";
+	/** 範囲（px。画像の外にはみ出る所は切り詰める） */
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	/** 範囲の色数（背景色を含む） */
+	colorCount: number;
+};
+
+/** パレットを共有する範囲（NES は 16×16 px、それ以外はタイル 1 枚） */
+type Area = {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	/** 背景色を除いた色ごとの画素数 */
+	counts: Map<number, number>;
+};
+
+/** 減色し直すときのパレットの作り直しの回数 */
+const ENFORCE_ITERATIONS = 4;
+
+const readAreas = (
+	img: RawImage,
+	grid: TileKeyGrid,
+	areaSize: number,
+): Area[] => {
+	const span = areaSize * TILE_SIZE;
+	const areas: Area[] = [];
+	for (let ay = 0; ay < Math.ceil(grid.mapHeight / areaSize); ay += 1) {
+		for (let ax = 0; ax < Math.ceil(grid.mapWidth / areaSize); ax += 1) {
+			const x = ax * span;
+			const y = ay * span;
+			const width = Math.min(span, img.width - x);
+			const height = Math.min(span, img.height - y);
+			const counts = new Map<number, number>();
+			for (let py = y; py < y + height; py += 1) {
+				for (let px = x; px < x + width; px += 1) {
+					const k = grid.keys[py * grid.pw + px];
+					if (k !== grid.backdrop) counts.set(k, (counts.get(k) ?? 0) + 1);
+				}
+			}
+			areas.push({ x, y, width, height, counts });
+		}
+	}
+	return areas;
+};
+
+/**
+ * 画像が機種のタイルの制約に収まるかを確かめ、収まらない範囲を返す。
+ * 1 つの範囲（NES は属性の 16×16 px、それ以外は 8×8 のタイル）で使える色は背景色と 2^bpp - 1 色まで、
+ * パレットの数は機種の上限まで。割り当ては exportTiles と同じ方法で行う。
+ */
+export const checkHardwareConstraints = (
+	img: RawImage,
+	format: TileFormat,
+): ConstraintViolation[] => {
+	const spec = TILE_FORMAT_SPECS[format];
+	const colorLimit = (1 << spec.bpp) - 1;
+	const areas = readAreas(img, readTileKeys(img), spec.attributeSize);
+
+	const toViolation = (
+		area: Area,
+		kind: ConstraintViolation["kind"],
+	): ConstraintViolation => ({
+		kind,
+		x: area.x,
+		y: area.y,
+		width: area.width,
+		height: area.height,
+		colorCount: area.counts.size + 1,
+	});
+
+	const violations: ConstraintViolation[] = [];
+	const fitting = areas.filter((area) => {
+		if (area.counts.size <= colorLimit) return true;
+		violations.push(toViolation(area, "colors"));
+		return false;
+	});
+	const { areaPalette } = assignPalettes(
+		fitting.map((area) => new Set(area.counts.keys())),
+		colorLimit,
+	);
+	fitting.forEach((area, i) => {
+		if (areaPalette[i] >= spec.maxPalettes) {
+			violations.push(toViolation(area, "palettes"));
+		}
+	});
+	return violations.sort((a, b) => a.y - b.y || a.x - b.x);
+};
+
+/**
+ * 機種の制約に収まるように減色し直す。
+ * 上限の数のパレット（それぞれ背景色と 2^bpp - 1 色）を画像で使っている色から選び、
+ * 範囲ごとに誤差の最も小さいパレットを割り当てて、範囲の色をそのパレットの最も近い色（Oklab）に置き換える。
+ * パレットは「多く使われていて、選んだ色から遠い色」から順に選ぶので、少ない画素の輪郭線の色も残りやすい。
+ * 制約に収まっている画像はそのまま返す。alpha は変えない。
+ */
+export const enforceHardwareConstraints = (
+	img: RawImage,
+	format: TileFormat,
+): RawImage => {
+	if (checkHardwareConstraints(img, format).length === 0) return img;
+
+	const spec = TILE_FORMAT_SPECS[format];
+	const colorLimit = (1 << spec.bpp) - 1;
+	const grid = readTileKeys(img);
+	const areas = readAreas(img, grid, spec.attributeSize);
+	// 不透明な背景色はどのパレットにも入っている
+	const fixed = grid.backdrop === TRANSPARENT ? [] : [grid.backdrop];
+
+	const labs = new Map<number, [number, number, number]>();
+	const lab = (key: number) => {
+		let v = labs.get(key);
+		if (!v) {
+			const c = rgbToOklab(keyToRgb(key));
+			v = [c.L, c.a, c.b];
+			labs.set(key, v);
+		}
+		return v;
+	};
+	const distance = (a: number, b: number): number => {
+		const p = lab(a);
+		const q = lab(b);
+		return (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2;
+	};
+	const nearest = (key: number, palette: number[]): number => {
+		let best = palette[0];
+		let bestDist = Number.POSITIVE_INFINITY;
+		for (const k of palette) {
+			const d = distance(key, k);
+			if (d < bestDist) {
+				best = k;
+				bestDist = d;
+			}
+		}
+		return best;
+	};
+	const areaCost = (area: Area, palette: number[]): number => {
+		const candidates = [...fixed, ...palette];
+		if (candidates.length === 0) {
+			return area.counts.size > 0 ? Number.POSITIVE_INFINITY : 0;
+		}
+		let cost = 0;
+		for (const [k, n] of area.counts) {
+			cost += n * distance(k, nearest(k, candidates));
+		}
+		return cost;
+	};
+	const buildPalette = (members: Area[]): number[] => {
+		const counts = new Map<number, number>();
+		for (const area of members) {
+			for (const [k, n] of area.counts) counts.set(k, (counts.get(k) ?? 0) + n);
+		}
+		const picked: number[] = [];
+		const minDist = new Map<number, number>();
+		for (const k of counts.keys()) {
+			minDist.set(
+				k,
+				fixed.length > 0 ? distance(k, fixed[0]) : Number.POSITIVE_INFINITY,
+			);
+		}
+		while (picked.length < colorLimit) {
+			let best = TRANSPARENT;
+			let bestScore = 0;
+			for (const [k, n] of counts) {
+				const d = minDist.get(k) ?? 0;
+				// 最初の 1 色（背景色が透明のとき）は最も多い色
+				const score = d === Number.POSITIVE_INFINITY ? n * 1e6 : n * d;
+				if (score > bestScore) {
+					best = k;
+					bestScore = score;
+				}
+			}
+			if (best === TRANSPARENT) break;
+			picked.push(best);
+			for (const k of counts.keys()) {
+				minDist.set(k, Math.min(minDist.get(k) ?? 0, distance(k, best)));
+			}
+		}
+		return picked;
+	};
+	const bestPalette = (area: Area, palettes: number[][]): number => {
+		let best = 0;
+		let bestCost = Number.POSITIVE_INFINITY;
+		palettes.forEach((palette, p) => {
+			const cost = areaCost(area, palette);
+			if (cost < bestCost) {
+				best = p;
+				bestCost = cost;
+			}
+		});
+		return best;
+	};
+
+	// 画像全体の色から 1 つ目を作り、誤差の最も大きい範囲の色から次のパレットを足していく
+	const palettes = [buildPalette(areas)];
+	while (palettes.length < spec.maxPalettes) {
+		let worst: Area | undefined;
+		let worstCost = 0;
+		for (const area of areas) {
+			const cost = areaCost(area, palettes[bestPalette(area, palettes)]);
+			if (cost > worstCost) {
+				worst = area;
+				worstCost = cost;
+			}
+		}
+		if (!worst) break;
+		palettes.push(buildPalette([worst]));
+	}
+	let assignment = areas.map((area) => bestPalette(area, palettes));
+	for (let iter = 0; iter < ENFORCE_ITERATIONS; iter += 1) {
+		palettes.forEach((_, p) => {
+			const members = areas.filter((_, i) => assignment[i] === p);
+			if (members.length > 0) palettes[p] = buildPalette(members);
+		});
+		assignment = areas.map((area) => bestPalette(area, palettes));
+	}
+
+	const data = new Uint8ClampedArray(img.data);
+	areas.forEach((area, i) => {
+		const candidates = [...fixed, ...palettes[assignment[i]]];
+		const mapped = new Map<number, number>();
+		for (const k of area.counts.keys()) mapped.set(k, nearest(k, candidates));
+		for (let y = area.y; y < area.y + area.height; y += 1) {
+			for (let x = area.x; x < area.x + area.width; x += 1) {
+				const k = grid.keys[y * grid.pw + x];
+				const to = mapped.get(k);
+				if (to === undefined || to === k) continue;
+				const c = keyToRgb(to);
+				const p = (y * img.width + x) * 4;
+				data[p] = c.r;
+				data[p + 1] = c.g;
+				data[p + 2] = c.b;
+			}
+		}
+	});
+	return { width: img.width, height: img.height, data };
+};
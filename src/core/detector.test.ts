@@ -1,6 +1,13 @@
 import { describe, expect, it } from "vitest";
 import type { Pixel, RawImage } from "../shared/types";
-import { detectGrid, getRunLengths } from "./detector";
+import {
+	computeGradientProfile,
+	detectGrid,
+	detectGridWithDiagnostics,
+	fitBoundaries,
+	getRunLengths,
+	refineGridBoundaries,
+} from "./detector";
 
 // quantize is not exported, but it's used internally by getRunLengths.
 // We can verify its effect through getRunLengths.
@@ -175,4 +182,222 @@ describe("detector.ts (helpers)", () => {
 			expect(grid.offsetY).toBe(offY);
 		});
 	});
+
+	describe("detectGridWithDiagnostics", () => {
+		// cell px 単位の市松模様（色はセルごとに変える）
+		const makeCheckerImage = (cells: number, cell: number): RawImage => {
+			const size = cells * cell;
+			const data = new Uint8ClampedArray(size * size * 4);
+			for (let y = 0; y < size; y++) {
+				for (let x = 0; x < size; x++) {
+					const idx = (y * size + x) * 4;
+					const cx = Math.floor(x / cell);
+					const cy = Math.floor(y / cell);
+					const on = (cx + cy) % 2 === 0;
+					data[idx] = on ? 0 : 255;
+					data[idx + 1] = on ? (cx * 37) % 256 : 255;
+					data[idx + 2] = on ? (cy * 53) % 256 : 255;
+					data[idx + 3] = 255;
+				}
+			}
+			return { width: size, height: size, data };
+		};
+
+		it("detectGrid と同じグリッドを返し、採用候補を先頭に並べる", () => {
+			const img = makeCheckerImage(8, 6);
+			const { grid, diagnostics } = detectGridWithDiagnostics(img, {}, 3);
+
+			expect(grid).toEqual(detectGrid(img));
+			for (const axis of [diagnostics.x, diagnostics.y]) {
+				expect(axis.candidates.length).toBeGreaterThan(0);
+				expect(axis.candidates.length).toBeLessThanOrEqual(3);
+				expect(axis.candidates[0].cellSize).toBe(6);
+				const rest = axis.candidates.slice(1).map((c) => c.score);
+				expect(rest).toEqual([...rest].sort((a, b) => a - b));
+			}
+		});
+
+		it("サンプリングしたラインと run 長ヒストグラムを返す", () => {
+			const img = makeCheckerImage(8, 6);
+			const { diagnostics } = detectGridWithDiagnostics(img);
+
+			expect(diagnostics.x.strips.length).toBeGreaterThan(0);
+			expect(diagnostics.y.strips.length).toBeGreaterThan(0);
+			for (const y of diagnostics.x.strips) {
+				expect(y).toBeGreaterThanOrEqual(0);
+				expect(y).toBeLessThan(img.height);
+			}
+			// 市松模様の run はすべて 6px（端を除く）
+			const hist = diagnostics.x.runLengthHistogram;
+			expect(hist.indexOf(Math.max(...hist))).toBe(6);
+		});
+
+		it("きれいなグリッドは高信頼、単色画像は低信頼になる", () => {
+			const clean = detectGridWithDiagnostics(makeCheckerImage(8, 6));
+			expect(clean.diagnostics.lowConfidence).toBe(false);
+			expect(clean.diagnostics.confidence).toBeGreaterThan(0.5);
+
+			const flat: RawImage = {
+				width: 32,
+				height: 32,
+				data: new Uint8ClampedArray(32 * 32 * 4).fill(255),
+			};
+			const solid = detectGridWithDiagnostics(flat);
+			expect(solid.diagnostics.lowConfidence).toBe(true);
+			expect(solid.diagnostics.x.source).toBe("fallback");
+		});
+	});
+
+	describe("周波数によるグリッド検出", () => {
+		// 2 色をセルごとにランダムに置き（run が 1 セルで途切れる）、画素ごとのノイズを乗せる
+		const makeDitheredImage = (
+			cells: number,
+			cell: number,
+			offset: number,
+		): RawImage => {
+			let seed = 12345;
+			const rand = () => {
+				seed = (seed * 1103515245 + 12345) % 2147483648;
+				return seed / 2147483648;
+			};
+			const size = cells * cell + offset;
+			const on = Array.from({ length: (cells + 1) ** 2 }, () => rand() < 0.5);
+			const data = new Uint8ClampedArray(size * size * 4);
+			for (let y = 0; y < size; y++) {
+				for (let x = 0; x < size; x++) {
+					const cx = Math.floor((x - offset + cell) / cell);
+					const cy = Math.floor((y - offset + cell) / cell);
+					const v = on[cy * (cells + 1) + cx] ? 60 : 180;
+					const idx = (y * size + x) * 4;
+					for (let c = 0; c < 3; c++) {
+						data[idx + c] = v + Math.round((rand() - 0.5) * 40);
+					}
+					data[idx + 3] = 255;
+				}
+			}
+			return { width: size, height: size, data };
+		};
+
+		it("computeGradientProfile: セル境界で勾配が大きくなる", () => {
+			const profile = computeGradientProfile(makeDitheredImage(16, 5, 0), "x");
+			expect(profile.length).toBe(80);
+			expect(profile[0]).toBe(0);
+			const onBoundary = (profile[5] + profile[10] + profile[15]) / 3;
+			const inside = (profile[6] + profile[7] + profile[8]) / 3;
+			expect(onBoundary).toBeGreaterThan(inside * 3);
+		});
+
+		it("ディザとノイズの多い画像でもセルサイズとオフセットを求める", () => {
+			const img = makeDitheredImage(24, 5, 3);
+			const { grid, diagnostics } = detectGridWithDiagnostics(img, {
+				gridDetector: "frequency",
+			});
+			expect(grid.cellW).toBe(5);
+			expect(grid.cellH).toBe(5);
+			expect(grid.offsetX).toBe(3);
+			expect(grid.offsetY).toBe(3);
+			expect(diagnostics.x.source).toBe("frequency");
+			expect(diagnostics.x.candidates[0].cellSize).toBe(5);
+			expect(diagnostics.lowConfidence).toBe(false);
+		});
+
+		it("frequency: run 長による推定を勾配の周期性で確かめ、confidence の高い方を採る", () => {
+			const img = makeDitheredImage(24, 5, 3);
+			// run 長による推定はノイズで細切れになり、小さいセルサイズを選ぶ
+			const runLength = detectGridWithDiagnostics(img);
+			expect(runLength.grid.cellW).not.toBe(5);
+
+			const frequency = detectGridWithDiagnostics(img, {
+				gridDetector: "frequency",
+			});
+			expect(frequency.grid.cellW).toBe(5);
+			expect(frequency.grid.cellH).toBe(5);
+			expect(frequency.diagnostics.x.source).toBe("frequency");
+			expect(frequency.diagnostics.y.source).toBe("frequency");
+		});
+
+		it("frequency: きれいなグリッドでは run 長による推定を採る", () => {
+			const size = 48;
+			const data = new Uint8ClampedArray(size * size * 4);
+			for (let y = 0; y < size; y++) {
+				for (let x = 0; x < size; x++) {
+					const on = (Math.floor(x / 6) + Math.floor(y / 6)) % 2 === 0;
+					data.fill(on ? 0 : 255, (y * size + x) * 4, (y * size + x) * 4 + 3);
+					data[(y * size + x) * 4 + 3] = 255;
+				}
+			}
+			const img = { width: size, height: size, data };
+			const frequency = detectGridWithDiagnostics(img, {
+				gridDetector: "frequency",
+			});
+			expect(frequency.grid.cellW).toBe(6);
+			expect(frequency.grid.cellH).toBe(6);
+			expect(frequency.diagnostics.x.source).not.toBe("frequency");
+			expect(frequency.diagnostics.lowConfidence).toBe(false);
+		});
+
+		it("単色画像では run 長による推定（フォールバック）のまま", () => {
+			const flat: RawImage = {
+				width: 32,
+				height: 32,
+				data: new Uint8ClampedArray(32 * 32 * 4).fill(255),
+			};
+			const { diagnostics } = detectGridWithDiagnostics(flat, {
+				gridDetector: "frequency",
+			});
+			expect(diagnostics.x.source).toBe("fallback");
+			expect(diagnostics.lowConfidence).toBe(true);
+		});
+	});
+
+	describe("refineGridBoundaries", () => {
+		// セル幅が 6px から 8px へ徐々に広がる市松模様
+		const SIZES = [6, 6, 7, 7, 7, 8, 8, 8];
+		const BOUNDS = SIZES.reduce<number[]>(
+			(acc, s) => {
+				acc.push(acc[acc.length - 1] + s);
+				return acc;
+			},
+			[0],
+		);
+		const makeDriftImage = (): RawImage => {
+			const size = BOUNDS[BOUNDS.length - 1];
+			const cellOf = (p: number) => BOUNDS.findIndex((b) => b > p) - 1;
+			const data = new Uint8ClampedArray(size * size * 4);
+			for (let y = 0; y < size; y++) {
+				for (let x = 0; x < size; x++) {
+					const idx = (y * size + x) * 4;
+					const v = (cellOf(x) + cellOf(y)) % 2 === 0 ? 0 : 255;
+					data[idx] = v;
+					data[idx + 1] = v;
+					data[idx + 2] = v;
+					data[idx + 3] = 255;
+				}
+			}
+			return { width: size, height: size, data };
+		};
+
+		it("均一グリッドから、実際のセル境界に合わせた列・行境界を求める", () => {
+			const img = makeDriftImage();
+			const grid = refineGridBoundaries(img, {
+				cellW: 7,
+				cellH: 7,
+				offsetX: 0,
+				offsetY: 0,
+				outW: SIZES.length,
+				outH: SIZES.length,
+				score: 0,
+			});
+
+			expect(grid.colBounds).toEqual(BOUNDS);
+			expect(grid.rowBounds).toEqual(BOUNDS);
+			expect(grid.cropW).toBe(img.width);
+			expect(grid.cellW).toBeCloseTo(img.width / SIZES.length);
+		});
+
+		it("エッジが無い場合は均一な境界になる", () => {
+			const profile = new Float64Array(29);
+			expect(fitBoundaries(profile, 0, 7, 4)).toEqual([0, 7, 14, 21, 28]);
+		});
+	});
 });
@@ -1,4 +1,11 @@
-import type { Pixel, PixelGrid, RawImage } from "../shared/types";
+import { PROCESS_DEFAULTS, PROCESS_RANGES } from "../shared/config";
+import type {
+	Axis,
+	GridDetector,
+	Pixel,
+	PixelGrid,
+	RawImage,
+} from "../shared/types";
 import { computeMedian, computePercentile } from "./math";
 import { extractStrip, posterize } from "./ops";
 
@@ -112,6 +119,294 @@ export const getRunLengths = (
 
 type Estimate = { cellSize: number; offset: number; score: number };
 
+/**
+ * 各軸のセルサイズ候補。score は小さいほど良い。
+ */
+export type GridCandidate = Estimate & { cells: number };
+
+export type AxisDiagnostics = {
+	/** 採用された候補を先頭に、score の良い順に並べた上位候補 */
+	candidates: GridCandidate[];
+	/** extractStrip でサンプリングしたライン位置（x 軸なら y 座標、y 軸なら x 座標） */
+	strips: number[];
+	/** getRunLengths の run 長ヒストグラム（index = run 長, 値 = 出現数） */
+	runLengthHistogram: number[];
+	/** 採用された推定の出どころ（"frequency": 勾配プロファイルの自己相関） */
+	source: "scanline" | "segments" | "relaxed" | "frequency" | "fallback";
+	/** 0..1。最良候補の当てはまりと、次点候補との差から算出する */
+	confidence: number;
+};
+
+export type GridDiagnostics = {
+	x: AxisDiagnostics;
+	y: AxisDiagnostics;
+	/** 両軸のうち低い方の confidence */
+	confidence: number;
+	/** confidence が GRID_LOW_CONFIDENCE を下回る（forcePixelsW/H の指定を推奨） */
+	lowConfidence: boolean;
+};
+
+/**
+ * これを下回る confidence は「低信頼」とみなす。
+ */
+export const GRID_LOW_CONFIDENCE = 0.35;
+
+type AxisEstimate = {
+	best: Estimate;
+	candidates: GridCandidate[];
+};
+
+const summarizeAxis = (
+	estimate: AxisEstimate | null,
+	source: AxisDiagnostics["source"],
+	strips: number[],
+	runLengthHistogram: number[],
+	topN: number,
+): AxisDiagnostics => {
+	if (!estimate) {
+		return {
+			candidates: [],
+			strips,
+			runLengthHistogram,
+			source: "fallback",
+			confidence: 0,
+		};
+	}
+	const { best, candidates } = estimate;
+	const others = candidates
+		.filter((c) => c.cellSize !== best.cellSize)
+		.sort((a, b) => a.score - b.score);
+	const chosen = candidates.find((c) => c.cellSize === best.cellSize) ?? {
+		...best,
+		cells: 0,
+	};
+
+	// best の約数（半分など）は同じ境界にも一致してしまうため、競合候補とはみなさない
+	const rival = others.find((c) => best.cellSize % c.cellSize !== 0);
+	const margin = rival ? rival.score - best.score : Number.POSITIVE_INFINITY;
+	const fit = 1 / (1 + Math.max(0, best.score));
+	const separation = Math.min(1, Math.max(0, margin));
+	return {
+		candidates: [chosen, ...others].slice(0, Math.max(1, topN)),
+		strips,
+		runLengthHistogram,
+		source,
+		confidence: fit * separation,
+	};
+};
+
+const buildRunLengthHistogram = (segLists: Segment[][]): number[] => {
+	const histogram: number[] = [];
+	for (const segments of segLists) {
+		for (const segment of segments) {
+			for (const run of segment.runs) {
+				for (let i = histogram.length; i <= run.length; i += 1) {
+					histogram.push(0);
+				}
+				histogram[run.length] += 1;
+			}
+		}
+	}
+	return histogram;
+};
+
+/** 自己相関のピークのうち、最も高いピークに対してこの割合以上のものから最も短い周期を選ぶ（倍の周期を選ばないため） */
+const FREQUENCY_PEAK_RATIO = 0.8;
+/** 勾配の計算で、両側ともこれを下回る alpha の画素は差を数えない */
+const GRADIENT_ALPHA_THRESHOLD = 16;
+
+/**
+ * 軸方向の勾配プロファイルを求める。
+ * profile[p] は「p-1 と p の間の色の差（RGBA の絶対差の合計）」のライン平均。長さは軸の長さで、profile[0] は 0。
+ * ポスタライズも run の判定もしないので、ディザやノイズで run が 1 セルで途切れる画像でもセル境界の周期が残る。
+ *
+ * axis="x" は列の境界（各行を走査）、axis="y" は行の境界（各列を走査）。
+ */
+export const computeGradientProfile = (
+	img: RawImage,
+	axis: Axis,
+	maxLines = 256,
+): Float64Array => {
+	const length = axis === "x" ? img.width : img.height;
+	const lineCount = axis === "x" ? img.height : img.width;
+	const profile = new Float64Array(length);
+	if (length === 0 || lineCount === 0) return profile;
+
+	const { data, width } = img;
+	const indexOf = (line: number, p: number): number =>
+		(axis === "x" ? line * width + p : p * width + line) * 4;
+	const step = Math.max(1, lineCount / Math.max(1, maxLines));
+	let sampled = 0;
+	for (let l = 0; l < lineCount; l += step) {
+		const line = Math.floor(l);
+		for (let p = 1; p < length; p += 1) {
+			const a = indexOf(line, p - 1);
+			const b = indexOf(line, p);
+			if (
+				data[a + 3] < GRADIENT_ALPHA_THRESHOLD &&
+				data[b + 3] < GRADIENT_ALPHA_THRESHOLD
+			) {
+				continue;
+			}
+			profile[p] +=
+				Math.abs(data[a] - data[b]) +
+				Math.abs(data[a + 1] - data[b + 1]) +
+				Math.abs(data[a + 2] - data[b + 2]) +
+				Math.abs(data[a + 3] - data[b + 3]);
+		}
+		sampled += 1;
+	}
+	for (let p = 0; p < length; p += 1) {
+		profile[p] /= sampled;
+	}
+	return profile;
+};
+
+type FrequencyEstimate = AxisEstimate & {
+	confidence: number;
+	/** 0..1。勾配がその周期でどれだけ繰り返しているか（自己相関 / 分散） */
+	periodicity: (cellSize: number) => number;
+};
+
+/**
+ * 勾配プロファイルの自己相関から、セル境界の基本周期（セルサイズ）と位相（オフセット）を求める。
+ * score は 1 - 自己相関 / 分散（小さいほど良い）。
+ * confidence は「基本周期での自己相関 / 分散」と「周期の倍数から外れた位置の最も高いピークとの差」の積。
+ */
+const estimateFromFrequency = (
+	profile: Float64Array,
+	minCell: number,
+	maxCell: number,
+): FrequencyEstimate | null => {
+	const n = profile.length;
+	const maxLag = Math.min(maxCell, Math.floor(n / 2));
+	const minLag = Math.max(2, minCell);
+	if (maxLag < minLag) return null;
+
+	let mean = 0;
+	for (let p = 0; p < n; p += 1) mean += profile[p];
+	mean /= n;
+	const centered = profile.map((v) => v - mean);
+	const autocorrelation = (lag: number): number => {
+		let sum = 0;
+		for (let p = 0; p + lag < n; p += 1) sum += centered[p] * centered[p + lag];
+		return sum / (n - lag);
+	};
+	const acf = new Float64Array(maxLag + 2);
+	for (let lag = 0; lag <= maxLag + 1; lag += 1) {
+		acf[lag] = autocorrelation(lag);
+	}
+	if (acf[0] <= 1e-9) return null;
+
+	const peaks: number[] = [];
+	for (let lag = minLag; lag <= maxLag; lag += 1) {
+		if (acf[lag] > 0 && acf[lag] >= acf[lag - 1] && acf[lag] >= acf[lag + 1]) {
+			peaks.push(lag);
+		}
+	}
+	if (peaks.length === 0) return null;
+	const highest = Math.max(...peaks.map((lag) => acf[lag]));
+	const cellSize =
+		peaks.find((lag) => acf[lag] >= highest * FREQUENCY_PEAK_RATIO) ?? peaks[0];
+
+	// 位相は、周期ごとの位置の勾配の平均が最も大きいもの
+	const phaseOf = (s: number): number => {
+		let bestOff = 0;
+		let bestMean = Number.NEGATIVE_INFINITY;
+		for (let off = 0; off < s; off += 1) {
+			let sum = 0;
+			let count = 0;
+			for (let p = off; p < n; p += s) {
+				sum += profile[p];
+				count += 1;
+			}
+			const m = count > 0 ? sum / count : 0;
+			if (m > bestMean) {
+				bestMean = m;
+				bestOff = off;
+			}
+		}
+		return bestOff;
+	};
+	const toCandidate = (s: number): GridCandidate => {
+		const offset = phaseOf(s);
+		return {
+			cellSize: s,
+			offset,
+			score: 1 - acf[s] / acf[0],
+			cells: Math.floor((n - offset) / s),
+		};
+	};
+
+	// 周期の倍数から外れた位置のピークは、別の周期の可能性
+	const minDistance = Math.max(1, Math.round(cellSize / 4));
+	let rival = 0;
+	for (let lag = minLag; lag <= maxLag; lag += 1) {
+		const r = lag % cellSize;
+		if (Math.min(r, cellSize - r) >= minDistance) {
+			rival = Math.max(rival, acf[lag]);
+		}
+	}
+	const periodicity = (s: number): number => {
+		if (s <= 0 || s >= n) return 0;
+		const v = s < acf.length ? acf[s] : autocorrelation(s);
+		return Math.min(1, Math.max(0, v / acf[0]));
+	};
+	const separation = Math.max(0, (acf[cellSize] - rival) / acf[cellSize]);
+	const best = toCandidate(cellSize);
+	return {
+		best,
+		candidates: [
+			best,
+			...peaks
+				.filter((lag) => lag !== cellSize)
+				.sort((a, b) => acf[b] - acf[a])
+				.map(toCandidate),
+		],
+		confidence: periodicity(cellSize) * separation,
+		periodicity,
+	};
+};
+
+type AxisResult = {
+	estimate: AxisEstimate | null;
+	diagnostics: AxisDiagnostics;
+};
+
+/**
+ * run 長による推定と周波数による推定を突き合わせ、confidence の高い方を採る。
+ * run 長による推定の confidence には、そのセルサイズでの勾配の周期性を掛ける
+ * （ノイズで run が細切れになると、小さいセルサイズがどの境界にも当てはまって高信頼に見えるため）。
+ * 周波数による推定ができないときは run 長による推定のまま。
+ */
+const crossCheckAxis = (
+	runLength: AxisResult,
+	frequency: FrequencyEstimate | null,
+	topN: number,
+): AxisResult => {
+	if (!frequency) return runLength;
+	if (runLength.estimate) {
+		const confidence =
+			runLength.diagnostics.confidence *
+			frequency.periodicity(runLength.estimate.best.cellSize);
+		if (confidence >= frequency.confidence) {
+			return {
+				...runLength,
+				diagnostics: { ...runLength.diagnostics, confidence },
+			};
+		}
+	}
+	return {
+		estimate: frequency,
+		diagnostics: {
+			...runLength.diagnostics,
+			candidates: frequency.candidates.slice(0, Math.max(1, topN)),
+			source: "frequency",
+			confidence: frequency.confidence,
+		},
+	};
+};
+
 export type DetectOptions = {
 	detectionQuantStep?: number;
 	/**
@@ -134,6 +429,13 @@ export type DetectOptions = {
 	 * 背景マスクの許容誤差（RGB の各チャンネル絶対差）。未指定なら四隅から自動推定。
 	 */
 	backgroundMaskTolerance?: number;
+	/**
+	 * セルサイズの推定方法。
+	 * "runlength": ライン上の同じ色の run 長 /
+	 * "frequency": 勾配プロファイルの自己相関による推定と run 長による推定を突き合わせ、軸ごとに confidence の高い方を採る。
+	 * デフォルト: "runlength"
+	 */
+	gridDetector?: GridDetector;
 	/**
 	 * 検出過程を console に出す（調査用）。
 	 */
@@ -144,8 +446,18 @@ export type DetectOptions = {
 export const detectGrid = (
 	img: RawImage,
 	options: DetectOptions = {},
-): PixelGrid => {
-	const detectionQuantStep = options.detectionQuantStep ?? 64;
+): PixelGrid => detectGridWithDiagnostics(img, options).grid;
+
+/**
+ * detectGrid と同じ検出を行い、各軸の候補・サンプリングしたライン・run 長ヒストグラムを併せて返す。
+ */
+export const detectGridWithDiagnostics = (
+	img: RawImage,
+	options: DetectOptions = {},
+	topN = 5,
+): { grid: PixelGrid; diagnostics: GridDiagnostics } => {
+	const detectionQuantStep =
+		options.detectionQuantStep ?? PROCESS_RANGES.detectionQuantStep.default;
 
 	const h = img.height;
 	const w = img.width;
@@ -247,7 +559,8 @@ export const detectGrid = (
 		return picked;
 	};
 
-	const stripCount = options.detectionStrips ?? 12;
+	const stripCount =
+		options.detectionStrips ?? PROCESS_RANGES.detectionStrips.default;
 	const shouldMaskBackground = options.backgroundMask ?? true;
 
 	// 想定グリッドが無い場合は「内容が濃い」ラインを選んで検出する。
@@ -290,10 +603,10 @@ export const detectGrid = (
 	}
 
 	const expMinX = Math.min(w, 8);
-	const expMaxX = options.autoMaxCellsW ?? 128;
+	const expMaxX = options.autoMaxCellsW ?? PROCESS_RANGES.autoMaxCells.default;
 	const twX = 2.0;
 	const expMinY = Math.min(h, 8);
-	const expMaxY = options.autoMaxCellsH ?? 128;
+	const expMaxY = options.autoMaxCellsH ?? PROCESS_RANGES.autoMaxCells.default;
 	const twY = 2.0;
 
 	type BoundaryData = { runLengths: number[]; boundaries: number[] };
@@ -366,7 +679,7 @@ export const detectGrid = (
 		targetCells?: number,
 		targetWeight = 2.0,
 		maxCell = 256,
-	): Estimate | null => {
+	): AxisEstimate | null => {
 		const { runLengths, boundaries } = collectBoundaryData(segLists);
 		if (runLengths.length < 2 || boundaries.length < 2) {
 			return null;
@@ -396,6 +709,7 @@ export const detectGrid = (
 		if (candidates.length === 0) return null;
 
 		let best: Estimate | null = null;
+		const scored: GridCandidate[] = [];
 		for (const s of candidates) {
 			let bestOff = 0;
 			let bestFit = Number.POSITIVE_INFINITY;
@@ -429,6 +743,7 @@ export const detectGrid = (
 			}
 			const countBonus = -0.25 * Math.log1p(counts[s] ?? 0);
 			const total = p50 + 0.35 * p90 + penalty + targetPenalty + countBonus;
+			scored.push({ cellSize: s, offset: bestOff, score: total, cells });
 
 			if (!best) {
 				best = { cellSize: s, offset: bestOff, score: total };
@@ -445,7 +760,7 @@ export const detectGrid = (
 				best = { cellSize: s, offset: bestOff, score: total };
 			}
 		}
-		return best;
+		return best ? { best, candidates: scored } : null;
 	};
 
 	const estimateFromBoundaryData = (
@@ -456,7 +771,7 @@ export const detectGrid = (
 		targetCells?: number,
 		targetWeight = 2.0,
 		maxCell = 256,
-	): Estimate | null => {
+	): AxisEstimate | null => {
 		const { runLengths, boundaries } = data;
 		if (runLengths.length < 2 || boundaries.length < 2) return null;
 
@@ -485,6 +800,7 @@ export const detectGrid = (
 		if (candidates.length === 0) return null;
 
 		let best: Estimate | null = null;
+		const scored: GridCandidate[] = [];
 		for (const s of candidates) {
 			let bestOff = 0;
 			let bestFit = Number.POSITIVE_INFINITY;
@@ -518,12 +834,13 @@ export const detectGrid = (
 			}
 			const countBonus = -0.25 * Math.log1p(counts[s] ?? 0);
 			const total = p50 + 0.35 * p90 + penalty + targetPenalty + countBonus;
+			scored.push({ cellSize: s, offset: bestOff, score: total, cells });
 
 			if (!best || total < best.score) {
 				best = { cellSize: s, offset: bestOff, score: total };
 			}
 		}
-		return best;
+		return best ? { best, candidates: scored } : null;
 	};
 
 	const xSegLists = ys.map((y) => {
@@ -538,19 +855,22 @@ export const detectGrid = (
 		}
 		return seg;
 	});
-	const estX = bgInfo
-		? (estimateFromBoundaryData(
+	const scanX = bgInfo
+		? estimateFromBoundaryData(
 				buildScanlineBoundaryData("x", ys, bgInfo.bgKeySet),
 				w,
 				expMinX,
 				expMaxX,
 				undefined,
 				twX,
-			) ?? estimateFromSegments(xSegLists, w, expMinX, expMaxX, undefined, twX))
-		: estimateFromSegments(xSegLists, w, expMinX, expMaxX, undefined, twX);
+			)
+		: null;
+	const estX =
+		scanX ??
+		estimateFromSegments(xSegLists, w, expMinX, expMaxX, undefined, twX);
 	const estX2 = estX
 		? (() => {
-				const cells = Math.floor((w - estX.offset) / estX.cellSize);
+				const cells = Math.floor((w - estX.best.offset) / estX.best.cellSize);
 				if (cells <= 96) return null;
 				const relaxedMax = 64;
 				const retry = estimateFromSegments(
@@ -566,8 +886,8 @@ export const detectGrid = (
 					console.log("[detectGrid:x:retry]", options.debugLabel ?? "", {
 						cells,
 						relaxedMax,
-						estX,
-						retry,
+						estX: estX.best,
+						retry: retry?.best,
 					});
 				}
 				return retry;
@@ -586,19 +906,22 @@ export const detectGrid = (
 		}
 		return seg;
 	});
-	const estY = bgInfo
-		? (estimateFromBoundaryData(
+	const scanY = bgInfo
+		? estimateFromBoundaryData(
 				buildScanlineBoundaryData("y", xs, bgInfo.bgKeySet),
 				h,
 				expMinY,
 				expMaxY,
 				undefined,
 				twY,
-			) ?? estimateFromSegments(ySegLists, h, expMinY, expMaxY, undefined, twY))
-		: estimateFromSegments(ySegLists, h, expMinY, expMaxY, undefined, twY);
+			)
+		: null;
+	const estY =
+		scanY ??
+		estimateFromSegments(ySegLists, h, expMinY, expMaxY, undefined, twY);
 	const estY2 = estY
 		? (() => {
-				const cells = Math.floor((h - estY.offset) / estY.cellSize);
+				const cells = Math.floor((h - estY.best.offset) / estY.best.cellSize);
 				if (cells <= 96) return null;
 				const relaxedMax = 64;
 				const retry = estimateFromSegments(
@@ -614,16 +937,74 @@ export const detectGrid = (
 					console.log("[detectGrid:y:retry]", options.debugLabel ?? "", {
 						cells,
 						relaxedMax,
-						estY,
-						retry,
+						estY: estY.best,
+						retry: retry?.best,
 					});
 				}
 				return retry;
 			})()
 		: null;
 
-	const finalX = estX2 ?? estX;
-	const finalY = estY2 ?? estY;
+	const axisSource = (
+		scan: AxisEstimate | null,
+		retry: AxisEstimate | null,
+	): AxisDiagnostics["source"] =>
+		retry ? "relaxed" : scan ? "scanline" : "segments";
+	const detector = options.gridDetector ?? PROCESS_DEFAULTS.gridDetector;
+	let axisX: AxisResult = {
+		estimate: estX2 ?? estX,
+		diagnostics: summarizeAxis(
+			estX2 ?? estX,
+			axisSource(scanX, estX2),
+			ys,
+			buildRunLengthHistogram(xSegLists),
+			topN,
+		),
+	};
+	let axisY: AxisResult = {
+		estimate: estY2 ?? estY,
+		diagnostics: summarizeAxis(
+			estY2 ?? estY,
+			axisSource(scanY, estY2),
+			xs,
+			buildRunLengthHistogram(ySegLists),
+			topN,
+		),
+	};
+	if (detector !== "runlength") {
+		const freqX = estimateFromFrequency(
+			computeGradientProfile(img, "x"),
+			Math.floor(w / expMaxX),
+			Math.min(256, Math.floor(w / expMinX)),
+		);
+		const freqY = estimateFromFrequency(
+			computeGradientProfile(img, "y"),
+			Math.floor(h / expMaxY),
+			Math.min(256, Math.floor(h / expMinY)),
+		);
+		if (options.debug) {
+			// eslint-disable-next-line no-console
+			console.log("[detectGrid:frequency]", options.debugLabel ?? "", {
+				detector,
+				x: freqX && { best: freqX.best, confidence: freqX.confidence },
+				y: freqY && { best: freqY.best, confidence: freqY.confidence },
+			});
+		}
+		axisX = crossCheckAxis(axisX, freqX, topN);
+		axisY = crossCheckAxis(axisY, freqY, topN);
+	}
+	const diagX = axisX.diagnostics;
+	const diagY = axisY.diagnostics;
+	const confidence = Math.min(diagX.confidence, diagY.confidence);
+	const diagnostics: GridDiagnostics = {
+		x: diagX,
+		y: diagY,
+		confidence,
+		lowConfidence: confidence < GRID_LOW_CONFIDENCE,
+	};
+
+	const finalX = axisX.estimate?.best;
+	const finalY = axisY.estimate?.best;
 
 	if (!finalX || !finalY) {
 		// 検出失敗時のフォールバック
@@ -638,19 +1019,22 @@ export const detectGrid = (
 		const fOutH = Math.max(1, Math.floor((h - fOffsetY) / fCellH));
 
 		return {
-			cellW: fCellW,
-			cellH: fCellH,
-			offsetX: fOffsetX,
-			offsetY: fOffsetY,
-			score: (fallbackX.score + fallbackY.score) / 2,
-			cropX: fOffsetX,
-			cropY: fOffsetY,
-			cropW: fOutW * fCellW,
-			cropH: fOutH * fCellH,
-			outW: fOutW,
-			outH: fOutH,
-			scoreX: fallbackX.score,
-			scoreY: fallbackY.score,
+			grid: {
+				cellW: fCellW,
+				cellH: fCellH,
+				offsetX: fOffsetX,
+				offsetY: fOffsetY,
+				score: (fallbackX.score + fallbackY.score) / 2,
+				cropX: fOffsetX,
+				cropY: fOffsetY,
+				cropW: fOutW * fCellW,
+				cropH: fOutH * fCellH,
+				outW: fOutW,
+				outH: fOutH,
+				scoreX: fallbackX.score,
+				scoreY: fallbackY.score,
+			},
+			diagnostics,
 		};
 	}
 
@@ -670,22 +1054,208 @@ export const detectGrid = (
 			offset: { offsetX, offsetY },
 			out: { outW, outH },
 			score: { scoreX: finalX.score, scoreY: finalY.score },
+			confidence: { x: diagX.confidence, y: diagY.confidence },
 		});
 	}
 
 	return {
-		cellW,
-		cellH,
-		offsetX,
-		offsetY,
-		score: (finalX.score + finalY.score) / 2,
-		cropX: offsetX,
-		cropY: offsetY,
+		grid: {
+			cellW,
+			cellH,
+			offsetX,
+			offsetY,
+			score: (finalX.score + finalY.score) / 2,
+			cropX: offsetX,
+			cropY: offsetY,
+			cropW,
+			cropH,
+			outW,
+			outH,
+			scoreX: finalX.score,
+			scoreY: finalY.score,
+		},
+		diagnostics,
+	};
+};
+
+// 境界の当てはめで、セル幅が cellSize からずれることへのペナルティ
+const BOUNDARY_SIZE_PENALTY = 4;
+// 均一グリッドの予測位置から離れることへの弱いペナルティ（エッジの無い領域で幅がぶれないように）
+const BOUNDARY_ANCHOR_PENALTY = 0.05;
+
+/**
+ * 軸方向のエッジプロファイルを求める。
+ * profile[p] は「p-1 と p の間に run 境界があったラインの割合」(0..1)。長さは軸の長さ + 1。
+ * 境界の判定は getRunLengths と同じ（量子化した色の変化と、不透明セグメントの端）。
+ *
+ * axis="x" は列の境界（各行を走査）、axis="y" は行の境界（各列を走査）。
+ */
+export const computeEdgeProfile = (
+	img: RawImage,
+	axis: Axis,
+	quantStep: number,
+	maxLines = 256,
+): Float64Array => {
+	const length = axis === "x" ? img.width : img.height;
+	const lineCount = axis === "x" ? img.height : img.width;
+	const profile = new Float64Array(length + 1);
+	if (length === 0 || lineCount === 0) return profile;
+
+	const step = Math.max(1, lineCount / Math.max(1, maxLines));
+	let sampled = 0;
+	for (let l = 0; l < lineCount; l += step) {
+		// extractStrip の axis は「固定する座標」なので逆になる
+		const strip = extractStrip(img, axis === "x" ? "y" : "x", Math.floor(l));
+		for (const segment of getRunLengths(strip, quantStep)) {
+			let end = segment.start;
+			segment.runs.forEach((run, idx) => {
+				if (idx > 0) profile[run.start] += 1;
+				end = run.start + run.length;
+			});
+			profile[segment.start] += 1;
+			profile[end] += 1;
+		}
+		sampled += 1;
+	}
+	for (let p = 0; p <= length; p += 1) {
+		profile[p] /= sampled;
+	}
+	return profile;
+};
+
+/**
+ * 均一グリッド（開始位置・セルサイズ・セル数）を初期値に、各境界をエッジプロファイルへ動的計画法で合わせ込む。
+ * セル幅は cellSize の 60%〜140% に制限する。戻り値は count + 1 個の昇順の境界座標。
+ */
+export const fitBoundaries = (
+	profile: Float64Array,
+	start: number,
+	cellSize: number,
+	count: number,
+): number[] => {
+	const length = profile.length - 1;
+	const c = Math.max(1, cellSize);
+	const uniform = (): number[] => {
+		const bounds: number[] = [];
+		for (let k = 0; k <= count; k += 1) {
+			bounds.push(Math.min(length, Math.max(0, Math.round(start + k * c))));
+		}
+		return bounds;
+	};
+	if (count <= 0 || length <= 0) return uniform();
+
+	const sMin = Math.max(1, Math.floor(c * 0.6));
+	const sMax = Math.max(sMin, Math.ceil(c * 1.4));
+	const startLo = Math.max(0, Math.round(start - c / 2));
+	const startHi = Math.min(length, Math.round(start + c / 2));
+	if (startLo + count * sMin > length) return uniform();
+
+	// 画像の端は常に境界として扱う
+	const edge = (p: number): number =>
+		p === 0 || p === length ? 1 : profile[p];
+	const anchor = (k: number, p: number): number => {
+		const d = (p - (start + k * c)) / c;
+		return BOUNDARY_ANCHOR_PENALTY * d * d;
+	};
+
+	const stride = length + 1;
+	const score = new Float64Array((count + 1) * stride).fill(
+		Number.NEGATIVE_INFINITY,
+	);
+	const back = new Int32Array((count + 1) * stride).fill(-1);
+	for (let p = startLo; p <= startHi; p += 1) {
+		score[p] = edge(p) - anchor(0, p);
+	}
+	for (let k = 1; k <= count; k += 1) {
+		const prevRow = (k - 1) * stride;
+		const row = k * stride;
+		for (let p = startLo + k * sMin; p <= length; p += 1) {
+			let best = Number.NEGATIVE_INFINITY;
+			let bestQ = -1;
+			for (let s = sMin; s <= sMax; s += 1) {
+				const q = p - s;
+				if (q < 0) break;
+				const prev = score[prevRow + q];
+				if (prev === Number.NEGATIVE_INFINITY) continue;
+				const d = (s - c) / c;
+				const v = prev - BOUNDARY_SIZE_PENALTY * d * d;
+				if (v > best) {
+					best = v;
+					bestQ = q;
+				}
+			}
+			if (bestQ < 0) continue;
+			score[row + p] = best + edge(p) - anchor(k, p);
+			back[row + p] = bestQ;
+		}
+	}
+
+	const lastRow = count * stride;
+	let end = -1;
+	for (let p = 0; p <= length; p += 1) {
+		if (
+			score[lastRow + p] > Number.NEGATIVE_INFINITY &&
+			(end < 0 || score[lastRow + p] > score[lastRow + end])
+		) {
+			end = p;
+		}
+	}
+	if (end < 0) return uniform();
+
+	const bounds = new Array<number>(count + 1);
+	let p = end;
+	for (let k = count; k >= 0; k -= 1) {
+		bounds[k] = p;
+		p = back[k * stride + p];
+	}
+	return bounds;
+};
+
+/**
+ * 均一グリッドを、列・行ごとの境界（colBounds/rowBounds）を持つ不均一グリッドに補正する。
+ * AI 生成などでセル境界が少しずつずれていく画像で、遠い側の端まで位置を合わせるために使う。
+ */
+export const refineGridBoundaries = (
+	img: RawImage,
+	grid: PixelGrid,
+	options: Pick<DetectOptions, "detectionQuantStep"> = {},
+): PixelGrid => {
+	const quantStep =
+		options.detectionQuantStep ?? PROCESS_RANGES.detectionQuantStep.default;
+	const cropX = grid.cropX ?? grid.offsetX;
+	const cropY = grid.cropY ?? grid.offsetY;
+	const outW =
+		grid.outW ?? Math.max(1, Math.floor((img.width - cropX) / grid.cellW));
+	const outH =
+		grid.outH ?? Math.max(1, Math.floor((img.height - cropY) / grid.cellH));
+
+	const colBounds = fitBoundaries(
+		computeEdgeProfile(img, "x", quantStep),
+		cropX,
+		grid.cellW,
+		outW,
+	);
+	const rowBounds = fitBoundaries(
+		computeEdgeProfile(img, "y", quantStep),
+		cropY,
+		grid.cellH,
+		outH,
+	);
+	const cropW = colBounds[outW] - colBounds[0];
+	const cropH = rowBounds[outH] - rowBounds[0];
+	return {
+		...grid,
+		cellW: cropW / outW,
+		cellH: cropH / outH,
+		offsetX: colBounds[0],
+		offsetY: rowBounds[0],
+		cropX: colBounds[0],
+		cropY: rowBounds[0],
 		cropW,
 		cropH,
 		outW,
 		outH,
-		scoreX: finalX.score,
-		scoreY: finalY.score,
+		colBounds,
+		rowBounds,
 	};
 };
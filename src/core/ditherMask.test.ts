@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import { createDitherMask } from "./ditherMask";
+
+const makeImage = (
+	width: number,
+	height: number,
+	color: (x: number, y: number) => [number, number, number, number],
+): RawImage => {
+	const data = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			data.set(color(x, y), (y * width + x) * 4);
+		}
+	}
+	return { width, height, data };
+};
+
+describe("ditherMask.ts", () => {
+	describe("createDitherMask", () => {
+		it("制限しない場合は undefined を返す", () => {
+			const img = makeImage(2, 2, () => [0, 0, 0, 255]);
+			expect(
+				createDitherMask(img, { gradientOnly: false, threshold: 5 }),
+			).toBeUndefined();
+		});
+
+		it("単色の塗りと 1px の線はディザリングしない", () => {
+			// 赤い塗りの中に、黒い 1px の縦線と横線
+			const img = makeImage(12, 12, (x, y) =>
+				x === 4 || y === 7 ? [0, 0, 0, 255] : [200, 40, 40, 255],
+			);
+			const mask = createDitherMask(img, { gradientOnly: true, threshold: 0 });
+			expect(mask).toBeDefined();
+			expect([...(mask ?? [])].every((v) => v === 0)).toBe(true);
+		});
+
+		it("グラデーションの所だけをディザリングする", () => {
+			// 左半分は横方向のグラデーション、右半分は単色
+			const img = makeImage(16, 4, (x) =>
+				x < 8
+					? [64 + x * 16, 64 + x * 16, 64 + x * 16, 255]
+					: [90, 90, 200, 255],
+			);
+			const mask = createDitherMask(img, { gradientOnly: true, threshold: 5 });
+			if (!mask) throw new Error("mask is undefined");
+			for (let y = 0; y < 4; y++) {
+				for (let x = 0; x < 16; x++) {
+					expect(mask[y * 16 + x]).toBe(x < 8 ? 1 : 0);
+				}
+			}
+
+			// しきい値を上げると緩やかな階調は外れる
+			const strict = createDitherMask(img, {
+				gradientOnly: true,
+				threshold: 100,
+			});
+			expect([...(strict ?? [])].every((v) => v === 0)).toBe(true);
+		});
+
+		it("マスク画像の黒・透明の所を除外し、大きさが違えば伸縮して当てる", () => {
+			const img = makeImage(4, 2, () => [128, 128, 128, 255]);
+			// 左: 黒 / 右: 白（縦横 2 倍に伸ばして当てる）
+			const userMask = makeImage(2, 1, (x) =>
+				x === 0 ? [0, 0, 0, 255] : [255, 255, 255, 255],
+			);
+			const mask = createDitherMask(img, {
+				gradientOnly: false,
+				threshold: 5,
+				userMask,
+			});
+			expect([...(mask ?? [])]).toEqual([0, 0, 1, 1, 0, 0, 1, 1]);
+
+			// 透明な所は白でも除外する
+			const transparent = makeImage(1, 1, () => [255, 255, 255, 0]);
+			const none = createDitherMask(img, {
+				gradientOnly: false,
+				threshold: 5,
+				userMask: transparent,
+			});
+			expect([...(none ?? [])].every((v) => v === 0)).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,130 @@
+import type { RawImage } from "../shared/types";
+import { rgbToOklab } from "./colorUtils";
+
+export type DitherMaskOptions = {
+	/** 階調のある所（近傍の色のばらつきが threshold を超える画素）だけをディザリングする */
+	gradientOnly: boolean;
+	/** 近傍の Oklab の標準偏差のしきい値（×1000） */
+	threshold: number;
+	/**
+	 * ユーザーが指定したマスク画像。黒・透明の所はディザリングしない。
+	 * 減色する画像と大きさが違う場合は最近傍で伸縮して当てる。
+	 */
+	userMask?: RawImage;
+};
+
+/** 色のばらつきを測る近傍の半径（5x5） */
+const WINDOW_RADIUS = 2;
+
+/**
+ * 中心の色とこれ以上離れた近傍の画素はばらつきの計算に含めない（Oklab の距離）。
+ * 輪郭線や別の塗りとの境目を階調と見なさないようにするため。
+ */
+const SIMILAR_DISTANCE = 0.2;
+
+/**
+ * 階調のある所だけが 1 になるマスクを作る。
+ * 中心に近い色の近傍だけで Oklab の標準偏差を測るので、単色の塗りは輪郭線に接していても 0 のまま、
+ * 1px の線も線上の同じ色どうしでしか比べないため 0 になる。
+ */
+const createGradientMask = (img: RawImage, threshold: number): Uint8Array => {
+	const { width, height, data } = img;
+	const n = width * height;
+	const L = new Float32Array(n);
+	const A = new Float32Array(n);
+	const B = new Float32Array(n);
+	for (let i = 0; i < n; i += 1) {
+		const lab = rgbToOklab({
+			r: data[i * 4],
+			g: data[i * 4 + 1],
+			b: data[i * 4 + 2],
+		});
+		L[i] = lab.L;
+		A[i] = lab.a;
+		B[i] = lab.b;
+	}
+
+	const limitSq = SIMILAR_DISTANCE * SIMILAR_DISTANCE;
+	const thresholdSq = (threshold / 1000) ** 2;
+	const mask = new Uint8Array(n);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const i = y * width + x;
+			if (data[i * 4 + 3] === 0) continue;
+
+			// 中心からの差で集計する（単色の塗りでは丸め誤差なしに 0 になる）
+			let count = 0;
+			let sumL = 0;
+			let sumA = 0;
+			let sumB = 0;
+			let sumSq = 0;
+			for (
+				let ny = Math.max(0, y - WINDOW_RADIUS);
+				ny <= Math.min(height - 1, y + WINDOW_RADIUS);
+				ny += 1
+			) {
+				for (
+					let nx = Math.max(0, x - WINDOW_RADIUS);
+					nx <= Math.min(width - 1, x + WINDOW_RADIUS);
+					nx += 1
+				) {
+					const j = ny * width + nx;
+					if (data[j * 4 + 3] === 0) continue;
+					const dL = L[j] - L[i];
+					const da = A[j] - A[i];
+					const db = B[j] - B[i];
+					const distSq = dL * dL + da * da + db * db;
+					if (distSq > limitSq) continue;
+					count += 1;
+					sumL += dL;
+					sumA += da;
+					sumB += db;
+					sumSq += distSq;
+				}
+			}
+			const meanSq =
+				(sumL * sumL + sumA * sumA + sumB * sumB) / (count * count);
+			const variance = sumSq / count - meanSq;
+			if (variance > thresholdSq) mask[i] = 1;
+		}
+	}
+	return mask;
+};
+
+/**
+ * ディザリングしてよい画素を 1 にしたマスクを作る。制限しない場合は undefined。
+ */
+export const createDitherMask = (
+	img: RawImage,
+	options: DitherMaskOptions,
+): Uint8Array | undefined => {
+	const { userMask } = options;
+	if (!options.gradientOnly && !userMask) return undefined;
+
+	const { width, height } = img;
+	const mask = options.gradientOnly
+		? createGradientMask(img, options.threshold)
+		: new Uint8Array(width * height).fill(1);
+
+	if (userMask && userMask.width > 0 && userMask.height > 0) {
+		for (let y = 0; y < height; y += 1) {
+			const sy = Math.min(
+				userMask.height - 1,
+				Math.floor(((y + 0.5) * userMask.height) / height),
+			);
+			for (let x = 0; x < width; x += 1) {
+				const sx = Math.min(
+					userMask.width - 1,
+					Math.floor(((x + 0.5) * userMask.width) / width),
+				);
+				const k = (sy * userMask.width + sx) * 4;
+				const d = userMask.data;
+				const luma =
+					(d[k] * 0.299 + d[k + 1] * 0.587 + d[k + 2] * 0.114) *
+					(d[k + 3] / 255);
+				if (luma < 128) mask[y * width + x] = 0;
+			}
+		}
+	}
+	return mask;
+};
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import { detectGrid } from "./detector";
+import {
+	computeHomography,
+	deskewImage,
+	estimateSkew,
+	warpPerspective,
+} from "./geometry";
+
+const CELL = 8;
+
+// セルごとに 2 色を散らしたドット絵を、横の辺が rotation 度・縦の辺が rotation + skew 度傾いた向きで描く
+const makeTiltedArt = (size: number, rotation: number, skew = 0): RawImage => {
+	const a = (rotation * Math.PI) / 180;
+	const b = ((rotation + skew) * Math.PI) / 180;
+	const det = Math.cos(a) * Math.cos(b) + Math.sin(a) * Math.sin(b);
+	const data = new Uint8ClampedArray(size * size * 4);
+	const SS = 3;
+	for (let y = 0; y < size; y++) {
+		for (let x = 0; x < size; x++) {
+			let sum = 0;
+			for (let sy = 0; sy < SS; sy++) {
+				for (let sx = 0; sx < SS; sx++) {
+					const dx = x + (sx + 0.5) / SS - size / 2;
+					const dy = y + (sy + 0.5) / SS - size / 2;
+					// 出力の座標 → ドット絵の座標（deskewImage の逆）
+					const X = (dx * Math.cos(b) + dy * Math.sin(b)) / det;
+					const Y = (Math.cos(a) * dy - Math.sin(a) * dx) / det;
+					const cx = Math.floor(X / CELL) + 100;
+					const cy = Math.floor(Y / CELL) + 100;
+					sum += (cx * 7 + cy * 13 + ((cx * cy) % 5)) % 3 === 0 ? 40 : 220;
+				}
+			}
+			const v = sum / (SS * SS);
+			data.set([v, v, v, 255], (y * size + x) * 4);
+		}
+	}
+	return { width: size, height: size, data };
+};
+
+const pixel = (img: RawImage, x: number, y: number): number[] =>
+	Array.from(
+		img.data.subarray((y * img.width + x) * 4, (y * img.width + x) * 4 + 4),
+	);
+
+describe("geometry.ts", () => {
+	describe("estimateSkew", () => {
+		it("回転した画像の傾きを求める", () => {
+			for (const rotation of [3, -6.5]) {
+				const estimate = estimateSkew(makeTiltedArt(160, rotation));
+				expect(estimate.rotation).toBeCloseTo(rotation, 0);
+				expect(Math.abs(estimate.skew)).toBeLessThan(0.5);
+			}
+		});
+
+		it("縦の辺だけが傾いた画像はシアーとして求める", () => {
+			const estimate = estimateSkew(makeTiltedArt(160, 0, 4));
+			expect(Math.abs(estimate.rotation)).toBeLessThan(0.5);
+			expect(estimate.skew).toBeCloseTo(4, 0);
+		});
+
+		it("傾いていない画像と単色画像は 0", () => {
+			expect(estimateSkew(makeTiltedArt(96, 0))).toEqual({
+				rotation: 0,
+				skew: 0,
+			});
+			const flat: RawImage = {
+				width: 16,
+				height: 16,
+				data: new Uint8ClampedArray(16 * 16 * 4).fill(255),
+			};
+			expect(estimateSkew(flat)).toEqual({ rotation: 0, skew: 0 });
+		});
+	});
+
+	describe("deskewImage", () => {
+		it("傾きを打ち消すと、グリッドを検出できる", () => {
+			const tilted = makeTiltedArt(160, 5);
+			const corrected = deskewImage(tilted, estimateSkew(tilted));
+			expect(corrected.width).toBeGreaterThan(160);
+			expect(Math.abs(estimateSkew(corrected).rotation)).toBeLessThan(0.5);
+			// 補間でぼけた境界は run が細切れになるので、周波数による推定と突き合わせる
+			const grid = detectGrid(corrected, { gridDetector: "frequency" });
+			expect(grid.cellW).toBe(CELL);
+			expect(grid.cellH).toBe(CELL);
+		});
+
+		it("傾きがほぼ 0 なら元の画像をそのまま返す", () => {
+			const img = makeTiltedArt(32, 0);
+			expect(deskewImage(img, { rotation: 0.01, skew: 0 })).toBe(img);
+		});
+	});
+
+	describe("computeHomography", () => {
+		it("4 点をそれぞれ対応する点に写す", () => {
+			const from = [
+				{ x: 0, y: 0 },
+				{ x: 100, y: 0 },
+				{ x: 100, y: 50 },
+				{ x: 0, y: 50 },
+			];
+			const to = [
+				{ x: 12, y: 7 },
+				{ x: 130, y: 20 },
+				{ x: 118, y: 90 },
+				{ x: 5, y: 70 },
+			];
+			const h = computeHomography(from, to);
+			from.forEach((p, i) => {
+				const w = h[6] * p.x + h[7] * p.y + h[8];
+				expect((h[0] * p.x + h[1] * p.y + h[2]) / w).toBeCloseTo(to[i].x, 6);
+				expect((h[3] * p.x + h[4] * p.y + h[5]) / w).toBeCloseTo(to[i].y, 6);
+			});
+		});
+
+		it("3 点が一直線に並ぶとエラー", () => {
+			const line = [
+				{ x: 0, y: 0 },
+				{ x: 1, y: 1 },
+				{ x: 2, y: 2 },
+				{ x: 0, y: 5 },
+			];
+			expect(() => computeHomography(line, line)).toThrow();
+		});
+	});
+
+	describe("warpPerspective", () => {
+		const img: RawImage = {
+			width: 4,
+			height: 4,
+			data: new Uint8ClampedArray(
+				Array.from({ length: 16 }, (_, i) => [
+					i * 16,
+					0,
+					255 - i * 16,
+					255,
+				]).flat(),
+			),
+		};
+
+		it("画像全体の四角形はそのままの画像になる", () => {
+			const result = warpPerspective(img, [
+				{ x: 0, y: 0 },
+				{ x: 4, y: 0 },
+				{ x: 4, y: 4 },
+				{ x: 0, y: 4 },
+			]);
+			expect(result.width).toBe(4);
+			expect(result.height).toBe(4);
+			expect(Array.from(result.data)).toEqual(Array.from(img.data));
+		});
+
+		it("四角形の中を長方形に写す（向かい合う辺の長い方に合わせる）", () => {
+			const result = warpPerspective(img, [
+				{ x: 2, y: 0 },
+				{ x: 4, y: 0 },
+				{ x: 4, y: 2 },
+				{ x: 2, y: 2 },
+			]);
+			expect(result.width).toBe(2);
+			expect(result.height).toBe(2);
+			expect(pixel(result, 0, 0)).toEqual(pixel(img, 2, 0));
+			expect(pixel(result, 1, 1)).toEqual(pixel(img, 3, 1));
+		});
+	});
+});
@@ -0,0 +1,383 @@
+import type { PerspectiveQuad, Point, RawImage } from "../shared/types";
+
+export type SkewEstimate = {
+	/** 横の辺の傾き（度。y 軸は下向きで、時計回りが正） */
+	rotation: number;
+	/** 縦の辺の傾きと横の辺の傾きの差（度）。0 なら回転だけ */
+	skew: number;
+};
+
+/** 推定する傾きの範囲（±度） */
+const MAX_SKEW_ANGLE = 15;
+/** これより小さい傾き（度）は補正しない */
+const MIN_CORRECTION_ANGLE = 0.05;
+/** 傾きの推定に使う画像の長辺の上限（px）。大きい画像は縮小してから推定する */
+const ESTIMATE_MAX_SIZE = 1024;
+/** 傾きの推定に使うエッジの画素数の上限 */
+const MAX_EDGE_SAMPLES = 60000;
+/** エッジとみなす勾配の強さ（画像全体の勾配の強さの上位 %） */
+const EDGE_TOP_PERCENT = 10;
+
+type EdgePoints = { x: number[]; y: number[]; w: number[] };
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+
+/**
+ * 輝度（alpha を掛けたもの）を、長辺が ESTIMATE_MAX_SIZE 以下になるように平均で縮小して返す。
+ */
+const readLuminance = (
+	img: RawImage,
+): { lum: Float32Array; width: number; height: number } => {
+	const factor = Math.max(
+		1,
+		Math.ceil(Math.max(img.width, img.height) / ESTIMATE_MAX_SIZE),
+	);
+	const width = Math.max(1, Math.floor(img.width / factor));
+	const height = Math.max(1, Math.floor(img.height / factor));
+	const lum = new Float32Array(width * height);
+	const { data } = img;
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			let sum = 0;
+			for (let dy = 0; dy < factor; dy += 1) {
+				for (let dx = 0; dx < factor; dx += 1) {
+					const i = ((y * factor + dy) * img.width + x * factor + dx) * 4;
+					sum +=
+						((0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) *
+							data[i + 3]) /
+						255;
+				}
+			}
+			lum[y * width + x] = sum / (factor * factor);
+		}
+	}
+	return { lum, width, height };
+};
+
+/**
+ * Sobel の勾配の強い画素を、横の辺（縦方向の勾配が大きい）と縦の辺に分けて集める。
+ */
+const collectEdges = (
+	lum: Float32Array,
+	width: number,
+	height: number,
+): { horizontal: EdgePoints; vertical: EdgePoints } => {
+	const gx = new Float32Array(width * height);
+	const gy = new Float32Array(width * height);
+	const histogram = new Uint32Array(2048);
+	let total = 0;
+	for (let y = 1; y < height - 1; y += 1) {
+		for (let x = 1; x < width - 1; x += 1) {
+			const i = y * width + x;
+			const tl = lum[i - width - 1];
+			const t = lum[i - width];
+			const tr = lum[i - width + 1];
+			const l = lum[i - 1];
+			const r = lum[i + 1];
+			const bl = lum[i + width - 1];
+			const b = lum[i + width];
+			const br = lum[i + width + 1];
+			gx[i] = tr + 2 * r + br - (tl + 2 * l + bl);
+			gy[i] = bl + 2 * b + br - (tl + 2 * t + tr);
+			const m = Math.hypot(gx[i], gy[i]);
+			histogram[Math.min(histogram.length - 1, Math.floor(m))] += 1;
+			total += 1;
+		}
+	}
+
+	// 上位 EDGE_TOP_PERCENT % の強さ（弱いノイズは拾わない）
+	let threshold = 1;
+	let above = 0;
+	for (let m = histogram.length - 1; m >= 1; m -= 1) {
+		above += histogram[m];
+		if (above >= (total * EDGE_TOP_PERCENT) / 100) {
+			threshold = Math.max(1, m);
+			break;
+		}
+	}
+
+	const horizontal: EdgePoints = { x: [], y: [], w: [] };
+	const vertical: EdgePoints = { x: [], y: [], w: [] };
+	for (let i = 0; i < gx.length; i += 1) {
+		const m = Math.hypot(gx[i], gy[i]);
+		if (m < threshold) continue;
+		const target = Math.abs(gy[i]) > Math.abs(gx[i]) ? horizontal : vertical;
+		target.x.push(i % width);
+		target.y.push(Math.floor(i / width));
+		target.w.push(m);
+	}
+	const thin = (points: EdgePoints): EdgePoints => {
+		const stride = Math.ceil(points.x.length / MAX_EDGE_SAMPLES);
+		if (stride <= 1) return points;
+		const keep = (_: number, i: number) => i % stride === 0;
+		return {
+			x: points.x.filter(keep),
+			y: points.y.filter(keep),
+			w: points.w.filter(keep),
+		};
+	};
+	return { horizontal: thin(horizontal), vertical: thin(vertical) };
+};
+
+/**
+ * エッジを、角度 angle の直線に沿って投影したときの鋭さ（1px のビンの重みの二乗和）。
+ * 辺が角度 angle に揃っているほど同じビンに重みが集まり、大きくなる。
+ * horizontal=true は横の辺（u = (cos a, sin a)）、false は縦の辺（v = (-sin a, cos a)）。
+ */
+const projectionSharpness = (
+	points: EdgePoints,
+	angle: number,
+	horizontal: boolean,
+	span: number,
+): number => {
+	const rad = toRadians(angle);
+	const cos = Math.cos(rad);
+	const sin = Math.sin(rad);
+	const bins = new Float64Array(span * 2 + 2);
+	for (let i = 0; i < points.x.length; i += 1) {
+		const t = horizontal
+			? -points.x[i] * sin + points.y[i] * cos
+			: points.x[i] * cos + points.y[i] * sin;
+		// 隣り合う 2 つのビンに振り分ける（角度の細かい違いも鋭さに表れるように）
+		const f = Math.floor(t);
+		const frac = t - f;
+		bins[f + span] += points.w[i] * (1 - frac);
+		bins[f + span + 1] += points.w[i] * frac;
+	}
+	let score = 0;
+	for (const v of bins) score += v * v;
+	return score;
+};
+
+const findDominantAngle = (
+	points: EdgePoints,
+	horizontal: boolean,
+	span: number,
+): number => {
+	if (points.x.length === 0) return 0;
+	const search = (from: number, to: number, step: number): number => {
+		let best = 0;
+		let bestScore = Number.NEGATIVE_INFINITY;
+		for (let a = from; a <= to + 1e-9; a += step) {
+			const score = projectionSharpness(points, a, horizontal, span);
+			// 同じ鋭さなら傾きの小さい方
+			if (
+				score > bestScore ||
+				(score === bestScore && Math.abs(a) < Math.abs(best))
+			) {
+				best = a;
+				bestScore = score;
+			}
+		}
+		return best;
+	};
+	const coarse = search(-MAX_SKEW_ANGLE, MAX_SKEW_ANGLE, 0.5);
+	const fine = search(coarse - 0.5, coarse + 0.5, 0.05);
+	return Math.round(fine * 100) / 100 + 0;
+};
+
+/**
+ * 画像の横の辺と縦の辺の主な向きから、回転と斜めの歪み（シアー）を推定する。
+ * それぞれ、エッジを直線に沿って投影したときに最も鋭く揃う角度（±MAX_SKEW_ANGLE 度の範囲）を探す。
+ * 斜めに撮った写真やスキャンしたドット絵の、セル境界の向きを揃えるために使う。
+ */
+export const estimateSkew = (img: RawImage): SkewEstimate => {
+	const { lum, width, height } = readLuminance(img);
+	if (width < 3 || height < 3) return { rotation: 0, skew: 0 };
+	const { horizontal, vertical } = collectEdges(lum, width, height);
+	const span = width + height;
+	const rotation = findDominantAngle(horizontal, true, span);
+	// 縦の辺が少ないときは回転だけとみなす
+	const verticalAngle =
+		vertical.x.length > 0 ? findDominantAngle(vertical, false, span) : rotation;
+	const skew = Math.round((verticalAngle - rotation) * 100) / 100 + 0;
+	return { rotation, skew };
+};
+
+/**
+ * 画素の中心が (i + 0.5) の座標で、(x, y) の色をバイリニア補間で求める（alpha で重み付け）。
+ * 画像の外は端の画素を延ばす。
+ */
+const sampleBilinear = (
+	img: RawImage,
+	x: number,
+	y: number,
+	out: Uint8ClampedArray,
+	o: number,
+) => {
+	const { width, height, data } = img;
+	const fx = x - 0.5;
+	const fy = y - 0.5;
+	const x0 = Math.floor(fx);
+	const y0 = Math.floor(fy);
+	const tx = fx - x0;
+	const ty = fy - y0;
+	const cx0 = Math.min(width - 1, Math.max(0, x0));
+	const cx1 = Math.min(width - 1, Math.max(0, x0 + 1));
+	const cy0 = Math.min(height - 1, Math.max(0, y0));
+	const cy1 = Math.min(height - 1, Math.max(0, y0 + 1));
+	const taps: [number, number][] = [
+		[(cy0 * width + cx0) * 4, (1 - tx) * (1 - ty)],
+		[(cy0 * width + cx1) * 4, tx * (1 - ty)],
+		[(cy1 * width + cx0) * 4, (1 - tx) * ty],
+		[(cy1 * width + cx1) * 4, tx * ty],
+	];
+	let r = 0;
+	let g = 0;
+	let b = 0;
+	let a = 0;
+	for (const [i, w] of taps) {
+		const wa = w * data[i + 3];
+		r += data[i] * wa;
+		g += data[i + 1] * wa;
+		b += data[i + 2] * wa;
+		a += wa;
+	}
+	if (a > 0) {
+		out[o] = r / a;
+		out[o + 1] = g / a;
+		out[o + 2] = b / a;
+	}
+	out[o + 3] = a;
+};
+
+/**
+ * 出力の各画素の中心を map で元画像の座標に写し、バイリニア補間で描いた画像を返す。
+ */
+const resample = (
+	img: RawImage,
+	width: number,
+	height: number,
+	map: (x: number, y: number) => Point,
+): RawImage => {
+	const data = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const p = map(x + 0.5, y + 0.5);
+			sampleBilinear(img, p.x, p.y, data, (y * width + x) * 4);
+		}
+	}
+	return { width, height, data };
+};
+
+/**
+ * estimateSkew で求めた傾きを打ち消し、横の辺と縦の辺が画像の軸に揃った画像を返す。
+ * 出力は元画像全体が収まる大きさで、元画像の外は端の画素を延ばす。
+ * 傾きが MIN_CORRECTION_ANGLE 度より小さいときは元の画像をそのまま返す。
+ */
+export const deskewImage = (
+	img: RawImage,
+	estimate: SkewEstimate,
+): RawImage => {
+	const a = estimate.rotation;
+	const b = estimate.rotation + estimate.skew;
+	if (
+		Math.abs(a) < MIN_CORRECTION_ANGLE &&
+		Math.abs(b) < MIN_CORRECTION_ANGLE
+	) {
+		return img;
+	}
+	// 出力の x 軸は元画像の u = (cos a, sin a)、y 軸は v = (-sin b, cos b) の向き
+	const ux = Math.cos(toRadians(a));
+	const uy = Math.sin(toRadians(a));
+	const vx = -Math.sin(toRadians(b));
+	const vy = Math.cos(toRadians(b));
+	const det = ux * vy - vx * uy;
+	const cx = img.width / 2;
+	const cy = img.height / 2;
+
+	let maxX = 0;
+	let maxY = 0;
+	for (const [px, py] of [
+		[0, 0],
+		[img.width, 0],
+		[0, img.height],
+		[img.width, img.height],
+	]) {
+		const dx = px - cx;
+		const dy = py - cy;
+		maxX = Math.max(maxX, Math.abs((dx * vy - vx * dy) / det));
+		maxY = Math.max(maxY, Math.abs((ux * dy - uy * dx) / det));
+	}
+	const width = Math.max(1, Math.ceil(maxX * 2 - 1e-6));
+	const height = Math.max(1, Math.ceil(maxY * 2 - 1e-6));
+	return resample(img, width, height, (x, y) => {
+		const X = x - width / 2;
+		const Y = y - height / 2;
+		return { x: cx + X * ux + Y * vx, y: cy + X * uy + Y * vy };
+	});
+};
+
+/**
+ * 4 点の対応 from[i] → to[i] を写す射影変換（ホモグラフィ）を求める。
+ * 戻り値は 3×3 行列を行優先に並べたもの（最後の要素は 1）。
+ */
+export const computeHomography = (from: Point[], to: Point[]): number[] => {
+	if (from.length !== 4 || to.length !== 4) {
+		throw new Error("射影変換には 4 点の対応が必要です。");
+	}
+	// h0..h7 の連立一次方程式（拡大係数行列）
+	const rows: number[][] = [];
+	for (let i = 0; i < 4; i += 1) {
+		const { x, y } = from[i];
+		const { x: u, y: v } = to[i];
+		rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+		rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+	}
+	for (let col = 0; col < 8; col += 1) {
+		let pivot = col;
+		for (let r = col + 1; r < 8; r += 1) {
+			if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+		}
+		if (Math.abs(rows[pivot][col]) < 1e-10) {
+			throw new Error(
+				"4 点のうち 3 点が一直線に並んでいるため、射影変換を求められません。",
+			);
+		}
+		[rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+		for (let r = 0; r < 8; r += 1) {
+			if (r === col) continue;
+			const f = rows[r][col] / rows[col][col];
+			for (let c = col; c <= 8; c += 1) rows[r][c] -= f * rows[col][c];
+		}
+	}
+	return [...rows.map((row, i) => row[8] / row[i]), 1];
+};
+
+const distance = (p: Point, q: Point): number =>
+	Math.hypot(p.x - q.x, p.y - q.y);
+
+/**
+ * 元画像の上で指定した 4 点（左上・右上・右下・左下）の四角形を、軸に揃った長方形の画像に写す。
+ * 出力の大きさは、向かい合う辺の長い方に合わせる。元画像の外は端の画素を延ばす。
+ */
+export const warpPerspective = (
+	img: RawImage,
+	quad: PerspectiveQuad,
+): RawImage => {
+	const [tl, tr, br, bl] = quad;
+	const width = Math.max(
+		1,
+		Math.round(Math.max(distance(tl, tr), distance(bl, br))),
+	);
+	const height = Math.max(
+		1,
+		Math.round(Math.max(distance(tl, bl), distance(tr, br))),
+	);
+	const h = computeHomography(
+		[
+			{ x: 0, y: 0 },
+			{ x: width, y: 0 },
+			{ x: width, y: height },
+			{ x: 0, y: height },
+		],
+		quad,
+	);
+	return resample(img, width, height, (x, y) => {
+		const w = h[6] * x + h[7] * y + h[8];
+		return {
+			x: (h[0] * x + h[1] * y + h[2]) / w,
+			y: (h[3] * x + h[4] * y + h[5]) / w,
+		};
+	});
+};
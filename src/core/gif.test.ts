@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import type { Animation } from "./animation";
+import { decodeGif, encodeGif, isGif } from "./gif";
+
+// 乱数的な色の不透明ピクセルと透明ピクセルが混ざった画像
+const makeFrame = (w: number, h: number, seed: number): RawImage => {
+	const data = new Uint8ClampedArray(w * h * 4);
+	let s = seed;
+	for (let i = 0; i < w * h; i += 1) {
+		s = (s * 1103515245 + 12345) & 0x7fffffff;
+		const c = s % 40;
+		data[i * 4] = (c * 37) & 0xff;
+		data[i * 4 + 1] = (c * 91) & 0xff;
+		data[i * 4 + 2] = (c * 53) & 0xff;
+		data[i * 4 + 3] = c % 7 === 0 ? 0 : 255;
+	}
+	return { width: w, height: h, data };
+};
+
+describe("GIF", () => {
+	it("エンコードしたアニメーションをそのままデコードできる", () => {
+		const anim: Animation = {
+			width: 23,
+			height: 17,
+			loopCount: 0,
+			frames: [
+				{ image: makeFrame(23, 17, 1), delay: 100 },
+				{ image: makeFrame(23, 17, 2), delay: 250 },
+				{ image: makeFrame(23, 17, 3), delay: 40 },
+			],
+		};
+		const bytes = encodeGif(anim);
+		expect(isGif(bytes)).toBe(true);
+
+		const decoded = decodeGif(bytes);
+		expect(decoded.width).toBe(23);
+		expect(decoded.height).toBe(17);
+		expect(decoded.loopCount).toBe(0);
+		expect(decoded.frames.map((f) => f.delay)).toEqual([100, 250, 40]);
+		decoded.frames.forEach((f, i) => {
+			const src = anim.frames[i].image.data;
+			for (let p = 0; p < src.length; p += 4) {
+				if (src[p + 3] === 0) {
+					expect(f.image.data[p + 3]).toBe(0);
+				} else {
+					expect(Array.from(f.image.data.subarray(p, p + 4))).toEqual(
+						Array.from(src.subarray(p, p + 4)),
+					);
+				}
+			}
+		});
+	});
+
+	it("255 色を超える場合は減色してエンコードする", () => {
+		const w = 32;
+		const h = 32;
+		const data = new Uint8ClampedArray(w * h * 4);
+		for (let i = 0; i < w * h; i += 1) {
+			data[i * 4] = i & 0xff;
+			data[i * 4 + 1] = (i >> 2) & 0xff;
+			data[i * 4 + 2] = 128;
+			data[i * 4 + 3] = 255;
+		}
+		const decoded = decodeGif(
+			encodeGif({
+				width: w,
+				height: h,
+				loopCount: 1,
+				frames: [{ image: { width: w, height: h, data }, delay: 100 }],
+			}),
+		);
+		const colors = new Set<number>();
+		const out = decoded.frames[0].image.data;
+		for (let p = 0; p < out.length; p += 4) {
+			colors.add((out[p] << 16) | (out[p + 1] << 8) | out[p + 2]);
+		}
+		expect(decoded.frames).toHaveLength(1);
+		expect(decoded.loopCount).toBe(1);
+		expect(colors.size).toBeLessThanOrEqual(255);
+	});
+});
@@ -0,0 +1,394 @@
+import type { PixelData } from "../shared/types";
+import type { Animation, AnimationFrame } from "./animation";
+import { OklabKMeans } from "./quantizer";
+
+const GIF_MAX_CODE = 4096;
+
+export const isGif = (bytes: Uint8Array): boolean =>
+	bytes.length >= 6 &&
+	bytes[0] === 0x47 && // G
+	bytes[1] === 0x49 && // I
+	bytes[2] === 0x46 && // F
+	bytes[3] === 0x38 && // 8
+	(bytes[4] === 0x37 || bytes[4] === 0x39) && // 7 | 9
+	bytes[5] === 0x61; // a
+
+/**
+ * GIF の LZW 圧縮データを色インデックス列に展開する。
+ */
+const lzwDecode = (
+	data: Uint8Array,
+	minCodeSize: number,
+	pixelCount: number,
+): Uint8Array => {
+	const out = new Uint8Array(pixelCount);
+	const clearCode = 1 << minCodeSize;
+	const eoiCode = clearCode + 1;
+	const prefix = new Int16Array(GIF_MAX_CODE);
+	const suffix = new Uint8Array(GIF_MAX_CODE);
+	const length = new Uint16Array(GIF_MAX_CODE);
+	for (let i = 0; i < clearCode; i += 1) {
+		prefix[i] = -1;
+		suffix[i] = i;
+		length[i] = 1;
+	}
+
+	let codeSize = minCodeSize + 1;
+	let nextCode = eoiCode + 1;
+	let prev = -1;
+	let written = 0;
+	let bitBuf = 0;
+	let bitCount = 0;
+	let pos = 0;
+
+	while (written < pixelCount) {
+		while (bitCount < codeSize && pos < data.length) {
+			bitBuf |= data[pos++] << bitCount;
+			bitCount += 8;
+		}
+		if (bitCount < codeSize) break;
+		const code = bitBuf & ((1 << codeSize) - 1);
+		bitBuf >>>= codeSize;
+		bitCount -= codeSize;
+
+		if (code === clearCode) {
+			codeSize = minCodeSize + 1;
+			nextCode = eoiCode + 1;
+			prev = -1;
+			continue;
+		}
+		if (code === eoiCode) break;
+
+		let entry = code;
+		if (prev !== -1) {
+			if (code > nextCode) break; // 壊れたデータ
+			if (nextCode < GIF_MAX_CODE) {
+				// code === nextCode のとき (KwKwK) は prev + prev[0]
+				let first = code === nextCode ? prev : code;
+				while (prefix[first] !== -1) first = prefix[first];
+				prefix[nextCode] = prev;
+				suffix[nextCode] = suffix[first];
+				length[nextCode] = length[prev] + 1;
+				nextCode += 1;
+				if (nextCode === 1 << codeSize && codeSize < 12) codeSize += 1;
+			}
+		} else if (code >= clearCode) {
+			break;
+		}
+
+		// 末尾から書き戻す
+		const len = length[entry];
+		const end = Math.min(written + len, pixelCount);
+		for (let i = written + len - 1; i >= written; i -= 1) {
+			if (i < end) out[i] = suffix[entry];
+			entry = prefix[entry];
+		}
+		written = end;
+		prev = code;
+	}
+	return out;
+};
+
+/**
+ * GIF（アニメーション含む）をデコードし、全フレームを画面サイズの RawImage に合成して返す。
+ * 破棄方法 (disposal) は 2: 背景（透明）に戻す / 3: 直前の状態に戻す に対応する。
+ */
+export const decodeGif = (bytes: Uint8Array): Animation => {
+	if (!isGif(bytes)) {
+		throw new Error("GIF ファイルではありません。");
+	}
+	let pos = 6;
+	const u8 = (): number => {
+		if (pos >= bytes.length)
+			throw new Error("GIF データが途中で終わっています。");
+		return bytes[pos++];
+	};
+	const u16 = (): number => u8() | (u8() << 8);
+	const readColorTable = (size: number): Uint8Array => {
+		const table = bytes.subarray(pos, pos + size * 3);
+		pos += size * 3;
+		return table;
+	};
+	const readSubBlocks = (): Uint8Array[] => {
+		const blocks: Uint8Array[] = [];
+		for (let size = u8(); size > 0; size = u8()) {
+			blocks.push(bytes.subarray(pos, pos + size));
+			pos += size;
+		}
+		return blocks;
+	};
+
+	const width = u16();
+	const height = u16();
+	const screenFlags = u8();
+	u8(); // background color index（透明として扱う）
+	u8(); // pixel aspect ratio
+	const globalTable =
+		screenFlags & 0x80 ? readColorTable(2 << (screenFlags & 7)) : null;
+
+	const canvas = new Uint8ClampedArray(width * height * 4);
+	const frames: AnimationFrame[] = [];
+	let loopCount = 1;
+	let delay = 0;
+	let disposal = 0;
+	let transparentIndex = -1;
+
+	for (;;) {
+		if (pos >= bytes.length) break;
+		const block = u8();
+		if (block === 0x3b) break; // trailer
+		if (block === 0x21) {
+			const label = u8();
+			const blocks = readSubBlocks();
+			if (label === 0xf9 && blocks[0]?.length >= 4) {
+				const gce = blocks[0];
+				disposal = (gce[0] >> 2) & 7;
+				delay = (gce[1] | (gce[2] << 8)) * 10;
+				transparentIndex = gce[0] & 1 ? gce[3] : -1;
+			} else if (label === 0xff && blocks[0]?.length === 11) {
+				const id = String.fromCharCode(...blocks[0]);
+				if (
+					(id === "NETSCAPE2.0" || id === "ANIMEXTS1.0") &&
+					blocks[1]?.length >= 3 &&
+					blocks[1][0] === 1
+				) {
+					// NETSCAPE の値は「繰り返し回数」なので再生回数は +1（0 は無限）
+					const repeat = blocks[1][1] | (blocks[1][2] << 8);
+					loopCount = repeat === 0 ? 0 : repeat + 1;
+				}
+			}
+			continue;
+		}
+		if (block !== 0x2c) {
+			throw new Error(`GIF の不明なブロックです: 0x${block.toString(16)}`);
+		}
+
+		const left = u16();
+		const top = u16();
+		const w = u16();
+		const h = u16();
+		const flags = u8();
+		const table = flags & 0x80 ? readColorTable(2 << (flags & 7)) : globalTable;
+		const interlaced = (flags & 0x40) !== 0;
+		const minCodeSize = u8();
+		const blocks = readSubBlocks();
+		let total = 0;
+		for (const b of blocks) total += b.length;
+		const data = new Uint8Array(total);
+		let offset = 0;
+		for (const b of blocks) {
+			data.set(b, offset);
+			offset += b.length;
+		}
+		if (!table) throw new Error("GIF にカラーテーブルがありません。");
+
+		const indices = lzwDecode(data, minCodeSize, w * h);
+		const saved = disposal === 3 ? new Uint8ClampedArray(canvas) : null;
+
+		// インターレースは 8 行おき(0) → 8 行おき(4) → 4 行おき(2) → 2 行おき(1) の順
+		const rowOrder: number[] = [];
+		if (interlaced) {
+			for (const [start, step] of [
+				[0, 8],
+				[4, 8],
+				[2, 4],
+				[1, 2],
+			]) {
+				for (let y = start; y < h; y += step) rowOrder.push(y);
+			}
+		}
+		for (let row = 0; row < h; row += 1) {
+			const y = interlaced ? rowOrder[row] : row;
+			const cy = top + y;
+			if (cy >= height) continue;
+			for (let x = 0; x < w; x += 1) {
+				const cx = left + x;
+				if (cx >= width) continue;
+				const index = indices[row * w + x];
+				if (index === transparentIndex) continue;
+				const dst = (cy * width + cx) * 4;
+				canvas[dst] = table[index * 3];
+				canvas[dst + 1] = table[index * 3 + 1];
+				canvas[dst + 2] = table[index * 3 + 2];
+				canvas[dst + 3] = 255;
+			}
+		}
+		frames.push({
+			image: { width, height, data: new Uint8ClampedArray(canvas) },
+			// 0〜10ms はブラウザと同じく 100ms として扱う
+			delay: delay <= 10 ? 100 : delay,
+		});
+
+		if (disposal === 2) {
+			for (let y = top; y < Math.min(height, top + h); y += 1) {
+				canvas.fill(
+					0,
+					(y * width + left) * 4,
+					(y * width + Math.min(width, left + w)) * 4,
+				);
+			}
+		} else if (saved) {
+			canvas.set(saved);
+		}
+		delay = 0;
+		disposal = 0;
+		transparentIndex = -1;
+	}
+
+	if (frames.length === 0) {
+		throw new Error("GIF にフレームがありません。");
+	}
+	return { width, height, frames, loopCount };
+};
+
+/**
+ * 色インデックス列を GIF の LZW で圧縮する。
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+	const clearCode = 1 << minCodeSize;
+	const eoiCode = clearCode + 1;
+	const out: number[] = [];
+	let bitBuf = 0;
+	let bitCount = 0;
+	let codeSize = minCodeSize + 1;
+	const emit = (code: number) => {
+		bitBuf |= code << bitCount;
+		bitCount += codeSize;
+		while (bitCount >= 8) {
+			out.push(bitBuf & 0xff);
+			bitBuf >>>= 8;
+			bitCount -= 8;
+		}
+	};
+
+	const table = new Map<number, number>();
+	let nextCode = eoiCode + 1;
+	emit(clearCode);
+	if (indices.length > 0) {
+		let prefix = indices[0];
+		for (let i = 1; i < indices.length; i += 1) {
+			const k = indices[i];
+			const key = (prefix << 8) | k;
+			const found = table.get(key);
+			if (found !== undefined) {
+				prefix = found;
+				continue;
+			}
+			emit(prefix);
+			if (nextCode < GIF_MAX_CODE) {
+				// デコーダ側は 1 コード遅れて辞書に追加するので、追加する直前に広げる
+				if (nextCode >= 1 << codeSize) codeSize += 1;
+				table.set(key, nextCode);
+				nextCode += 1;
+			} else {
+				emit(clearCode);
+				table.clear();
+				nextCode = eoiCode + 1;
+				codeSize = minCodeSize + 1;
+			}
+			prefix = k;
+		}
+		emit(prefix);
+	}
+	emit(eoiCode);
+	if (bitCount > 0) out.push(bitBuf & 0xff);
+	return Uint8Array.from(out);
+};
+
+// GIF は 1bit 透過なので、これ未満の alpha は透明にする
+const GIF_ALPHA_THRESHOLD = 128;
+
+/**
+ * フレーム列をアニメーション GIF にエンコードする。
+ * 全フレームで 1 つのグローバルパレット（最大 255 色 + 透明）を使う。
+ * 256 色を超える場合は OklabKMeans でまとめて減色する。
+ */
+export const encodeGif = (animation: Animation): Uint8Array<ArrayBuffer> => {
+	const { width, height, frames } = animation;
+	const pixelCount = width * height;
+
+	const pixels: PixelData[] = [];
+	const colors = new Set<number>();
+	for (const { image } of frames) {
+		for (let i = 0; i < pixelCount; i += 1) {
+			const r = image.data[i * 4];
+			const g = image.data[i * 4 + 1];
+			const b = image.data[i * 4 + 2];
+			const a = image.data[i * 4 + 3] >= GIF_ALPHA_THRESHOLD ? 255 : 0;
+			pixels.push({ r, g, b, alpha: a });
+			if (a) colors.add((r << 16) | (g << 8) | b);
+		}
+	}
+	const quantized =
+		colors.size > 255 ? new OklabKMeans(255).quantize(pixels) : pixels;
+
+	// 0 番は透明用
+	const palette: number[] = [0];
+	const indexOf = new Map<number, number>();
+	const indices = frames.map(() => new Uint8Array(pixelCount));
+	for (let f = 0; f < frames.length; f += 1) {
+		for (let i = 0; i < pixelCount; i += 1) {
+			const p = quantized[f * pixelCount + i];
+			if (!p.alpha) continue;
+			const key = (p.r << 16) | (p.g << 8) | p.b;
+			let index = indexOf.get(key);
+			if (index === undefined) {
+				index = palette.length;
+				palette.push(key);
+				indexOf.set(key, index);
+			}
+			indices[f][i] = index;
+		}
+	}
+
+	let tableBits = 1;
+	while (1 << tableBits < palette.length) tableBits += 1;
+	const minCodeSize = Math.max(2, tableBits);
+
+	const out: number[] = [];
+	const u16 = (v: number) => out.push(v & 0xff, (v >> 8) & 0xff);
+	const pushBlocks = (data: Uint8Array) => {
+		for (let i = 0; i < data.length; i += 255) {
+			const chunk = data.subarray(i, i + 255);
+			out.push(chunk.length, ...chunk);
+		}
+		out.push(0);
+	};
+
+	out.push(0x47, 0x49, 0x46, 0x38, 0x39, 0x61); // GIF89a
+	u16(width);
+	u16(height);
+	out.push(0x80 | (tableBits - 1), 0, 0);
+	for (let i = 0; i < 1 << tableBits; i += 1) {
+		const c = palette[i] ?? 0;
+		out.push((c >> 16) & 0xff, (c >> 8) & 0xff, c & 0xff);
+	}
+	if (frames.length > 1 && animation.loopCount !== 1) {
+		// NETSCAPE2.0: 繰り返し回数（0 = 無限）
+		out.push(
+			0x21,
+			0xff,
+			11,
+			...Array.from("NETSCAPE2.0", (c) => c.charCodeAt(0)),
+		);
+		out.push(3, 1);
+		u16(animation.loopCount === 0 ? 0 : animation.loopCount - 1);
+		out.push(0);
+	}
+	frames.forEach((frame, f) => {
+		// 透明を正しく出すため、毎フレーム背景（透明）に戻す (disposal = 2)
+		out.push(0x21, 0xf9, 4, (2 << 2) | 1);
+		u16(Math.round(frame.delay / 10));
+		out.push(0, 0);
+		out.push(0x2c);
+		u16(0);
+		u16(0);
+		u16(width);
+		u16(height);
+		out.push(0);
+		out.push(minCodeSize);
+		pushBlocks(lzwEncode(indices[f], minCodeSize));
+	});
+	out.push(0x3b);
+	return Uint8Array.from(out);
+};
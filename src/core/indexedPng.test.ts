@@ -0,0 +1,128 @@
+import { inflateSync } from "node:zlib";
+import { PNG } from "pngjs";
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import {
+	encodeIndexedPng,
+	getProcessPalette,
+	zlibCompress,
+} from "./indexedPng";
+
+const makeImage = (
+	width: number,
+	height: number,
+	color: (x: number, y: number) => [number, number, number, number],
+): RawImage => {
+	const data = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			data.set(color(x, y), (y * width + x) * 4);
+		}
+	}
+	return { width, height, data };
+};
+
+// PNG のチャンクを種類ごとに取り出す
+const readChunk = (bytes: Uint8Array, type: string): Uint8Array | undefined => {
+	let pos = 8;
+	while (pos + 8 <= bytes.length) {
+		const view = new DataView(bytes.buffer, bytes.byteOffset + pos);
+		const length = view.getUint32(0);
+		const name = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+		if (name === type) return bytes.subarray(pos + 8, pos + 8 + length);
+		pos += 12 + length;
+	}
+	return undefined;
+};
+
+describe("indexedPng.ts", () => {
+	describe("zlibCompress", () => {
+		it("zlib で元に戻せる", () => {
+			const input = new Uint8Array(5000);
+			for (let i = 0; i < input.length; i++) {
+				input[i] = i % 300 < 200 ? (i * 7) % 5 : (i * 31) & 0xff;
+			}
+			const compressed = zlibCompress(input);
+			expect(compressed.length).toBeLessThan(input.length);
+			expect(new Uint8Array(inflateSync(compressed))).toEqual(input);
+			expect(
+				new Uint8Array(inflateSync(zlibCompress(new Uint8Array(0)))),
+			).toEqual(new Uint8Array(0));
+		});
+	});
+
+	describe("encodeIndexedPng", () => {
+		const red = { r: 255, g: 0, b: 0 };
+		const green = { r: 0, g: 255, b: 0 };
+		const blue = { r: 0, g: 0, b: 255 };
+		const img = makeImage(7, 3, (x, y) => {
+			if (x === 0) return [0, 0, 0, 0];
+			if (x === 6) return [255, 255, 255, 128];
+			return (x + y) % 2 ? [255, 0, 0, 255] : [0, 0, 255, 255];
+		});
+
+		it("PLTE / tRNS 付きのインデックスカラーで、デコードすると元の画素になる", () => {
+			const bytes = encodeIndexedPng(img);
+			const ihdr = readChunk(bytes, "IHDR");
+			expect(ihdr?.[9]).toBe(3);
+			// 透明 + 赤 + 青 + 半透明の白 = 4 色なので 2bit
+			expect(ihdr?.[8]).toBe(2);
+
+			const decoded = PNG.sync.read(Buffer.from(bytes));
+			for (let i = 0; i < img.data.length; i += 4) {
+				if (img.data[i + 3] === 0) {
+					expect(decoded.data[i + 3]).toBe(0);
+				} else {
+					expect(Array.from(decoded.data.subarray(i, i + 4))).toEqual(
+						Array.from(img.data.subarray(i, i + 4)),
+					);
+				}
+			}
+		});
+
+		it("指定したパレットの順に並べ、透明色をインデックス 0 に置く", () => {
+			const bytes = encodeIndexedPng(img, { palette: [green, blue, red] });
+			expect(Array.from(readChunk(bytes, "PLTE") ?? [])).toEqual([
+				0, 0, 0, 0, 255, 0, 0, 0, 255, 255, 0, 0, 255, 255, 255,
+			]);
+			// 透明、不透明 3 色、半透明の白
+			expect(Array.from(readChunk(bytes, "tRNS") ?? [])).toEqual([
+				0, 255, 255, 255, 128,
+			]);
+		});
+
+		it("transparentFirst=false のときは透明色を末尾に置く", () => {
+			const opaque = makeImage(2, 1, (x) =>
+				x ? [255, 0, 0, 255] : [0, 0, 255, 255],
+			);
+			const bytes = encodeIndexedPng(opaque, { transparentFirst: false });
+			expect(Array.from(readChunk(bytes, "PLTE") ?? [])).toEqual([
+				0, 0, 255, 255, 0, 0,
+			]);
+			expect(readChunk(bytes, "tRNS")).toBeUndefined();
+			expect(readChunk(bytes, "IHDR")?.[8]).toBe(1);
+
+			const withHole = encodeIndexedPng(img, { transparentFirst: false });
+			expect(Array.from(readChunk(withHole, "tRNS") ?? [])).toEqual([
+				255, 255, 128, 0,
+			]);
+		});
+
+		it("256 色を超える場合はエラーになる", () => {
+			const many = makeImage(300, 1, (x) => [x & 0xff, x >> 8, 0, 255]);
+			expect(() => encodeIndexedPng(many)).toThrow();
+		});
+	});
+
+	describe("getProcessPalette", () => {
+		it("固定パレット、またはレトロ機のパレットを返す", () => {
+			expect(
+				getProcessPalette({ fixedPalette: [{ r: 1, g: 2, b: 3 }] }),
+			).toEqual([{ r: 1, g: 2, b: 3 }]);
+			expect(
+				getProcessPalette({ reduceColors: true, reduceColorMode: "gb_legacy" }),
+			).toHaveLength(4);
+			expect(getProcessPalette({ reduceColors: false })).toBeUndefined();
+		});
+	});
+});
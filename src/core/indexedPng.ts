@@ -0,0 +1,281 @@
+import { RETRO_PALETTES } from "../shared/config";
+import type { RawImage, RGB } from "../shared/types";
+import { type PngChunk, writePng } from "./apng";
+import type { ProcessOptions } from "./processor";
+
+export type IndexedPngOptions = {
+	/**
+	 * パレットの並び。ここにある色はこの順で（画像で使っていなくても）すべて書き出し、
+	 * 画像にあってここにない色（アウトラインの色や半透明の色など）は出てきた順に後ろへ足す。
+	 */
+	palette?: RGB[];
+	/** 透明色をインデックス 0 に置く（既定: true）。false のときは使う場合だけ末尾に置く */
+	transparentFirst?: boolean;
+};
+
+/** PNG のパレット（PLTE）に入る色数の上限 */
+const MAX_PALETTE_SIZE = 256;
+
+/** deflate の LZ77 の窓の大きさと一致長の範囲 */
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+/** 一致を探すときにたどるハッシュチェーンの長さの上限 */
+const MAX_CHAIN = 64;
+const HASH_BITS = 15;
+
+const LENGTH_BASE = [
+	3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+	83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+	0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+	5, 5, 0,
+];
+const DIST_BASE = [
+	1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+	1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DIST_EXTRA = [
+	0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+	11, 12, 12, 13, 13,
+];
+
+/** base 表の中で value 以下の最大の位置 */
+const findCode = (base: number[], value: number): number => {
+	let i = base.length - 1;
+	while (base[i] > value) i -= 1;
+	return i;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+	let a = 1;
+	let b = 0;
+	for (let i = 0; i < bytes.length; i += 1) {
+		a = (a + bytes[i]) % 65521;
+		b = (b + a) % 65521;
+	}
+	return ((b << 16) | a) >>> 0;
+};
+
+/**
+ * zlib 形式で圧縮する（固定ハフマン符号の 1 ブロック + ハッシュチェーンによる LZ77）。
+ * ドット絵のインデックス列は同じ並びの繰り返しが多いので、動的ハフマンなしでも十分に縮む。
+ */
+export const zlibCompress = (input: Uint8Array): Uint8Array => {
+	const out: number[] = [0x78, 0x01];
+	let bitBuf = 0;
+	let bitCount = 0;
+	const writeBits = (value: number, count: number) => {
+		bitBuf |= value << bitCount;
+		bitCount += count;
+		while (bitCount >= 8) {
+			out.push(bitBuf & 0xff);
+			bitBuf >>>= 8;
+			bitCount -= 8;
+		}
+	};
+	// ハフマン符号は上位ビットから詰める
+	const writeCode = (code: number, length: number) => {
+		let reversed = 0;
+		for (let i = 0; i < length; i += 1) {
+			reversed = (reversed << 1) | ((code >> i) & 1);
+		}
+		writeBits(reversed, length);
+	};
+	const writeLiteral = (symbol: number) => {
+		if (symbol < 144) writeCode(0x30 + symbol, 8);
+		else if (symbol < 256) writeCode(0x190 + symbol - 144, 9);
+		else if (symbol < 280) writeCode(symbol - 256, 7);
+		else writeCode(0xc0 + symbol - 280, 8);
+	};
+	const writeMatch = (length: number, distance: number) => {
+		const lc = findCode(LENGTH_BASE, length);
+		writeLiteral(257 + lc);
+		writeBits(length - LENGTH_BASE[lc], LENGTH_EXTRA[lc]);
+		const dc = findCode(DIST_BASE, distance);
+		writeCode(dc, 5);
+		writeBits(distance - DIST_BASE[dc], DIST_EXTRA[dc]);
+	};
+
+	// BFINAL = 1, BTYPE = 01（固定ハフマン）
+	writeBits(1, 1);
+	writeBits(1, 2);
+
+	const n = input.length;
+	const head = new Int32Array(1 << HASH_BITS).fill(-1);
+	const prev = new Int32Array(n);
+	const hashAt = (i: number) =>
+		((input[i] << 10) ^ (input[i + 1] << 5) ^ input[i + 2]) &
+		((1 << HASH_BITS) - 1);
+	const insert = (i: number) => {
+		if (i + MIN_MATCH > n) return;
+		const h = hashAt(i);
+		prev[i] = head[h];
+		head[h] = i;
+	};
+
+	let pos = 0;
+	while (pos < n) {
+		let bestLength = 0;
+		let bestDistance = 0;
+		if (pos + MIN_MATCH <= n) {
+			const maxLength = Math.min(MAX_MATCH, n - pos);
+			let candidate = head[hashAt(pos)];
+			let chain = MAX_CHAIN;
+			while (candidate >= 0 && pos - candidate <= WINDOW_SIZE && chain > 0) {
+				let length = 0;
+				while (
+					length < maxLength &&
+					input[candidate + length] === input[pos + length]
+				) {
+					length += 1;
+				}
+				if (length > bestLength) {
+					bestLength = length;
+					bestDistance = pos - candidate;
+					if (length === maxLength) break;
+				}
+				candidate = prev[candidate];
+				chain -= 1;
+			}
+		}
+		if (bestLength >= MIN_MATCH) {
+			writeMatch(bestLength, bestDistance);
+			for (let i = 0; i < bestLength; i += 1) insert(pos + i);
+			pos += bestLength;
+		} else {
+			writeLiteral(input[pos]);
+			insert(pos);
+			pos += 1;
+		}
+	}
+	writeLiteral(256);
+	if (bitCount > 0) out.push(bitBuf & 0xff);
+
+	const checksum = adler32(input);
+	out.push(
+		(checksum >>> 24) & 0xff,
+		(checksum >>> 16) & 0xff,
+		(checksum >>> 8) & 0xff,
+		checksum & 0xff,
+	);
+	return Uint8Array.from(out);
+};
+
+/**
+ * 処理の設定で決まるパレット（固定パレット、またはレトロ機のパレット）。減色しない場合などは undefined。
+ */
+export const getProcessPalette = (
+	options: ProcessOptions,
+): RGB[] | undefined => {
+	if (options.fixedPalette && options.fixedPalette.length > 0) {
+		return options.fixedPalette;
+	}
+	const paletteDef =
+		options.reduceColors && options.reduceColorMode
+			? RETRO_PALETTES[options.reduceColorMode]
+			: undefined;
+	return paletteDef?.colors.map((hex) => ({
+		r: parseInt(hex.slice(1, 3), 16),
+		g: parseInt(hex.slice(3, 5), 16),
+		b: parseInt(hex.slice(5, 7), 16),
+	}));
+};
+
+const TRANSPARENT_KEY = -1;
+
+/**
+ * インデックスカラー（PLTE + tRNS）の PNG にエンコードする。
+ * alpha 0 の画素はすべて 1 つの透明色にまとめ、半透明の色は tRNS で alpha を持つパレット色にする。
+ * ビット深度は色数に合わせて 1 / 2 / 4 / 8 から選ぶ。256 色を超える場合はエラー。
+ */
+export const encodeIndexedPng = (
+	img: RawImage,
+	options: IndexedPngOptions = {},
+): Uint8Array<ArrayBuffer> => {
+	const { width, height, data } = img;
+	const transparentFirst = options.transparentFirst ?? true;
+
+	// 色の鍵は alpha * 2^24 + RGB（透明は TRANSPARENT_KEY）
+	const keys: number[] = [];
+	const indexOf = new Map<number, number>();
+	const add = (key: number) => {
+		if (indexOf.has(key)) return;
+		indexOf.set(key, keys.length);
+		keys.push(key);
+	};
+	if (transparentFirst) add(TRANSPARENT_KEY);
+	for (const c of options.palette ?? []) {
+		add(255 * 0x1000000 + ((c.r << 16) | (c.g << 8) | c.b));
+	}
+	let hasTransparent = false;
+	for (let i = 0; i < data.length; i += 4) {
+		const a = data[i + 3];
+		if (a === 0) {
+			hasTransparent = true;
+			continue;
+		}
+		add(a * 0x1000000 + ((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]));
+	}
+	if (!transparentFirst && hasTransparent) add(TRANSPARENT_KEY);
+	if (keys.length > MAX_PALETTE_SIZE) {
+		throw new Error(
+			`インデックスカラーの PNG にできるのは ${MAX_PALETTE_SIZE} 色までです（${keys.length} 色）。`,
+		);
+	}
+
+	const plte = new Uint8Array(keys.length * 3);
+	const alphas = new Uint8Array(keys.length);
+	keys.forEach((key, i) => {
+		if (key === TRANSPARENT_KEY) return;
+		plte[i * 3] = (key >> 16) & 0xff;
+		plte[i * 3 + 1] = (key >> 8) & 0xff;
+		plte[i * 3 + 2] = key & 0xff;
+		alphas[i] = Math.floor(key / 0x1000000);
+	});
+	// tRNS は最後の不透明でない色までで足りる
+	let trnsLength = 0;
+	alphas.forEach((a, i) => {
+		if (a < 255) trnsLength = i + 1;
+	});
+
+	const bitDepth = [1, 2, 4, 8].find((d) => keys.length <= 1 << d) ?? 8;
+	const stride = Math.ceil((width * bitDepth) / 8);
+	const raw = new Uint8Array((stride + 1) * height);
+	for (let y = 0; y < height; y += 1) {
+		// フィルタは 0 (None)。インデックスの差分には意味がないため
+		const row = y * (stride + 1) + 1;
+		for (let x = 0; x < width; x += 1) {
+			const p = (y * width + x) * 4;
+			const a = data[p + 3];
+			const key =
+				a === 0
+					? TRANSPARENT_KEY
+					: a * 0x1000000 +
+						((data[p] << 16) | (data[p + 1] << 8) | data[p + 2]);
+			const index = indexOf.get(key) ?? 0;
+			const bit = x * bitDepth;
+			raw[row + (bit >> 3)] |= index << (8 - bitDepth - (bit & 7));
+		}
+	}
+
+	const ihdr = new Uint8Array(13);
+	const view = new DataView(ihdr.buffer);
+	view.setUint32(0, width);
+	view.setUint32(4, height);
+	ihdr[8] = bitDepth;
+	ihdr[9] = 3; // カラータイプ 3（インデックスカラー）
+	const chunks: PngChunk[] = [
+		{ type: "IHDR", data: ihdr },
+		{ type: "PLTE", data: plte },
+	];
+	if (trnsLength > 0) {
+		chunks.push({ type: "tRNS", data: alphas.subarray(0, trnsLength) });
+	}
+	chunks.push(
+		{ type: "IDAT", data: zlibCompress(raw) },
+		{ type: "IEND", data: new Uint8Array(0) },
+	);
+	return writePng(chunks);
+};
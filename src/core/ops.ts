@@ -1,4 +1,4 @@
-import type { Axis, Pixel, RawImage } from "../shared/types";
+import type { Axis, Pixel, PixelGrid, RawImage } from "../shared/types";
 
 export const getPixel = (
 	img: RawImage,
@@ -127,3 +127,55 @@ export const upscaleNearest = (img: RawImage, scale: number): RawImage => {
 		data: out,
 	};
 };
+
+/**
+ * デバッグ用: グリッドの境界線を画像に重ねて描く（元画像はコピーする）。
+ * colBounds/rowBounds があればそれを、無ければ cellW/cellH の等間隔の線を描く。
+ */
+export const drawGridLines = (
+	img: RawImage,
+	grid: PixelGrid,
+	color: Pixel = [255, 0, 255, 255],
+): RawImage => {
+	const out: RawImage = {
+		width: img.width,
+		height: img.height,
+		data: new Uint8ClampedArray(img.data),
+	};
+	const lines = (
+		bounds: number[] | undefined,
+		crop: number,
+		cell: number,
+		count: number | undefined,
+		length: number,
+	): number[] => {
+		if (bounds) return bounds.map((b) => Math.round(b));
+		const n = count ?? Math.floor((length - crop) / cell);
+		const result: number[] = [];
+		for (let k = 0; k <= n; k += 1) result.push(Math.round(crop + k * cell));
+		return result;
+	};
+	const xs = lines(
+		grid.colBounds,
+		grid.cropX ?? grid.offsetX,
+		grid.cellW,
+		grid.outW,
+		img.width,
+	);
+	const ys = lines(
+		grid.rowBounds,
+		grid.cropY ?? grid.offsetY,
+		grid.cellH,
+		grid.outH,
+		img.height,
+	);
+	for (const x of xs) {
+		if (x < 0 || x >= img.width) continue;
+		for (let y = 0; y < img.height; y += 1) setPixel(out, x, y, color);
+	}
+	for (const y of ys) {
+		if (y < 0 || y >= img.height) continue;
+		for (let x = 0; x < img.width; x += 1) setPixel(out, x, y, color);
+	}
+	return out;
+};
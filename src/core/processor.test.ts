@@ -4,8 +4,10 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { PNG } from "pngjs";
 import { beforeAll, describe, expect, it } from "vitest";
-import type { RawImage } from "../shared/types";
+import type { CellSampler, RawImage } from "../shared/types";
+import { linearToSrgb } from "./colorUtils";
 import {
+	downsample,
 	FastGridSearchFromTrimmed,
 	LegacyGridSearchFromTrimmed,
 	processImage,
@@ -690,6 +692,109 @@ describe("processImage", () => {
 		});
 	});
 
+	describe("dithering_*: Error diffusion family", () => {
+		let img: RawImage;
+
+		beforeAll(async () => {
+			const imgPath = fileURLToPath(
+				new URL(
+					"../../test/fixtures/dithering_floyd_steinberg.png",
+					import.meta.url,
+				),
+			);
+			img = await readPngAsRawImage(imgPath);
+		});
+
+		it.each([
+			["atkinson", "atkinson", false],
+			["jarvis_judice_ninke", "jarvis-judice-ninke", false],
+			["stucki", "stucki", false],
+			["burkes", "burkes", false],
+			["sierra", "sierra", false],
+			["sierra_two_row", "sierra-two-row", false],
+			["sierra_lite", "sierra-lite", false],
+			["floyd_steinberg_serpentine", "floyd-steinberg", true],
+		] as const)(
+			"%s: 期待画像と一致すること",
+			async (name, ditherMode, ditherSerpentine) => {
+				const expPath = fileURLToPath(
+					new URL(
+						`../../test/fixtures/dithering_${name}-expect.png`,
+						import.meta.url,
+					),
+				);
+				const expected = await readPngAsRawImage(expPath);
+
+				// 2色（白黒）＋ディザリング
+				const { result } = processImage(img, {
+					reduceColors: true,
+					reduceColorMode: "mono",
+					ditherMode,
+					ditherStrength: 100,
+					ditherSerpentine,
+					enableGridDetection: false,
+					bgExtractionMethod: "none",
+					preRemoveBackground: false,
+					postRemoveBackground: false,
+					removeInnerBackground: false,
+					trimToContent: false,
+				});
+
+				expect(result.width).toBe(expected.width);
+				expect(result.height).toBe(expected.height);
+				expectSameImage(result, expected);
+			},
+		);
+	});
+
+	describe("dithering_*: Pattern dithering", () => {
+		let img: RawImage;
+
+		beforeAll(async () => {
+			const imgPath = fileURLToPath(
+				new URL(
+					"../../test/fixtures/dithering_floyd_steinberg.png",
+					import.meta.url,
+				),
+			);
+			img = await readPngAsRawImage(imgPath);
+		});
+
+		it.each([
+			["yliluoma", "yliluoma"],
+			["knoll", "knoll"],
+		] as const)(
+			"%s_pico8: 期待画像と一致すること",
+			async (name, ditherMode) => {
+				const expPath = fileURLToPath(
+					new URL(
+						`../../test/fixtures/dithering_${name}_pico8-expect.png`,
+						import.meta.url,
+					),
+				);
+				const expected = await readPngAsRawImage(expPath);
+
+				// PICO-8 の固定パレット＋パターンディザ
+				const { result } = processImage(img, {
+					reduceColors: true,
+					reduceColorMode: "pico8",
+					ditherMode,
+					ditherStrength: 100,
+					enableGridDetection: false,
+					bgExtractionMethod: "none",
+					preRemoveBackground: false,
+					postRemoveBackground: false,
+					removeInnerBackground: false,
+					trimToContent: false,
+				});
+
+				expect(result.width).toBe(expected.width);
+				expect(result.height).toBe(expected.height);
+				expectSameImage(result, expected);
+			},
+		);
+	});
+
 	describe("enableGridDetection", () => {
 		beforeAll(() => {
 			cleanDebugDir("enableGridDetection");
@@ -791,6 +896,403 @@ describe("processImage", () => {
 		});
 	});
 
+	describe("manualGrid", () => {
+		// 3px セルの市松模様を (1, 2) ずらして配置した 20x20 画像
+		const mkImg = (): RawImage => {
+			const w = 20;
+			const h = 20;
+			const data = new Uint8ClampedArray(w * h * 4);
+			for (let y = 0; y < h; y += 1) {
+				for (let x = 0; x < w; x += 1) {
+					const cx = Math.floor((x - 1) / 3);
+					const cy = Math.floor((y - 2) / 3);
+					const v = (cx + cy) % 2 === 0 ? 0 : 255;
+					const idx = (y * w + x) * 4;
+					data[idx] = v;
+					data[idx + 1] = v;
+					data[idx + 2] = v;
+					data[idx + 3] = 255;
+				}
+			}
+			return { width: w, height: h, data };
+		};
+
+		it("指定したグリッドでそのまま縮小し、自動検出や指定ピクセルを使わない", () => {
+			const { result, grid, gridDiagnostics } = processImage(mkImg(), {
+				manualGrid: { cellW: 3, cellH: 3, offsetX: 1, offsetY: 2 },
+				forcePixelsW: 4,
+				forcePixelsH: 4,
+				trimToContent: false,
+				floatingMaxPixels: 0,
+			});
+
+			expect(grid).toMatchObject({
+				cellW: 3,
+				cellH: 3,
+				cropX: 1,
+				cropY: 2,
+				outW: 6,
+				outH: 6,
+			});
+			expect(result.width).toBe(6);
+			expect(result.height).toBe(6);
+			expect(gridDiagnostics).toBeUndefined();
+			// 各セルが市松模様の 1 マスに対応する
+			for (let y = 0; y < 6; y += 1) {
+				for (let x = 0; x < 6; x += 1) {
+					const expected = (x + y) % 2 === 0 ? 0 : 255;
+					expect(result.data[(y * 6 + x) * 4]).toBe(expected);
+				}
+			}
+		});
+
+		it("原点はセルサイズで折り返す", () => {
+			const { grid } = processImage(mkImg(), {
+				manualGrid: { cellW: 3, cellH: 3, offsetX: 7, offsetY: -1 },
+				trimToContent: false,
+				floatingMaxPixels: 0,
+			});
+			expect(grid.offsetX).toBe(1);
+			expect(grid.offsetY).toBe(2);
+		});
+	});
+
+	describe("perspectiveQuad / deskew", () => {
+		// 3px セルの 6x6 の市松模様を、灰色の 30x30 画像の (5, 7) に置く
+		const mkImg = (): RawImage => {
+			const size = 30;
+			const data = new Uint8ClampedArray(size * size * 4);
+			for (let y = 0; y < size; y += 1) {
+				for (let x = 0; x < size; x += 1) {
+					const inside = x >= 5 && x < 23 && y >= 7 && y < 25;
+					const cx = Math.floor((x - 5) / 3);
+					const cy = Math.floor((y - 7) / 3);
+					const v = inside ? ((cx + cy) % 2 === 0 ? 0 : 255) : 128;
+					data.set([v, v, v, 255], (y * size + x) * 4);
+				}
+			}
+			return { width: size, height: size, data };
+		};
+
+		it("4 点の四角形を長方形に写してから処理し、補正後の画像を debugHook に渡す", () => {
+			const stages = new Map<string, RawImage>();
+			const { result } = processImage(mkImg(), {
+				perspectiveQuad: [
+					{ x: 5, y: 7 },
+					{ x: 23, y: 7 },
+					{ x: 23, y: 25 },
+					{ x: 5, y: 25 },
+				],
+				manualGrid: { cellW: 3, cellH: 3, offsetX: 0, offsetY: 0 },
+				preRemoveBackground: false,
+				postRemoveBackground: false,
+				trimToContent: false,
+				floatingMaxPixels: 0,
+				debugHook: (name, img) => stages.set(name, img),
+			});
+
+			const corrected = stages.get("00b-geometry-corrected");
+			expect(corrected?.width).toBe(18);
+			expect(corrected?.height).toBe(18);
+			expect(result.width).toBe(6);
+			expect(result.height).toBe(6);
+			for (let y = 0; y < 6; y += 1) {
+				for (let x = 0; x < 6; x += 1) {
+					const expected = (x + y) % 2 === 0 ? 0 : 255;
+					expect(result.data[(y * 6 + x) * 4]).toBe(expected);
+				}
+			}
+		});
+
+		it("傾いていない画像は deskew でもそのまま処理する", () => {
+			const stages: string[] = [];
+			const options = {
+				manualGrid: { cellW: 3, cellH: 3, offsetX: 2, offsetY: 1 },
+				trimToContent: false,
+				floatingMaxPixels: 0,
+			};
+			const { result } = processImage(mkImg(), {
+				...options,
+				deskew: true,
+				debugHook: (name) => stages.push(name),
+			});
+			expect(stages).not.toContain("00b-geometry-corrected");
+			expect(result).toEqual(processImage(mkImg(), options).result);
+		});
+	});
+
+	describe("nonUniformGrid", () => {
+		// 後半だけセル幅が 7px に広がる 12x12 セルの市松模様（均一グリッドでは端で 4px ずれる）
+		const SIZES = [6, 6, 6, 6, 6, 6, 6, 6, 7, 7, 7, 7];
+		const mkImg = (): RawImage => {
+			const bounds = [0];
+			for (const s of SIZES) bounds.push(bounds[bounds.length - 1] + s);
+			const size = bounds[bounds.length - 1];
+			const cellOf = (p: number) => bounds.findIndex((b) => b > p) - 1;
+			const data = new Uint8ClampedArray(size * size * 4);
+			for (let y = 0; y < size; y += 1) {
+				for (let x = 0; x < size; x += 1) {
+					const v = (cellOf(x) + cellOf(y)) % 2 === 0 ? 0 : 255;
+					const idx = (y * size + x) * 4;
+					data[idx] = v;
+					data[idx + 1] = v;
+					data[idx + 2] = v;
+					data[idx + 3] = 255;
+				}
+			}
+			return { width: size, height: size, data };
+		};
+
+		it("列・行ごとの境界で縮小し、遠い側のセルもずれない", () => {
+			const { result, grid } = processImage(mkImg(), {
+				nonUniformGrid: true,
+				autoGridFromTrimmed: false,
+				trimToContent: false,
+				floatingMaxPixels: 0,
+			});
+
+			expect(grid.colBounds).toHaveLength(SIZES.length + 1);
+			expect(result.width).toBe(SIZES.length);
+			expect(result.height).toBe(SIZES.length);
+			for (let y = 0; y < SIZES.length; y += 1) {
+				for (let x = 0; x < SIZES.length; x += 1) {
+					const expected = (x + y) % 2 === 0 ? 0 : 255;
+					expect(result.data[(y * SIZES.length + x) * 4]).toBe(expected);
+				}
+			}
+		});
+	});
+
+	describe("cellSampler", () => {
+		const CELL = 6;
+		const PALETTE = [
+			[200, 40, 40],
+			[40, 180, 60],
+			[30, 60, 220],
+			[240, 220, 90],
+		];
+		// セルごとに主な色を決め、3 割の画素を他の色に散らした 8x8 セルの画像（疑似乱数で固定）
+		const mkNoisyImg = (): RawImage => {
+			const size = CELL * 8;
+			const data = new Uint8ClampedArray(size * size * 4);
+			let seed = 12345;
+			const rand = () => {
+				seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+				return seed / 0x7fffffff;
+			};
+			for (let y = 0; y < size; y += 1) {
+				for (let x = 0; x < size; x += 1) {
+					const base = (Math.floor(x / CELL) * 3 + Math.floor(y / CELL)) % 4;
+					const color =
+						rand() < 0.3 ? PALETTE[Math.floor(rand() * 4)] : PALETTE[base];
+					data.set([...color, 255], (y * size + x) * 4);
+				}
+			}
+			return { width: size, height: size, data };
+		};
+		const grid = { cellW: CELL, cellH: CELL, offsetX: 0, offsetY: 0, score: 0 };
+		const colorsOf = (img: RawImage): Set<string> => {
+			const colors = new Set<string>();
+			for (let i = 0; i < img.data.length; i += 4) {
+				if (img.data[i + 3] === 0) continue;
+				colors.add(Array.from(img.data.subarray(i, i + 4)).join(","));
+			}
+			return colors;
+		};
+
+		it("mode は元画像にある色だけを出力する", () => {
+			const img = mkNoisyImg();
+			const source = colorsOf(img);
+			for (const sampleWindow of [3, 5]) {
+				const down = downsample(img, grid, sampleWindow, false, "mode");
+				expect(down.width).toBe(8);
+				for (const color of colorsOf(down)) {
+					expect(source.has(color)).toBe(true);
+				}
+			}
+
+			const { result } = processImage(img, {
+				cellSampler: "mode",
+				manualGrid: { cellW: CELL, cellH: CELL, offsetX: 0, offsetY: 0 },
+				preRemoveBackground: false,
+				postRemoveBackground: false,
+				trimToContent: false,
+			});
+			expect(result.width).toBe(8);
+			for (const color of colorsOf(result)) {
+				expect(source.has(color)).toBe(true);
+			}
+		});
+
+		it("medoid・center も元画像にある色だけを出力し、median は無い色を作りうる", () => {
+			const img = mkNoisyImg();
+			const source = colorsOf(img);
+			const samplers: CellSampler[] = ["medoid", "center"];
+			for (const sampler of samplers) {
+				const down = downsample(img, grid, 5, false, sampler);
+				for (const color of colorsOf(down)) {
+					expect(source.has(color)).toBe(true);
+				}
+			}
+
+			// 赤・緑・青が 3 画素ずつのセルは、チャンネルごとの中央値では黒になる（mode は同数なので中央の青）
+			const rgb: RawImage = {
+				width: 3,
+				height: 3,
+				data: new Uint8ClampedArray(
+					[0, 1, 2, 1, 2, 0, 2, 0, 1].flatMap((c) => [
+						c === 0 ? 255 : 0,
+						c === 1 ? 255 : 0,
+						c === 2 ? 255 : 0,
+						255,
+					]),
+				),
+			};
+			const cell = { cellW: 3, cellH: 3, offsetX: 0, offsetY: 0, score: 0 };
+			expect(
+				Array.from(downsample(rgb, cell, 3, false, "median").data),
+			).toEqual([0, 0, 0, 255]);
+			expect(Array.from(downsample(rgb, cell, 3, false, "mode").data)).toEqual([
+				0, 0, 255, 255,
+			]);
+		});
+
+		it("alphaAware でも mode / medoid は選んだ画素の alpha を使い、linear_mean は alpha を平均する", () => {
+			// 3x3 のセルの 4 画素が半透明の赤（alpha 96）、5 画素が透明（alpha の中央値は 0）
+			const data = new Uint8ClampedArray(9 * 4);
+			for (let k = 0; k < 9; k += 1) {
+				data.set(k % 2 === 0 ? [0, 0, 0, 0] : [200, 40, 40, 96], k * 4);
+			}
+			const img = { width: 3, height: 3, data };
+			const cell = { cellW: 3, cellH: 3, offsetX: 0, offsetY: 0, score: 0 };
+			for (const sampler of ["mode", "medoid"] as const) {
+				expect(
+					Array.from(downsample(img, cell, 3, true, sampler).data),
+				).toEqual([200, 40, 40, 96]);
+			}
+			expect(downsample(img, cell, 3, true, "median").data[3]).toBe(0);
+			expect(downsample(img, cell, 3, true, "linear_mean").data[3]).toBe(
+				Math.round((96 * 4) / 9),
+			);
+		});
+
+		it("mode は散らばった画素に引きずられず、セルの主な色を選ぶ", () => {
+			const down = downsample(mkNoisyImg(), grid, 5, false, "mode");
+			let matches = 0;
+			for (let j = 0; j < 8; j += 1) {
+				for (let i = 0; i < 8; i += 1) {
+					const expected = PALETTE[(i * 3 + j) % 4];
+					const idx = (j * 8 + i) * 4;
+					if (
+						down.data[idx] === expected[0] &&
+						down.data[idx + 1] === expected[1] &&
+						down.data[idx + 2] === expected[2]
+					) {
+						matches += 1;
+					}
+				}
+			}
+			expect(matches).toBeGreaterThanOrEqual(60);
+		});
+
+		it("linear_mean はリニア RGB で平均し、center は中央の画素を使う", () => {
+			// 1px の白黒の市松模様（4x4 セルの中央 3x3 は白 5・黒 4）
+			const size = 4;
+			const data = new Uint8ClampedArray(size * size * 4);
+			for (let y = 0; y < size; y += 1) {
+				for (let x = 0; x < size; x += 1) {
+					const v = (x + y) % 2 === 0 ? 255 : 0;
+					data.set([v, v, v, 255], (y * size + x) * 4);
+				}
+			}
+			const img = { width: size, height: size, data };
+			const cell = { cellW: 4, cellH: 4, offsetX: 0, offsetY: 0, score: 0 };
+
+			const mean = downsample(img, cell, 3, false, "linear_mean");
+			expect(Array.from(mean.data)).toEqual([
+				linearToSrgb(5 / 9),
+				linearToSrgb(5 / 9),
+				linearToSrgb(5 / 9),
+				255,
+			]);
+			expect(downsample(img, cell, 3, false, "median").data[0]).toBe(255);
+			expect(
+				Array.from(downsample(img, cell, 3, false, "center").data),
+			).toEqual([255, 255, 255, 255]);
+		});
+	});
+
+	describe("gridDiagnostics", () => {
+		it("既定のオプション（トリム後推定）でも検出の内訳を返す", () => {
+			// 白背景の中央に 6px セルの市松模様（8x8 セル）を置いた 64x64 画像
+			const size = 64;
+			const data = new Uint8ClampedArray(size * size * 4).fill(255);
+			for (let y = 8; y < 56; y++) {
+				for (let x = 8; x < 56; x++) {
+					const on = (Math.floor((x - 8) / 6) + Math.floor((y - 8) / 6)) % 2;
+					data.fill(on ? 40 : 200, (y * size + x) * 4, (y * size + x) * 4 + 3);
+				}
+			}
+			const { grid, gridDiagnostics } = processImage({
+				width: size,
+				height: size,
+				data,
+			});
+			expect(grid.cellW).toBe(6);
+			expect(gridDiagnostics).toBeDefined();
+			expect(gridDiagnostics?.x.candidates[0].cellSize).toBe(6);
+			expect(gridDiagnostics?.lowConfidence).toBe(false);
+		});
+	});
+
+	describe("gridDetector", () => {
+		// 透明の余白の内側に、2 色をセルごとにランダムに置き（run が 1 セルで途切れる）画素ごとのノイズを乗せる
+		const CELLS = 24;
+		const CELL = 5;
+		const MARGIN = 3;
+		const makeDitheredSprite = (): { img: RawImage; on: boolean[] } => {
+			let seed = 12345;
+			const rand = () => {
+				seed = (seed * 1103515245 + 12345) % 2147483648;
+				return seed / 2147483648;
+			};
+			const size = CELLS * CELL + MARGIN * 2;
+			const on = Array.from({ length: CELLS * CELLS }, () => rand() < 0.5);
+			const data = new Uint8ClampedArray(size * size * 4);
+			for (let y = MARGIN; y < size - MARGIN; y++) {
+				for (let x = MARGIN; x < size - MARGIN; x++) {
+					const cx = Math.floor((x - MARGIN) / CELL);
+					const cy = Math.floor((y - MARGIN) / CELL);
+					const v = on[cy * CELLS + cx] ? 60 : 180;
+					const idx = (y * size + x) * 4;
+					for (let c = 0; c < 3; c++) {
+						data[idx + c] = v + Math.round((rand() - 0.5) * 40);
+					}
+					data[idx + 3] = 255;
+				}
+			}
+			return { img: { width: size, height: size, data }, on };
+		};
+
+		it("frequency はトリム後推定でもセルの位相を合わせ、ディザの多い画像をセルごとに縮小する", () => {
+			const { img, on } = makeDitheredSprite();
+			const runLength = processImage(img);
+			const frequency = processImage(img, { gridDetector: "frequency" });
+
+			// run 長ではトリム後の探索結果を原点 0 で使うため、セルの境界がずれる
+			expect(runLength.result.width).not.toBe(CELLS);
+			expect(frequency.gridDiagnostics?.x.source).toBe("frequency");
+			expect(frequency.grid.offsetX).toBe(MARGIN);
+			expect(frequency.grid.offsetY).toBe(MARGIN);
+			expect(frequency.result.width).toBe(CELLS);
+			expect(frequency.result.height).toBe(CELLS);
+			for (let i = 0; i < CELLS * CELLS; i++) {
+				const v = frequency.result.data[i * 4];
+				expect(v < 120).toBe(on[i]);
+			}
+		});
+	});
+
 	describe("Grid Search Strategies Consistency", () => {
 		it("FastモードとLegacyモードが同じ結果を導き出すか (シンプルな画像)", () => {
 			// 16x16 のグリッド画像を作成 (8x8セルが2x2並んでいる想定)
@@ -1,22 +1,54 @@
 import {
+	ATTRIBUTE_CELL_MODES,
 	clampInt,
+	clampNumber,
 	clampOptionalInt,
 	PROCESS_DEFAULTS,
 	PROCESS_RANGES,
 	RETRO_PALETTES,
 } from "../shared/config";
 import type {
+	AlphaPolicy,
+	BgExtractionMethod,
+	CellSampler,
 	DitherMode,
+	HardwareProfile,
+	ManualGrid,
 	OutlineStyle,
+	PerspectiveQuad,
 	PixelData,
 	PixelGrid,
 	RawImage,
 	RGB,
 } from "../shared/types";
-import { type DetectOptions, detectGrid } from "./detector";
+import { type AlphaOptions, applyAlphaPolicy } from "./alpha";
+import { quantizeAttributeCells } from "./attributeClash";
+import { linearToSrgb, rgbToOklab, srgbToLinear } from "./colorUtils";
+import {
+	type ConfidenceMap,
+	computeCellConfidence,
+	cropConfidenceMap,
+	padConfidenceMap,
+} from "./confidence";
+import {
+	type ConstraintViolation,
+	checkHardwareConstraints,
+	enforceHardwareConstraints,
+} from "./constraints";
+import {
+	type AxisDiagnostics,
+	type DetectOptions,
+	detectGridWithDiagnostics,
+	type GridDiagnostics,
+	refineGridBoundaries,
+} from "./detector";
+import { createDitherMask, type DitherMaskOptions } from "./ditherMask";
 import { floodFillTransparent } from "./floodfill";
+import { deskewImage, estimateSkew, warpPerspective } from "./geometry";
+import { drawGridLines } from "./ops";
 import { applyOutline } from "./outline";
 import { OklabKMeans, PaletteQuantizer } from "./quantizer";
+import { restoreCompressedImage, sharpenCellEdges } from "./restoration";
 
 const cloneImage = (img: RawImage): RawImage => ({
 	width: img.width,
@@ -36,19 +68,108 @@ const medianOf = (values: number[]): number => {
 	return values[mid];
 };
 
+/**
+ * 不均一グリッドのセル中心（境界 a..b の中央, 整数座標）。
+ */
+const boundsCenter = (bounds: number[], i: number): number =>
+	bounds[i] + Math.floor((bounds[i + 1] - bounds[i]) / 2);
+
+/**
+ * サンプルの中で最も多い色（RGBA が完全に一致するもの）の位置。
+ * 同数のときはセルの中心に近い方を選ぶ。
+ */
+const modeIndex = (
+	colors: number[],
+	dists: number[],
+	counts: Map<number, number>,
+): number => {
+	counts.clear();
+	for (const c of colors) counts.set(c, (counts.get(c) ?? 0) + 1);
+	let best = 0;
+	let bestCount = 0;
+	for (let k = 0; k < colors.length; k += 1) {
+		const count = counts.get(colors[k]) ?? 0;
+		if (count > bestCount || (count === bestCount && dists[k] < dists[best])) {
+			best = k;
+			bestCount = count;
+		}
+	}
+	return best;
+};
+
+/**
+ * サンプルの中で、他のサンプルとの Oklab の距離の和が最小の色（メドイド）の位置。
+ * 同じ和のときはセルの中心に近い方を選ぶ。
+ */
+const medoidIndex = (colors: number[], dists: number[]): number => {
+	const labs = colors.map((c) =>
+		rgbToOklab({ r: c >>> 24, g: (c >>> 16) & 0xff, b: (c >>> 8) & 0xff }),
+	);
+	let best = 0;
+	let bestSum = Number.POSITIVE_INFINITY;
+	for (let k = 0; k < labs.length; k += 1) {
+		let sum = 0;
+		for (const other of labs) {
+			sum += Math.hypot(
+				labs[k].L - other.L,
+				labs[k].a - other.a,
+				labs[k].b - other.b,
+			);
+		}
+		if (
+			sum < bestSum - 1e-9 ||
+			(Math.abs(sum - bestSum) <= 1e-9 && dists[k] < dists[best])
+		) {
+			best = k;
+			bestSum = sum;
+		}
+	}
+	return best;
+};
+
+const meanOf = (values: number[]): number => {
+	if (values.length === 0) return 0;
+	let sum = 0;
+	for (const v of values) sum += v;
+	return sum / values.length;
+};
+
+const linearMeanOf = (values: number[]): number => {
+	if (values.length === 0) return 0;
+	let sum = 0;
+	for (const v of values) sum += srgbToLinear(v);
+	return linearToSrgb(sum / values.length);
+};
+
+/**
+ * グリッドの各セルの中央付近 sampleWindow×sampleWindow のサンプルから色を決めて縮小する。
+ * cellSampler はセルの色の決め方:
+ * - "median": チャンネルごとの中央値（元画像に無い色になることがある）
+ * - "mode": 最も多い色 / "medoid": Oklab のメドイド / "center": 中央の画素（どれも元画像にある色）
+ * - "linear_mean": リニア RGB での平均（ぼけた境界の明るさが暗くならない）
+ * RGB は透明でないサンプルだけから決める（透明画素の色が混ざらない）。
+ * alpha は mode / medoid / center では選んだ画素の alpha、median では中央値、linear_mean では平均にする。
+ * alphaAware のとき、median / linear_mean の alpha は透明なサンプルも含めて求める（半透明の縁や影が不透明にならない）。
+ */
 export const downsample = (
 	img: RawImage,
 	grid: PixelGrid,
 	sampleWindow = 3,
+	alphaAware = false,
+	cellSampler: CellSampler = "median",
 ): RawImage => {
 	const cellW = grid.cellW;
 	const cellH = grid.cellH;
 	const cropX = grid.cropX ?? grid.offsetX;
 	const cropY = grid.cropY ?? grid.offsetY;
-	const outW =
-		grid.outW ?? Math.max(1, Math.floor((img.width - cropX) / cellW));
-	const outH =
-		grid.outH ?? Math.max(1, Math.floor((img.height - cropY) / cellH));
+	const colBounds = grid.colBounds;
+	const rowBounds = grid.rowBounds;
+	const outW = colBounds
+		? colBounds.length - 1
+		: (grid.outW ?? Math.max(1, Math.floor((img.width - cropX) / cellW)));
+	const outH = rowBounds
+		? rowBounds.length - 1
+		: (grid.outH ?? Math.max(1, Math.floor((img.height - cropY) / cellH)));
 	const half = Math.max(0, Math.floor(sampleWindow / 2));
 	const out = new Uint8ClampedArray(outW * outH * 4);
 
@@ -74,6 +195,13 @@ export const downsample = (
 	const valuesAllG: number[] = [];
 	const valuesAllB: number[] = [];
 	const valuesAllA: number[] = [];
+	// mode / medoid 用の、RGBA を 1 つの数にした色とセルの中心からの距離
+	const colors: number[] = [];
+	const colorDists: number[] = [];
+	const colorsAll: number[] = [];
+	const colorDistsAll: number[] = [];
+	const colorCounts = new Map<number, number>();
+	const picksColor = cellSampler === "mode" || cellSampler === "medoid";
 
 	for (let j = 0; j < outH; j += 1) {
 		for (let i = 0; i < outW; i += 1) {
@@ -86,6 +214,8 @@ export const downsample = (
 				cx = roundHalfUp(cropX + (i + 0.5) * cellW);
 				cy = roundHalfUp(cropY + (j + 0.5) * cellH);
 			}
+			if (colBounds) cx = boundsCenter(colBounds, i);
+			if (rowBounds) cy = boundsCenter(rowBounds, j);
 			const x0 = Math.min(imgWMax, Math.max(0, cx - half));
 			const x1 = Math.min(imgW, Math.max(1, cx + half + 1));
 			const y0 = Math.min(imgHMax, Math.max(0, cy - half));
@@ -99,6 +229,23 @@ export const downsample = (
 			valuesAllG.length = 0;
 			valuesAllB.length = 0;
 			valuesAllA.length = 0;
+			colors.length = 0;
+			colorDists.length = 0;
+			colorsAll.length = 0;
+			colorDistsAll.length = 0;
+
+			const outIdx = (j * outW + i) * 4;
+			if (cellSampler === "center") {
+				const idx =
+					(Math.min(imgHMax, Math.max(0, cy)) * imgW +
+						Math.min(imgWMax, Math.max(0, cx))) *
+					4;
+				out[outIdx] = imgData[idx];
+				out[outIdx + 1] = imgData[idx + 1];
+				out[outIdx + 2] = imgData[idx + 2];
+				out[outIdx + 3] = imgData[idx + 3];
+				continue;
+			}
 
 			for (let y = y0; y < y1; y += 1) {
 				const rowOffset = y * imgW;
@@ -118,16 +265,47 @@ export const downsample = (
 						valuesB.push(b);
 						valuesA.push(a);
 					}
+					if (picksColor) {
+						const color = ((r << 24) | (g << 16) | (b << 8) | a) >>> 0;
+						const dist = (x - cx) ** 2 + (y - cy) ** 2;
+						colorsAll.push(color);
+						colorDistsAll.push(dist);
+						if (a >= 16) {
+							colors.push(color);
+							colorDists.push(dist);
+						}
+					}
 				}
 			}
 
 			const useOpaque = valuesA.length > 0;
-			const r = medianOf(useOpaque ? valuesR : valuesAllR);
-			const g = medianOf(useOpaque ? valuesG : valuesAllG);
-			const b = medianOf(useOpaque ? valuesB : valuesAllB);
-			const a = medianOf(useOpaque ? valuesA : valuesAllA);
+			let r: number;
+			let g: number;
+			let b: number;
+			let a: number;
+			if (picksColor) {
+				const pool = useOpaque ? colors : colorsAll;
+				const dists = useOpaque ? colorDists : colorDistsAll;
+				const color =
+					pool[
+						cellSampler === "mode"
+							? modeIndex(pool, dists, colorCounts)
+							: medoidIndex(pool, dists)
+					];
+				r = color >>> 24;
+				g = (color >>> 16) & 0xff;
+				b = (color >>> 8) & 0xff;
+				a = color & 0xff;
+			} else {
+				const linear = cellSampler === "linear_mean";
+				const average = linear ? linearMeanOf : medianOf;
+				r = average(useOpaque ? valuesR : valuesAllR);
+				g = average(useOpaque ? valuesG : valuesAllG);
+				b = average(useOpaque ? valuesB : valuesAllB);
+				const alphas = useOpaque && !alphaAware ? valuesA : valuesAllA;
+				a = linear ? meanOf(alphas) : medianOf(alphas);
+			}
 
-			const outIdx = (j * outW + i) * 4;
 			out[outIdx] = r;
 			out[outIdx + 1] = g;
 			out[outIdx + 2] = b;
@@ -148,10 +326,14 @@ export const sampleRawImage = (img: RawImage, grid: PixelGrid): RawImage => {
 	const cellH = grid.cellH;
 	const cropX = grid.cropX ?? grid.offsetX;
 	const cropY = grid.cropY ?? grid.offsetY;
-	const outW =
-		grid.outW ?? Math.max(1, Math.floor((img.width - cropX) / cellW));
-	const outH =
-		grid.outH ?? Math.max(1, Math.floor((img.height - cropY) / cellH));
+	const colBounds = grid.colBounds;
+	const rowBounds = grid.rowBounds;
+	const outW = colBounds
+		? colBounds.length - 1
+		: (grid.outW ?? Math.max(1, Math.floor((img.width - cropX) / cellW)));
+	const outH = rowBounds
+		? rowBounds.length - 1
+		: (grid.outH ?? Math.max(1, Math.floor((img.height - cropY) / cellH)));
 	const out = new Uint8ClampedArray(outW * outH * 4);
 
 	const imgData = img.data;
@@ -159,13 +341,17 @@ export const sampleRawImage = (img: RawImage, grid: PixelGrid): RawImage => {
 	const imgH = img.height;
 
 	for (let j = 0; j < outH; j += 1) {
-		const cy = Math.floor(cropY + (j + 0.5) * cellH);
+		const cy = rowBounds
+			? boundsCenter(rowBounds, j)
+			: Math.floor(cropY + (j + 0.5) * cellH);
 		if (cy < 0 || cy >= imgH) continue;
 		const rowOffset = cy * imgW;
 		const outRowOffset = j * outW;
 
 		for (let i = 0; i < outW; i += 1) {
-			const cx = Math.floor(cropX + (i + 0.5) * cellW);
+			const cx = colBounds
+				? boundsCenter(colBounds, i)
+				: Math.floor(cropX + (i + 0.5) * cellW);
 			if (cx < 0 || cx >= imgW) continue;
 
 			const srcIdx = (rowOffset + cx) * 4;
@@ -236,6 +422,23 @@ export const resizeRawImageNearest = (
 	return { width: dstW, height: dstH, data: out };
 };
 
+/**
+ * 不均一グリッドの境界を、平均セル幅で前後に延長する（アウトラインで出力が広がったとき用）。
+ */
+const extendBounds = (
+	bounds: number[],
+	before: number,
+	after: number,
+): number[] => {
+	const n = bounds.length - 1;
+	const avg = n > 0 ? (bounds[n] - bounds[0]) / n : 1;
+	const out: number[] = [];
+	for (let k = before; k > 0; k -= 1) out.push(bounds[0] - k * avg);
+	out.push(...bounds);
+	for (let k = 1; k <= after; k += 1) out.push(bounds[n] + k * avg);
+	return out;
+};
+
 const cropRawImageNearestFromGrid = (
 	img: RawImage,
 	grid: PixelGrid,
@@ -264,10 +467,25 @@ export type ProcessResult = {
 	 */
 	compareBefore: RawImage;
 	/**
-	 * Comparison view "before" image, but sanitized using the same downsample/median sampling
+	 * Comparison view "before" image, but sanitized using the same downsample/cell sampler
 	 * settings (grid detection + color sampling) as the processing pipeline.
 	 */
 	compareBeforeSanitized: RawImage;
+	/**
+	 * 自動グリッド検出(detectGrid)の候補とスコアの内訳。
+	 * 自動検出のときに設定される（トリム後推定ではトリム後の画像での内訳。強制サイズ指定・手動グリッドの場合は undefined）。
+	 */
+	gridDiagnostics?: GridDiagnostics;
+	/**
+	 * 機種の制約（hardwareProfile）に収まらない範囲。hardwareProfile を指定したときだけ設定される。
+	 */
+	constraintViolations?: ConstraintViolation[];
+	/**
+	 * result の画素ごとの確からしさ（セルの中の色のばらつきから求める, 0〜1）。
+	 * 低い画素はセルが複数の色にまたがっていて、縮小で色を選びきれなかった所。
+	 * グリッドで縮小したときだけ設定される（enableGridDetection=false の場合は undefined）。
+	 */
+	confidence?: ConfidenceMap;
 };
 
 export type ProcessOptions = DetectOptions & {
@@ -283,6 +501,35 @@ export type ProcessOptions = DetectOptions & {
 	 */
 	forcePixelsW?: number;
 	forcePixelsH?: number;
+	/**
+	 * 手動で指定したグリッド（元画像のピクセル座標）。
+	 * 指定時は detectGrid / トリム後のグリッド推定を行わず、このグリッドで縮小する。
+	 * forcePixelsW/H や enableGridDetection=false よりも優先される。
+	 * deskew / perspectiveQuad で補正するときは、補正後の画像の座標で指定する。
+	 */
+	manualGrid?: ManualGrid;
+	/**
+	 * 背景除去とグリッド検出の前に、横の辺・縦の辺の主な向きから回転と斜めの歪みを推定して打ち消す。
+	 * 傾いてスキャンした画像や、斜めから撮った写真向け。perspectiveQuad の指定時は使わない。
+	 */
+	deskew?: boolean;
+	/**
+	 * 元画像の上で指定した 4 点（左上・右上・右下・左下）。
+	 * 指定時は、背景除去とグリッド検出の前にこの四角形を射影変換で長方形の画像に写す（モニターを撮った写真など）。
+	 */
+	perspectiveQuad?: PerspectiveQuad;
+	/**
+	 * JPEG 圧縮や拡大縮小で劣化した画像を直してから処理する。
+	 * グリッド検出の前に 8×8 のブロックノイズ・リンギングと色のにじみを均し、
+	 * 縮小の前にセルの大きさに合わせてぼけた輪郭を鋭くする。
+	 */
+	restoreArtifacts?: boolean;
+	/**
+	 * 自動検出したグリッドを、エッジに沿って列・行ごとの境界を持つ不均一グリッドに補正する。
+	 * AI 生成の「ドット絵風」画像など、セル境界が少しずつずれていく入力向け。
+	 * 手動グリッド・指定ピクセル時は使わない。
+	 */
+	nonUniformGrid?: boolean;
 	/**
 	 * 背景除去（pre/post/トリム用マスク）で、四隅と近い背景色を画像全体で透過にする。
 	 * 四隅から連結していない「内側の背景色」（例: ドーナツ穴）も透過できる。
@@ -290,6 +537,11 @@ export type ProcessOptions = DetectOptions & {
 	removeInnerBackground?: boolean;
 	backgroundTolerance?: number;
 	sampleWindow?: number;
+	/**
+	 * 縮小でセルの色を決める方法（既定は "median"）。
+	 * "mode" / "medoid" / "center" は元画像にある色だけを出力する。
+	 */
+	cellSampler?: CellSampler;
 	trimToContent?: boolean;
 	trimAlphaThreshold?: number;
 	/**
@@ -297,6 +549,10 @@ export type ProcessOptions = DetectOptions & {
 	 * 0 のときは浮きノイズ除去をスキップする。
 	 */
 	floatingMaxPixels?: number;
+	/**
+	 * floatingMaxPixels 未指定時に、入力画像の総ピクセル数に対する割合(%)から上限を算出する。
+	 */
+	floatingMaxPercent?: number;
 	/**
 	 * trimToContent=true のとき、背景除去→BBoxクロップした領域から出力グリッド(outW/outH)を推定する。
 	 */
@@ -334,6 +590,47 @@ export type ProcessOptions = DetectOptions & {
 	 * ディザリング強度 (0-100)。0 のときはディザリングなし。
 	 */
 	ditherStrength?: number;
+	/**
+	 * 誤差拡散ディザリングを蛇行走査（奇数行は右から左）で行う。
+	 * 左から右へだけ走査したときに出る斜めの筋を抑える。
+	 */
+	ditherSerpentine?: boolean;
+	/**
+	 * 近傍の色にばらつきのある所（グラデーション）だけをディザリングし、
+	 * 単色の塗りや 1px の線はディザリングせずに最も近い色にする。
+	 */
+	ditherMasking?: boolean;
+	/**
+	 * ditherMasking でディザリングする近傍の Oklab の標準偏差のしきい値（×1000, 0-100）。
+	 */
+	ditherMaskThreshold?: number;
+	/**
+	 * ディザリングしない所を黒（または透明）で塗ったマスク画像。
+	 * 減色する画像（アウトライン前の出力）の座標で、大きさが違う場合は伸縮して当てる。
+	 */
+	ditherMask?: RawImage;
+	/**
+	 * 半透明の扱い。"binary" は alphaThreshold で 2 値化、"quantize" は alphaLevels 段階に丸め、
+	 * 減色も RGBA で行う（半透明の光や影を不透明の色とは別の色として残す）。
+	 */
+	alphaPolicy?: AlphaPolicy;
+	/**
+	 * alphaPolicy="binary" で不透明にする alpha の下限 (1-255)
+	 */
+	alphaThreshold?: number;
+	/**
+	 * alphaPolicy="quantize" の alpha の段階数（0 と 255 を含む, 2-16）
+	 */
+	alphaLevels?: number;
+	/**
+	 * 出力が機種のタイルの制約（8×8 のタイル・NES は 16×16 px ごとの色数とパレットの数）に
+	 * 収まるかを確かめる機種。結果の constraintViolations に収まらない範囲が入る。
+	 */
+	hardwareProfile?: HardwareProfile;
+	/**
+	 * hardwareProfile の制約に収まるように、範囲ごとに最も近いサブパレットへ減色し直す。
+	 */
+	enforceHardwareConstraints?: boolean;
 	/**
 	 * 固定パレット
 	 */
@@ -341,13 +638,7 @@ export type ProcessOptions = DetectOptions & {
 	/**
 	 * 背景抽出方法
 	 */
-	bgExtractionMethod?:
-		| "none"
-		| "top-left"
-		| "bottom-left"
-		| "top-right"
-		| "bottom-right"
-		| "rgb";
+	bgExtractionMethod?: BgExtractionMethod;
 	/**
 	 * RGB指定時の背景色 (#rrggbb)
 	 */
@@ -375,17 +666,87 @@ const getGlobalDebugHook = (): ProcessOptions["debugHook"] | undefined => {
 		: undefined;
 };
 
+const floatingPercentToPixels = (
+	percent: number,
+	totalPixels: number,
+): number => {
+	const p = clampNumber(percent, PROCESS_RANGES.floatingMaxPercent);
+	if (p <= 0) return 0;
+	return Math.min(totalPixels, Math.max(1, Math.ceil((p / 100) * totalPixels)));
+};
+
+const normalizeManualGrid = (
+	grid: ManualGrid | undefined,
+): ManualGrid | undefined => {
+	if (!grid) return undefined;
+	const cellW = clampNumber(grid.cellW, PROCESS_RANGES.manualGridCell);
+	const cellH = clampNumber(grid.cellH, PROCESS_RANGES.manualGridCell);
+	const offset = (v: number, cell: number) =>
+		Number.isFinite(v) ? ((v % cell) + cell) % cell : 0;
+	return {
+		cellW,
+		cellH,
+		offsetX: offset(grid.offsetX, cellW),
+		offsetY: offset(grid.offsetY, cellH),
+	};
+};
+
+const normalizePerspectiveQuad = (
+	quad: PerspectiveQuad | undefined,
+): PerspectiveQuad | undefined => {
+	if (quad?.length !== 4) return undefined;
+	const valid = quad.every((p) => Number.isFinite(p.x) && Number.isFinite(p.y));
+	return valid
+		? (quad.map((p) => ({ x: p.x, y: p.y })) as PerspectiveQuad)
+		: undefined;
+};
+
+/**
+ * 手動グリッドを画像サイズに当てはめ、原点から始まる完全なセルだけを切り出す PixelGrid にする。
+ */
+export const gridFromManual = (
+	width: number,
+	height: number,
+	manual: ManualGrid,
+): PixelGrid => {
+	const outW = Math.max(1, Math.floor((width - manual.offsetX) / manual.cellW));
+	const outH = Math.max(
+		1,
+		Math.floor((height - manual.offsetY) / manual.cellH),
+	);
+	return {
+		cellW: manual.cellW,
+		cellH: manual.cellH,
+		offsetX: manual.offsetX,
+		offsetY: manual.offsetY,
+		outW,
+		outH,
+		cropX: manual.offsetX,
+		cropY: manual.offsetY,
+		cropW: outW * manual.cellW,
+		cropH: outH * manual.cellH,
+		score: 0,
+	};
+};
+
 const normalizeProcessOptions = (
 	options: ProcessOptions | undefined,
+	totalPixels: number,
 ): {
 	detect: DetectOptions;
 	preRemoveBackground: boolean;
 	postRemoveBackground: boolean;
 	forcePixelsW?: number;
 	forcePixelsH?: number;
+	manualGrid?: ManualGrid;
+	deskew: boolean;
+	perspectiveQuad?: PerspectiveQuad;
+	restoreArtifacts: boolean;
+	nonUniformGrid: boolean;
 	removeInnerBackground: boolean;
 	backgroundTolerance: number;
 	sampleWindow: number;
+	cellSampler: CellSampler;
 	trimToContent: boolean;
 	trimAlphaThreshold: number;
 	autoGridFromTrimmed: boolean;
@@ -396,17 +757,16 @@ const normalizeProcessOptions = (
 	ditherMode: DitherMode;
 	colorCount: number;
 	ditherStrength: number;
+	ditherSerpentine: boolean;
+	ditherMask: DitherMaskOptions;
+	alpha: AlphaOptions;
+	hardwareProfile: HardwareProfile;
+	enforceHardwareConstraints: boolean;
 	fixedPalette?: RGB[];
 	outlineStyle: OutlineStyle;
 	outlineColor: RGB;
 	floatingMaxPixels: number;
-	bgExtractionMethod:
-		| "none"
-		| "top-left"
-		| "bottom-left"
-		| "top-right"
-		| "bottom-right"
-		| "rgb";
+	bgExtractionMethod: BgExtractionMethod;
 	bgRgb?: string;
 	debug?: boolean;
 	debugHook?: ProcessOptions["debugHook"];
@@ -435,6 +795,12 @@ const normalizeProcessOptions = (
 		raw.forcePixelsH,
 		PROCESS_RANGES.forcePixelsH,
 	);
+	const manualGrid = normalizeManualGrid(raw.manualGrid);
+	const deskew = raw.deskew ?? PROCESS_DEFAULTS.deskew;
+	const perspectiveQuad = normalizePerspectiveQuad(raw.perspectiveQuad);
+	const restoreArtifacts =
+		raw.restoreArtifacts ?? PROCESS_DEFAULTS.restoreArtifacts;
+	const nonUniformGrid = raw.nonUniformGrid ?? PROCESS_DEFAULTS.nonUniformGrid;
 	const removeInnerBackground =
 		raw.removeInnerBackground ?? PROCESS_DEFAULTS.removeInnerBackground;
 	const backgroundTolerance = clampInt(
@@ -445,6 +811,7 @@ const normalizeProcessOptions = (
 		raw.sampleWindow ?? PROCESS_RANGES.sampleWindow.default,
 		PROCESS_RANGES.sampleWindow,
 	);
+	const cellSampler = raw.cellSampler ?? PROCESS_DEFAULTS.cellSampler;
 	const trimToContent = raw.trimToContent ?? PROCESS_DEFAULTS.trimToContent;
 	const trimAlphaThreshold = clampInt(
 		raw.trimAlphaThreshold ?? PROCESS_RANGES.trimAlphaThreshold.default,
@@ -468,12 +835,42 @@ const normalizeProcessOptions = (
 		raw.ditherStrength ?? PROCESS_DEFAULTS.ditherStrength,
 		PROCESS_RANGES.ditherStrength,
 	);
+	const ditherSerpentine =
+		raw.ditherSerpentine ?? PROCESS_DEFAULTS.ditherSerpentine;
+	const ditherMask: DitherMaskOptions = {
+		gradientOnly: raw.ditherMasking ?? PROCESS_DEFAULTS.ditherMasking,
+		threshold: clampInt(
+			raw.ditherMaskThreshold ?? PROCESS_RANGES.ditherMaskThreshold.default,
+			PROCESS_RANGES.ditherMaskThreshold,
+		),
+		userMask: raw.ditherMask,
+	};
+	const alpha: AlphaOptions = {
+		policy: raw.alphaPolicy ?? PROCESS_DEFAULTS.alphaPolicy,
+		threshold: clampInt(
+			raw.alphaThreshold ?? PROCESS_RANGES.alphaThreshold.default,
+			PROCESS_RANGES.alphaThreshold,
+		),
+		levels: clampInt(
+			raw.alphaLevels ?? PROCESS_RANGES.alphaLevels.default,
+			PROCESS_RANGES.alphaLevels,
+		),
+	};
+
+	const hardwareProfile =
+		raw.hardwareProfile ?? PROCESS_DEFAULTS.hardwareProfile;
+	const enforceHardwareConstraints =
+		raw.enforceHardwareConstraints ??
+		PROCESS_DEFAULTS.enforceHardwareConstraints;
 
 	const outlineStyle = raw.outlineStyle ?? PROCESS_DEFAULTS.outlineStyle;
 	const outlineColor = raw.outlineColor ?? PROCESS_DEFAULTS.outlineColor;
 
 	const floatingMaxPixels = clampInt(
-		raw.floatingMaxPixels ?? PROCESS_DEFAULTS.floatingMaxPixels,
+		raw.floatingMaxPixels ??
+			(raw.floatingMaxPercent !== undefined
+				? floatingPercentToPixels(raw.floatingMaxPercent, totalPixels)
+				: PROCESS_DEFAULTS.floatingMaxPixels),
 		PROCESS_RANGES.floatingMaxPixels,
 	);
 	const bgExtractionMethod = raw.bgExtractionMethod ?? "top-left";
@@ -485,9 +882,15 @@ const normalizeProcessOptions = (
 		postRemoveBackground,
 		forcePixelsW,
 		forcePixelsH,
+		manualGrid,
+		deskew,
+		perspectiveQuad,
+		restoreArtifacts,
+		nonUniformGrid,
 		removeInnerBackground,
 		backgroundTolerance,
 		sampleWindow,
+		cellSampler,
 		trimToContent,
 		trimAlphaThreshold,
 		autoGridFromTrimmed,
@@ -498,6 +901,11 @@ const normalizeProcessOptions = (
 		ditherMode,
 		colorCount,
 		ditherStrength,
+		ditherSerpentine,
+		ditherMask,
+		alpha,
+		hardwareProfile,
+		enforceHardwareConstraints,
 		fixedPalette: raw.fixedPalette,
 		outlineStyle,
 		outlineColor,
@@ -513,13 +921,7 @@ const normalizeProcessOptions = (
 const removeBackgroundByFloodFill = (
 	img: RawImage,
 	tolerance: number,
-	method:
-		| "none"
-		| "top-left"
-		| "bottom-left"
-		| "top-right"
-		| "bottom-right"
-		| "rgb" = "top-left",
+	method: BgExtractionMethod = "top-left",
 	bgRgb?: string,
 ): RawImage => {
 	if (method === "none") return cloneImage(img);
@@ -581,13 +983,7 @@ const removeBackground = (
 	tolerance: number,
 	removeInnerBackground: boolean,
 	bgTargets: Array<[number, number, number]>,
-	method:
-		| "none"
-		| "top-left"
-		| "bottom-left"
-		| "top-right"
-		| "bottom-right"
-		| "rgb" = "top-left",
+	method: BgExtractionMethod = "top-left",
 	bgRgb?: string,
 ): RawImage => {
 	if (method === "none") return cloneImage(img);
@@ -622,15 +1018,30 @@ const removeBackground = (
 	return out;
 };
 
+/**
+ * processImage と同じ背景設定で背景を透過した画像を返す（スプライトシートの分割などに使う）。
+ */
+export const maskBackground = (
+	img: RawImage,
+	options: ProcessOptions = {},
+): RawImage => {
+	const o = normalizeProcessOptions(options, img.width * img.height);
+	const bgTargets = o.removeInnerBackground
+		? getBackgroundTargets(img, o.bgExtractionMethod, o.bgRgb, 16)
+		: [];
+	return removeBackground(
+		img,
+		o.backgroundTolerance,
+		o.removeInnerBackground,
+		bgTargets,
+		o.bgExtractionMethod,
+		o.bgRgb,
+	);
+};
+
 const getBackgroundTargets = (
 	img: RawImage,
-	method:
-		| "none"
-		| "top-left"
-		| "bottom-left"
-		| "top-right"
-		| "bottom-right"
-		| "rgb",
+	method: BgExtractionMethod,
 	bgRgb?: string,
 	alphaThreshold = 16,
 ): Array<[number, number, number]> => {
@@ -669,110 +1080,138 @@ const getBackgroundTargets = (
 	return targets;
 };
 
-const removeSmallFloatingComponentsInPlace = (
-	working: RawImage,
-	masked: RawImage,
+export type OpaqueComponent = {
+	/** labels の値（1 始まり） */
+	id: number;
+	size: number;
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+};
+
+/**
+ * alpha >= alphaThreshold の画素を 4 近傍でつないだ連結成分にラベル付けする。
+ * labels は画素ごとの成分 id（0 は透明）。成分は走査順（左上から）に並ぶ。
+ */
+export const labelOpaqueComponents = (
+	img: RawImage,
 	alphaThreshold: number,
-	maxPixels: number,
-): { removedComponents: number; removedPixels: number } => {
-	if (maxPixels <= 0) return { removedComponents: 0, removedPixels: 0 };
-	if (working.width !== masked.width || working.height !== masked.height) {
-		throw new Error("working と masked のサイズが一致しません。");
-	}
-	const w = masked.width;
-	const h = masked.height;
+): { labels: Int32Array; components: OpaqueComponent[] } => {
+	const w = img.width;
+	const h = img.height;
 	const n = w * h;
-	const visited = new Uint8Array(n);
-
-	let compId = 0;
-	let largestId = -1;
-	let largestSize = 0;
-	const small: Array<{ id: number; pixels: number[]; size: number }> = [];
+	const labels = new Int32Array(n);
+	const components: OpaqueComponent[] = [];
 
 	const isOpaque = (p: number): boolean =>
-		masked.data[p * 4 + 3] >= alphaThreshold;
+		img.data[p * 4 + 3] >= alphaThreshold;
 
 	for (let p = 0; p < n; p += 1) {
-		if (visited[p]) continue;
+		if (labels[p] !== 0) continue;
 		if (!isOpaque(p)) continue;
 
-		compId += 1;
-		const id = compId;
+		const id = components.length + 1;
 		const queue: number[] = [p];
-		visited[p] = 1;
+		labels[p] = id;
 
 		let size = 0;
-		let pixels: number[] = [];
-		let storing = true;
+		let minX = w;
+		let minY = h;
+		let maxX = -1;
+		let maxY = -1;
 
 		while (queue.length > 0) {
 			const cur = queue.pop() as number;
 			size += 1;
-			if (storing) {
-				pixels.push(cur);
-				if (pixels.length > maxPixels) {
-					// これ以上は除去対象にならないので、記録をやめる
-					storing = false;
-					pixels = [];
-				}
-			}
 
 			const x = cur % w;
 			const y = (cur / w) | 0;
+			if (x < minX) minX = x;
+			if (y < minY) minY = y;
+			if (x > maxX) maxX = x;
+			if (y > maxY) maxY = y;
 
 			// 4-neighborhood
 			if (x > 0) {
 				const p2 = cur - 1;
-				if (!visited[p2] && isOpaque(p2)) {
-					visited[p2] = 1;
+				if (labels[p2] === 0 && isOpaque(p2)) {
+					labels[p2] = id;
 					queue.push(p2);
 				}
 			}
 			if (x + 1 < w) {
 				const p2 = cur + 1;
-				if (!visited[p2] && isOpaque(p2)) {
-					visited[p2] = 1;
+				if (labels[p2] === 0 && isOpaque(p2)) {
+					labels[p2] = id;
 					queue.push(p2);
 				}
 			}
 			if (y > 0) {
 				const p2 = cur - w;
-				if (!visited[p2] && isOpaque(p2)) {
-					visited[p2] = 1;
+				if (labels[p2] === 0 && isOpaque(p2)) {
+					labels[p2] = id;
 					queue.push(p2);
 				}
 			}
 			if (y + 1 < h) {
 				const p2 = cur + w;
-				if (!visited[p2] && isOpaque(p2)) {
-					visited[p2] = 1;
+				if (labels[p2] === 0 && isOpaque(p2)) {
+					labels[p2] = id;
 					queue.push(p2);
 				}
 			}
 		}
 
-		if (size > largestSize) {
-			largestSize = size;
-			largestId = id;
-		}
-		// 除去候補（小さいもの）だけ座標を保持しておく
-		if (size <= maxPixels && pixels.length > 0) {
-			small.push({ id, pixels, size });
-		}
+		components.push({
+			id,
+			size,
+			x: minX,
+			y: minY,
+			w: maxX - minX + 1,
+			h: maxY - minY + 1,
+		});
+	}
+	return { labels, components };
+};
+
+const removeSmallFloatingComponentsInPlace = (
+	working: RawImage,
+	masked: RawImage,
+	alphaThreshold: number,
+	maxPixels: number,
+): { removedComponents: number; removedPixels: number } => {
+	if (maxPixels <= 0) return { removedComponents: 0, removedPixels: 0 };
+	if (working.width !== masked.width || working.height !== masked.height) {
+		throw new Error("working と masked のサイズが一致しません。");
 	}
+	const { labels, components } = labelOpaqueComponents(masked, alphaThreshold);
 
 	// 最大の連結成分は「本体」とみなし、除去候補でも残す
+	let largestId = -1;
+	let largestSize = 0;
+	for (const comp of components) {
+		if (comp.size > largestSize) {
+			largestSize = comp.size;
+			largestId = comp.id;
+		}
+	}
+	const remove = new Uint8Array(components.length + 1);
 	let removedComponents = 0;
 	let removedPixels = 0;
-	for (const comp of small) {
-		if (comp.id === largestId) continue;
+	for (const comp of components) {
+		if (comp.id === largestId || comp.size > maxPixels) continue;
+		remove[comp.id] = 1;
 		removedComponents += 1;
 		removedPixels += comp.size;
-		for (const p of comp.pixels) {
-			const aIdx = p * 4 + 3;
-			masked.data[aIdx] = 0;
-			working.data[aIdx] = 0;
-		}
+	}
+	if (removedComponents === 0) return { removedComponents, removedPixels };
+
+	for (let p = 0; p < labels.length; p += 1) {
+		if (!remove[labels[p]]) continue;
+		const aIdx = p * 4 + 3;
+		masked.data[aIdx] = 0;
+		working.data[aIdx] = 0;
 	}
 	return { removedComponents, removedPixels };
 };
@@ -780,7 +1219,7 @@ const removeSmallFloatingComponentsInPlace = (
 export const _removeSmallFloatingComponentsInPlace =
 	removeSmallFloatingComponentsInPlace;
 
-const findOpaqueBounds = (
+export const findOpaqueBounds = (
 	img: RawImage,
 	alphaThreshold: number,
 ): { x: number; y: number; w: number; h: number } | null => {
@@ -810,7 +1249,7 @@ const findOpaqueBounds = (
 	return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
 };
 
-const cropRawImage = (
+export const cropRawImage = (
 	img: RawImage,
 	x: number,
 	y: number,
@@ -866,10 +1305,23 @@ const applyColorReduction = (
 	ditherMode: DitherMode,
 	colorCount: number,
 	ditherStrength: number,
+	ditherSerpentine: boolean,
+	ditherMask: DitherMaskOptions,
+	alpha: AlphaOptions,
 	log: (...args: unknown[]) => void,
 	customPalette?: RGB[],
 ): RawImage => {
 	const quantStart = performance.now();
+
+	// セルごとに色を選ぶモード（ZX Spectrum / C64 マルチカラー）はディザリングしない
+	if (!customPalette && ATTRIBUTE_CELL_MODES.includes(mode)) {
+		const result = quantizeAttributeCells(img, mode);
+		log(
+			`Attribute cell color reduction (${mode}) done in ${(performance.now() - quantStart).toFixed(2)}ms`,
+		);
+		return result;
+	}
+
 	const pixelData: PixelData[] = [];
 	for (let i = 0; i < img.data.length; i += 4) {
 		pixelData.push({
@@ -893,6 +1345,12 @@ const applyColorReduction = (
 		}));
 	}
 
+	// マスクは減色前の色で作る（SFC の 15bit 丸めで生じる段差を階調と見なさない）
+	const mask =
+		ditherStrength > 0 && ditherMode !== "none"
+			? createDitherMask(img, ditherMask)
+			: undefined;
+
 	let reducedPixels: PixelData[];
 	if (customPalette) {
 		const quantizer = new PaletteQuantizer(customPalette);
@@ -902,19 +1360,25 @@ const applyColorReduction = (
 			img.height,
 			ditherMode,
 			ditherStrength / 100,
+			ditherSerpentine,
+			mask,
 		);
 	} else if (mode === "auto" || isSfcMode) {
 		let count = colorCount;
 		if (mode === "sfc_sprite") count = 16;
 		else if (mode === "sfc_bg") count = 256;
 
-		const quantizer = new OklabKMeans(count);
+		const quantizer = new OklabKMeans(count, {
+			clusterAlpha: alpha.policy === "quantize",
+		});
 		reducedPixels = quantizer.applyDithering(
 			workingPixelData,
 			img.width,
 			img.height,
 			ditherMode,
 			ditherStrength / 100,
+			ditherSerpentine,
+			mask,
 		);
 	} else {
 		const paletteDef = RETRO_PALETTES[mode];
@@ -932,16 +1396,22 @@ const applyColorReduction = (
 				img.height,
 				ditherMode,
 				ditherStrength / 100,
+				ditherSerpentine,
+				mask,
 			);
 		} else {
 			// Fallback to auto if palette not found
-			const quantizer = new OklabKMeans(colorCount);
+			const quantizer = new OklabKMeans(colorCount, {
+				clusterAlpha: alpha.policy === "quantize",
+			});
 			reducedPixels = quantizer.applyDithering(
 				workingPixelData,
 				img.width,
 				img.height,
 				ditherMode,
 				ditherStrength / 100,
+				ditherSerpentine,
+				mask,
 			);
 		}
 	}
@@ -962,6 +1432,56 @@ const applyColorReduction = (
 	return { ...img, data: newData };
 };
 
+/**
+ * 機種の制約を確かめる（enforce のときは先に制約に収まるように減色し直す）。
+ * profile が "none" のときは何もせず、violations も返さない。
+ */
+const applyHardwareProfile = (
+	img: RawImage,
+	profile: HardwareProfile,
+	enforce: boolean,
+	log: (...args: unknown[]) => void,
+): { result: RawImage; violations?: ConstraintViolation[] } => {
+	if (profile === "none") return { result: img };
+	const start = performance.now();
+	const result = enforce ? enforceHardwareConstraints(img, profile) : img;
+	const violations = checkHardwareConstraints(result, profile);
+	log(
+		`Hardware constraints (${profile}) checked in ${(performance.now() - start).toFixed(2)}ms`,
+		{ enforced: enforce, violations: violations.length },
+	);
+	return { result, violations };
+};
+
+/**
+ * 背景除去とグリッド検出の前に、画像を軸に揃える（perspectiveQuad の射影変換、または deskew の傾きの補正）。
+ * 補正しないときは元の画像と、meta なしを返す。
+ */
+const applyGeometryCorrection = (
+	img: RawImage,
+	perspectiveQuad: PerspectiveQuad | undefined,
+	deskew: boolean,
+	log: (...args: unknown[]) => void,
+): { image: RawImage; meta?: Record<string, unknown> } => {
+	const start = performance.now();
+	if (perspectiveQuad) {
+		const image = warpPerspective(img, perspectiveQuad);
+		log(
+			`Perspective corrected in ${(performance.now() - start).toFixed(2)}ms`,
+			{ width: image.width, height: image.height },
+		);
+		return { image, meta: { perspectiveQuad } };
+	}
+	if (!deskew) return { image: img };
+	const estimate = estimateSkew(img);
+	const image = deskewImage(img, estimate);
+	log(
+		`Deskew estimated in ${(performance.now() - start).toFixed(2)}ms`,
+		estimate,
+	);
+	return image === img ? { image } : { image, meta: { ...estimate } };
+};
+
 const extractUsedColors = (img: RawImage): RGB[] => {
 	const colors = new Set<string>();
 	const result: RGB[] = [];
@@ -1168,6 +1688,29 @@ const getGridSearchFromTrimmedStrategy = (
 		: new LegacyGridSearchFromTrimmed();
 };
 
+/**
+ * トリム後の探索結果と、同じ画像でのグリッド検出の結果から、working 全体に掛けるグリッドの 1 軸を決める。
+ * 周波数による推定が run 長による推定より高信頼だった軸（gridDetector="frequency" のときだけ起きる）は、
+ * 検出したセルサイズと位相（トリム前の座標に戻す）を使う。それ以外は探索したセルサイズを原点 0 で使う。
+ */
+const trimmedGridAxis = (
+	searchedCell: number,
+	detectedCell: number,
+	detectedOffset: number,
+	source: AxisDiagnostics["source"],
+	boundsStart: number,
+	length: number,
+): { cell: number; offset: number; out: number } => {
+	const fromFrequency = source === "frequency";
+	const cell = fromFrequency ? detectedCell : searchedCell;
+	const offset = fromFrequency ? (boundsStart + detectedOffset) % cell : 0;
+	return {
+		cell,
+		offset,
+		out: Math.max(1, Math.floor((length - offset) / cell)),
+	};
+};
+
 const legacySearchGridFromTrimmed = (
 	cropped: RawImage,
 	mask: RawImage,
@@ -1267,10 +1810,10 @@ const legacySearchGridFromTrimmed = (
 };
 
 export const processImage = (
-	img: RawImage,
+	input: RawImage,
 	options: ProcessOptions = {},
 ): ProcessResult => {
-	const o = normalizeProcessOptions(options);
+	const o = normalizeProcessOptions(options, input.width * input.height);
 	const startTime = performance.now();
 	const log = (...args: unknown[]) => {
 		if (o.debug) {
@@ -1279,11 +1822,26 @@ export const processImage = (
 	};
 
 	log("Processing started", {
-		width: img.width,
-		height: img.height,
+		width: input.width,
+		height: input.height,
 		options: o,
 	});
 
+	const geometry = applyGeometryCorrection(
+		input,
+		o.perspectiveQuad,
+		o.deskew,
+		log,
+	);
+	let img = geometry.image;
+	if (o.restoreArtifacts) {
+		const restoreStart = performance.now();
+		img = restoreCompressedImage(img);
+		log(
+			`Compression artifacts restored in ${(performance.now() - restoreStart).toFixed(2)}ms`,
+		);
+	}
+
 	const bgTargetsStart = performance.now();
 	const bgTargets = o.removeInnerBackground
 		? getBackgroundTargets(img, o.bgExtractionMethod, o.bgRgb, 16)
@@ -1306,15 +1864,27 @@ export const processImage = (
 		`Pre-background removal done in ${(performance.now() - workingStart).toFixed(2)}ms`,
 	);
 
-	o.debugHook?.("00-input", img);
+	o.debugHook?.("00-input", input);
+	if (geometry.meta) {
+		o.debugHook?.("00b-geometry-corrected", geometry.image, geometry.meta);
+	}
+	if (o.restoreArtifacts) {
+		o.debugHook?.("00c-restored", img);
+	}
 	o.debugHook?.("01-working", working, {
 		preRemoveBackground: o.preRemoveBackground,
 	});
 	const trimToContent = o.trimToContent;
 	const trimAlphaThreshold = o.trimAlphaThreshold;
+	// alpha を揃える場合は、縮小でも半透明のセルを不透明の中央値で埋めない
+	const alphaAware = o.alpha.policy !== "preserve";
 
 	// force: 内容物BBoxでトリム → 指定ピクセル(W×H)へ強制変換（自動検出は行わない）
-	if (o.forcePixelsW !== undefined && o.forcePixelsH !== undefined) {
+	if (
+		!o.manualGrid &&
+		o.forcePixelsW !== undefined &&
+		o.forcePixelsH !== undefined
+	) {
 		const bgTol = o.backgroundTolerance;
 		const masked = removeBackground(
 			working,
@@ -1389,12 +1959,17 @@ export const processImage = (
 		// 拡大が必要な場合は最近傍相当（sampleWindow=1）にする
 		const sw = cellW < 1 || cellH < 1 ? 1 : o.sampleWindow;
 		const downsampleStart = performance.now();
-		const down2 = downsample(cropped, g, sw);
+		const sampled = o.restoreArtifacts
+			? sharpenCellEdges(cropped, cellW, cellH)
+			: cropped;
+		const down2 = downsample(sampled, g, sw, alphaAware, o.cellSampler);
+		const confidence = computeCellConfidence(sampled, g, down2);
 		log(
 			`Downsampling (forced) done in ${(performance.now() - downsampleStart).toFixed(2)}ms`,
 		);
 		o.debugHook?.("05-downsampled", down2, {
 			sampleWindow: sw,
+			cellSampler: o.cellSampler,
 			forced: true,
 		});
 
@@ -1414,14 +1989,17 @@ export const processImage = (
 		);
 
 		// 減色処理
-		let finalResult = result2;
+		let finalResult = applyAlphaPolicy(result2, o.alpha);
 		if (o.reduceColors || o.fixedPalette) {
 			finalResult = applyColorReduction(
-				result2,
+				finalResult,
 				o.reduceColorMode,
 				o.ditherMode,
 				o.colorCount,
 				o.ditherStrength,
+				o.ditherSerpentine,
+				o.ditherMask,
+				o.alpha,
 				log,
 				o.fixedPalette,
 			);
@@ -1441,9 +2019,23 @@ export const processImage = (
 			forcedTrimmedGridForOriginal,
 		);
 
-		// Sanitized comparison: use the same downsample as the pipeline (median sampling).
+		// Sanitized comparison: use the same downsample as the pipeline (same cell sampler).
 		const croppedOriginal = cropRawImage(img, b.x, b.y, b.w, b.h);
-		const compareBeforeSanitized = downsample(croppedOriginal, g, sw);
+		const compareBeforeSanitized = downsample(
+			croppedOriginal,
+			g,
+			sw,
+			alphaAware,
+			o.cellSampler,
+		);
+
+		const hardware = applyHardwareProfile(
+			finalResult,
+			o.hardwareProfile,
+			o.enforceHardwareConstraints,
+			log,
+		);
+		finalResult = hardware.result;
 
 		o.debugHook?.("99-result", finalResult, {
 			postRemoveBackground: o.postRemoveBackground,
@@ -1459,11 +2051,13 @@ export const processImage = (
 			extractedPalette: extracted,
 			compareBefore,
 			compareBeforeSanitized,
+			constraintViolations: hardware.violations,
+			confidence,
 		};
 	}
 
 	// enableGridDetection: グリッド検出と縮小をスキップ
-	if (!o.enableGridDetection) {
+	if (!o.manualGrid && !o.enableGridDetection) {
 		const bgTol = o.backgroundTolerance;
 		const masked = removeBackground(
 			working,
@@ -1482,7 +2076,7 @@ export const processImage = (
 			);
 		}
 
-		let finalResult = working;
+		let finalResult = applyAlphaPolicy(working, o.alpha);
 		let compareBefore = img;
 		let outW = working.width;
 		let outH = working.height;
@@ -1491,11 +2085,14 @@ export const processImage = (
 
 		if (o.reduceColors || o.fixedPalette) {
 			finalResult = applyColorReduction(
-				working,
+				finalResult,
 				o.reduceColorMode,
 				o.ditherMode,
 				o.colorCount,
 				o.ditherStrength,
+				o.ditherSerpentine,
+				o.ditherMask,
+				o.alpha,
 				log,
 				o.fixedPalette,
 			);
@@ -1513,6 +2110,14 @@ export const processImage = (
 			}
 		}
 
+		const hardware = applyHardwareProfile(
+			finalResult,
+			o.hardwareProfile,
+			o.enforceHardwareConstraints,
+			log,
+		);
+		finalResult = hardware.result;
+
 		o.debugHook?.("99-result", finalResult, {
 			noGridDetection: true,
 			trimmed: o.trimToContent,
@@ -1541,12 +2146,13 @@ export const processImage = (
 			extractedPalette: extracted,
 			compareBefore,
 			compareBeforeSanitized: compareBefore,
+			constraintViolations: hardware.violations,
 		};
 	}
 
 	// auto: まず背景トリム（縮小前）した領域から outW/outH を推定して、そのまま縮小する
 	// （隙間の多い画像でも、内容物領域にフォーカスして安定させたい）
-	const autoGridFromTrimmed = o.autoGridFromTrimmed;
+	const autoGridFromTrimmed = o.autoGridFromTrimmed && !o.manualGrid;
 
 	// 縮小前（downsample前）に「背景トリミング後」の見た目を確認できるように出力する。
 	// 実処理のパイプラインは変えず、デバッグ用途のみで算出する。
@@ -1602,6 +2208,13 @@ export const processImage = (
 	}
 
 	let grid: PixelGrid | null = null;
+	let gridDiagnostics: GridDiagnostics | undefined;
+
+	if (o.manualGrid) {
+		grid = gridFromManual(working.width, working.height, o.manualGrid);
+		log("Manual grid", grid);
+		o.debugHook?.("04-grid-crop", working, { grid, manual: true });
+	}
 
 	if (autoGridFromTrimmed && maskedForDebugOrAuto) {
 		log("Auto grid from trimmed mode");
@@ -1630,23 +2243,43 @@ export const processImage = (
 				est,
 			);
 			if (est) {
+				// 信頼度の警告やグリッドのレポートに使うため、探索したトリム後の画像でも検出の内訳を求める
+				const detected = detectGridWithDiagnostics(cropped, {
+					...o.detect,
+					debug: o.debug,
+				});
+				gridDiagnostics = detected.diagnostics;
 				// NOTE:
 				// - トリムOFF時でも「内容物BBoxからの推定グリッド」は使いたい（潰れ対策）。
 				// - ただしトリムOFFは背景（余白）を残すだけなので、縮小は全体(working)に適用する。
 				//   これにより、中心オブジェクトのセル数（見かけサイズ）は一定になりやすい。
-				const outW = Math.max(1, Math.floor(working.width / est.cellW));
-				const outH = Math.max(1, Math.floor(working.height / est.cellH));
+				const x = trimmedGridAxis(
+					est.cellW,
+					detected.grid.cellW,
+					detected.grid.offsetX,
+					detected.diagnostics.x.source,
+					b.x,
+					working.width,
+				);
+				const y = trimmedGridAxis(
+					est.cellH,
+					detected.grid.cellH,
+					detected.grid.offsetY,
+					detected.diagnostics.y.source,
+					b.y,
+					working.height,
+				);
 				grid = {
-					cellW: est.cellW,
-					cellH: est.cellH,
-					offsetX: 0,
-					offsetY: 0,
-					outW,
-					outH,
-					cropX: 0,
-					cropY: 0,
-					cropW: outW * est.cellW,
-					cropH: outH * est.cellH,
+					cellW: x.cell,
+					cellH: y.cell,
+					offsetX: x.offset,
+					offsetY: y.offset,
+					outW: x.out,
+					outH: y.out,
+					cropX: x.offset,
+					cropY: y.offset,
+					cropW: x.out * x.cell,
+					cropH: y.out * y.cell,
 					score: 0,
 				};
 				o.debugHook?.("04-grid-crop", working, {
@@ -1660,7 +2293,12 @@ export const processImage = (
 
 	if (!grid) {
 		const detectStart = performance.now();
-		grid = detectGrid(working, { ...o.detect, debug: o.debug });
+		const detected = detectGridWithDiagnostics(working, {
+			...o.detect,
+			debug: o.debug,
+		});
+		grid = detected.grid;
+		gridDiagnostics = detected.diagnostics;
 		log(
 			`Grid detection done in ${(performance.now() - detectStart).toFixed(2)}ms`,
 			grid,
@@ -1670,19 +2308,58 @@ export const processImage = (
 		});
 	}
 
+	if (o.nonUniformGrid && !o.manualGrid) {
+		const refineStart = performance.now();
+		grid = refineGridBoundaries(working, grid, o.detect);
+		log(
+			`Non-uniform grid refined in ${(performance.now() - refineStart).toFixed(2)}ms`,
+			{ colBounds: grid.colBounds, rowBounds: grid.rowBounds },
+		);
+	}
+	if (o.debugHook) {
+		o.debugHook("04b-grid-lines", drawGridLines(working, grid), { grid });
+	}
+
+	let sampled = working;
+	if (o.restoreArtifacts) {
+		const sharpenStart = performance.now();
+		sampled = sharpenCellEdges(working, grid.cellW, grid.cellH);
+		log(
+			`Cell edges sharpened in ${(performance.now() - sharpenStart).toFixed(2)}ms`,
+		);
+		o.debugHook?.("04c-sharpened", sampled, { grid });
+	}
 	const downsampleStart = performance.now();
-	const down = downsample(working, grid, o.sampleWindow);
+	const down = downsample(
+		sampled,
+		grid,
+		o.sampleWindow,
+		alphaAware,
+		o.cellSampler,
+	);
 	log(
 		`Downsampling done in ${(performance.now() - downsampleStart).toFixed(2)}ms`,
 	);
 	o.debugHook?.("05-downsampled", down, {
 		sampleWindow: o.sampleWindow,
+		cellSampler: o.cellSampler,
 	});
+	const confidenceStart = performance.now();
+	let confidence = computeCellConfidence(sampled, grid, down);
+	log(
+		`Cell confidence computed in ${(performance.now() - confidenceStart).toFixed(2)}ms`,
+	);
 
 	// Compare "before": original image resized only (no sanitize).
 	let compareBefore = cropRawImageNearestFromGrid(img, grid);
-	// Compare "before (sanitized)": original image downsampled (median sampling) using the same grid.
-	let compareBeforeSanitized = downsample(img, grid, o.sampleWindow);
+	// Compare "before (sanitized)": original image downsampled (same cell sampler) using the same grid.
+	let compareBeforeSanitized = downsample(
+		img,
+		grid,
+		o.sampleWindow,
+		alphaAware,
+		o.cellSampler,
+	);
 
 	let trimmed = down;
 	let trimmedGrid = grid;
@@ -1709,14 +2386,18 @@ export const processImage = (
 
 			const baseCropX = grid.cropX ?? grid.offsetX;
 			const baseCropY = grid.cropY ?? grid.offsetY;
+			const colBounds = grid.colBounds?.slice(b.x, b.x + b.w + 1);
+			const rowBounds = grid.rowBounds?.slice(b.y, b.y + b.h + 1);
 			trimmedGrid = {
 				...grid,
 				outW: b.w,
 				outH: b.h,
-				cropX: baseCropX + b.x * grid.cellW,
-				cropY: baseCropY + b.y * grid.cellH,
-				cropW: b.w * grid.cellW,
-				cropH: b.h * grid.cellH,
+				cropX: colBounds ? colBounds[0] : baseCropX + b.x * grid.cellW,
+				cropY: rowBounds ? rowBounds[0] : baseCropY + b.y * grid.cellH,
+				cropW: colBounds ? colBounds[b.w] - colBounds[0] : b.w * grid.cellW,
+				cropH: rowBounds ? rowBounds[b.h] - rowBounds[0] : b.h * grid.cellH,
+				colBounds,
+				rowBounds,
 			};
 
 			// Recompute comparison befores using the updated trimmed grid
@@ -1728,6 +2409,7 @@ export const processImage = (
 				b.w,
 				b.h,
 			);
+			confidence = cropConfidenceMap(confidence, b.x, b.y, b.w, b.h);
 
 			o.debugHook?.("07-trimmed", trimmed, { bounds: b });
 			log(
@@ -1757,17 +2439,28 @@ export const processImage = (
 	);
 
 	// 減色処理
-	let finalResult = result;
-	if (o.reduceColors || o.fixedPalette) {
-		finalResult = applyColorReduction(
-			result,
+	// セルごとに色を選ぶモードでは、アウトラインの色もセルの色数に含めるため、アウトラインの後で減色する
+	const reduceImageColors = (img: RawImage): RawImage =>
+		applyColorReduction(
+			img,
 			o.reduceColorMode,
 			o.ditherMode,
 			o.colorCount,
 			o.ditherStrength,
+			o.ditherSerpentine,
+			o.ditherMask,
+			o.alpha,
 			log,
 			o.fixedPalette,
 		);
+	const reduceAfterOutline =
+		o.reduceColors &&
+		!o.fixedPalette &&
+		o.outlineStyle !== "none" &&
+		ATTRIBUTE_CELL_MODES.includes(o.reduceColorMode);
+	let finalResult = applyAlphaPolicy(result, o.alpha);
+	if ((o.reduceColors || o.fixedPalette) && !reduceAfterOutline) {
+		finalResult = reduceImageColors(finalResult);
 	}
 
 	// アウトライン処理
@@ -1801,6 +2494,13 @@ export const processImage = (
 				padRight,
 				padBottom,
 			);
+			confidence = padConfidenceMap(
+				confidence,
+				padLeft,
+				padTop,
+				padRight,
+				padBottom,
+			);
 
 			const cellDw = (finalResult.width - prevW) / 2;
 			const cellDh = (finalResult.height - prevH) / 2;
@@ -1815,9 +2515,26 @@ export const processImage = (
 				cropY: baseCropY - cellDh * trimmedGrid.cellH,
 				cropW: finalResult.width * trimmedGrid.cellW,
 				cropH: finalResult.height * trimmedGrid.cellH,
+				colBounds:
+					trimmedGrid.colBounds &&
+					extendBounds(trimmedGrid.colBounds, padLeft, padRight),
+				rowBounds:
+					trimmedGrid.rowBounds &&
+					extendBounds(trimmedGrid.rowBounds, padTop, padBottom),
 			};
 		}
 	}
+	if (reduceAfterOutline) {
+		finalResult = reduceImageColors(finalResult);
+	}
+
+	const hardware = applyHardwareProfile(
+		finalResult,
+		o.hardwareProfile,
+		o.enforceHardwareConstraints,
+		log,
+	);
+	finalResult = hardware.result;
 
 	o.debugHook?.("99-result", finalResult, {
 		postRemoveBackground: o.postRemoveBackground,
@@ -1833,5 +2550,8 @@ export const processImage = (
 		extractedPalette: extracted,
 		compareBefore,
 		compareBeforeSanitized,
+		gridDiagnostics,
+		constraintViolations: hardware.violations,
+		confidence,
 	};
 };
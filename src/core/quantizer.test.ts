@@ -34,6 +34,57 @@ describe("quantizer.ts", () => {
 		});
 	});
 
+	describe("OklabKMeans clusterAlpha", () => {
+		it("半透明の色を不透明の近い色とは別のパレット色にする", () => {
+			const q = new OklabKMeans(2, { clusterAlpha: true });
+			const input = [
+				...Array.from({ length: 4 }, () => px(255, 255, 255)),
+				...Array.from({ length: 4 }, () => px(255, 255, 255, 128)),
+				...Array.from({ length: 4 }, () => px(230, 230, 230)),
+			];
+			const result = q.quantize(input);
+			// 半透明の白は alpha を保った 1 色になる
+			expect(result.slice(4, 8).every((p) => p.alpha === 128)).toBe(true);
+			// 不透明の白と灰色が 1 色にまとまる
+			const opaque = new Set(
+				[...result.slice(0, 4), ...result.slice(8)].map(
+					(p) => `${p.r},${p.g},${p.b},${p.alpha}`,
+				),
+			);
+			expect(opaque.size).toBe(1);
+		});
+
+		it("ディザリングしても RGBA の色数が指定色数以下になる", () => {
+			// 中心から外へ alpha が下がっていく光の玉（8x8）
+			const width = 8;
+			const input = Array.from({ length: width * width }, (_, i) => {
+				const d = Math.hypot((i % width) - 3.5, Math.floor(i / width) - 3.5);
+				return px(
+					255,
+					200 - Math.round(d * 20),
+					64,
+					Math.max(0, 255 - Math.round(d * 50)),
+				);
+			});
+			for (const mode of [
+				"none",
+				"floyd-steinberg",
+				"bayer-4x4",
+				"yliluoma",
+				"knoll",
+			] as const) {
+				const q = new OklabKMeans(2, { clusterAlpha: true });
+				const result = q.applyDithering(input, width, width, mode, 1.0);
+				const colors = new Set(
+					result
+						.filter((p) => p.alpha > 0)
+						.map((p) => `${p.r},${p.g},${p.b},${p.alpha}`),
+				);
+				expect(colors.size, mode).toBeLessThanOrEqual(2);
+			}
+		});
+	});
+
 	describe("OklabKMeans Edge Cases", () => {
 		it("入力色数が指定色数より少ない場合でもクラッシュしない", () => {
 			const q = new OklabKMeans(16); // 16色に減色したい
@@ -83,6 +134,19 @@ describe("quantizer.ts", () => {
 
 			expect(isBlackOrWhite(result[0])).toBe(true);
 		});
+
+		it("alphas を渡すと alpha も含めて最寄りの色を選び、その alpha を出力する", () => {
+			const q = new PaletteQuantizer(
+				[px(255, 255, 255), px(250, 250, 250)],
+				[255, 64],
+			);
+			const result = q.quantize([
+				px(255, 255, 255, 80),
+				px(250, 250, 250, 240),
+			]);
+			expect(result[0]).toEqual(px(250, 250, 250, 64));
+			expect(result[1]).toEqual(px(255, 255, 255, 255));
+		});
 	});
 
 	describe("Dithering Modes", () => {
@@ -100,6 +164,147 @@ describe("quantizer.ts", () => {
 			expect(colors.size).toBeGreaterThan(1);
 		});
 
+		it("ブルーノイズの閾値マップで一様なグレーを白黒半々にできること", () => {
+			const q = new PaletteQuantizer([
+				{ r: 0, g: 0, b: 0 },
+				{ r: 255, g: 255, b: 255 },
+			]);
+			const input = Array.from({ length: 32 * 32 }, () => px(128, 128, 128));
+			for (const mode of [
+				"blue-noise-16x16",
+				"blue-noise-32x32",
+				"blue-noise-64x64",
+			] as const) {
+				const result = q.applyDithering(input, 32, 32, mode, 1.0);
+				const white = result.filter((p) => p.r === 255).length;
+				expect(white + result.filter((p) => p.r === 0).length).toBe(1024);
+				expect(white).toBeGreaterThan(1024 * 0.3);
+				expect(white).toBeLessThan(1024 * 0.7);
+			}
+		});
+
+		it("誤差拡散の各カーネルでパレット色だけが出力されること", () => {
+			// 横方向のグラデーション（16x4）
+			const input = Array.from({ length: 64 }, (_, i) => {
+				const v = (i % 16) * 16;
+				return px(v, v, v);
+			});
+			for (const mode of [
+				"atkinson",
+				"jarvis-judice-ninke",
+				"stucki",
+				"burkes",
+				"sierra",
+				"sierra-two-row",
+				"sierra-lite",
+			] as const) {
+				const q = new PaletteQuantizer([
+					{ r: 0, g: 0, b: 0 },
+					{ r: 255, g: 255, b: 255 },
+				]);
+				const result = q.applyDithering(input, 16, 4, mode, 1.0);
+				const colors = new Set(result.map((p) => `${p.r},${p.g},${p.b}`));
+				expect(colors).toEqual(new Set(["0,0,0", "255,255,255"]));
+
+				// K-means のパレットでも同じ経路で誤差拡散される
+				const kmeans = new OklabKMeans(2).applyDithering(
+					input,
+					16,
+					4,
+					mode,
+					1.0,
+				);
+				const kmeansColors = new Set(kmeans.map((p) => `${p.r},${p.g},${p.b}`));
+				expect(kmeansColors.size).toBe(2);
+			}
+		});
+
+		it("蛇行走査では奇数行を右から左へ誤差拡散すること", () => {
+			const q = new PaletteQuantizer([
+				{ r: 0, g: 0, b: 0 },
+				{ r: 255, g: 255, b: 255 },
+			]);
+			// 1 行目は誤差なし、2 行目は一様な暗いグレー
+			const input = [
+				px(0, 0, 0),
+				px(0, 0, 0),
+				px(0, 0, 0),
+				px(60, 60, 60),
+				px(60, 60, 60),
+				px(60, 60, 60),
+			];
+			const row = (out: PixelData[]) => out.slice(3).map((p) => p.r);
+			expect(row(q.applyDithering(input, 3, 2, "sierra-lite", 1.0))).toEqual([
+				0, 0, 255,
+			]);
+			expect(
+				row(q.applyDithering(input, 3, 2, "sierra-lite", 1.0, true)),
+			).toEqual([255, 0, 0]);
+		});
+
+		it("パターンディザでは離れたパレット色を混ぜて中間色を表すこと", () => {
+			const q = new PaletteQuantizer([
+				{ r: 0, g: 0, b: 0 },
+				{ r: 255, g: 255, b: 255 },
+				{ r: 255, g: 0, b: 0 },
+				{ r: 0, g: 0, b: 255 },
+			]);
+			// 8x8 の一様な紫は、赤と青を半々に混ぜるのが最も近い
+			const input = Array.from({ length: 64 }, () => px(128, 0, 128));
+			for (const mode of ["yliluoma", "knoll"] as const) {
+				const result = q.applyDithering(input, 8, 8, mode, 1.0);
+				const colors = new Set(result.map((p) => `${p.r},${p.g},${p.b}`));
+				expect(colors.has("255,0,0")).toBe(true);
+				expect(colors.has("0,0,255")).toBe(true);
+
+				const avg = (c: "r" | "g" | "b") =>
+					result.reduce((sum, p) => sum + p[c], 0) / result.length;
+				expect(Math.abs(avg("r") - 128)).toBeLessThan(32);
+				expect(Math.abs(avg("b") - 128)).toBeLessThan(32);
+				expect(result.every((p) => p.alpha === 255)).toBe(true);
+			}
+		});
+
+		it("K-means のパレットでもパターンディザを使えること", () => {
+			const input = Array.from({ length: 64 }, (_, i) => {
+				const v = (i % 16) * 16;
+				return px(v, v, v);
+			});
+			for (const mode of ["yliluoma", "knoll"] as const) {
+				const result = new OklabKMeans(2).applyDithering(
+					input,
+					16,
+					4,
+					mode,
+					1.0,
+				);
+				const colors = new Set(result.map((p) => `${p.r},${p.g},${p.b}`));
+				expect(colors.size).toBe(2);
+			}
+		});
+
+		it("マスク外の画素はディザリングせず、誤差も受け渡さないこと", () => {
+			const q = new PaletteQuantizer([
+				{ r: 0, g: 0, b: 0 },
+				{ r: 255, g: 255, b: 255 },
+			]);
+			// 一様な暗いグレー 8x2。左半分だけディザリングを許可する
+			const input = Array.from({ length: 16 }, () => px(60, 60, 60));
+			const mask = new Uint8Array(16).map((_, i) => (i % 8 < 4 ? 1 : 0));
+			for (const mode of [
+				"floyd-steinberg",
+				"bayer-4x4",
+				"blue-noise-16x16",
+				"knoll",
+			] as const) {
+				const result = q.applyDithering(input, 8, 2, mode, 1.0, false, mask);
+				const right = result.filter((_, i) => i % 8 >= 4);
+				expect(right.every((p) => p.r === 0)).toBe(true);
+				const left = result.filter((_, i) => i % 8 < 4);
+				expect(left.some((p) => p.r === 255)).toBe(true);
+			}
+		});
+
 		it("should support Ordered dithering", () => {
 			const q = new OklabKMeans(2);
 			const input = [
@@ -1,4 +1,5 @@
 import type { DitherMode, Oklab, PixelData, RGB } from "../shared/types";
+import { getBlueNoiseMatrix } from "./blueNoise";
 import { oklabToRgb, rgbToOklab } from "./colorUtils";
 
 const BAYER_2X2 = [0, 2, 3, 1].map((v) => (v + 0.5) / 4);
@@ -18,6 +19,134 @@ const ORDERED_MATRIX = [
 	1, 9, 3, 11, 13, 5, 15, 7, 4, 12, 2, 10, 16, 8, 14, 6,
 ].map((v) => (v - 1 + 0.5) / 16);
 
+/**
+ * 誤差拡散のカーネル。taps は [dx, dy, 重み] で、重みは divisor で割って使う。
+ * dx は左から右へ走査するときの向き（蛇行走査で右から左へ進む行では反転する）。
+ */
+type DiffusionKernel = {
+	divisor: number;
+	taps: readonly (readonly [number, number, number])[];
+};
+
+const ERROR_DIFFUSION_KERNELS: Partial<Record<DitherMode, DiffusionKernel>> = {
+	"floyd-steinberg": {
+		divisor: 16,
+		taps: [
+			[1, 0, 7],
+			[-1, 1, 3],
+			[0, 1, 5],
+			[1, 1, 1],
+		],
+	},
+	// 誤差の 6/8 だけを拡散するため、コントラストが強く残る
+	atkinson: {
+		divisor: 8,
+		taps: [
+			[1, 0, 1],
+			[2, 0, 1],
+			[-1, 1, 1],
+			[0, 1, 1],
+			[1, 1, 1],
+			[0, 2, 1],
+		],
+	},
+	"jarvis-judice-ninke": {
+		divisor: 48,
+		taps: [
+			[1, 0, 7],
+			[2, 0, 5],
+			[-2, 1, 3],
+			[-1, 1, 5],
+			[0, 1, 7],
+			[1, 1, 5],
+			[2, 1, 3],
+			[-2, 2, 1],
+			[-1, 2, 3],
+			[0, 2, 5],
+			[1, 2, 3],
+			[2, 2, 1],
+		],
+	},
+	stucki: {
+		divisor: 42,
+		taps: [
+			[1, 0, 8],
+			[2, 0, 4],
+			[-2, 1, 2],
+			[-1, 1, 4],
+			[0, 1, 8],
+			[1, 1, 4],
+			[2, 1, 2],
+			[-2, 2, 1],
+			[-1, 2, 2],
+			[0, 2, 4],
+			[1, 2, 2],
+			[2, 2, 1],
+		],
+	},
+	burkes: {
+		divisor: 32,
+		taps: [
+			[1, 0, 8],
+			[2, 0, 4],
+			[-2, 1, 2],
+			[-1, 1, 4],
+			[0, 1, 8],
+			[1, 1, 4],
+			[2, 1, 2],
+		],
+	},
+	sierra: {
+		divisor: 32,
+		taps: [
+			[1, 0, 5],
+			[2, 0, 3],
+			[-2, 1, 2],
+			[-1, 1, 4],
+			[0, 1, 5],
+			[1, 1, 4],
+			[2, 1, 2],
+			[-1, 2, 2],
+			[0, 2, 3],
+			[1, 2, 2],
+		],
+	},
+	"sierra-two-row": {
+		divisor: 16,
+		taps: [
+			[1, 0, 4],
+			[2, 0, 3],
+			[-2, 1, 1],
+			[-1, 1, 2],
+			[0, 1, 3],
+			[1, 1, 2],
+			[2, 1, 1],
+		],
+	},
+	"sierra-lite": {
+		divisor: 4,
+		taps: [
+			[1, 0, 2],
+			[-1, 1, 1],
+			[0, 1, 1],
+		],
+	},
+};
+
+/**
+ * パターンディザ（Yliluoma / Knoll）で 1 色あたりに混ぜるパレット色の数。
+ * 閾値マップ (Bayer 8x8) の値でこの中から 1 色を選ぶ。
+ */
+const PATTERN_SIZE = 16;
+
+/**
+ * Knoll のパターンディザで、次の候補を選ぶときに足し込む累積誤差の割合。
+ * 1 に近いほど混色が正確になるが、パレットの外側の色では模様が荒くなる。
+ */
+const KNOLL_ERROR_MULTIPLIER = 0.75;
+
+const luma = (c: RGB): number => c.r * 299 + c.g * 587 + c.b * 114;
+
 function getDitherMatrix(mode: DitherMode): number[] {
 	switch (mode) {
 		case "bayer-2x2":
@@ -26,6 +155,12 @@ function getDitherMatrix(mode: DitherMode): number[] {
 			return BAYER_4X4;
 		case "bayer-8x8":
 			return BAYER_8X8;
+		case "blue-noise-16x16":
+			return getBlueNoiseMatrix(16);
+		case "blue-noise-32x32":
+			return getBlueNoiseMatrix(32);
+		case "blue-noise-64x64":
+			return getBlueNoiseMatrix(64);
 		case "ordered":
 			return ORDERED_MATRIX;
 		default:
@@ -33,126 +168,59 @@ function getDitherMatrix(mode: DitherMode): number[] {
 	}
 }
 
+export type OklabKMeansOptions = {
+	maxIterations?: number;
+	tolerance?: number;
+	/**
+	 * alpha もクラスタリングの次元に含める（RGBA のパレットになる）。
+	 * false のときは RGB だけでクラスタリングし、各画素の alpha をそのまま保つ。
+	 */
+	clusterAlpha?: boolean;
+};
+
+/** K-means の点。alpha は 0-1（clusterAlpha でないときは常に 1） */
+type ClusterPoint = Oklab & { alpha: number };
+
+type ClusterColor = { point: ClusterPoint; count: number };
+
 export class OklabKMeans {
+	private maxIterations: number;
+	private tolerance: number;
+	private clusterAlpha: boolean;
+
 	constructor(
 		private maxColors: number,
-		private maxIterations: number = 20,
-		private tolerance: number = 0.001,
-	) {}
+		options: OklabKMeansOptions = {},
+	) {
+		this.maxIterations = options.maxIterations ?? 20;
+		this.tolerance = options.tolerance ?? 0.001;
+		this.clusterAlpha = options.clusterAlpha ?? false;
+	}
 
 	/**
 	 * K-means clustering to reduce colors
 	 */
 	quantize(pixels: PixelData[]): PixelData[] {
-		// 1. Pre-processing: Extract unique opaque colors to speed up K-means
-		const opaquePixels = pixels.filter((p) => p.alpha > 0);
-		if (opaquePixels.length === 0 || this.maxColors >= opaquePixels.length) {
-			return pixels;
-		}
-
-		// Use a Map to count occurrences of each color for weighted centroids
-		const colorMap = new Map<number, { lab: Oklab; count: number }>();
-		for (const p of opaquePixels) {
-			const key = (p.r << 16) | (p.g << 8) | p.b;
-			const entry = colorMap.get(key);
-			if (entry) {
-				entry.count++;
-			} else {
-				colorMap.set(key, { lab: rgbToOklab(p), count: 1 });
-			}
-		}
-
-		const uniqueColors = Array.from(colorMap.values());
-		if (uniqueColors.length <= this.maxColors) {
-			return pixels;
-		}
-
-		// 2. Initialization: Randomly pick maxColors as initial centroids
-		let centroids: Oklab[] = this.initializeCentroids(uniqueColors);
-
-		// 3. Main Loop
-		for (let iter = 0; iter < this.maxIterations; iter++) {
-			const clusters: {
-				sumL: number;
-				suma: number;
-				sumb: number;
-				count: number;
-			}[] = Array.from({ length: this.maxColors }, () => ({
-				sumL: 0,
-				suma: 0,
-				sumb: 0,
-				count: 0,
-			}));
-
-			// Assignment
-			for (const color of uniqueColors) {
-				let minDist = Number.MAX_VALUE;
-				let bestCluster = 0;
-
-				for (let i = 0; i < centroids.length; i++) {
-					const dist = this.colorDistanceSq(color.lab, centroids[i]);
-					if (dist < minDist) {
-						minDist = dist;
-						bestCluster = i;
-					}
-				}
-
-				const cluster = clusters[bestCluster];
-				cluster.sumL += color.lab.L * color.count;
-				cluster.suma += color.lab.a * color.count;
-				cluster.sumb += color.lab.b * color.count;
-				cluster.count += color.count;
-			}
-
-			// Update
-			let maxMovement = 0;
-			const newCentroids: Oklab[] = [];
-			for (let i = 0; i < centroids.length; i++) {
-				const cluster = clusters[i];
-				if (cluster.count > 0) {
-					const nextCentroid = {
-						L: cluster.sumL / cluster.count,
-						a: cluster.suma / cluster.count,
-						b: cluster.sumb / cluster.count,
-					};
-					const movement = this.colorDistanceSq(centroids[i], nextCentroid);
-					maxMovement = Math.max(maxMovement, movement);
-					newCentroids.push(nextCentroid);
-				} else {
-					// If a cluster is empty, re-initialize it with a random color
-					newCentroids.push(
-						uniqueColors[Math.floor(Math.random() * uniqueColors.length)].lab,
-					);
-				}
-			}
-
-			centroids = newCentroids;
-			if (maxMovement < this.tolerance * this.tolerance) break;
-		}
+		const clustered = this.cluster(pixels);
+		if (!clustered) return pixels;
+		const { centroids, colorMap } = clustered;
 
 		// 4. Mapping: Replace each pixel with the nearest centroid
-		const palette = centroids.map((lab) => oklabToRgb(lab));
+		const palette = centroids.map((c) => oklabToRgb(c));
 		const centroidRgbMap = new Map<number, number>(); // unique color key -> palette index
 
 		for (const [key, entry] of colorMap.entries()) {
-			let minDist = Number.MAX_VALUE;
-			let bestIdx = 0;
-			for (let i = 0; i < centroids.length; i++) {
-				const dist = this.colorDistanceSq(entry.lab, centroids[i]);
-				if (dist < minDist) {
-					minDist = dist;
-					bestIdx = i;
-				}
-			}
-			centroidRgbMap.set(key, bestIdx);
+			centroidRgbMap.set(key, this.nearestCentroid(entry.point, centroids));
 		}
 
 		return pixels.map((p) => {
 			if (p.alpha === 0) return p;
-			const key = (p.r << 16) | (p.g << 8) | p.b;
-			const paletteIdx = centroidRgbMap.get(key) ?? 0;
+			const paletteIdx = centroidRgbMap.get(this.colorKey(p)) ?? 0;
 			const rgb = palette[paletteIdx];
-			return { ...rgb, alpha: p.alpha };
+			const alpha = this.clusterAlpha
+				? Math.round(centroids[paletteIdx].alpha * 255)
+				: p.alpha;
+			return { ...rgb, alpha };
 		});
 	}
 
@@ -176,6 +244,9 @@ export class OklabKMeans {
 
 	/**
 	 * Apply dithering with various modes
+	 * serpentine: error diffusion scans odd rows right-to-left
+	 * mask: per-pixel flags (0 = snap to the nearest color without dithering)
+	 * ディザリングは RGB で行う。alpha は各画素の値を保つ（clusterAlpha のときは最寄りの重心の alpha にする）。
 	 */
 	applyDithering(
 		pixels: PixelData[],
@@ -183,92 +254,48 @@ export class OklabKMeans {
 		height: number,
 		mode: DitherMode,
 		strength = 1.0,
+		serpentine = false,
+		mask?: Uint8Array,
 	): PixelData[] {
-		// 1. Get palette via K-means (using existing quantize logic to find centroids)
-		const opaquePixels = pixels.filter((p) => p.alpha > 0);
-		if (opaquePixels.length === 0 || this.maxColors >= opaquePixels.length) {
-			return pixels;
-		}
+		// 1. Get palette via K-means
+		const clustered = this.cluster(pixels);
+		if (!clustered) return pixels;
+		const { centroids } = clustered;
 
-		const colorMap = new Map<number, { lab: Oklab; count: number }>();
-		for (const p of opaquePixels) {
-			const key = (p.r << 16) | (p.g << 8) | p.b;
-			const entry = colorMap.get(key);
-			if (entry) {
-				entry.count++;
-			} else {
-				colorMap.set(key, { lab: rgbToOklab(p), count: 1 });
-			}
-		}
-
-		const uniqueColors = Array.from(colorMap.values());
-		if (uniqueColors.length <= this.maxColors) {
-			return pixels;
-		}
-
-		let centroids: Oklab[] = this.initializeCentroids(uniqueColors);
-		// Run K-means (simplified version of quantize loop to get centroids)
-		for (let iter = 0; iter < this.maxIterations; iter++) {
-			const clusters = Array.from({ length: this.maxColors }, () => ({
-				sumL: 0,
-				suma: 0,
-				sumb: 0,
-				count: 0,
-			}));
-			for (const color of uniqueColors) {
-				let minDist = Number.MAX_VALUE;
-				let bestCluster = 0;
-				for (let i = 0; i < centroids.length; i++) {
-					const dist = this.colorDistanceSq(color.lab, centroids[i]);
-					if (dist < minDist) {
-						minDist = dist;
-						bestCluster = i;
-					}
-				}
-				const cluster = clusters[bestCluster];
-				cluster.sumL += color.lab.L * color.count;
-				cluster.suma += color.lab.a * color.count;
-				cluster.sumb += color.lab.b * color.count;
-				cluster.count += color.count;
-			}
-			let maxMovement = 0;
-			const newCentroids: Oklab[] = [];
-			for (let i = 0; i < centroids.length; i++) {
-				const cluster = clusters[i];
-				if (cluster.count > 0) {
-					const nextCentroid = {
-						L: cluster.sumL / cluster.count,
-						a: cluster.suma / cluster.count,
-						b: cluster.sumb / cluster.count,
-					};
-					const movement = this.colorDistanceSq(centroids[i], nextCentroid);
-					maxMovement = Math.max(maxMovement, movement);
-					newCentroids.push(nextCentroid);
-				} else {
-					newCentroids.push(
-						uniqueColors[Math.floor(Math.random() * uniqueColors.length)].lab,
-					);
-				}
-			}
-			centroids = newCentroids;
-			if (maxMovement < this.tolerance * this.tolerance) break;
-		}
-
-		const palette = centroids.map((lab) => oklabToRgb(lab));
-		const paletteLabs = centroids;
+		const palette = centroids.map((c) => oklabToRgb(c));
 
 		if (mode === "none" || strength <= 0) {
-			return this.quantizeWithPalette(pixels, palette, paletteLabs);
+			return this.quantizeWithPalette(pixels, palette, centroids);
 		}
 
-		if (mode === "floyd-steinberg") {
-			return this.applyFloydSteinberg(
+		const kernel = ERROR_DIFFUSION_KERNELS[mode];
+		if (kernel) {
+			return this.applyErrorDiffusion(
 				pixels,
 				width,
 				height,
 				palette,
-				paletteLabs,
+				centroids,
+				kernel,
+				strength,
+				serpentine,
+				mask,
+			);
+		}
+
+		// パターンディザは K-means の重心を固定パレットとして扱う
+		if (mode === "yliluoma" || mode === "knoll") {
+			const alphas = this.clusterAlpha
+				? centroids.map((c) => Math.round(c.alpha * 255))
+				: undefined;
+			return new PaletteQuantizer(palette, alphas).applyDithering(
+				pixels,
+				width,
+				height,
+				mode,
 				strength,
+				false,
+				mask,
 			);
 		}
 
@@ -277,68 +304,56 @@ export class OklabKMeans {
 			width,
 			height,
 			palette,
-			paletteLabs,
+			centroids,
 			mode,
 			strength,
+			mask,
 		);
 	}
 
 	private quantizeWithPalette(
 		pixels: PixelData[],
 		palette: RGB[],
-		paletteLabs: Oklab[],
+		centroids: ClusterPoint[],
 	): PixelData[] {
 		const memo = new Map<number, number>();
 		return pixels.map((p) => {
 			if (p.alpha === 0) return p;
-			const key = (p.r << 16) | (p.g << 8) | p.b;
+			const key = this.colorKey(p);
 			let bestIdx = memo.get(key);
 			if (bestIdx === undefined) {
-				const lab = rgbToOklab(p);
-				let minDist = Number.MAX_VALUE;
-				bestIdx = 0;
-				for (let i = 0; i < paletteLabs.length; i++) {
-					const dist = this.colorDistanceSq(lab, paletteLabs[i]);
-					if (dist < minDist) {
-						minDist = dist;
-						bestIdx = i;
-					}
-				}
+				bestIdx = this.nearestCentroid(this.pointOf(p), centroids);
 				memo.set(key, bestIdx);
 			}
 			const rgb = palette[bestIdx];
-			return { ...rgb, alpha: p.alpha };
+			return { ...rgb, alpha: this.alphaOf(p, centroids[bestIdx]) };
 		});
 	}
 
-	private applyFloydSteinberg(
+	private applyErrorDiffusion(
 		pixels: PixelData[],
 		width: number,
 		height: number,
 		palette: RGB[],
-		paletteLabs: Oklab[],
+		centroids: ClusterPoint[],
+		kernel: DiffusionKernel,
 		strength: number,
+		serpentine: boolean,
+		mask?: Uint8Array,
 	): PixelData[] {
 		const out = pixels.map((p) => ({ ...p }));
 
 		for (let y = 0; y < height; y++) {
-			for (let x = 0; x < width; x++) {
+			const dir = serpentine && y % 2 === 1 ? -1 : 1;
+			for (let i = 0; i < width; i++) {
+				const x = dir === 1 ? i : width - 1 - i;
 				const idx = y * width + x;
-				const p = out[idx];
+				// マスク外の画素は周りから誤差を受け取らず、誤差も配らない
+				const masked = mask !== undefined && mask[idx] === 0;
+				const p = masked ? pixels[idx] : out[idx];
 				if (p.alpha === 0) continue;
 
-				const lab = rgbToOklab(p);
-				let minDist = Number.MAX_VALUE;
-				let bestIdx = 0;
-
-				for (let i = 0; i < paletteLabs.length; i++) {
-					const dist = this.colorDistanceSq(lab, paletteLabs[i]);
-					if (dist < minDist) {
-						minDist = dist;
-						bestIdx = i;
-					}
-				}
-
+				const bestIdx = this.nearestCentroid(this.pointOf(p), centroids);
 				const closest = palette[bestIdx];
 				const errR = (p.r - closest.r) * strength;
 				const errG = (p.g - closest.g) * strength;
@@ -347,52 +362,23 @@ export class OklabKMeans {
 				out[idx].r = closest.r;
 				out[idx].g = closest.g;
 				out[idx].b = closest.b;
+				out[idx].alpha = this.alphaOf(p, centroids[bestIdx]);
+				if (masked) continue;
 
 				// Distribute error
-				this.distributeError(
-					out,
-					x + 1,
-					y,
-					width,
-					height,
-					errR,
-					errG,
-					errB,
-					7 / 16,
-				);
-				this.distributeError(
-					out,
-					x - 1,
-					y + 1,
-					width,
-					height,
-					errR,
-					errG,
-					errB,
-					3 / 16,
-				);
-				this.distributeError(
-					out,
-					x,
-					y + 1,
-					width,
-					height,
-					errR,
-					errG,
-					errB,
-					5 / 16,
-				);
-				this.distributeError(
-					out,
-					x + 1,
-					y + 1,
-					width,
-					height,
-					errR,
-					errG,
-					errB,
-					1 / 16,
-				);
+				for (const [dx, dy, weight] of kernel.taps) {
+					this.distributeError(
+						out,
+						x + dx * dir,
+						y + dy,
+						width,
+						height,
+						errR,
+						errG,
+						errB,
+						weight / kernel.divisor,
+					);
+				}
 			}
 		}
 
@@ -404,9 +390,10 @@ export class OklabKMeans {
 		width: number,
 		height: number,
 		palette: RGB[],
-		paletteLabs: Oklab[],
+		centroids: ClusterPoint[],
 		mode: DitherMode,
 		strength: number,
+		mask?: Uint8Array,
 	): PixelData[] {
 		const matrix = getDitherMatrix(mode);
 		const size = Math.sqrt(matrix.length);
@@ -423,30 +410,19 @@ export class OklabKMeans {
 
 				const threshold = matrix[(y % size) * size + (x % size)];
 				// 閾値を -0.5 ~ 0.5 に変換して強度を掛ける
-				const bias = (threshold - 0.5) * strength * 255;
+				const bias =
+					mask && mask[idx] === 0 ? 0 : (threshold - 0.5) * strength * 255;
 
 				const biasedR = Math.max(0, Math.min(255, p.r + bias));
 				const biasedG = Math.max(0, Math.min(255, p.g + bias));
 				const biasedB = Math.max(0, Math.min(255, p.b + bias));
 
-				const lab = rgbToOklab({
-					r: biasedR,
-					g: biasedG,
-					b: biasedB,
-				});
-				let minDist = Number.MAX_VALUE;
-				let bestIdx = 0;
-
-				for (let i = 0; i < paletteLabs.length; i++) {
-					const dist = this.colorDistanceSq(lab, paletteLabs[i]);
-					if (dist < minDist) {
-						minDist = dist;
-						bestIdx = i;
-					}
-				}
-
+				const bestIdx = this.nearestCentroid(
+					this.pointOf({ r: biasedR, g: biasedG, b: biasedB, alpha: p.alpha }),
+					centroids,
+				);
 				const closest = palette[bestIdx];
-				out[idx] = { ...closest, alpha: p.alpha };
+				out[idx] = { ...closest, alpha: this.alphaOf(p, centroids[bestIdx]) };
 			}
 		}
 
@@ -474,10 +450,122 @@ export class OklabKMeans {
 		p.b = Math.max(0, Math.min(255, p.b + errB * weight));
 	}
 
-	private initializeCentroids(
-		uniqueColors: { lab: Oklab; count: number }[],
-	): Oklab[] {
-		const centroids: Oklab[] = [];
+	/**
+	 * 不透明な画素の色（clusterAlpha のときは RGBA）ごとに、画素数で重み付けした K-means を行う。
+	 * 色数が maxColors 以下で減色の必要がないときは null。
+	 */
+	private cluster(pixels: PixelData[]): {
+		centroids: ClusterPoint[];
+		colorMap: Map<number, ClusterColor>;
+	} | null {
+		// 1. Pre-processing: Extract unique opaque colors to speed up K-means
+		const opaquePixels = pixels.filter((p) => p.alpha > 0);
+		if (opaquePixels.length === 0 || this.maxColors >= opaquePixels.length) {
+			return null;
+		}
+
+		// Use a Map to count occurrences of each color for weighted centroids
+		const colorMap = new Map<number, ClusterColor>();
+		for (const p of opaquePixels) {
+			const key = this.colorKey(p);
+			const entry = colorMap.get(key);
+			if (entry) {
+				entry.count++;
+			} else {
+				colorMap.set(key, {
+					point: this.pointOf(p),
+					count: 1,
+				});
+			}
+		}
+
+		const uniqueColors = Array.from(colorMap.values());
+		if (uniqueColors.length <= this.maxColors) {
+			return null;
+		}
+
+		// 2. Initialization: Randomly pick maxColors as initial centroids
+		let centroids = this.initializeCentroids(uniqueColors);
+
+		// 3. Main Loop
+		for (let iter = 0; iter < this.maxIterations; iter++) {
+			const clusters = Array.from({ length: this.maxColors }, () => ({
+				sumL: 0,
+				suma: 0,
+				sumb: 0,
+				sumAlpha: 0,
+				count: 0,
+			}));
+
+			// Assignment
+			for (const color of uniqueColors) {
+				const cluster = clusters[this.nearestCentroid(color.point, centroids)];
+				cluster.sumL += color.point.L * color.count;
+				cluster.suma += color.point.a * color.count;
+				cluster.sumb += color.point.b * color.count;
+				cluster.sumAlpha += color.point.alpha * color.count;
+				cluster.count += color.count;
+			}
+
+			// Update
+			let maxMovement = 0;
+			const newCentroids: ClusterPoint[] = [];
+			for (let i = 0; i < centroids.length; i++) {
+				const cluster = clusters[i];
+				if (cluster.count > 0) {
+					const nextCentroid = {
+						L: cluster.sumL / cluster.count,
+						a: cluster.suma / cluster.count,
+						b: cluster.sumb / cluster.count,
+						alpha: cluster.sumAlpha / cluster.count,
+					};
+					const movement = this.pointDistanceSq(centroids[i], nextCentroid);
+					maxMovement = Math.max(maxMovement, movement);
+					newCentroids.push(nextCentroid);
+				} else {
+					// If a cluster is empty, re-initialize it with a random color
+					newCentroids.push(
+						uniqueColors[Math.floor(Math.random() * uniqueColors.length)].point,
+					);
+				}
+			}
+
+			centroids = newCentroids;
+			if (maxMovement < this.tolerance * this.tolerance) break;
+		}
+
+		return { centroids, colorMap };
+	}
+
+	private colorKey(p: PixelData): number {
+		const rgb = (p.r << 16) | (p.g << 8) | p.b;
+		return this.clusterAlpha ? p.alpha * 0x1000000 + rgb : rgb;
+	}
+
+	private pointOf(p: PixelData): ClusterPoint {
+		return { ...rgbToOklab(p), alpha: this.clusterAlpha ? p.alpha / 255 : 1 };
+	}
+
+	/** 出力する画素の alpha（clusterAlpha のときは重心の alpha、それ以外は元の画素の alpha） */
+	private alphaOf(p: PixelData, centroid: ClusterPoint): number {
+		return this.clusterAlpha ? Math.round(centroid.alpha * 255) : p.alpha;
+	}
+
+	private nearestCentroid(point: ClusterPoint, centroids: ClusterPoint[]) {
+		let minDist = Number.MAX_VALUE;
+		let bestIdx = 0;
+		for (let i = 0; i < centroids.length; i++) {
+			const dist = this.pointDistanceSq(point, centroids[i]);
+			if (dist < minDist) {
+				minDist = dist;
+				bestIdx = i;
+			}
+		}
+		return bestIdx;
+	}
+
+	private initializeCentroids(uniqueColors: ClusterColor[]): ClusterPoint[] {
+		const centroids: ClusterPoint[] = [];
 		const usedIndices = new Set<number>();
 
 		// Simple random initialization
@@ -488,12 +576,17 @@ export class OklabKMeans {
 			const idx = Math.floor(Math.random() * uniqueColors.length);
 			if (!usedIndices.has(idx)) {
 				usedIndices.add(idx);
-				centroids.push(uniqueColors[idx].lab);
+				centroids.push(uniqueColors[idx].point);
 			}
 		}
 		return centroids;
 	}
 
+	private pointDistanceSq(c1: ClusterPoint, c2: ClusterPoint): number {
+		const dAlpha = c1.alpha - c2.alpha;
+		return this.colorDistanceSq(c1, c2) + dAlpha * dAlpha;
+	}
+
 	private colorDistanceSq(c1: Oklab, c2: Oklab): number {
 		const dL = c1.L - c2.L;
 		const da = c1.a - c2.a;
@@ -504,69 +597,34 @@ export class OklabKMeans {
 
 /**
  * Fixed palette quantization using Oklab distance
+ * alphas（パレット色ごとの alpha 0-255）を渡すと RGBA のパレットとして扱い、
+ * 最寄りの色を alpha の差も含めて選んで、その色の alpha を出力する。
  */
 export class PaletteQuantizer {
 	private paletteLabs: Oklab[];
 
-	constructor(private palette: RGB[]) {
+	constructor(
+		private palette: RGB[],
+		private alphas?: number[],
+	) {
 		this.paletteLabs = palette.map((rgb) => rgbToOklab(rgb));
 	}
 
 	quantize(pixels: PixelData[]): PixelData[] {
-		const memo = new Map<number, number>(); // RGB key -> palette index
+		const memo = new Map<number, number>(); // color key -> palette index
 
 		return pixels.map((p) => {
 			if (p.alpha === 0) return p;
-			const key = (p.r << 16) | (p.g << 8) | p.b;
+			const key = this.colorKey(p);
 
 			let paletteIdx = memo.get(key);
 			if (paletteIdx === undefined) {
-				const lab = rgbToOklab(p);
-				let minDist = Number.MAX_VALUE;
-				paletteIdx = 0;
-
-				for (let i = 0; i < this.paletteLabs.length; i++) {
-					const targetLab = this.paletteLabs[i];
-					const targetRgb = this.palette[i];
-
-					// Oklab distance
-					let dist = this.colorDistanceSq(lab, targetLab);
-
-					// 暗いピクセルの場合、茶色などの暗色に引っ張られないよう
-					// 純粋な黒（L=0）への判定にバイアスをかけるか、RGB距離を補助的に使用する。
-					// 特に NES の黒 (#000000) と茶色 (#503000) の誤判定を防ぐ。
-					const isTargetBlack =
-						targetRgb.r === 0 && targetRgb.g === 0 && targetRgb.b === 0;
-
-					if (isTargetBlack) {
-						// L=0.2 程度（sRGBで約45-50）以下の極めて暗いピクセルのみバイアスをかける。
-						// こうすることで、Game Boy パレットなどの「暗いグレー」が黒に判定されるのを防ぐ。
-						if (lab.L < 0.2) {
-							const lBias = (0.2 - lab.L) * 1.5;
-							dist -= lBias * lBias;
-						}
-					}
-
-					// RGB 空間での距離も補助的に使用する（極めて暗い色のみ）。
-					if (lab.L < 0.1) {
-						const dR = (p.r - targetRgb.r) / 255;
-						const dG = (p.g - targetRgb.g) / 255;
-						const dB = (p.b - targetRgb.b) / 255;
-						const rgbDistSq = dR * dR + dG * dG + dB * dB;
-						const rgbWeight = 0.5 - lab.L;
-						dist += rgbDistSq * rgbWeight;
-					}
-
-					if (dist < minDist) {
-						minDist = dist;
-						paletteIdx = i;
-					}
-				}
+				paletteIdx = this.nearestIndex(p);
 				memo.set(key, paletteIdx);
 			}
 
 			const rgb = this.palette[paletteIdx];
-			return { ...rgb, alpha: p.alpha };
+			return { ...rgb, alpha: this.alphaAt(paletteIdx, p.alpha) };
 		});
 	}
 
@@ -590,6 +648,8 @@ export class PaletteQuantizer {
 
 	/**
 	 * Apply dithering with various modes
+	 * serpentine: error diffusion scans odd rows right-to-left
+	 * mask: per-pixel flags (0 = snap to the nearest color without dithering)
 	 */
 	applyDithering(
 		pixels: PixelData[],
@@ -597,66 +657,249 @@ export class PaletteQuantizer {
 		height: number,
 		mode: DitherMode,
 		strength = 1.0,
+		serpentine = false,
+		mask?: Uint8Array,
 	): PixelData[] {
 		if (mode === "none" || strength <= 0) {
 			return this.quantize(pixels);
 		}
 
-		if (mode === "floyd-steinberg") {
-			return this.applyFloydSteinberg(pixels, width, height, strength);
+		const kernel = ERROR_DIFFUSION_KERNELS[mode];
+		if (kernel) {
+			return this.applyErrorDiffusion(
+				pixels,
+				width,
+				height,
+				kernel,
+				strength,
+				serpentine,
+				mask,
+			);
 		}
 
-		return this.applyOrderedDithering(pixels, width, height, mode, strength);
+		if (mode === "yliluoma" || mode === "knoll") {
+			return this.applyPatternDithering(
+				pixels,
+				width,
+				height,
+				mode,
+				strength,
+				mask,
+			);
+		}
+
+		return this.applyOrderedDithering(
+			pixels,
+			width,
+			height,
+			mode,
+			strength,
+			mask,
+		);
 	}
 
-	private applyFloydSteinberg(
+	/**
+	 * 位置依存のパターンディザ。色ごとに「混ぜるとその色に見える」パレット色の組（明るさ順）を作り、
+	 * Bayer 8x8 の閾値でどれを置くかを選ぶ。Bayer のように最寄り色の周りで揺らすだけでなく、
+	 * 離れた 2 色以上を混ぜられるため、NES や PICO-8 のような少ない固定パレットで中間色を表現できる。
+	 * strength は閾値の振れ幅で、弱めるほど組の中央の色に寄る。
+	 */
+	private applyPatternDithering(
 		pixels: PixelData[],
 		width: number,
 		height: number,
+		mode: "yliluoma" | "knoll",
 		strength: number,
+		mask?: Uint8Array,
 	): PixelData[] {
-		const out = pixels.map((p) => ({ ...p }));
+		const plans = new Map<number, number[]>();
+		const out = new Array<PixelData>(pixels.length);
 
 		for (let y = 0; y < height; y++) {
 			for (let x = 0; x < width; x++) {
 				const idx = y * width + x;
-				const p = out[idx];
-				if (p.alpha === 0) continue;
+				const p = pixels[idx];
+				if (p.alpha === 0) {
+					out[idx] = p;
+					continue;
+				}
+				if (mask && mask[idx] === 0) {
+					const nearest = this.nearestIndex(p);
+					out[idx] = {
+						...this.palette[nearest],
+						alpha: this.alphaAt(nearest, p.alpha),
+					};
+					continue;
+				}
 
-				const lab = rgbToOklab(p);
-				let minDist = Number.MAX_VALUE;
-				let bestIdx = 0;
+				const key = this.colorKey(p);
+				let plan = plans.get(key);
+				if (!plan) {
+					plan =
+						mode === "yliluoma"
+							? this.devisePatternYliluoma(p)
+							: this.devisePatternKnoll(p);
+					plans.set(key, plan);
+				}
 
-				for (let i = 0; i < this.paletteLabs.length; i++) {
-					const targetLab = this.paletteLabs[i];
-					const targetRgb = this.palette[i];
+				const threshold = BAYER_8X8[(y % 8) * 8 + (x % 8)];
+				const t = 0.5 + (threshold - 0.5) * Math.min(1, strength);
+				const chosen = plan[Math.floor(t * plan.length)];
+				out[idx] = {
+					...this.palette[chosen],
+					alpha: this.alphaAt(chosen, p.alpha),
+				};
+			}
+		}
 
-					let dist = this.colorDistanceSq(lab, targetLab);
+		return out;
+	}
 
-					const isTargetBlack =
-						targetRgb.r === 0 && targetRgb.g === 0 && targetRgb.b === 0;
-					if (isTargetBlack) {
-						if (lab.L < 0.2) {
-							const lBias = (0.2 - lab.L) * 1.5;
-							dist -= lBias * lBias;
-						}
+	/**
+	 * Yliluoma's ordered dithering algorithm 2.
+	 * 今までに選んだ色との平均が目標の色に最も近くなるパレット色を、1, 2, 4... 個ずつ貪欲に足していく。
+	 * alphas があるときは alpha の平均の差も加える。
+	 */
+	private devisePatternYliluoma(color: PixelData): number[] {
+		const target = rgbToOklab(color);
+		const plan: number[] = [];
+		const sum = { r: 0, g: 0, b: 0, alpha: 0 };
+
+		while (plan.length < PATTERN_SIZE) {
+			let chosen = 0;
+			let chosenAmount = 1;
+			let leastPenalty = Number.MAX_VALUE;
+			const maxAmount = Math.max(1, plan.length);
+
+			for (let i = 0; i < this.palette.length; i++) {
+				const c = this.palette[i];
+				for (
+					let amount = 1;
+					amount <= maxAmount && plan.length + amount <= PATTERN_SIZE;
+					amount *= 2
+				) {
+					const total = plan.length + amount;
+					const mixed = rgbToOklab({
+						r: (sum.r + c.r * amount) / total,
+						g: (sum.g + c.g * amount) / total,
+						b: (sum.b + c.b * amount) / total,
+					});
+					const mixedAlpha =
+						(sum.alpha + (this.alphas?.[i] ?? 0) * amount) / total;
+					const penalty =
+						this.colorDistanceSq(target, mixed) +
+						(this.alphas ? ((color.alpha - mixedAlpha) / 255) ** 2 : 0);
+					if (penalty < leastPenalty) {
+						leastPenalty = penalty;
+						chosen = i;
+						chosenAmount = amount;
 					}
+				}
+			}
 
-					if (lab.L < 0.1) {
-						const dR = (p.r - targetRgb.r) / 255;
-						const dG = (p.g - targetRgb.g) / 255;
-						const dB = (p.b - targetRgb.b) / 255;
-						const rgbDistSq = dR * dR + dG * dG + dB * dB;
-						const rgbWeight = 0.5 - lab.L;
-						dist += rgbDistSq * rgbWeight;
-					}
+			const c = this.palette[chosen];
+			for (let k = 0; k < chosenAmount; k++) plan.push(chosen);
+			sum.r += c.r * chosenAmount;
+			sum.g += c.g * chosenAmount;
+			sum.b += c.b * chosenAmount;
+			sum.alpha += (this.alphas?.[chosen] ?? 0) * chosenAmount;
+		}
 
-					if (dist < minDist) {
-						minDist = dist;
-						bestIdx = i;
-					}
-				}
+		return plan.sort((a, b) => luma(this.palette[a]) - luma(this.palette[b]));
+	}
+
+	/**
+	 * Thomas Knoll's pattern dithering.
+	 * 目標の色に累積誤差を足した色の最寄り色を候補に加える、を PATTERN_SIZE 回繰り返す。
+	 */
+	private devisePatternKnoll(color: PixelData): number[] {
+		const plan: number[] = [];
+		const err = { r: 0, g: 0, b: 0 };
+
+		for (let i = 0; i < PATTERN_SIZE; i++) {
+			const idx = this.nearestIndex({
+				r: Math.max(0, Math.min(255, color.r + err.r * KNOLL_ERROR_MULTIPLIER)),
+				g: Math.max(0, Math.min(255, color.g + err.g * KNOLL_ERROR_MULTIPLIER)),
+				b: Math.max(0, Math.min(255, color.b + err.b * KNOLL_ERROR_MULTIPLIER)),
+				alpha: color.alpha,
+			});
+			plan.push(idx);
+			const c = this.palette[idx];
+			err.r += color.r - c.r;
+			err.g += color.g - c.g;
+			err.b += color.b - c.b;
+		}
+
+		return plan.sort((a, b) => luma(this.palette[a]) - luma(this.palette[b]));
+	}
 
+	/**
+	 * 最も近いパレット色の番号を返す（Oklab の距離に、暗色の補正と alphas があるときの alpha の差を足す）。
+	 */
+	private nearestIndex(color: PixelData): number {
+		const lab = rgbToOklab(color);
+		let minDist = Number.MAX_VALUE;
+		let bestIdx = 0;
+
+		for (let i = 0; i < this.paletteLabs.length; i++) {
+			const targetRgb = this.palette[i];
+			let dist =
+				this.colorDistanceSq(lab, this.paletteLabs[i]) +
+				this.alphaDistanceSq(color.alpha, i);
+
+			// 暗いピクセルの場合、茶色などの暗色に引っ張られないよう
+			// 純粋な黒（L=0）への判定にバイアスをかけるか、RGB距離を補助的に使用する。
+			// 特に NES の黒 (#000000) と茶色 (#503000) の誤判定を防ぐ。
+			const isTargetBlack =
+				targetRgb.r === 0 && targetRgb.g === 0 && targetRgb.b === 0;
+
+			// L=0.2 程度（sRGBで約45-50）以下の極めて暗いピクセルのみバイアスをかける。
+			// こうすることで、Game Boy パレットなどの「暗いグレー」が黒に判定されるのを防ぐ。
+			if (isTargetBlack && lab.L < 0.2) {
+				const lBias = (0.2 - lab.L) * 1.5;
+				dist -= lBias * lBias;
+			}
+
+			// RGB 空間での距離も補助的に使用する（極めて暗い色のみ）。
+			if (lab.L < 0.1) {
+				const dR = (color.r - targetRgb.r) / 255;
+				const dG = (color.g - targetRgb.g) / 255;
+				const dB = (color.b - targetRgb.b) / 255;
+				const rgbDistSq = dR * dR + dG * dG + dB * dB;
+				const rgbWeight = 0.5 - lab.L;
+				dist += rgbDistSq * rgbWeight;
+			}
+
+			if (dist < minDist) {
+				minDist = dist;
+				bestIdx = i;
+			}
+		}
+		return bestIdx;
+	}
+
+	private applyErrorDiffusion(
+		pixels: PixelData[],
+		width: number,
+		height: number,
+		kernel: DiffusionKernel,
+		strength: number,
+		serpentine: boolean,
+		mask?: Uint8Array,
+	): PixelData[] {
+		const out = pixels.map((p) => ({ ...p }));
+
+		for (let y = 0; y < height; y++) {
+			const dir = serpentine && y % 2 === 1 ? -1 : 1;
+			for (let i = 0; i < width; i++) {
+				const x = dir === 1 ? i : width - 1 - i;
+				const idx = y * width + x;
+				// マスク外の画素は周りから誤差を受け取らず、誤差も配らない
+				const masked = mask !== undefined && mask[idx] === 0;
+				const p = masked ? pixels[idx] : out[idx];
+				if (p.alpha === 0) continue;
+
+				const bestIdx = this.nearestIndex(p);
 				const closest = this.palette[bestIdx];
 				const errR = (p.r - closest.r) * strength;
 				const errG = (p.g - closest.g) * strength;
@@ -665,52 +908,23 @@ export class PaletteQuantizer {
 				out[idx].r = closest.r;
 				out[idx].g = closest.g;
 				out[idx].b = closest.b;
+				out[idx].alpha = this.alphaAt(bestIdx, p.alpha);
+				if (masked) continue;
 
 				// Distribute error
-				this.distributeError(
-					out,
-					x + 1,
-					y,
-					width,
-					height,
-					errR,
-					errG,
-					errB,
-					7 / 16,
-				);
-				this.distributeError(
-					out,
-					x - 1,
-					y + 1,
-					width,
-					height,
-					errR,
-					errG,
-					errB,
-					3 / 16,
-				);
-				this.distributeError(
-					out,
-					x,
-					y + 1,
-					width,
-					height,
-					errR,
-					errG,
-					errB,
-					5 / 16,
-				);
-				this.distributeError(
-					out,
-					x + 1,
-					y + 1,
-					width,
-					height,
-					errR,
-					errG,
-					errB,
-					1 / 16,
-				);
+				for (const [dx, dy, weight] of kernel.taps) {
+					this.distributeError(
+						out,
+						x + dx * dir,
+						y + dy,
+						width,
+						height,
+						errR,
+						errG,
+						errB,
+						weight / kernel.divisor,
+					);
+				}
 			}
 		}
 
@@ -723,6 +937,7 @@ export class PaletteQuantizer {
 		height: number,
 		mode: DitherMode,
 		strength: number,
+		mask?: Uint8Array,
 	): PixelData[] {
 		const matrix = getDitherMatrix(mode);
 		const size = Math.sqrt(matrix.length);
@@ -738,52 +953,21 @@ export class PaletteQuantizer {
 				}
 
 				const threshold = matrix[(y % size) * size + (x % size)];
-				const bias = (threshold - 0.5) * strength * 255;
+				const bias =
+					mask && mask[idx] === 0 ? 0 : (threshold - 0.5) * strength * 255;
 
 				const biasedR = Math.max(0, Math.min(255, p.r + bias));
 				const biasedG = Math.max(0, Math.min(255, p.g + bias));
 				const biasedB = Math.max(0, Math.min(255, p.b + bias));
 
-				const lab = rgbToOklab({
+				const bestIdx = this.nearestIndex({
 					r: biasedR,
 					g: biasedG,
 					b: biasedB,
+					alpha: p.alpha,
 				});
-				let minDist = Number.MAX_VALUE;
-				let bestIdx = 0;
-
-				for (let i = 0; i < this.paletteLabs.length; i++) {
-					const targetLab = this.paletteLabs[i];
-					const targetRgb = this.palette[i];
-
-					let dist = this.colorDistanceSq(lab, targetLab);
-
-					const isTargetBlack =
-						targetRgb.r === 0 && targetRgb.g === 0 && targetRgb.b === 0;
-					if (isTargetBlack) {
-						if (lab.L < 0.2) {
-							const lBias = (0.2 - lab.L) * 1.5;
-							dist -= lBias * lBias;
-						}
-					}
-
-					if (lab.L < 0.1) {
-						const dR = (biasedR - targetRgb.r) / 255;
-						const dG = (biasedG - targetRgb.g) / 255;
-						const dB = (biasedB - targetRgb.b) / 255;
-						const rgbDistSq = dR * dR + dG * dG + dB * dB;
-						const rgbWeight = 0.5 - lab.L;
-						dist += rgbDistSq * rgbWeight;
-					}
-
-					if (dist < minDist) {
-						minDist = dist;
-						bestIdx = i;
-					}
-				}
-
 				const closest = this.palette[bestIdx];
-				out[idx] = { ...closest, alpha: p.alpha };
+				out[idx] = { ...closest, alpha: this.alphaAt(bestIdx, p.alpha) };
 			}
 		}
 
@@ -811,6 +995,23 @@ export class PaletteQuantizer {
 		p.b = Math.max(0, Math.min(255, p.b + errB * weight));
 	}
 
+	private colorKey(p: PixelData): number {
+		const rgb = (p.r << 16) | (p.g << 8) | p.b;
+		return this.alphas ? p.alpha * 0x1000000 + rgb : rgb;
+	}
+
+	/** パレット色 i との alpha の差（0-1）の 2 乗。alphas がないときは 0 */
+	private alphaDistanceSq(alpha: number, i: number): number {
+		if (!this.alphas) return 0;
+		const d = (alpha - this.alphas[i]) / 255;
+		return d * d;
+	}
+
+	/** パレット色 i を置く画素の alpha（alphas がないときは元の画素の alpha） */
+	private alphaAt(i: number, alpha: number): number {
+		return this.alphas ? this.alphas[i] : alpha;
+	}
+
 	private colorDistanceSq(c1: Oklab, c2: Oklab): number {
 		const dL = c1.L - c2.L;
 		const da = c1.a - c2.a;
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { PROCESS_RANGES } from "../shared/config";
+import {
+	createRecipe,
+	deserializeRecipe,
+	parseRecipe,
+	RECIPE_FORMAT,
+	RECIPE_VERSION,
+	serializeRecipe,
+} from "./recipe";
+
+describe("recipe", () => {
+	it("ProcessOptions を往復しても値が保たれる", () => {
+		const recipe = createRecipe(
+			{
+				detectionQuantStep: 32,
+				forcePixelsW: 48,
+				forcePixelsH: 32,
+				reduceColors: true,
+				reduceColorMode: "fixed",
+				fixedPalette: [
+					{ r: 0, g: 0, b: 0 },
+					{ r: 255, g: 128, b: 0 },
+				],
+				ditherMode: "bayer-4x4",
+				bgExtractionMethod: "rgb",
+				bgRgb: "#00FF00",
+				outlineStyle: "sharp",
+				outlineColor: { r: 1, g: 2, b: 3 },
+				debug: true,
+				debugHook: () => {},
+			},
+			"sprites",
+		);
+
+		expect(recipe.format).toBe(RECIPE_FORMAT);
+		expect(recipe.version).toBe(RECIPE_VERSION);
+		expect(recipe.options).not.toHaveProperty("debug");
+		expect(recipe.options).not.toHaveProperty("debugHook");
+
+		const restored = deserializeRecipe(serializeRecipe(recipe));
+		expect(restored).toEqual({ ...recipe });
+		expect(restored.options.bgRgb).toBe("#00ff00");
+		expect(restored.options.fixedPalette).toHaveLength(2);
+	});
+
+	it("数値は PROCESS_RANGES にクランプされる", () => {
+		const recipe = parseRecipe({
+			format: RECIPE_FORMAT,
+			version: RECIPE_VERSION,
+			options: { colorCount: 9999, sampleWindow: -3, ditherStrength: 12.7 },
+		});
+		expect(recipe.options.colorCount).toBe(PROCESS_RANGES.colorCount.max);
+		expect(recipe.options.sampleWindow).toBe(PROCESS_RANGES.sampleWindow.min);
+		expect(recipe.options.ditherStrength).toBe(12);
+	});
+
+	it("型が合わない値や未対応のバージョンはエラーになる", () => {
+		const doc = (options: Record<string, unknown>) => ({
+			format: RECIPE_FORMAT,
+			version: RECIPE_VERSION,
+			options,
+		});
+		expect(() => parseRecipe(doc({ trimToContent: "yes" }))).toThrow(
+			/trimToContent/,
+		);
+		expect(() => parseRecipe(doc({ ditherMode: "random" }))).toThrow(
+			/ditherMode/,
+		);
+		expect(() => parseRecipe(doc({ outlineColor: "white" }))).toThrow();
+		expect(() =>
+			parseRecipe({ format: RECIPE_FORMAT, version: 99, options: {} }),
+		).toThrow(/version/);
+		expect(() => parseRecipe({ format: "other", version: 1 })).toThrow();
+		expect(() => deserializeRecipe("{")).toThrow(/Invalid recipe/);
+	});
+
+	it("未知のキーは無視する", () => {
+		const recipe = parseRecipe({
+			format: RECIPE_FORMAT,
+			version: RECIPE_VERSION,
+			options: { unknownOption: 1, colorCount: 8 },
+		});
+		expect(recipe.options).toEqual({ colorCount: 8 });
+	});
+
+	it("旧プリセット形式 (v1) から移行できる", () => {
+		const recipe = parseRecipe({
+			"quant-step": 16,
+			"quant-step-slider": 16,
+			"force-pixels-w": 0,
+			"force-pixels-h": 0,
+			"sample-window": 5,
+			tolerance: 40,
+			"pre-remove": true,
+			"post-remove": true,
+			"remove-inner-background": true,
+			"enable-bg-removal": false,
+			"bg-extraction-method": "top-right",
+			"bg-rgb-input": "",
+			"reduce-color-mode": "pico8",
+			"dither-mode": "floyd-steinberg",
+			"outline-color": "#ff0000",
+			"floating-max-percent": 2.5,
+			"auto-process-toggle": true,
+		});
+		expect(recipe.version).toBe(RECIPE_VERSION);
+		expect(recipe.options).toMatchObject({
+			detectionQuantStep: 16,
+			sampleWindow: 5,
+			backgroundTolerance: 40,
+			preRemoveBackground: false,
+			postRemoveBackground: false,
+			removeInnerBackground: false,
+			bgExtractionMethod: "none",
+			floatingMaxPercent: 0,
+			reduceColors: true,
+			reduceColorMode: "pico8",
+			ditherMode: "floyd-steinberg",
+			outlineColor: { r: 255, g: 0, b: 0 },
+		});
+		expect(recipe.options.forcePixelsW).toBeUndefined();
+		expect(recipe.options.bgRgb).toBeUndefined();
+	});
+});
@@ -0,0 +1,364 @@
+import {
+	ALPHA_POLICIES,
+	BG_EXTRACTION_METHODS,
+	CELL_SAMPLERS,
+	clampInt,
+	clampNumber,
+	DITHER_MODES,
+	GRID_DETECTORS,
+	HARDWARE_PROFILES,
+	type IntRange,
+	OUTLINE_STYLES,
+	PROCESS_RANGES,
+	REDUCE_COLOR_MODES,
+} from "../shared/config";
+import type { RGB } from "../shared/types";
+import type { ProcessOptions } from "./processor";
+
+export const RECIPE_FORMAT = "pixel-refiner-recipe";
+export const RECIPE_VERSION = 2;
+
+/**
+ * A recipe stores every ProcessOptions field except the runtime-only debug hooks
+ * and the per-image manual grid, perspective quad and dither mask.
+ */
+export type RecipeOptions = Omit<
+	ProcessOptions,
+	| "debug"
+	| "debugLabel"
+	| "debugHook"
+	| "manualGrid"
+	| "perspectiveQuad"
+	| "ditherMask"
+>;
+
+export type Recipe = {
+	format: typeof RECIPE_FORMAT;
+	version: typeof RECIPE_VERSION;
+	name?: string;
+	options: RecipeOptions;
+};
+
+type FieldSchema =
+	| { type: "boolean" }
+	| { type: "int"; range: IntRange }
+	| { type: "number"; range: IntRange }
+	| { type: "enum"; values: readonly string[] }
+	| { type: "hex" }
+	| { type: "rgb" }
+	| { type: "palette" };
+
+const RECIPE_SCHEMA: { [K in keyof Required<RecipeOptions>]: FieldSchema } = {
+	detectionQuantStep: { type: "int", range: PROCESS_RANGES.detectionQuantStep },
+	autoMaxCellsW: { type: "int", range: PROCESS_RANGES.autoMaxCells },
+	autoMaxCellsH: { type: "int", range: PROCESS_RANGES.autoMaxCells },
+	detectionStrips: { type: "int", range: PROCESS_RANGES.detectionStrips },
+	backgroundMask: { type: "boolean" },
+	backgroundMaskTolerance: {
+		type: "int",
+		range: PROCESS_RANGES.backgroundTolerance,
+	},
+	gridDetector: { type: "enum", values: GRID_DETECTORS },
+	deskew: { type: "boolean" },
+	restoreArtifacts: { type: "boolean" },
+	preRemoveBackground: { type: "boolean" },
+	postRemoveBackground: { type: "boolean" },
+	forcePixelsW: { type: "int", range: PROCESS_RANGES.forcePixelsW },
+	forcePixelsH: { type: "int", range: PROCESS_RANGES.forcePixelsH },
+	removeInnerBackground: { type: "boolean" },
+	backgroundTolerance: {
+		type: "int",
+		range: PROCESS_RANGES.backgroundTolerance,
+	},
+	sampleWindow: { type: "int", range: PROCESS_RANGES.sampleWindow },
+	cellSampler: { type: "enum", values: CELL_SAMPLERS },
+	trimToContent: { type: "boolean" },
+	trimAlphaThreshold: { type: "int", range: PROCESS_RANGES.trimAlphaThreshold },
+	floatingMaxPixels: { type: "int", range: PROCESS_RANGES.floatingMaxPixels },
+	floatingMaxPercent: {
+		type: "number",
+		range: PROCESS_RANGES.floatingMaxPercent,
+	},
+	autoGridFromTrimmed: { type: "boolean" },
+	fastAutoGridFromTrimmed: { type: "boolean" },
+	enableGridDetection: { type: "boolean" },
+	nonUniformGrid: { type: "boolean" },
+	reduceColors: { type: "boolean" },
+	reduceColorMode: { type: "enum", values: REDUCE_COLOR_MODES },
+	ditherMode: { type: "enum", values: DITHER_MODES },
+	colorCount: { type: "int", range: PROCESS_RANGES.colorCount },
+	ditherStrength: { type: "int", range: PROCESS_RANGES.ditherStrength },
+	ditherSerpentine: { type: "boolean" },
+	ditherMasking: { type: "boolean" },
+	ditherMaskThreshold: {
+		type: "int",
+		range: PROCESS_RANGES.ditherMaskThreshold,
+	},
+	alphaPolicy: { type: "enum", values: ALPHA_POLICIES },
+	alphaThreshold: { type: "int", range: PROCESS_RANGES.alphaThreshold },
+	alphaLevels: { type: "int", range: PROCESS_RANGES.alphaLevels },
+	hardwareProfile: { type: "enum", values: HARDWARE_PROFILES },
+	enforceHardwareConstraints: { type: "boolean" },
+	fixedPalette: { type: "palette" },
+	bgExtractionMethod: { type: "enum", values: BG_EXTRACTION_METHODS },
+	bgRgb: { type: "hex" },
+	outlineStyle: { type: "enum", values: OUTLINE_STYLES },
+	outlineColor: { type: "rgb" },
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toHex = (c: RGB): string =>
+	`#${[c.r, c.g, c.b].map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+
+const parseColor = (value: unknown): RGB | null => {
+	if (typeof value === "string") {
+		const m = /^#?([0-9a-f]{6})$/i.exec(value.trim());
+		if (!m) return null;
+		const n = parseInt(m[1], 16);
+		return { r: (n >> 16) & 0xff, g: (n >> 8) & 0xff, b: n & 0xff };
+	}
+	if (!isObject(value)) return null;
+	const { r, g, b } = value;
+	if (typeof r !== "number" || typeof g !== "number" || typeof b !== "number")
+		return null;
+	const channel = { min: 0, max: 255, default: 0 };
+	return {
+		r: clampInt(r, channel),
+		g: clampInt(g, channel),
+		b: clampInt(b, channel),
+	};
+};
+
+const parseField = (schema: FieldSchema, value: unknown): unknown => {
+	switch (schema.type) {
+		case "boolean":
+			return typeof value === "boolean" ? value : undefined;
+		case "int":
+			return typeof value === "number" && Number.isFinite(value)
+				? clampInt(value, schema.range)
+				: undefined;
+		case "number":
+			return typeof value === "number" && Number.isFinite(value)
+				? clampNumber(value, schema.range)
+				: undefined;
+		case "enum":
+			return typeof value === "string" && schema.values.includes(value)
+				? value
+				: undefined;
+		case "hex": {
+			const color = parseColor(value);
+			return typeof value === "string" && color ? toHex(color) : undefined;
+		}
+		case "rgb":
+			return parseColor(value) ?? undefined;
+		case "palette": {
+			if (!Array.isArray(value)) return undefined;
+			const colors: RGB[] = [];
+			for (const entry of value) {
+				const color = parseColor(entry);
+				if (!color) return undefined;
+				colors.push(color);
+			}
+			return colors;
+		}
+	}
+};
+
+const describeSchema = (schema: FieldSchema): string => {
+	switch (schema.type) {
+		case "int":
+		case "number":
+			return `${schema.type} (${schema.range.min}-${schema.range.max})`;
+		case "enum":
+			return schema.values.join(" | ");
+		case "hex":
+			return "#rrggbb";
+		case "rgb":
+			return "{ r, g, b }";
+		case "palette":
+			return "array of { r, g, b }";
+		default:
+			return schema.type;
+	}
+};
+
+const RECIPE_KEYS: ReadonlySet<string> = new Set(Object.keys(RECIPE_SCHEMA));
+
+const isSchemaKey = (key: string): key is keyof RecipeOptions =>
+	RECIPE_KEYS.has(key);
+
+/**
+ * Validates recipe options against the schema and clamps numeric values to PROCESS_RANGES.
+ * Unknown keys are dropped; values of the wrong type are reported as errors.
+ */
+export const normalizeRecipeOptions = (input: unknown): RecipeOptions => {
+	if (!isObject(input)) {
+		throw new Error("Invalid recipe: options must be an object");
+	}
+	const options: Record<string, unknown> = {};
+	const errors: string[] = [];
+	for (const [key, value] of Object.entries(input)) {
+		if (!isSchemaKey(key) || value === undefined || value === null) continue;
+		const schema = RECIPE_SCHEMA[key];
+		const parsed = parseField(schema, value);
+		if (parsed === undefined) {
+			errors.push(`options.${key}: expected ${describeSchema(schema)}`);
+			continue;
+		}
+		options[key] = parsed;
+	}
+	if (errors.length > 0) {
+		throw new Error(`Invalid recipe: ${errors.join("; ")}`);
+	}
+	return options as RecipeOptions;
+};
+
+/**
+ * v1: the untyped preset data saved by older versions (keyed by the UI element ids).
+ */
+const migrateV1 = (data: JsonObject): JsonObject => {
+	const num = (key: string): number | undefined => {
+		const v = data[key];
+		const n = typeof v === "string" ? Number(v) : v;
+		return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+	};
+	const bool = (key: string): boolean | undefined =>
+		typeof data[key] === "boolean" ? (data[key] as boolean) : undefined;
+	const str = (key: string): string | undefined =>
+		typeof data[key] === "string" ? (data[key] as string) : undefined;
+	// 空欄の Force Width/Height は 0 として保存されていた
+	const optionalSize = (key: string): number | undefined => {
+		const n = num(key);
+		return n !== undefined && n > 0 ? n : undefined;
+	};
+
+	const bgEnabled = bool("enable-bg-removal") ?? true;
+	const reduceColorMode = str("reduce-color-mode");
+	const options: JsonObject = {
+		detectionQuantStep: num("quant-step"),
+		forcePixelsW: optionalSize("force-pixels-w"),
+		forcePixelsH: optionalSize("force-pixels-h"),
+		sampleWindow: num("sample-window"),
+		backgroundTolerance: num("tolerance"),
+		preRemoveBackground: bgEnabled && (bool("pre-remove") ?? false),
+		postRemoveBackground: bgEnabled && (bool("post-remove") ?? false),
+		removeInnerBackground:
+			bgEnabled && (bool("remove-inner-background") ?? false),
+		trimToContent: bool("trim-to-content"),
+		fastAutoGridFromTrimmed: bool("fast-auto-grid-from-trimmed"),
+		enableGridDetection: bool("enable-grid-detection"),
+		reduceColorMode,
+		reduceColors:
+			reduceColorMode === undefined ? undefined : reduceColorMode !== "none",
+		ditherMode: str("dither-mode"),
+		colorCount: num("color-count"),
+		ditherStrength: num("dither-strength"),
+		outlineStyle: str("outline-style"),
+		outlineColor: str("outline-color"),
+		floatingMaxPercent: bgEnabled ? num("floating-max-percent") : 0,
+		bgExtractionMethod: bgEnabled ? str("bg-extraction-method") : "none",
+		bgRgb: /^#[0-9a-f]{6}$/i.test(str("bg-rgb-input") ?? "")
+			? str("bg-rgb-input")
+			: undefined,
+	};
+	// fixed パレット自体は v1 では保存されていなかった
+	if (options.reduceColorMode === "fixed") {
+		options.reduceColorMode = "none";
+		options.reduceColors = false;
+	}
+	return { format: RECIPE_FORMAT, version: 2, options };
+};
+
+const MIGRATIONS: Record<number, (doc: JsonObject) => JsonObject> = {
+	1: migrateV1,
+};
+
+const detectVersion = (doc: JsonObject): number => {
+	if (doc.format === undefined) return 1;
+	if (doc.format !== RECIPE_FORMAT) {
+		throw new Error(`Invalid recipe: unknown format "${String(doc.format)}"`);
+	}
+	if (typeof doc.version !== "number" || !Number.isInteger(doc.version)) {
+		throw new Error("Invalid recipe: version must be an integer");
+	}
+	return doc.version;
+};
+
+/**
+ * Parses a recipe document (already JSON-decoded), migrating older versions to the current one.
+ */
+export const parseRecipe = (input: unknown): Recipe => {
+	if (!isObject(input)) {
+		throw new Error("Invalid recipe: expected a JSON object");
+	}
+	let doc = input;
+	let version = detectVersion(doc);
+	if (version > RECIPE_VERSION) {
+		throw new Error(
+			`Unsupported recipe version ${version} (this app supports up to ${RECIPE_VERSION})`,
+		);
+	}
+	while (version < RECIPE_VERSION) {
+		const migrate = MIGRATIONS[version];
+		if (!migrate) {
+			throw new Error(`Unsupported recipe version ${version}`);
+		}
+		doc = migrate(doc);
+		version = detectVersion(doc);
+	}
+
+	const recipe: Recipe = {
+		format: RECIPE_FORMAT,
+		version: RECIPE_VERSION,
+		options: normalizeRecipeOptions(doc.options ?? {}),
+	};
+	if (typeof doc.name === "string" && doc.name !== "") {
+		recipe.name = doc.name;
+	}
+	return recipe;
+};
+
+/**
+ * Builds a recipe from ProcessOptions, dropping runtime-only fields.
+ */
+export const createRecipe = (
+	options: ProcessOptions,
+	name?: string,
+): Recipe => {
+	const {
+		debug: _debug,
+		debugLabel: _label,
+		debugHook: _hook,
+		manualGrid: _grid,
+		perspectiveQuad: _quad,
+		ditherMask: _mask,
+		...rest
+	} = options;
+	const recipe: Recipe = {
+		format: RECIPE_FORMAT,
+		version: RECIPE_VERSION,
+		options: normalizeRecipeOptions(rest),
+	};
+	if (name) recipe.name = name;
+	return recipe;
+};
+
+export const serializeRecipe = (recipe: Recipe): string =>
+	`${JSON.stringify(recipe, null, 2)}\n`;
+
+/**
+ * Parses recipe JSON text. Throws on malformed JSON or schema violations.
+ */
+export const deserializeRecipe = (text: string): Recipe => {
+	let json: unknown;
+	try {
+		json = JSON.parse(text);
+	} catch (e) {
+		throw new Error(`Invalid recipe: ${(e as Error).message}`);
+	}
+	return parseRecipe(json);
+};
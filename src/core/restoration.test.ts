@@ -0,0 +1,482 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { PNG } from "pngjs";
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import { processImage } from "./processor";
+import {
+	deblockImage,
+	repairChroma,
+	restoreCompressedImage,
+	sharpenCellEdges,
+} from "./restoration";
+
+type Color = [number, number, number];
+
+const CELL = 8;
+
+const readFixture = async (name: string): Promise<RawImage> => {
+	const buf = await readFile(
+		path.resolve(
+			path.dirname(fileURLToPath(import.meta.url)),
+			"../../test/fixtures",
+			name,
+		),
+	);
+	const png = PNG.sync.read(buf);
+	return {
+		width: png.width,
+		height: png.height,
+		data: new Uint8ClampedArray(png.data),
+	};
+};
+
+// JPEG の標準の量子化テーブル（輝度・色差）
+const LUMA_TABLE = [
+	16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16,
+	24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109,
+	103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101,
+	72, 92, 95, 98, 112, 100, 103, 99,
+];
+const CHROMA_TABLE = [
+	17,
+	18,
+	24,
+	47,
+	99,
+	99,
+	99,
+	99,
+	18,
+	21,
+	26,
+	66,
+	99,
+	99,
+	99,
+	99,
+	24,
+	26,
+	56,
+	99,
+	99,
+	99,
+	99,
+	99,
+	47,
+	66,
+	99,
+	99,
+	99,
+	99,
+	99,
+	99,
+	...Array(32).fill(99),
+];
+
+// 8×8 ブロックの DCT → 量子化 → 逆 DCT（plane は width × height、その場で書き換える）
+const quantizePlane = (
+	plane: Float64Array,
+	width: number,
+	height: number,
+	table: number[],
+	quality: number,
+) => {
+	const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+	const q = table.map((v) => Math.max(1, Math.floor((v * scale + 50) / 100)));
+	const cos = (k: number, n: number) =>
+		Math.cos(((2 * n + 1) * k * Math.PI) / 16) * (k === 0 ? Math.SQRT1_2 : 1);
+	const block = new Float64Array(64);
+	const coef = new Float64Array(64);
+	for (let by = 0; by < height; by += 8) {
+		for (let bx = 0; bx < width; bx += 8) {
+			for (let i = 0; i < 64; i += 1) {
+				const x = Math.min(width - 1, bx + (i % 8));
+				const y = Math.min(height - 1, by + Math.floor(i / 8));
+				block[i] = plane[y * width + x] - 128;
+			}
+			for (let v = 0; v < 8; v += 1) {
+				for (let u = 0; u < 8; u += 1) {
+					let sum = 0;
+					for (let i = 0; i < 64; i += 1) {
+						sum += block[i] * cos(u, i % 8) * cos(v, Math.floor(i / 8));
+					}
+					const k = v * 8 + u;
+					coef[k] = Math.round(sum / 4 / q[k]) * q[k];
+				}
+			}
+			for (let i = 0; i < 64; i += 1) {
+				let sum = 0;
+				for (let k = 0; k < 64; k += 1) {
+					sum += coef[k] * cos(k % 8, i % 8) * cos(Math.floor(k / 8), i >> 3);
+				}
+				const x = bx + (i % 8);
+				const y = by + Math.floor(i / 8);
+				if (x < width && y < height) plane[y * width + x] = sum / 4 + 128;
+			}
+		}
+	}
+};
+
+/**
+ * JPEG（4:2:0 のクロマサブサンプリング）で保存して読み直した画像を作る。
+ */
+const jpegDegrade = (img: RawImage, quality: number): RawImage => {
+	const { width, height, data } = img;
+	const Y = new Float64Array(width * height);
+	const cw = Math.ceil(width / 2);
+	const ch = Math.ceil(height / 2);
+	const Cb = new Float64Array(cw * ch);
+	const Cr = new Float64Array(cw * ch);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const i = (y * width + x) * 4;
+			const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+			Y[y * width + x] = 0.299 * r + 0.587 * g + 0.114 * b;
+			const c = (y >> 1) * cw + (x >> 1);
+			Cb[c] += (128 - 0.168736 * r - 0.331264 * g + 0.5 * b) / 4;
+			Cr[c] += (128 + 0.5 * r - 0.418688 * g - 0.081312 * b) / 4;
+		}
+	}
+	quantizePlane(Y, width, height, LUMA_TABLE, quality);
+	quantizePlane(Cb, cw, ch, CHROMA_TABLE, quality);
+	quantizePlane(Cr, cw, ch, CHROMA_TABLE, quality);
+	const out = new Uint8ClampedArray(data.length);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const i = (y * width + x) * 4;
+			const c = (y >> 1) * cw + (x >> 1);
+			const l = Y[y * width + x];
+			const cb = Cb[c] - 128;
+			const cr = Cr[c] - 128;
+			out.set(
+				[
+					l + 1.402 * cr,
+					l - 0.344136 * cb - 0.714136 * cr,
+					l + 1.772 * cb,
+					255,
+				],
+				i,
+			);
+		}
+	}
+	return { width, height, data: out };
+};
+
+// 3×3 の平均（拡大縮小でぼけた輪郭の代わり）
+const blur = (img: RawImage): RawImage => {
+	const { width, height, data } = img;
+	const out = new Uint8ClampedArray(data);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			for (let c = 0; c < 3; c += 1) {
+				let sum = 0;
+				let n = 0;
+				for (let dy = -1; dy <= 1; dy += 1) {
+					for (let dx = -1; dx <= 1; dx += 1) {
+						const nx = x + dx;
+						const ny = y + dy;
+						if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+						sum += data[(ny * width + nx) * 4 + c];
+						n += 1;
+					}
+				}
+				out[(y * width + x) * 4 + c] = sum / n;
+			}
+		}
+	}
+	return { width, height, data: out };
+};
+
+const makeSprite = (
+	size: number,
+	colors: Color[],
+	pick: (x: number, y: number) => number,
+): RawImage => {
+	const data = new Uint8ClampedArray(size * size * 4);
+	for (let y = 0; y < size; y += 1) {
+		for (let x = 0; x < size; x += 1) {
+			data.set([...colors[pick(x, y)], 255], (y * size + x) * 4);
+		}
+	}
+	return { width: size, height: size, data };
+};
+
+const upscale = (img: RawImage, factor: number): RawImage => {
+	const width = img.width * factor;
+	const height = img.height * factor;
+	const data = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const i =
+				(Math.floor(y / factor) * img.width + Math.floor(x / factor)) * 4;
+			data.set(img.data.subarray(i, i + 4), (y * width + x) * 4);
+		}
+	}
+	return { width, height, data };
+};
+
+// 左上に offset px の余白（端の色の繰り返し）を足して、セルを 8×8 のブロックからずらす
+const pad = (img: RawImage, offset: number): RawImage => {
+	const width = img.width + offset;
+	const height = img.height + offset;
+	const data = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const i =
+				(Math.max(0, y - offset) * img.width + Math.max(0, x - offset)) * 4;
+			data.set(img.data.subarray(i, i + 4), (y * width + x) * 4);
+		}
+	}
+	return { width, height, data };
+};
+
+// 画素ごとの RGB の二乗誤差の平均
+const meanSquaredError = (a: RawImage, b: RawImage): number => {
+	let sum = 0;
+	for (let i = 0; i < a.data.length; i += 4) {
+		for (let c = 0; c < 3; c += 1) sum += (a.data[i + c] - b.data[i + c]) ** 2;
+	}
+	return sum / (a.width * a.height);
+};
+
+// JPEG で劣化させたドット絵の回帰テスト用の組（元のドット絵と、劣化させた入力）
+const SPRITES: { name: string; sprite: RawImage; quality: number }[] = [
+	{
+		name: "陰影のある宝石",
+		sprite: makeSprite(
+			16,
+			[
+				[255, 255, 255],
+				[38, 43, 68],
+				[62, 137, 72],
+				[99, 199, 77],
+				[194, 255, 152],
+				[25, 60, 62],
+			],
+			(x, y) => {
+				const d = Math.abs(x - 7.5) + Math.abs(y - 7.5);
+				if (d > 7) return 0;
+				if (d > 6) return 1;
+				if (x + y < 10) return 4;
+				if (x < 8) return 3;
+				return y < 8 ? 2 : 5;
+			},
+		),
+		quality: 50,
+	},
+	{
+		name: "輪郭線のあるキャラクター",
+		sprite: makeSprite(
+			12,
+			[
+				[255, 255, 255],
+				[24, 20, 37],
+				[247, 118, 34],
+				[254, 174, 52],
+			],
+			(x, y) => {
+				const d = Math.hypot(x - 5.5, y - 5.5);
+				if (d > 5) return 0;
+				if (d > 4) return 1;
+				return x + y < 9 ? 3 : 2;
+			},
+		),
+		quality: 40,
+	},
+	{
+		name: "赤と緑の市松模様",
+		sprite: makeSprite(
+			10,
+			[
+				[200, 30, 40],
+				[40, 160, 60],
+			],
+			(x, y) => (x + y) % 2,
+		),
+		quality: 60,
+	},
+];
+
+describe("restoration.ts", () => {
+	describe("deblockImage", () => {
+		it("8×8 のブロック境界の小さな段差を均す", () => {
+			const img = makeSprite(
+				16,
+				[
+					[100, 100, 100],
+					[110, 110, 110],
+				],
+				(x) => (x < 8 ? 0 : 1),
+			);
+			const result = deblockImage(img);
+			const at = (x: number) => result.data[(4 * 16 + x) * 4];
+			expect(at(8) - at(7)).toBeLessThan(10);
+			expect(at(0)).toBe(100);
+			expect(at(15)).toBe(110);
+		});
+
+		it("ドット絵の輪郭（大きな段差）は残す", () => {
+			const img = makeSprite(
+				16,
+				[
+					[0, 0, 0],
+					[255, 255, 255],
+				],
+				(x) => (x < 8 ? 0 : 1),
+			);
+			expect(deblockImage(img)).toEqual(img);
+		});
+	});
+
+	describe("repairChroma", () => {
+		it("にじんだ色を、輝度の近い近傍の色に戻す", () => {
+			// 赤の上に、輝度は赤と同じで色の薄い画素が 1 つある
+			const img = makeSprite(
+				8,
+				[
+					[200, 30, 40],
+					[255, 255, 255],
+				],
+				(x) => (x < 4 ? 0 : 1),
+			);
+			const y = 0.299 * 200 + 0.587 * 30 + 0.114 * 40;
+			img.data.set([y + 20, y - 8, y - 8, 255], (3 * 8 + 3) * 4);
+			const result = repairChroma(img);
+			const p = Array.from(
+				result.data.subarray((3 * 8 + 3) * 4, (3 * 8 + 3) * 4 + 3),
+			);
+			expect(Math.abs(p[0] - 200)).toBeLessThan(4);
+			expect(Math.abs(p[1] - 30)).toBeLessThan(4);
+			expect(Math.abs(p[2] - 40)).toBeLessThan(4);
+		});
+
+		it("透明の画素は変えない", () => {
+			const img = makeSprite(4, [[10, 20, 30]], () => 0);
+			img.data[3] = 0;
+			expect(repairChroma(img).data.subarray(0, 4)).toEqual(
+				new Uint8ClampedArray([10, 20, 30, 0]),
+			);
+		});
+	});
+
+	describe("sharpenCellEdges", () => {
+		it("ぼけた輪郭をどちらかのセルの色に寄せる", () => {
+			const sprite = makeSprite(
+				4,
+				[
+					[0, 0, 0],
+					[255, 255, 255],
+				],
+				(x, y) => (x + y) % 2,
+			);
+			const blurred = blur(upscale(sprite, CELL));
+			const result = sharpenCellEdges(blurred, CELL, CELL);
+			expect(meanSquaredError(result, upscale(sprite, CELL))).toBeLessThan(
+				meanSquaredError(blurred, upscale(sprite, CELL)) / 2,
+			);
+		});
+
+		it("セルが 4px 未満なら何もしない", () => {
+			const img = makeSprite(6, [[1, 2, 3]], () => 0);
+			expect(sharpenCellEdges(img, 3, 3)).toBe(img);
+		});
+	});
+
+	describe("JPEG で劣化させたドット絵", () => {
+		const options = {
+			preRemoveBackground: false,
+			postRemoveBackground: false,
+			trimToContent: false,
+			floatingMaxPixels: 0,
+		};
+		// セルが 8×8 のブロックに揃う場合と、ずれる場合
+		const layouts = [
+			{ cell: 8, offset: 0 },
+			{ cell: 5, offset: 3 },
+		];
+
+		for (const { name, sprite, quality } of SPRITES) {
+			it(`${name}: restoreArtifacts で元のドット絵に近くなる`, () => {
+				let plainError = 0;
+				let restoredError = 0;
+				for (const { cell, offset } of layouts) {
+					const degraded = jpegDegrade(
+						blur(pad(upscale(sprite, cell), offset)),
+						quality,
+					);
+					const manualGrid = {
+						cellW: cell,
+						cellH: cell,
+						offsetX: offset,
+						offsetY: offset,
+					};
+					const plain = processImage(degraded, { ...options, manualGrid });
+					const restored = processImage(degraded, {
+						...options,
+						manualGrid,
+						restoreArtifacts: true,
+					});
+					expect(restored.result.width).toBe(sprite.width);
+					plainError += meanSquaredError(plain.result, sprite);
+					restoredError += meanSquaredError(restored.result, sprite);
+				}
+				expect(restoredError).toBeLessThan(plainError);
+			});
+		}
+
+		// 「陰影のある宝石」を拡大し、実際の JPEG エンコーダ（Pillow, quality 50, 4:2:0）で保存して読み直したもの
+		const fixtures = [
+			{ file: "jpeg_gem_cell8_q50.png", cell: 8, offset: 0 },
+			{ file: "jpeg_gem_cell5_offset3_q50.png", cell: 5, offset: 3 },
+		];
+
+		it("実際の JPEG で保存した画像: restoreArtifacts で元のドット絵に近くなる", async () => {
+			const { sprite } = SPRITES[0];
+			let plainError = 0;
+			let restoredError = 0;
+			for (const { file, cell, offset } of fixtures) {
+				const jpeg = await readFixture(file);
+				const manualGrid = {
+					cellW: cell,
+					cellH: cell,
+					offsetX: offset,
+					offsetY: offset,
+				};
+				const plain = processImage(jpeg, { ...options, manualGrid });
+				const restored = processImage(jpeg, {
+					...options,
+					manualGrid,
+					restoreArtifacts: true,
+				});
+				expect(restored.result.width).toBe(sprite.width);
+				plainError += meanSquaredError(plain.result, sprite);
+				restoredError += meanSquaredError(restored.result, sprite);
+			}
+			expect(restoredError).toBeLessThan(plainError);
+		});
+
+		it("劣化前の画像では、直してもドット絵が変わらない", () => {
+			const { sprite } = SPRITES[0];
+			const { result } = processImage(upscale(sprite, CELL), {
+				...options,
+				manualGrid: { cellW: CELL, cellH: CELL, offsetX: 0, offsetY: 0 },
+				restoreArtifacts: true,
+			});
+			expect(result).toEqual(sprite);
+		});
+
+		it("直した画像を debugHook に渡す", () => {
+			const stages: string[] = [];
+			processImage(restoreCompressedImage(upscale(SPRITES[2].sprite, CELL)), {
+				...options,
+				manualGrid: { cellW: CELL, cellH: CELL, offsetX: 0, offsetY: 0 },
+				restoreArtifacts: true,
+				debugHook: (stage) => stages.push(stage),
+			});
+			expect(stages).toContain("00c-restored");
+			expect(stages).toContain("04c-sharpened");
+		});
+	});
+});
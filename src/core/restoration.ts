@@ -0,0 +1,307 @@
+import type { RawImage } from "../shared/types";
+
+/** JPEG の DCT ブロックの大きさ（px） */
+const BLOCK_SIZE = 8;
+/** ブロック境界の段差（輝度）がこれ未満なら、ブロックノイズとみなして均す */
+const DEBLOCK_MAX_STEP = 12;
+/** ブロック境界の両側がこれ未満の変化（輝度）なら平坦とみなす */
+const DEBLOCK_FLAT = 4;
+/** リンギングを均すときに平均に入れる近傍の色の差（各チャンネル）の上限 */
+const DERING_RANGE = 12;
+/** 色差を直すときに参照する近傍の半径（px）。4:2:0 の 2px より広くとる */
+const CHROMA_RADIUS = 2;
+/** 3×3 の輝度の幅がこれ以上の画素を輪郭とみなし、色差を直す */
+const CHROMA_EDGE = 24;
+/** 色差を直すときに参照する近傍の輝度の差の上限 */
+const CHROMA_LUMA_RANGE = 8;
+
+const luma = (data: Uint8ClampedArray, i: number): number =>
+	0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+const median = (values: number[]): number => {
+	values.sort((a, b) => a - b);
+	const mid = values.length >> 1;
+	return values.length % 2 ? values[mid] : (values[mid - 1] + values[mid]) / 2;
+};
+
+/**
+ * 8×8 のブロック境界の段差を均し（デブロック）、ブロックの中のリンギング（モスキートノイズ）を
+ * 近い色だけの 3×3 平均（シグマフィルタ）で均す。
+ * 境界は段差が DEBLOCK_MAX_STEP 未満で、両側が平坦な所だけを均すので、ドット絵の輪郭は残る。
+ * alpha 0 の画素は変えず、近傍にも使わない。
+ */
+export const deblockImage = (img: RawImage): RawImage => {
+	const { width, height, data } = img;
+	const out = new Uint8ClampedArray(data);
+
+	// 境界をはさむ 4 画素 p1 p0 | q0 q1 の、p0 と q0 を互いに寄せる
+	const filterEdge = (p1: number, p0: number, q0: number, q1: number) => {
+		if (
+			out[p1 + 3] === 0 ||
+			out[p0 + 3] === 0 ||
+			out[q0 + 3] === 0 ||
+			out[q1 + 3] === 0
+		) {
+			return;
+		}
+		const lp1 = luma(out, p1);
+		const lp0 = luma(out, p0);
+		const lq0 = luma(out, q0);
+		const lq1 = luma(out, q1);
+		if (
+			Math.abs(lp0 - lq0) >= DEBLOCK_MAX_STEP ||
+			Math.abs(lp1 - lp0) >= DEBLOCK_FLAT ||
+			Math.abs(lq1 - lq0) >= DEBLOCK_FLAT
+		) {
+			return;
+		}
+		for (let c = 0; c < 3; c += 1) {
+			const a = out[p1 + c];
+			const b = out[p0 + c];
+			const d = out[q0 + c];
+			const e = out[q1 + c];
+			out[p0 + c] = (a + 2 * b + d + 2) / 4;
+			out[q0 + c] = (b + 2 * d + e + 2) / 4;
+		}
+	};
+
+	for (let x = BLOCK_SIZE; x < width - 1; x += BLOCK_SIZE) {
+		for (let y = 0; y < height; y += 1) {
+			const i = (y * width + x) * 4;
+			filterEdge(i - 8, i - 4, i, i + 4);
+		}
+	}
+	const row = width * 4;
+	for (let y = BLOCK_SIZE; y < height - 1; y += BLOCK_SIZE) {
+		for (let x = 0; x < width; x += 1) {
+			const i = (y * width + x) * 4;
+			filterEdge(i - 2 * row, i - row, i, i + row);
+		}
+	}
+
+	const deblocked = new Uint8ClampedArray(out);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const i = (y * width + x) * 4;
+			if (deblocked[i + 3] === 0) continue;
+			let r = 0;
+			let g = 0;
+			let b = 0;
+			let n = 0;
+			for (let dy = -1; dy <= 1; dy += 1) {
+				const ny = y + dy;
+				if (ny < 0 || ny >= height) continue;
+				for (let dx = -1; dx <= 1; dx += 1) {
+					const nx = x + dx;
+					if (nx < 0 || nx >= width) continue;
+					const j = (ny * width + nx) * 4;
+					if (
+						deblocked[j + 3] === 0 ||
+						Math.abs(deblocked[j] - deblocked[i]) >= DERING_RANGE ||
+						Math.abs(deblocked[j + 1] - deblocked[i + 1]) >= DERING_RANGE ||
+						Math.abs(deblocked[j + 2] - deblocked[i + 2]) >= DERING_RANGE
+					) {
+						continue;
+					}
+					r += deblocked[j];
+					g += deblocked[j + 1];
+					b += deblocked[j + 2];
+					n += 1;
+				}
+			}
+			out[i] = r / n;
+			out[i + 1] = g / n;
+			out[i + 2] = b / n;
+		}
+	}
+	return { width, height, data: out };
+};
+
+/**
+ * クロマサブサンプリング（4:2:0 など）で輪郭ににじんだ色を直す。
+ * 輝度は画素ごとに正しいと考え、輝度の変わる所（輪郭）の画素の色差（YCbCr の Cb / Cr）を、
+ * 近傍の平坦な画素のうち輝度の近いものの色差の中央値に置き換える。輝度と、平坦な所の色は変えない。
+ * alpha 0 の画素は変えず、近傍にも使わない。
+ */
+export const repairChroma = (img: RawImage): RawImage => {
+	const { width, height, data } = img;
+	const n = width * height;
+	const Y = new Float32Array(n);
+	const Cb = new Float32Array(n);
+	const Cr = new Float32Array(n);
+	for (let p = 0; p < n; p += 1) {
+		const i = p * 4;
+		Y[p] = luma(data, i);
+		Cb[p] = -0.168736 * data[i] - 0.331264 * data[i + 1] + 0.5 * data[i + 2];
+		Cr[p] = 0.5 * data[i] - 0.418688 * data[i + 1] - 0.081312 * data[i + 2];
+	}
+
+	// 3×3 の輝度の幅が CHROMA_EDGE 未満なら平坦
+	const flat = new Uint8Array(n);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const p = y * width + x;
+			if (data[p * 4 + 3] === 0) continue;
+			let lo = Y[p];
+			let hi = Y[p];
+			for (
+				let ny = Math.max(0, y - 1);
+				ny <= Math.min(height - 1, y + 1);
+				ny += 1
+			) {
+				for (
+					let nx = Math.max(0, x - 1);
+					nx <= Math.min(width - 1, x + 1);
+					nx += 1
+				) {
+					const q = ny * width + nx;
+					if (data[q * 4 + 3] === 0) continue;
+					lo = Math.min(lo, Y[q]);
+					hi = Math.max(hi, Y[q]);
+				}
+			}
+			flat[p] = hi - lo < CHROMA_EDGE ? 1 : 0;
+		}
+	}
+
+	const out = new Uint8ClampedArray(data);
+	const cbs: number[] = [];
+	const crs: number[] = [];
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const p = y * width + x;
+			if (flat[p] || data[p * 4 + 3] === 0) continue;
+			cbs.length = 0;
+			crs.length = 0;
+			for (
+				let ny = Math.max(0, y - CHROMA_RADIUS);
+				ny <= Math.min(height - 1, y + CHROMA_RADIUS);
+				ny += 1
+			) {
+				for (
+					let nx = Math.max(0, x - CHROMA_RADIUS);
+					nx <= Math.min(width - 1, x + CHROMA_RADIUS);
+					nx += 1
+				) {
+					const q = ny * width + nx;
+					if (!flat[q] || Math.abs(Y[q] - Y[p]) >= CHROMA_LUMA_RANGE) continue;
+					cbs.push(Cb[q]);
+					crs.push(Cr[q]);
+				}
+			}
+			if (cbs.length === 0) continue;
+			const cb = median(cbs);
+			const cr = median(crs);
+			out[p * 4] = Y[p] + 1.402 * cr;
+			out[p * 4 + 1] = Y[p] - 0.344136 * cb - 0.714136 * cr;
+			out[p * 4 + 2] = Y[p] + 1.772 * cb;
+		}
+	}
+	return { width, height, data: out };
+};
+
+/**
+ * JPEG で圧縮された画像のブロックノイズ・リンギングと、色のにじみを直す（グリッド検出の前に使う）。
+ */
+export const restoreCompressedImage = (img: RawImage): RawImage =>
+	repairChroma(deblockImage(img));
+
+/**
+ * セルの大きさに合わせた Kuwahara フィルタで、ぼけた輪郭を鋭くする（縮小の前に使う）。
+ * 各画素を、その画素を角に含む 4 つの正方形のうち色のばらつきが最も小さいものの平均色にする。
+ * 正方形の一辺は min(cellW, cellH) / 4 + 1 なので、セルの中の平坦な所は変わらず、
+ * 境界でぼけた画素はどちらかのセルの色に寄る。セルが 4px 未満なら何もしない。
+ * alpha 0 の画素は変えず、平均にも使わない。
+ */
+export const sharpenCellEdges = (
+	img: RawImage,
+	cellW: number,
+	cellH: number,
+): RawImage => {
+	const radius = Math.floor(Math.min(cellW, cellH) / 4);
+	if (radius < 1) return img;
+	const { width, height, data } = img;
+
+	// 不透明な画素の数・各チャンネルの和・二乗和の積分画像
+	const stride = width + 1;
+	const size = stride * (height + 1);
+	const count = new Float64Array(size);
+	const sums = [
+		new Float64Array(size),
+		new Float64Array(size),
+		new Float64Array(size),
+	];
+	const squares = new Float64Array(size);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const i = (y * width + x) * 4;
+			const k = (y + 1) * stride + x + 1;
+			const opaque = data[i + 3] > 0;
+			const up = k - stride;
+			count[k] = count[k - 1] + count[up] - count[up - 1] + (opaque ? 1 : 0);
+			let sq = 0;
+			for (let c = 0; c < 3; c += 1) {
+				const v = opaque ? data[i + c] : 0;
+				const s = sums[c];
+				s[k] = s[k - 1] + s[up] - s[up - 1] + v;
+				sq += v * v;
+			}
+			squares[k] = squares[k - 1] + squares[up] - squares[up - 1] + sq;
+		}
+	}
+	const boxSum = (
+		arr: Float64Array,
+		x0: number,
+		y0: number,
+		x1: number,
+		y1: number,
+	) =>
+		arr[y1 * stride + x1] -
+		arr[y0 * stride + x1] -
+		arr[y1 * stride + x0] +
+		arr[y0 * stride + x0];
+
+	// 画素 (x, y) を角に含む 4 つの (radius + 1)² の正方形の向き
+	const quadrants = [
+		[-1, -1],
+		[1, -1],
+		[-1, 1],
+		[1, 1],
+	];
+	const [sumR, sumG, sumB] = sums;
+	const out = new Uint8ClampedArray(data);
+	for (let y = 0; y < height; y += 1) {
+		for (let x = 0; x < width; x += 1) {
+			const i = (y * width + x) * 4;
+			if (data[i + 3] === 0) continue;
+			let bestVariance = Number.POSITIVE_INFINITY;
+			let bestR = data[i];
+			let bestG = data[i + 1];
+			let bestB = data[i + 2];
+			for (const [sx, sy] of quadrants) {
+				// 画像の外は切る
+				const x0 = Math.max(0, sx < 0 ? x - radius : x);
+				const x1 = Math.min(width, sx < 0 ? x + 1 : x + radius + 1);
+				const y0 = Math.max(0, sy < 0 ? y - radius : y);
+				const y1 = Math.min(height, sy < 0 ? y + 1 : y + radius + 1);
+				const n = boxSum(count, x0, y0, x1, y1);
+				if (n === 0) continue;
+				const r = boxSum(sumR, x0, y0, x1, y1) / n;
+				const g = boxSum(sumG, x0, y0, x1, y1) / n;
+				const b = boxSum(sumB, x0, y0, x1, y1) / n;
+				const variance =
+					boxSum(squares, x0, y0, x1, y1) / n - r * r - g * g - b * b;
+				if (variance < bestVariance - 1e-6) {
+					bestVariance = variance;
+					bestR = r;
+					bestG = g;
+					bestB = b;
+				}
+			}
+			out[i] = bestR;
+			out[i + 1] = bestG;
+			out[i + 2] = bestB;
+		}
+	}
+	return { width, height, data: out };
+};
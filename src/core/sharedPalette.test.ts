@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import { processImage } from "./processor";
+import { buildSharedPalette, createBatchPalette } from "./sharedPalette";
+
+// 左半分を肌色、右半分を指定色で塗った画像
+const makeImage = (
+	skin: [number, number, number],
+	other: [number, number, number],
+): RawImage => {
+	const w = 8;
+	const h = 4;
+	const data = new Uint8ClampedArray(w * h * 4);
+	for (let i = 0; i < w * h; i += 1) {
+		const [r, g, b] = i % w < w / 2 ? skin : other;
+		data.set([r, g, b, 255], i * 4);
+	}
+	return { width: w, height: h, data };
+};
+
+const OPTIONS = {
+	enableGridDetection: false,
+	preRemoveBackground: false,
+	postRemoveBackground: false,
+	trimToContent: false,
+	floatingMaxPixels: 0,
+	reduceColors: true,
+	reduceColorMode: "auto",
+	colorCount: 2,
+} as const;
+
+const colorAt = (img: RawImage, i: number): number[] =>
+	Array.from(img.data.subarray(i * 4, i * 4 + 3));
+
+describe("createBatchPalette", () => {
+	it("全画像で同じ色の肌色になる", () => {
+		const images = [
+			makeImage([200, 150, 120], [20, 20, 160]),
+			makeImage([206, 148, 116], [20, 20, 160]),
+		];
+
+		// 画像ごとの K-means では肌色がずれる
+		const separate = images.map((img) => processImage(img, OPTIONS).result);
+		expect(colorAt(separate[0], 0)).not.toEqual(colorAt(separate[1], 0));
+
+		const palette = createBatchPalette(
+			images.map((image) => ({ image })),
+			OPTIONS,
+		);
+		expect(palette).toHaveLength(2);
+
+		const shared = images.map(
+			(img) => processImage(img, { ...OPTIONS, fixedPalette: palette }).result,
+		);
+		expect(colorAt(shared[0], 0)).toEqual(colorAt(shared[1], 0));
+		expect(colorAt(shared[0], 0)).not.toEqual(colorAt(shared[0], 7));
+	});
+
+	it("SFC モードでは 15bit に丸めた色でパレットを作る", () => {
+		const palette = buildSharedPalette(
+			[makeImage([201, 150, 123], [3, 5, 9])],
+			{
+				reduceColorMode: "sfc_sprite",
+			},
+		);
+		for (const c of palette) {
+			expect([c.r % 8, c.g % 8, c.b % 8]).toEqual([0, 0, 0]);
+		}
+	});
+
+	it('alphaPolicy="quantize" では半透明の色を別のパレット色にする', () => {
+		// 不透明の白と灰色、半透明の白っぽい色を 8 画素ずつ
+		const colors = [
+			[255, 255, 255, 255],
+			[200, 200, 200, 255],
+			[250, 250, 250, 100],
+		];
+		const data = new Uint8ClampedArray(24 * 4);
+		for (let i = 0; i < 24; i += 1) data.set(colors[i % 3], i * 4);
+		const image = { width: 24, height: 1, data };
+
+		// RGB だけでは白と半透明の白がまとまる
+		const rgbOnly = buildSharedPalette([image], { colorCount: 2 });
+		expect(rgbOnly).not.toContainEqual({ r: 250, g: 250, b: 250 });
+
+		const palette = buildSharedPalette([image], {
+			colorCount: 2,
+			alphaPolicy: "quantize",
+		});
+		expect(palette).toHaveLength(2);
+		expect(palette).toContainEqual({ r: 250, g: 250, b: 250 });
+	});
+});
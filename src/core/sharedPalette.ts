@@ -0,0 +1,98 @@
+import { clampInt, PROCESS_DEFAULTS, PROCESS_RANGES } from "../shared/config";
+import type {
+	ManualGrid,
+	PerspectiveQuad,
+	PixelData,
+	RawImage,
+	RGB,
+} from "../shared/types";
+import { type ProcessOptions, processImage } from "./processor";
+import { OklabKMeans } from "./quantizer";
+
+export type SharedPaletteInput = {
+	image: RawImage;
+	/** 画像ごとの手動グリッド（UI の ImageItem.manualGrid） */
+	manualGrid?: ManualGrid;
+	/** 画像ごとの射影補正の 4 隅（UI の ImageItem.perspectiveQuad） */
+	perspectiveQuad?: PerspectiveQuad;
+};
+
+/**
+ * 複数の画像の不透明な画素をまとめて 1 回だけ K-means にかけ、共通のパレットを作る。
+ * 色数と SFC モードの 15bit 丸め、alphaPolicy="quantize" での alpha 込みのクラスタリングは
+ * processImage の減色（applyColorReduction）に合わせる。
+ * fixedPalette は RGB なので、パレットには重心の RGB だけを入れる（各画素の alpha は alphaLevels の段階のまま残る）。
+ */
+export const buildSharedPalette = (
+	images: RawImage[],
+	options: ProcessOptions = {},
+): RGB[] => {
+	const mode = options.reduceColorMode ?? PROCESS_DEFAULTS.reduceColorMode;
+	const isSfcMode = mode === "sfc_sprite" || mode === "sfc_bg";
+	let count = clampInt(
+		options.colorCount ?? PROCESS_DEFAULTS.colorCount,
+		PROCESS_RANGES.colorCount,
+	);
+	if (mode === "sfc_sprite") count = 16;
+	else if (mode === "sfc_bg") count = 256;
+	const clusterAlpha =
+		(options.alphaPolicy ?? PROCESS_DEFAULTS.alphaPolicy) === "quantize";
+
+	const pixels: PixelData[] = [];
+	for (const img of images) {
+		for (let i = 0; i < img.data.length; i += 4) {
+			if (img.data[i + 3] < 16) continue;
+			const r = img.data[i];
+			const g = img.data[i + 1];
+			const b = img.data[i + 2];
+			const alpha = clusterAlpha ? img.data[i + 3] : 255;
+			pixels.push(
+				isSfcMode
+					? {
+							r: Math.round(r / 8) * 8,
+							g: Math.round(g / 8) * 8,
+							b: Math.round(b / 8) * 8,
+							alpha,
+						}
+					: { r, g, b, alpha },
+			);
+		}
+	}
+
+	const keys = new Set<number>();
+	const palette: RGB[] = [];
+	for (const p of new OklabKMeans(count, { clusterAlpha }).quantize(pixels)) {
+		const r = Math.min(255, p.r);
+		const g = Math.min(255, p.g);
+		const b = Math.min(255, p.b);
+		const key = (r << 16) | (g << 8) | b;
+		if (!keys.has(key)) {
+			keys.add(key);
+			palette.push({ r, g, b });
+		}
+	}
+	return palette;
+};
+
+/**
+ * 一括処理用の共通パレットを作る。
+ * 各画像を減色なしで処理（グリッド検出・縮小・背景透過まで）してから、結果の画素をまとめて K-means にかける。
+ * 得られたパレットを fixedPalette として全画像に適用すると、画像間で同じ色が揃う。
+ */
+export const createBatchPalette = (
+	inputs: SharedPaletteInput[],
+	options: ProcessOptions = {},
+): RGB[] => {
+	const results = inputs.map(
+		({ image, manualGrid, perspectiveQuad }) =>
+			processImage(image, {
+				...options,
+				manualGrid: manualGrid ?? options.manualGrid,
+				perspectiveQuad: perspectiveQuad ?? options.perspectiveQuad,
+				reduceColors: false,
+				fixedPalette: undefined,
+				outlineStyle: "none",
+			}).result,
+	);
+	return buildSharedPalette(results, options);
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import { sliceSpriteSheet } from "./spritesheet";
+
+// 白背景に黒い矩形（スプライト）を置いた画像
+const makeSheet = (
+	w: number,
+	h: number,
+	rects: Array<[number, number, number, number]>,
+): RawImage => {
+	const data = new Uint8ClampedArray(w * h * 4).fill(255);
+	for (const [rx, ry, rw, rh] of rects) {
+		for (let y = ry; y < ry + rh; y++) {
+			for (let x = rx; x < rx + rw; x++) {
+				const idx = (y * w + x) * 4;
+				data[idx] = 0;
+				data[idx + 1] = 0;
+				data[idx + 2] = 0;
+			}
+		}
+	}
+	return { width: w, height: h, data };
+};
+
+const opaqueCount = (img: RawImage): number => {
+	let n = 0;
+	for (let i = 3; i < img.data.length; i += 4) {
+		if (img.data[i] > 0) n++;
+	}
+	return n;
+};
+
+describe("sliceSpriteSheet", () => {
+	it("auto: 連結成分ごとに読み順でフレームを切り出す", () => {
+		const img = makeSheet(40, 30, [
+			[22, 2, 6, 6],
+			[2, 3, 8, 5],
+			[4, 18, 5, 7],
+		]);
+		const frames = sliceSpriteSheet(img, { mode: "auto", padding: 1 });
+
+		expect(frames.map(({ x, y, w, h }) => ({ x, y, w, h }))).toEqual([
+			{ x: 1, y: 2, w: 10, h: 7 },
+			{ x: 21, y: 1, w: 8, h: 8 },
+			{ x: 3, y: 17, w: 7, h: 9 },
+		]);
+		expect(opaqueCount(frames[0].image)).toBe(8 * 5);
+	});
+
+	it("auto: 近いパーツはまとめ、小さなゴミは無視する", () => {
+		const img = makeSheet(40, 20, [
+			[2, 2, 8, 8],
+			[11, 4, 2, 2], // 本体から 1px 離れたパーツ
+			[30, 15, 1, 1], // ゴミ
+		]);
+		const frames = sliceSpriteSheet(img, {
+			mode: "auto",
+			mergeGap: 2,
+			minPixels: 4,
+			padding: 0,
+		});
+
+		expect(frames).toHaveLength(1);
+		expect(frames[0]).toMatchObject({ x: 2, y: 2, w: 11, h: 8 });
+		expect(opaqueCount(frames[0].image)).toBe(64 + 4);
+	});
+
+	it("auto: 余白に入り込んだ隣のスプライトの画素はフレームに含めない", () => {
+		const img = makeSheet(30, 20, [
+			[2, 2, 10, 10],
+			[13, 2, 4, 4],
+		]);
+		const frames = sliceSpriteSheet(img, {
+			mode: "auto",
+			mergeGap: 0,
+			padding: 2,
+		});
+
+		expect(frames).toHaveLength(2);
+		expect(frames[0]).toMatchObject({ x: 0, y: 0, w: 14, h: 14 });
+		expect(opaqueCount(frames[0].image)).toBe(100);
+		expect(opaqueCount(frames[1].image)).toBe(16);
+	});
+
+	it("grid: 列×行で切り分け、背景だけのフレームは除く", () => {
+		const img = makeSheet(40, 20, [
+			[2, 2, 4, 4],
+			[22, 2, 4, 4],
+			[32, 12, 4, 4],
+		]);
+		const frames = sliceSpriteSheet(img, { mode: "grid", columns: 4, rows: 2 });
+
+		expect(frames.map(({ x, y }) => [x, y])).toEqual([
+			[0, 0],
+			[20, 0],
+			[30, 10],
+		]);
+		expect(frames[0].image.width).toBe(10);
+		expect(frames[0].image.height).toBe(10);
+		// grid では元画像をそのまま切り出す
+		expect(opaqueCount(frames[0].image)).toBe(100);
+	});
+});
@@ -0,0 +1,210 @@
+import { clampInt, PROCESS_RANGES } from "../shared/config";
+import type { RawImage, SpriteSliceMode } from "../shared/types";
+import {
+	cropRawImage,
+	labelOpaqueComponents,
+	maskBackground,
+	type ProcessOptions,
+} from "./processor";
+
+export type SpriteSliceOptions = {
+	mode?: SpriteSliceMode;
+	/** auto: 箱どうしの距離がこれ以下のスプライトは 1 枚にまとめる（px） */
+	mergeGap?: number;
+	/** auto: これより小さい連結成分はゴミとして無視する（px） */
+	minPixels?: number;
+	/** auto: 各フレームの周囲に付ける透明な余白（px） */
+	padding?: number;
+	/** grid: 列数 */
+	columns?: number;
+	/** grid: 行数 */
+	rows?: number;
+};
+
+export type SpriteFrame = {
+	/** 元画像での切り出し位置 */
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+	image: RawImage;
+};
+
+type Box = { x: number; y: number; w: number; h: number };
+
+// 隙間が gap px 以下なら近いとみなす（gap=0 は接している箱）
+const boxesNear = (a: Box, b: Box, gap: number): boolean =>
+	a.x <= b.x + b.w + gap &&
+	b.x <= a.x + a.w + gap &&
+	a.y <= b.y + b.h + gap &&
+	b.y <= a.y + a.h + gap;
+
+const unionBox = (a: Box, b: Box): Box => {
+	const x = Math.min(a.x, b.x);
+	const y = Math.min(a.y, b.y);
+	return {
+		x,
+		y,
+		w: Math.max(a.x + a.w, b.x + b.w) - x,
+		h: Math.max(a.y + a.h, b.y + b.h) - y,
+	};
+};
+
+/**
+ * 箱を読み順（上の行から、行内は左から）に並べる。
+ * 縦方向の中心が現在の行の範囲に入るものを同じ行とみなす。
+ */
+const sortReadingOrder = <T extends { box: Box }>(items: T[]): T[] => {
+	const byTop = [...items].sort((a, b) => a.box.y - b.box.y);
+	const rows: T[][] = [];
+	let rowBottom = Number.NEGATIVE_INFINITY;
+	for (const item of byTop) {
+		const centerY = item.box.y + item.box.h / 2;
+		if (rows.length === 0 || centerY >= rowBottom) {
+			rows.push([item]);
+			rowBottom = item.box.y + item.box.h;
+		} else {
+			rows[rows.length - 1].push(item);
+			rowBottom = Math.max(rowBottom, item.box.y + item.box.h);
+		}
+	}
+	return rows.flatMap((row) => row.sort((a, b) => a.box.x - b.box.x));
+};
+
+/**
+ * 背景透過後の連結成分からスプライトを見つけて切り出す。
+ * 近い成分（剣のエフェクトや目など離れたパーツ）は mergeGap でまとめ、
+ * 各フレームには自分のスプライト以外の画素を含めない（透明にする）。
+ */
+const sliceAuto = (
+	img: RawImage,
+	options: ProcessOptions,
+	slice: SpriteSliceOptions,
+): SpriteFrame[] => {
+	const mergeGap = clampInt(
+		slice.mergeGap ?? PROCESS_RANGES.spriteMergeGap.default,
+		PROCESS_RANGES.spriteMergeGap,
+	);
+	const minPixels = clampInt(
+		slice.minPixels ?? PROCESS_RANGES.spriteMinPixels.default,
+		PROCESS_RANGES.spriteMinPixels,
+	);
+	const padding = clampInt(
+		slice.padding ?? PROCESS_RANGES.spritePadding.default,
+		PROCESS_RANGES.spritePadding,
+	);
+	const alphaThreshold = clampInt(
+		options.trimAlphaThreshold ?? PROCESS_RANGES.trimAlphaThreshold.default,
+		PROCESS_RANGES.trimAlphaThreshold,
+	);
+
+	const masked = maskBackground(img, options);
+	const { labels, components } = labelOpaqueComponents(masked, alphaThreshold);
+
+	// 小さなゴミを除いてから、近いものを繰り返しまとめる
+	let groups = components
+		.filter((c) => c.size >= minPixels)
+		.map((c) => ({
+			box: { x: c.x, y: c.y, w: c.w, h: c.h },
+			ids: [c.id],
+		}));
+	let merged = true;
+	while (merged) {
+		merged = false;
+		const next: typeof groups = [];
+		for (const g of groups) {
+			const target = next.find((n) => boxesNear(n.box, g.box, mergeGap));
+			if (target) {
+				target.box = unionBox(target.box, g.box);
+				target.ids.push(...g.ids);
+				merged = true;
+			} else {
+				next.push(g);
+			}
+		}
+		groups = next;
+	}
+
+	const groupOf = new Int32Array(components.length + 1);
+	return sortReadingOrder(groups).map((g, i) => {
+		for (const id of g.ids) groupOf[id] = i + 1;
+		const x = Math.max(0, g.box.x - padding);
+		const y = Math.max(0, g.box.y - padding);
+		const w = Math.min(img.width, g.box.x + g.box.w + padding) - x;
+		const h = Math.min(img.height, g.box.y + g.box.h + padding) - y;
+
+		const image = cropRawImage(masked, x, y, w, h);
+		for (let j = 0; j < h; j += 1) {
+			for (let k = 0; k < w; k += 1) {
+				if (groupOf[labels[(y + j) * img.width + x + k]] !== i + 1) {
+					image.data[(j * w + k) * 4 + 3] = 0;
+				}
+			}
+		}
+		return { x, y, w, h, image };
+	});
+};
+
+/**
+ * 固定の列×行でフレームに切り分ける。背景しか無いフレームは除く。
+ * フレームは元画像から切り出す（背景透過は各フレームの processImage に任せる）。
+ */
+const sliceGrid = (
+	img: RawImage,
+	options: ProcessOptions,
+	slice: SpriteSliceOptions,
+): SpriteFrame[] => {
+	const columns = clampInt(
+		slice.columns ?? PROCESS_RANGES.spriteGridCount.default,
+		PROCESS_RANGES.spriteGridCount,
+	);
+	const rows = clampInt(
+		slice.rows ?? PROCESS_RANGES.spriteGridCount.default,
+		PROCESS_RANGES.spriteGridCount,
+	);
+	const alphaThreshold = clampInt(
+		options.trimAlphaThreshold ?? PROCESS_RANGES.trimAlphaThreshold.default,
+		PROCESS_RANGES.trimAlphaThreshold,
+	);
+	const masked = maskBackground(img, options);
+
+	const frames: SpriteFrame[] = [];
+	for (let r = 0; r < rows; r += 1) {
+		const y = Math.round((r * img.height) / rows);
+		const h = Math.round(((r + 1) * img.height) / rows) - y;
+		for (let c = 0; c < columns; c += 1) {
+			const x = Math.round((c * img.width) / columns);
+			const w = Math.round(((c + 1) * img.width) / columns) - x;
+			if (w <= 0 || h <= 0) continue;
+
+			let empty = true;
+			for (let j = 0; j < h && empty; j += 1) {
+				for (let k = 0; k < w; k += 1) {
+					if (
+						masked.data[((y + j) * img.width + x + k) * 4 + 3] >= alphaThreshold
+					) {
+						empty = false;
+						break;
+					}
+				}
+			}
+			if (empty) continue;
+			frames.push({ x, y, w, h, image: cropRawImage(img, x, y, w, h) });
+		}
+	}
+	return frames;
+};
+
+/**
+ * スプライトシートを個別のフレームに分割する。
+ * 背景の判定には processImage と同じ設定（options）を使う。各フレームはそれぞれ processImage に通す想定。
+ */
+export const sliceSpriteSheet = (
+	img: RawImage,
+	slice: SpriteSliceOptions = {},
+	options: ProcessOptions = {},
+): SpriteFrame[] => {
+	return slice.mode === "grid"
+		? sliceGrid(img, options, slice)
+		: sliceAuto(img, options, slice);
+};
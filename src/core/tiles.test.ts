@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import type { RawImage } from "../shared/types";
+import { exportTiles, tileExportFiles } from "./tiles";
+
+type Color = [number, number, number, number];
+const T: Color = [0, 0, 0, 0];
+const W: Color = [255, 255, 255, 255];
+const K: Color = [0, 0, 0, 255];
+const R: Color = [255, 0, 0, 255];
+
+const makeImage = (
+	width: number,
+	height: number,
+	color: (x: number, y: number) => Color,
+): RawImage => {
+	const data = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			data.set(color(x, y), (y * width + x) * 4);
+		}
+	}
+	return { width, height, data };
+};
+
+// 左上が白、右下に向かって斜めに黒い線のある 8×8 のタイル
+const diagonal = (x: number, y: number): Color => (x === y ? K : x > y ? W : T);
+
+describe("tiles.ts", () => {
+	describe("exportTiles", () => {
+		it("GB 2bpp: 行ごとにプレーン 0/1 を交互に並べる", () => {
+			// 1 行目: 透明, 白 ×7 / 2 行目以降: 黒 ×8
+			const img = makeImage(8, 8, (x, y) => (y === 0 ? (x === 0 ? T : W) : K));
+			const result = exportTiles(img, "gb");
+			expect(result.tileCount).toBe(1);
+			// 透明 = 0, 明るい順に 白 = 1, 黒 = 2
+			expect(Array.from(result.tiles.subarray(0, 4))).toEqual([
+				0x7f, 0x00, 0x00, 0xff,
+			]);
+			expect(result.tiles.length).toBe(16);
+			expect(Array.from(result.tilemap)).toEqual([0]);
+			// BGP: 0 → 0, 1 → 2, 2 → 3（透明・白・黒を明るい順に 0-3 へ割り振る）
+			expect(result.palette[0]).toBe(0 | (2 << 2) | (3 << 4));
+		});
+
+		it("NES CHR: プレーン 0 の 8 行のあとにプレーン 1 の 8 行", () => {
+			const img = makeImage(8, 8, (x) => (x < 4 ? W : K));
+			const result = exportTiles(img, "nes");
+			// 背景色は最も多い色（白と黒が同数なら先に数えた白）、黒 = 1
+			expect(Array.from(result.tiles.subarray(0, 8))).toEqual(
+				new Array(8).fill(0x0f),
+			);
+			expect(Array.from(result.tiles.subarray(8, 16))).toEqual(
+				new Array(8).fill(0),
+			);
+			// 背景色 $30 付近の白と黒 $0F
+			expect(result.palette[0]).toBe(0x30);
+			expect(result.palette[1]).toBe(0x0f);
+			expect(result.attributes).toHaveLength(1);
+		});
+
+		it("同じタイルをまとめ、SNES では反転したタイルもまとめる", () => {
+			// 左: そのまま / 中: 同じ / 右: 左右反転
+			const img = makeImage(24, 8, (x, y) => {
+				const tx = Math.floor(x / 8);
+				const lx = x % 8;
+				return diagonal(tx === 2 ? 7 - lx : lx, y);
+			});
+			const nes = exportTiles(img, "nes");
+			expect(nes.tileCount).toBe(2);
+			expect(Array.from(nes.tilemap)).toEqual([0, 0, 1]);
+
+			const snes = exportTiles(img, "snes-4bpp");
+			expect(snes.tileCount).toBe(1);
+			expect(snes.tiles.length).toBe(32);
+			const words = Array.from(
+				{ length: 3 },
+				(_, i) => snes.tilemap[i * 2] | (snes.tilemap[i * 2 + 1] << 8),
+			);
+			expect(words).toEqual([0, 0, 0x4000]);
+			// 透明は 0x0000、白は 0x7fff、黒は 0x0000 の BGR555
+			expect(Array.from(snes.palette.subarray(0, 6))).toEqual([
+				0, 0, 0xff, 0x7f, 0, 0,
+			]);
+			expect(snes.palette.length).toBe(32);
+		});
+
+		it("色の違うタイルは別のパレットにし、NES の属性テーブルに書く", () => {
+			// 16×16 の範囲ごとに 白+黒+緑 / 赤+黒+青（背景は透明）
+			const img = makeImage(32, 16, (x, y) => {
+				if ((x + y) % 3 === 0) return K;
+				if (y % 2 === 0) return T;
+				if (x % 2) return x < 16 ? W : R;
+				return x < 16 ? [0, 255, 0, 255] : [0, 0, 255, 255];
+			});
+			const result = exportTiles(img, "nes");
+			expect(result.palettes).toHaveLength(2);
+			const left = result.attributes?.[0] ?? 0;
+			expect(left & 0b11).not.toBe((left >> 2) & 0b11);
+		});
+
+		it("タイルの色数が上限を超えるとエラーになる", () => {
+			const colors: Color[] = [W, K, R, [0, 255, 0, 255], [0, 0, 255, 255]];
+			const img = makeImage(8, 8, (x) => colors[x % colors.length]);
+			expect(() => exportTiles(img, "gb")).toThrow(/タイル \(0, 0\)/);
+			expect(() => exportTiles(img, "snes-4bpp")).not.toThrow();
+		});
+
+		it("NES で 16×16 の範囲の色数が上限を超えるとエラーになる", () => {
+			// 左のタイルは 白・黒・青、右のタイルは 赤・緑（どちらも 4 色以内だが合わせて 5 色）
+			const img = makeImage(16, 8, (x) =>
+				x < 8
+					? ([W, K, [0, 0, 255, 255]] as Color[])[x % 3]
+					: x % 2
+						? R
+						: [0, 255, 0, 255],
+			);
+			expect(() => exportTiles(img, "nes")).toThrow(/16×16/);
+			expect(() => exportTiles(img, "snes-4bpp")).not.toThrow();
+		});
+
+		it("端が 8 の倍数でない場合は背景色で埋める", () => {
+			// 不透明な 4 色なら、埋めた所に透明が増えても GB の 4 色に収まる
+			const colors: Color[] = [W, K, R, [0, 255, 0, 255]];
+			const img = makeImage(10, 3, (x) => colors[x % 4]);
+			const result = exportTiles(img, "gb");
+			expect(result.mapWidth).toBe(2);
+			expect(result.mapHeight).toBe(1);
+			expect(result.palettes[0]).toHaveLength(4);
+			expect(result.tiles.length).toBe(result.tileCount * 16);
+		});
+	});
+
+	describe("tileExportFiles", () => {
+		it("機種ごとの拡張子で書き出す", () => {
+			const img = makeImage(8, 8, () => W);
+			expect(
+				tileExportFiles(exportTiles(img, "nes"), "hero").map((f) => f.name),
+			).toEqual(["hero.chr", "hero.nam", "hero.atr", "hero.pal"]);
+			expect(
+				tileExportFiles(exportTiles(img, "snes-4bpp"), "hero").map(
+					(f) => f.name,
+				),
+			).toEqual(["hero.4bpp", "hero.map", "hero.pal"]);
+		});
+	});
+});
@@ -0,0 +1,482 @@
+import { RETRO_PALETTES } from "../shared/config";
+import type { RawImage, RGB, TileFormat } from "../shared/types";
+
+/** タイルの一辺（px） */
+export const TILE_SIZE = 8;
+
+export type TileFormatSpec = {
+	/** 1 画素のビット数（1 タイルで使える色数は 2^bpp、インデックス 0 は背景色） */
+	bpp: 2 | 4 | 8;
+	/** 同時に使えるパレットの数 */
+	maxPalettes: number;
+	/** タイルマップから参照できるタイルの数 */
+	maxTiles: number;
+	/** タイルマップで左右・上下の反転を指定できる */
+	flips: boolean;
+	/** 同じパレットを使う範囲（タイル数）。NES の属性テーブルは 16×16 px ごと */
+	attributeSize: 1 | 2;
+	/** タイルデータの拡張子 */
+	extension: string;
+};
+
+export const TILE_FORMAT_SPECS: Record<TileFormat, TileFormatSpec> = {
+	nes: {
+		bpp: 2,
+		maxPalettes: 4,
+		maxTiles: 256,
+		flips: false,
+		attributeSize: 2,
+		extension: "chr",
+	},
+	gb: {
+		bpp: 2,
+		maxPalettes: 1,
+		maxTiles: 256,
+		flips: false,
+		attributeSize: 1,
+		extension: "2bpp",
+	},
+	"snes-4bpp": {
+		bpp: 4,
+		maxPalettes: 8,
+		maxTiles: 1024,
+		flips: true,
+		attributeSize: 1,
+		extension: "4bpp",
+	},
+	"snes-8bpp": {
+		bpp: 8,
+		maxPalettes: 1,
+		maxTiles: 1024,
+		flips: true,
+		attributeSize: 1,
+		extension: "8bpp",
+	},
+};
+
+export type TileExport = {
+	format: TileFormat;
+	/** 重複を除いたタイルの planar データ（1 タイル 8×bpp バイト） */
+	tiles: Uint8Array;
+	tileCount: number;
+	/** タイルマップ（行優先。NES / GB は 1 バイト、SNES は 2 バイト LE のエントリ） */
+	tilemap: Uint8Array;
+	mapWidth: number;
+	mapHeight: number;
+	/** NES の属性テーブル（32×32 px ごとに 1 バイト、16×16 px ごとに 2 ビットのパレット番号） */
+	attributes?: Uint8Array;
+	/** 機種のネイティブ形式のパレット（NES: 色番号 / GB: BGP / SNES: BGR555 LE） */
+	palette: Uint8Array;
+	/** 各パレットの色（インデックス 0 は背景色。透明のときは null） */
+	palettes: (RGB | null)[][];
+};
+
+// 透明（背景色）を表す色の鍵
+export const TRANSPARENT = -1;
+// GIF と同じく、これ未満の alpha は透明として扱う
+export const TILE_ALPHA_THRESHOLD = 128;
+// NES のパレットに黒は何箇所もあるが、$0D は映像信号の都合で避け、$0F を使う
+const NES_BLACK = 0x0f;
+
+export const keyToRgb = (key: number): RGB => ({
+	r: (key >> 16) & 0xff,
+	g: (key >> 8) & 0xff,
+	b: key & 0xff,
+});
+
+const luma = (key: number): number => {
+	if (key === TRANSPARENT) return Number.POSITIVE_INFINITY;
+	const c = keyToRgb(key);
+	return c.r * 0.299 + c.g * 0.587 + c.b * 0.114;
+};
+
+const NES_COLORS = RETRO_PALETTES.nes.colors.map((hex) =>
+	Number.parseInt(hex.slice(1), 16),
+);
+
+/** NES のパレット（$00-$3F）のうち最も近い色の番号 */
+const nearestNesColor = (key: number): number => {
+	if (key === TRANSPARENT) return NES_BLACK;
+	const c = keyToRgb(key);
+	const dist = (k: number) => {
+		const n = keyToRgb(k);
+		return (n.r - c.r) ** 2 + (n.g - c.g) ** 2 + (n.b - c.b) ** 2;
+	};
+	let best = NES_BLACK;
+	let bestDist = dist(NES_COLORS[NES_BLACK]);
+	NES_COLORS.forEach((k, i) => {
+		const d = dist(k);
+		if (d < bestDist) {
+			best = i;
+			bestDist = d;
+		}
+	});
+	return best;
+};
+
+/** SNES の 15bit カラー（0BBBBBGG GGGRRRRR） */
+const toBgr555 = (key: number): number => {
+	if (key === TRANSPARENT) return 0;
+	const c = keyToRgb(key);
+	return (c.r >> 3) | ((c.g >> 3) << 5) | ((c.b >> 3) << 10);
+};
+
+/**
+ * 8×8 の色インデックスを planar 形式にする。
+ * NES: プレーン 0 の 8 行のあとにプレーン 1 の 8 行。
+ * GB / SNES: 2 プレーンずつ行ごとに交互に並べ、16 バイト単位で次のプレーン組が続く。
+ */
+const encodeTile = (
+	indices: Uint8Array,
+	bpp: number,
+	format: TileFormat,
+): Uint8Array => {
+	const out = new Uint8Array(TILE_SIZE * bpp);
+	for (let plane = 0; plane < bpp; plane += 1) {
+		for (let row = 0; row < TILE_SIZE; row += 1) {
+			let byte = 0;
+			for (let x = 0; x < TILE_SIZE; x += 1) {
+				const bit = (indices[row * TILE_SIZE + x] >> plane) & 1;
+				byte |= bit << (7 - x);
+			}
+			const offset =
+				format === "nes"
+					? plane * TILE_SIZE + row
+					: (plane >> 1) * 16 + row * 2 + (plane & 1);
+			out[offset] = byte;
+		}
+	}
+	return out;
+};
+
+const flipTile = (indices: Uint8Array, h: boolean, v: boolean): Uint8Array => {
+	const out = new Uint8Array(indices.length);
+	for (let y = 0; y < TILE_SIZE; y += 1) {
+		for (let x = 0; x < TILE_SIZE; x += 1) {
+			const sx = h ? TILE_SIZE - 1 - x : x;
+			const sy = v ? TILE_SIZE - 1 - y : y;
+			out[y * TILE_SIZE + x] = indices[sy * TILE_SIZE + sx];
+		}
+	}
+	return out;
+};
+
+const tileKey = (indices: Uint8Array): string =>
+	String.fromCharCode(...indices);
+
+export type TileKeyGrid = {
+	/** 8 の倍数に広げた大きさの色の鍵（RGB。透明は TRANSPARENT） */
+	keys: Int32Array;
+	/** keys の幅（px） */
+	pw: number;
+	mapWidth: number;
+	mapHeight: number;
+	/** 背景色（インデックス 0）の鍵 */
+	backdrop: number;
+};
+
+/**
+ * 画像を 8 の倍数の大きさに広げた色の鍵の並びにする。
+ * 背景色は透明があれば透明、なければ最も多い色で、端を埋めた所も背景色にする。
+ */
+export const readTileKeys = (img: RawImage): TileKeyGrid => {
+	const mapWidth = Math.ceil(img.width / TILE_SIZE);
+	const mapHeight = Math.ceil(img.height / TILE_SIZE);
+	const pw = mapWidth * TILE_SIZE;
+	const ph = mapHeight * TILE_SIZE;
+
+	const keys = new Int32Array(pw * ph).fill(TRANSPARENT);
+	const counts = new Map<number, number>();
+	for (let y = 0; y < img.height; y += 1) {
+		for (let x = 0; x < img.width; x += 1) {
+			const p = (y * img.width + x) * 4;
+			const k =
+				img.data[p + 3] < TILE_ALPHA_THRESHOLD
+					? TRANSPARENT
+					: (img.data[p] << 16) | (img.data[p + 1] << 8) | img.data[p + 2];
+			keys[y * pw + x] = k;
+			counts.set(k, (counts.get(k) ?? 0) + 1);
+		}
+	}
+
+	let backdrop = TRANSPARENT;
+	if (!counts.has(TRANSPARENT)) {
+		let best = 0;
+		for (const [k, n] of counts) {
+			if (n > best) {
+				best = n;
+				backdrop = k;
+			}
+		}
+		for (let y = 0; y < ph; y += 1) {
+			for (let x = y < img.height ? img.width : 0; x < pw; x += 1) {
+				keys[y * pw + x] = backdrop;
+			}
+		}
+	}
+
+	return { keys, pw, mapWidth, mapHeight, backdrop };
+};
+
+/**
+ * 範囲ごとの色（背景色を除く）をパレットに割り当てる。
+ * 色の多い範囲から順に、追加する色が最も少なく収まるパレットへ入れ、収まらなければパレットを増やす。
+ * パレットの数の上限は見ないので、呼び出し側で確かめる。
+ */
+export const assignPalettes = (
+	areaColors: Set<number>[],
+	colorLimit: number,
+): { paletteSets: Set<number>[]; areaPalette: Int32Array } => {
+	const paletteSets: Set<number>[] = [];
+	const areaPalette = new Int32Array(areaColors.length);
+	const order = areaColors
+		.map((_, i) => i)
+		.sort((a, b) => areaColors[b].size - areaColors[a].size);
+	for (const i of order) {
+		const colors = areaColors[i];
+		let best = -1;
+		let bestAdded = Number.POSITIVE_INFINITY;
+		paletteSets.forEach((set, p) => {
+			let added = 0;
+			for (const k of colors) if (!set.has(k)) added += 1;
+			if (set.size + added <= colorLimit && added < bestAdded) {
+				best = p;
+				bestAdded = added;
+			}
+		});
+		if (best < 0) {
+			best = paletteSets.length;
+			paletteSets.push(new Set());
+		}
+		for (const k of colors) paletteSets[best].add(k);
+		areaPalette[i] = best;
+	}
+	return { paletteSets, areaPalette };
+};
+
+/**
+ * 画像を 8×8 のタイルに分け、機種のタイル形式（planar のタイルデータ・タイルマップ・パレット）にする。
+ * 同じタイルは 1 つにまとめ、タイルマップで反転を指定できる機種（SNES）では反転したものもまとめる。
+ * 端が 8 の倍数でない場合は背景色で埋める。
+ * タイル（NES は 16×16 px の属性の範囲）の色数やパレットの数が機種の上限を超える場合はエラー。
+ */
+export const exportTiles = (img: RawImage, format: TileFormat): TileExport => {
+	const spec = TILE_FORMAT_SPECS[format];
+	const colorLimit = (1 << spec.bpp) - 1;
+	const { keys, pw, mapWidth, mapHeight, backdrop } = readTileKeys(img);
+
+	const tileColors = (tx: number, ty: number): Set<number> => {
+		const set = new Set<number>();
+		for (let y = 0; y < TILE_SIZE; y += 1) {
+			for (let x = 0; x < TILE_SIZE; x += 1) {
+				const k = keys[(ty * TILE_SIZE + y) * pw + tx * TILE_SIZE + x];
+				if (k !== backdrop) set.add(k);
+			}
+		}
+		return set;
+	};
+
+	// パレットを共有する範囲ごとの色
+	const areaSize = spec.attributeSize;
+	const areaW = Math.ceil(mapWidth / areaSize);
+	const areaH = Math.ceil(mapHeight / areaSize);
+	const areaColors: Set<number>[] = [];
+	for (let ay = 0; ay < areaH; ay += 1) {
+		for (let ax = 0; ax < areaW; ax += 1) {
+			const set = new Set<number>();
+			for (
+				let ty = ay * areaSize;
+				ty < Math.min(mapHeight, (ay + 1) * areaSize);
+				ty += 1
+			) {
+				for (
+					let tx = ax * areaSize;
+					tx < Math.min(mapWidth, (ax + 1) * areaSize);
+					tx += 1
+				) {
+					const colors = tileColors(tx, ty);
+					if (colors.size > colorLimit) {
+						throw new Error(
+							`タイル (${tx}, ${ty}) の色数 ${colors.size + 1} が上限の ${colorLimit + 1} 色（背景色を含む）を超えています。`,
+						);
+					}
+					for (const k of colors) set.add(k);
+				}
+			}
+			if (set.size > colorLimit) {
+				throw new Error(
+					`(${ax * areaSize * TILE_SIZE}, ${ay * areaSize * TILE_SIZE}) px からの ${areaSize * TILE_SIZE}×${areaSize * TILE_SIZE} px の範囲の色数 ${set.size + 1} が上限の ${colorLimit + 1} 色（背景色を含む）を超えています。`,
+				);
+			}
+			areaColors.push(set);
+		}
+	}
+
+	const { paletteSets, areaPalette } = assignPalettes(areaColors, colorLimit);
+	if (paletteSets.length === 0) paletteSets.push(new Set());
+	if (paletteSets.length > spec.maxPalettes) {
+		throw new Error(
+			`パレットが ${paletteSets.length} 個必要ですが、上限は ${spec.maxPalettes} 個です。`,
+		);
+	}
+
+	// パレット内は明るい順（インデックス 0 は背景色）
+	const paletteKeys = paletteSets.map((set) => [
+		backdrop,
+		...[...set].sort((a, b) => luma(b) - luma(a)),
+	]);
+	const paletteIndex = paletteKeys.map(
+		(list) => new Map(list.map((k, i) => [k, i])),
+	);
+
+	const tileData: Uint8Array[] = [];
+	const tileLookup = new Map<
+		string,
+		{ tile: number; h: boolean; v: boolean }
+	>();
+	const entries: { tile: number; palette: number; h: boolean; v: boolean }[] =
+		[];
+	for (let ty = 0; ty < mapHeight; ty += 1) {
+		for (let tx = 0; tx < mapWidth; tx += 1) {
+			const palette =
+				areaPalette[
+					Math.floor(ty / areaSize) * areaW + Math.floor(tx / areaSize)
+				];
+			const lookup = paletteIndex[palette];
+			const indices = new Uint8Array(TILE_SIZE * TILE_SIZE);
+			for (let y = 0; y < TILE_SIZE; y += 1) {
+				for (let x = 0; x < TILE_SIZE; x += 1) {
+					const k = keys[(ty * TILE_SIZE + y) * pw + tx * TILE_SIZE + x];
+					indices[y * TILE_SIZE + x] = lookup.get(k) ?? 0;
+				}
+			}
+			let found = tileLookup.get(tileKey(indices));
+			if (!found) {
+				const tile = tileData.length;
+				tileData.push(indices);
+				found = { tile, h: false, v: false };
+				// 反転したものも同じタイルとして引けるようにする（先に登録したものを優先）
+				const variants: [boolean, boolean][] = spec.flips
+					? [
+							[false, false],
+							[true, false],
+							[false, true],
+							[true, true],
+						]
+					: [[false, false]];
+				for (const [h, v] of variants) {
+					const key = tileKey(flipTile(indices, h, v));
+					if (!tileLookup.has(key)) tileLookup.set(key, { tile, h, v });
+				}
+			}
+			entries.push({ ...found, palette });
+		}
+	}
+	if (tileData.length > spec.maxTiles) {
+		throw new Error(
+			`タイルが ${tileData.length} 個ありますが、上限は ${spec.maxTiles} 個です。`,
+		);
+	}
+
+	const bytesPerTile = TILE_SIZE * spec.bpp;
+	const tiles = new Uint8Array(tileData.length * bytesPerTile);
+	tileData.forEach((indices, i) => {
+		tiles.set(encodeTile(indices, spec.bpp, format), i * bytesPerTile);
+	});
+
+	let tilemap: Uint8Array;
+	let attributes: Uint8Array | undefined;
+	if (format === "nes" || format === "gb") {
+		tilemap = Uint8Array.from(entries, (e) => e.tile);
+	} else {
+		// vhopppcc cccccccc（優先度 o は 0）
+		tilemap = new Uint8Array(entries.length * 2);
+		entries.forEach((e, i) => {
+			const word =
+				e.tile | (e.palette << 10) | (e.h ? 0x4000 : 0) | (e.v ? 0x8000 : 0);
+			tilemap[i * 2] = word & 0xff;
+			tilemap[i * 2 + 1] = word >> 8;
+		});
+	}
+	if (format === "nes") {
+		const attrW = Math.ceil(mapWidth / 4);
+		attributes = new Uint8Array(attrW * Math.ceil(mapHeight / 4));
+		for (let ay = 0; ay < areaH; ay += 1) {
+			for (let ax = 0; ax < areaW; ax += 1) {
+				const shift = (ay & 1) * 4 + (ax & 1) * 2;
+				attributes[(ay >> 1) * attrW + (ax >> 1)] |=
+					areaPalette[ay * areaW + ax] << shift;
+			}
+		}
+	}
+
+	let palette: Uint8Array;
+	if (format === "nes") {
+		// 4 パレット × 4 色。未使用の所は背景色で埋める
+		palette = new Uint8Array(16).fill(nearestNesColor(backdrop));
+		paletteKeys.forEach((list, p) => {
+			list.forEach((k, i) => {
+				palette[p * 4 + i] = nearestNesColor(k);
+			});
+		});
+	} else if (format === "gb") {
+		// BGP: インデックスごとに 2 ビットの濃さ（0 が最も明るい）。明るい順に 0-3 へ割り振る
+		const list = paletteKeys[0];
+		const ranked = list
+			.map((k, i) => ({ i, l: luma(k) }))
+			.sort((a, b) => b.l - a.l);
+		let bgp = 0;
+		ranked.forEach(({ i }, rank) => {
+			const shade =
+				ranked.length > 1 ? Math.round((rank * 3) / (ranked.length - 1)) : 0;
+			bgp |= shade << (i * 2);
+		});
+		palette = Uint8Array.of(bgp);
+	} else {
+		const size = 1 << spec.bpp;
+		palette = new Uint8Array(paletteKeys.length * size * 2);
+		paletteKeys.forEach((list, p) => {
+			list.forEach((k, i) => {
+				const word = toBgr555(k);
+				palette[(p * size + i) * 2] = word & 0xff;
+				palette[(p * size + i) * 2 + 1] = word >> 8;
+			});
+		});
+	}
+
+	return {
+		format,
+		tiles,
+		tileCount: tileData.length,
+		tilemap,
+		mapWidth,
+		mapHeight,
+		attributes,
+		palette,
+		palettes: paletteKeys.map((list) =>
+			list.map((k) => (k === TRANSPARENT ? null : keyToRgb(k))),
+		),
+	};
+};
+
+/**
+ * 書き出すファイル（タイルデータ・タイルマップ・NES の属性テーブル・パレット）の名前と中身。
+ */
+export const tileExportFiles = (
+	result: TileExport,
+	baseName: string,
+): { name: string; data: Uint8Array }[] => {
+	const spec = TILE_FORMAT_SPECS[result.format];
+	const files = [
+		{ name: `${baseName}.${spec.extension}`, data: result.tiles },
+		{
+			name: `${baseName}.${result.format === "nes" ? "nam" : "map"}`,
+			data: result.tilemap,
+		},
+	];
+	if (result.attributes) {
+		files.push({ name: `${baseName}.atr`, data: result.attributes });
+	}
+	files.push({ name: `${baseName}.pal`, data: result.palette });
+	return files;
+};
@@ -1,16 +1,49 @@
 import { expose } from "comlink";
-import type { RawImage } from "../shared/types";
+import type { RawImage, RGB } from "../shared/types";
+import type {
+	Animation,
+	AnimationProcessOptions,
+	AnimationProcessResult,
+} from "./animation";
+import { processAnimation } from "./animation";
 import type { ProcessOptions, ProcessResult } from "./processor";
 import { processImage } from "./processor";
+import type { SharedPaletteInput } from "./sharedPalette";
+import { createBatchPalette } from "./sharedPalette";
+import type { SpriteFrame, SpriteSliceOptions } from "./spritesheet";
+import { sliceSpriteSheet } from "./spritesheet";
 
 export type ProcessorWorker = {
 	process: (img: RawImage, options: ProcessOptions) => ProcessResult;
+	slice: (
+		img: RawImage,
+		slice: SpriteSliceOptions,
+		options: ProcessOptions,
+	) => SpriteFrame[];
+	processAnimation: (
+		animation: Animation,
+		options: ProcessOptions,
+		animOptions: AnimationProcessOptions,
+	) => AnimationProcessResult;
+	batchPalette: (
+		inputs: SharedPaletteInput[],
+		options: ProcessOptions,
+	) => RGB[];
 };
 
 const worker: ProcessorWorker = {
 	process: (img, options) => {
 		return processImage(img, options);
 	},
+	slice: (img, slice, options) => {
+		return sliceSpriteSheet(img, slice, options);
+	},
+	processAnimation: (animation, options, animOptions) => {
+		return processAnimation(animation, options, animOptions);
+	},
+	batchPalette: (inputs, options) => {
+		return createBatchPalette(inputs, options);
+	},
 };
 
 expose(worker);
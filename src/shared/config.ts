@@ -1,4 +1,21 @@
-import type { RGB } from "./types";
+import type {
+	AlphaPolicy,
+	AnimationExportFormat,
+	AnimationGridSource,
+	AtlasPackMethod,
+	BgExtractionMethod,
+	CellSampler,
+	DitherMode,
+	GridDetector,
+	HardwareProfile,
+	IndexedPaletteOrder,
+	OutlineStyle,
+	PaletteExtractMethod,
+	PaletteFileFormat,
+	RGB,
+	SpriteSliceMode,
+	TileFormat,
+} from "./types";
 
 export type IntRange = {
 	min: number;
@@ -9,6 +26,10 @@ export type IntRange = {
 export const PROCESS_RANGES = {
 	// detector: posterize step
 	detectionQuantStep: { min: 1, max: 128, default: 64 } as const,
+	// detector: upper bound of detected cells per axis
+	autoMaxCells: { min: 1, max: 1024, default: 128 } as const,
+	// detector: sampled scanlines per axis
+	detectionStrips: { min: 1, max: 64, default: 12 } as const,
 	// processor: downsample median window
 	sampleWindow: { min: 1, max: 9, default: 3 } as const,
 	// flood fill tolerance (per channel)
@@ -22,14 +43,53 @@ export const PROCESS_RANGES = {
 	// force output pixel size (after BBox trim)
 	forcePixelsW: { min: 1, max: 1024, default: 0 } as const,
 	forcePixelsH: { min: 1, max: 1024, default: 0 } as const,
+	// manual grid override (cell size in source pixels)
+	manualGridCell: { min: 1, max: 256, default: 8 } as const,
+	// sprite sheet slicing: merge sprites whose boxes are closer than this (px)
+	spriteMergeGap: { min: 0, max: 64, default: 2 } as const,
+	// sprite sheet slicing: ignore specks smaller than this (px)
+	spriteMinPixels: { min: 1, max: 100000, default: 16 } as const,
+	// sprite sheet slicing: transparent margin around each frame (px)
+	spritePadding: { min: 0, max: 64, default: 1 } as const,
+	// sprite sheet slicing: frame grid columns / rows
+	spriteGridCount: { min: 1, max: 64, default: 4 } as const,
+	// atlas packing: transparent margin between / around frames (px)
+	atlasPadding: { min: 0, max: 64, default: 2 } as const,
 	// color reduction
 	colorCount: { min: 2, max: 256, default: 32 } as const,
+	// reference image palette extraction
+	paletteExtractCount: { min: 2, max: 256, default: 16 } as const,
+	// alpha policy: opaque when alpha >= threshold ("binary")
+	alphaThreshold: { min: 1, max: 255, default: 128 } as const,
+	// alpha policy: number of alpha levels including 0 and 255 ("quantize")
+	alphaLevels: { min: 2, max: 16, default: 4 } as const,
 	// dithering
 	ditherStrength: { min: 0, max: 100, default: 0 } as const,
+	// dither masking: local Oklab standard deviation (x1000) above which a pixel is dithered
+	ditherMaskThreshold: { min: 0, max: 100, default: 2 } as const,
 	// outline
 	outlineColor: { r: 255, g: 255, b: 255 }, // Default white
 } as const satisfies Record<string, IntRange | RGB>;
 
+const C64_COLORS = [
+	"#000000",
+	"#FFFFFF",
+	"#813338",
+	"#75CEC8",
+	"#8E3C97",
+	"#56AC4D",
+	"#2E2C9B",
+	"#EDF171",
+	"#8E5029",
+	"#553800",
+	"#C46C71",
+	"#4A4A4A",
+	"#7B7B7B",
+	"#A9FF9F",
+	"#706DEB",
+	"#B2B2B2",
+];
+
 export const RETRO_PALETTES: Record<
 	string,
 	{ name: string; colors: string[] }
@@ -183,25 +243,33 @@ export const RETRO_PALETTES: Record<
 	},
 	c64: {
 		name: "Commodore 64",
+		colors: C64_COLORS,
+	},
+	// 以下の 2 つはセルごとに使える色が決まっている（src/core/attributeClash.ts）
+	zx_spectrum: {
+		name: "ZX Spectrum (2 colors/8x8)",
 		colors: [
 			"#000000",
+			"#0000D7",
+			"#D70000",
+			"#D700D7",
+			"#00D700",
+			"#00D7D7",
+			"#D7D700",
+			"#D7D7D7",
+			"#0000FF",
+			"#FF0000",
+			"#FF00FF",
+			"#00FF00",
+			"#00FFFF",
+			"#FFFF00",
 			"#FFFFFF",
-			"#813338",
-			"#75CEC8",
-			"#8E3C97",
-			"#56AC4D",
-			"#2E2C9B",
-			"#EDF171",
-			"#8E5029",
-			"#553800",
-			"#C46C71",
-			"#4A4A4A",
-			"#7B7B7B",
-			"#A9FF9F",
-			"#706DEB",
-			"#B2B2B2",
 		],
 	},
+	c64_multicolor: {
+		name: "C64 Multicolor (4 colors/4x8)",
+		colors: C64_COLORS,
+	},
 	arne16: {
 		name: "Arne 16",
 		colors: [
@@ -233,6 +301,141 @@ export const RETRO_PALETTES: Record<
 	},
 };
 
+export const DITHER_MODES: readonly DitherMode[] = [
+	"none",
+	"floyd-steinberg",
+	"atkinson",
+	"jarvis-judice-ninke",
+	"stucki",
+	"burkes",
+	"sierra",
+	"sierra-two-row",
+	"sierra-lite",
+	"bayer-2x2",
+	"bayer-4x4",
+	"bayer-8x8",
+	"blue-noise-16x16",
+	"blue-noise-32x32",
+	"blue-noise-64x64",
+	"ordered",
+	"yliluoma",
+	"knoll",
+];
+
+// 誤差拡散系のディザリング（蛇行走査の設定が効くもの）
+export const ERROR_DIFFUSION_DITHER_MODES: readonly DitherMode[] = [
+	"floyd-steinberg",
+	"atkinson",
+	"jarvis-judice-ninke",
+	"stucki",
+	"burkes",
+	"sierra",
+	"sierra-two-row",
+	"sierra-lite",
+];
+
+export const INDEXED_PALETTE_ORDERS: readonly IndexedPaletteOrder[] = [
+	"palette",
+	"luminance",
+];
+
+export const TILE_FORMATS: readonly TileFormat[] = [
+	"nes",
+	"gb",
+	"snes-4bpp",
+	"snes-8bpp",
+];
+
+export const HARDWARE_PROFILES: readonly HardwareProfile[] = [
+	"none",
+	"nes",
+	"gb",
+	"snes-4bpp",
+	"snes-8bpp",
+];
+
+export const ALPHA_POLICIES: readonly AlphaPolicy[] = [
+	"preserve",
+	"binary",
+	"quantize",
+];
+
+export const OUTLINE_STYLES: readonly OutlineStyle[] = [
+	"none",
+	"rounded",
+	"sharp",
+];
+
+export const BG_EXTRACTION_METHODS: readonly BgExtractionMethod[] = [
+	"none",
+	"top-left",
+	"bottom-left",
+	"top-right",
+	"bottom-right",
+	"rgb",
+];
+
+export const SPRITE_SLICE_MODES: readonly SpriteSliceMode[] = ["auto", "grid"];
+
+export const ATLAS_PACK_METHODS: readonly AtlasPackMethod[] = [
+	"maxrects",
+	"shelf",
+];
+
+export const ANIMATION_GRID_SOURCES: readonly AnimationGridSource[] = [
+	"shared",
+	"first",
+];
+
+export const ANIMATION_EXPORT_FORMATS: readonly AnimationExportFormat[] = [
+	"gif",
+	"apng",
+	"strip",
+];
+
+export const PALETTE_EXTRACT_METHODS: readonly PaletteExtractMethod[] = [
+	"median",
+	"kmeans",
+	"unique",
+];
+
+export const PALETTE_FILE_FORMATS: readonly PaletteFileFormat[] = [
+	"gpl",
+	"ase",
+	"aco",
+	"pal",
+	"txt",
+	"hex",
+	"json",
+];
+
+export const GRID_DETECTORS: readonly GridDetector[] = [
+	"runlength",
+	"frequency",
+];
+
+export const CELL_SAMPLERS: readonly CellSampler[] = [
+	"median",
+	"mode",
+	"medoid",
+	"linear_mean",
+	"center",
+];
+
+// "auto": K-means / "fixed": fixedPalette / それ以外: RETRO_PALETTES のキー
+export const REDUCE_COLOR_MODES: readonly string[] = [
+	"none",
+	"auto",
+	"fixed",
+	...Object.keys(RETRO_PALETTES),
+];
+
+// セルごとに使える色の数が決まっている（属性クラッシュのある）減色モード
+export const ATTRIBUTE_CELL_MODES: readonly string[] = [
+	"zx_spectrum",
+	"c64_multicolor",
+];
+
 export const PROCESS_DEFAULTS = {
 	preRemoveBackground: true,
 	postRemoveBackground: true,
@@ -246,6 +449,16 @@ export const PROCESS_DEFAULTS = {
 	fastAutoGridFromTrimmed: true,
 	// グリッド検出と縮小を有効にする（デフォルトON）
 	enableGridDetection: true,
+	// 自動検出したグリッドを列・行ごとの境界に補正する（AI 生成画像向け）
+	nonUniformGrid: false,
+	// 背景除去・グリッド検出の前に傾き（回転・斜めの歪み）を補正しない
+	deskew: false,
+	// JPEG のブロックノイズ・色のにじみ・輪郭のぼけを直さない
+	restoreArtifacts: false,
+	// セルサイズは run 長の投票で推定する（"frequency" / "auto" で勾配の自己相関も使う）
+	gridDetector: "runlength",
+	// セルの色はチャンネルごとの中央値（"mode" / "medoid" / "center" なら元画像にある色だけになる）
+	cellSampler: "median",
 
 	floatingMaxPixels: PROCESS_RANGES.floatingMaxPixels.default,
 	reduceColors: false,
@@ -253,6 +466,16 @@ export const PROCESS_DEFAULTS = {
 	ditherMode: "none",
 	colorCount: PROCESS_RANGES.colorCount.default,
 	ditherStrength: PROCESS_RANGES.ditherStrength.default,
+	// 誤差拡散で奇数行を右から左へ走査する（蛇行走査）
+	ditherSerpentine: false,
+	// 階調のある所だけをディザリングし、単色の塗りや 1px の線には掛けない
+	ditherMasking: false,
+	// 半透明はそのまま残す（"binary" / "quantize" で段階を揃える）
+	alphaPolicy: "preserve",
+	// 機種の制約（タイルごとの色数・パレットの数）は確かめない
+	hardwareProfile: "none",
+	// 制約を超える所を、収まるパレットへ減色し直す
+	enforceHardwareConstraints: false,
 	outlineStyle: "none",
 	outlineColor: PROCESS_RANGES.outlineColor,
 	debug: import.meta.env.DEV,
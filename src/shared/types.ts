@@ -20,8 +20,32 @@ export type PixelGrid = {
 	outH?: number;
 	scoreX?: number;
 	scoreY?: number;
+	/**
+	 * 不均一グリッドの列・行境界（元画像の座標, 昇順, 長さは outW + 1 / outH + 1）。
+	 * 指定されている場合、各セルの範囲は cellW/cellH ではなくこの境界で決まる。
+	 */
+	colBounds?: number[];
+	rowBounds?: number[];
 };
 
+/**
+ * 手動指定のグリッド（元画像のピクセル座標）。自動検出の代わりに使う。
+ */
+export type ManualGrid = Pick<
+	PixelGrid,
+	"cellW" | "cellH" | "offsetX" | "offsetY"
+>;
+
+/**
+ * 元画像のピクセル座標の点。
+ */
+export type Point = { x: number; y: number };
+
+/**
+ * 射影変換で長方形に写す、元画像の上の 4 点（左上・右上・右下・左下の順）。
+ */
+export type PerspectiveQuad = [Point, Point, Point, Point];
+
 export type Axis = "x" | "y";
 
 export interface RGB {
@@ -32,6 +56,62 @@ export interface RGB {
 
 export type OutlineStyle = "none" | "rounded" | "sharp";
 
+/** 半透明の扱い（そのまま / 2 値化 / N 段階に量子化） */
+export type AlphaPolicy = "preserve" | "binary" | "quantize";
+
+export type BgExtractionMethod =
+	| "none"
+	| "top-left"
+	| "bottom-left"
+	| "top-right"
+	| "bottom-right"
+	| "rgb";
+
+// スプライトシートの分割方法（"auto": 連結成分ごと / "grid": 固定の列×行）
+export type SpriteSliceMode = "auto" | "grid";
+
+// アトラスの詰め方（"shelf": 棚詰め / "maxrects": MaxRects）
+export type AtlasPackMethod = "shelf" | "maxrects";
+
+// アニメーションの共通グリッドの決め方（"shared": 全フレームの多数決 / "first": 先頭フレーム）
+export type AnimationGridSource = "shared" | "first";
+
+// アニメーションの書き出し形式（"strip": フレームを横に並べた PNG）
+export type AnimationExportFormat = "gif" | "apng" | "strip";
+
+// インデックスカラー PNG のパレットの並び（"palette": 固定パレット・レトロ機のパレットの順 / "luminance": 明るい順）
+export type IndexedPaletteOrder = "palette" | "luminance";
+
+// グリッド検出のセルサイズの推定方法（"runlength": run 長の投票 / "frequency": 勾配の自己相関と run 長のうち confidence の高い方）
+export type GridDetector = "runlength" | "frequency";
+
+// 縮小でセルの色を決める方法（"median": チャンネルごとの中央値 / "mode": 最も多い色 / "medoid": Oklab のメドイド / "linear_mean": リニア RGB の平均 / "center": 中央の画素）
+export type CellSampler =
+	| "median"
+	| "mode"
+	| "medoid"
+	| "linear_mean"
+	| "center";
+
+// タイル形式（"nes": NES CHR 2bpp / "gb": Game Boy 2bpp / "snes-4bpp"・"snes-8bpp": SNES）
+export type TileFormat = "nes" | "gb" | "snes-4bpp" | "snes-8bpp";
+
+// 出力を確かめる機種の制約（"none": 確かめない。それ以外はタイル形式と同じ機種）
+export type HardwareProfile = "none" | TileFormat;
+
+// 参照画像からのパレット抽出方法（"unique": 256 色以下ならそのままの色）
+export type PaletteExtractMethod = "median" | "kmeans" | "unique";
+
+// パレットファイルの形式（"pal": JASC-PAL / "txt": Paint.NET / "hex": 1 行 1 色の RRGGBB / "json": Lospec）
+export type PaletteFileFormat =
+	| "gpl"
+	| "ase"
+	| "aco"
+	| "pal"
+	| "txt"
+	| "hex"
+	| "json";
+
 export interface Oklab {
 	L: number; // Lightness
 	a: number; // Green-Red component
@@ -46,10 +126,22 @@ export interface PixelData extends RGB {
 export type DitherMode =
 	| "none"
 	| "floyd-steinberg"
+	| "atkinson"
+	| "jarvis-judice-ninke"
+	| "stucki"
+	| "burkes"
+	| "sierra"
+	| "sierra-two-row"
+	| "sierra-lite"
 	| "bayer-2x2"
 	| "bayer-4x4"
 	| "bayer-8x8"
-	| "ordered";
+	| "blue-noise-16x16"
+	| "blue-noise-32x32"
+	| "blue-noise-64x64"
+	| "ordered"
+	| "yliluoma"
+	| "knoll";
 
 export interface Palette {
 	id: string;
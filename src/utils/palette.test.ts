@@ -1,10 +1,18 @@
 import { describe, expect, it } from "vitest";
-import type { RGB } from "../shared/types";
+import { PALETTE_FILE_FORMATS } from "../shared/config";
+import type { RawImage, RGB } from "../shared/types";
 import {
+	detectPaletteFormat,
 	extractColorsFromImage,
+	extractPaletteFromImage,
 	findNearestColor,
 	generateGPL,
+	generatePaletteFile,
+	parseACO,
+	parseASE,
 	parseGPL,
+	parsePaintNetTXT,
+	parsePaletteFile,
 	sortPalette,
 } from "./palette";
 
@@ -244,3 +252,145 @@ describe("extractColorsFromImage", () => {
 		expect(colors).toHaveLength(3);
 	});
 });
+
+describe("palette file formats", () => {
+	const colors: RGB[] = [
+		{ r: 255, g: 0, b: 0 },
+		{ r: 18, g: 52, b: 86 },
+		{ r: 0, g: 0, b: 0 },
+	];
+	const text = (value: string) => new TextEncoder().encode(value);
+
+	it.each(PALETTE_FILE_FORMATS)(
+		"%s: round-trips and is auto-detected",
+		(format) => {
+			const bytes = generatePaletteFile(colors, format, "Test");
+			// Detection must not depend on the file name
+			expect(detectPaletteFormat(bytes)).toBe(format);
+			expect(parsePaletteFile(bytes)).toEqual(colors);
+		},
+	);
+
+	it("should parse Paint.NET palettes ignoring comments and alpha", () => {
+		const result = parsePaintNetTXT(
+			"; paint.net Palette File\n; Colors: 2\nFFFF0000\n80123456\n",
+		);
+		expect(result).toEqual([
+			{ r: 255, g: 0, b: 0 },
+			{ r: 18, g: 52, b: 86 },
+		]);
+	});
+
+	it("should detect hex lists with or without #", () => {
+		expect(detectPaletteFormat(text("#ff0000\n00ff00\n"))).toBe("hex");
+		expect(parsePaletteFile(text("#ff0000\n00ff00\n"))).toEqual([
+			{ r: 255, g: 0, b: 0 },
+			{ r: 0, g: 255, b: 0 },
+		]);
+	});
+
+	it("should fall back to the file extension", () => {
+		expect(detectPaletteFormat(text(""), "empty.gpl")).toBe("gpl");
+		expect(detectPaletteFormat(text("hello"), "notes.md")).toBeNull();
+		expect(() => parsePaletteFile(text("hello"))).toThrow();
+	});
+
+	it("should convert CMYK and HSB swatches in ACO files", () => {
+		// version 1, 2 colors: CMYK (0 = 100% ink) cyan, HSB pure green
+		const bytes = new Uint8Array(4 + 20);
+		const view = new DataView(bytes.buffer);
+		view.setUint16(0, 1);
+		view.setUint16(2, 2);
+		view.setUint16(4, 2);
+		view.setUint16(6, 0);
+		view.setUint16(8, 65535);
+		view.setUint16(10, 65535);
+		view.setUint16(12, 65535);
+		view.setUint16(14, 1);
+		view.setUint16(16, Math.round((120 / 360) * 65536));
+		view.setUint16(18, 65535);
+		view.setUint16(20, 65535);
+		expect(parseACO(bytes)).toEqual([
+			{ r: 0, g: 255, b: 255 },
+			{ r: 0, g: 255, b: 0 },
+		]);
+	});
+
+	it("should read CMYK entries and skip groups in ASE files", () => {
+		const bytes = new Uint8Array(12 + 6 + 6 + 28 + 6);
+		const view = new DataView(bytes.buffer);
+		bytes.set([0x41, 0x53, 0x45, 0x46], 0);
+		view.setUint16(4, 1);
+		view.setUint32(8, 3);
+		// group start (empty name)
+		view.setUint16(12, 0xc001);
+		view.setUint32(14, 0);
+		// CMYK color entry named "A"
+		view.setUint16(18, 0x0001);
+		view.setUint32(20, 28);
+		view.setUint16(24, 2);
+		view.setUint16(26, 0x41);
+		bytes.set([0x43, 0x4d, 0x59, 0x4b], 30);
+		view.setFloat32(34, 0);
+		view.setFloat32(38, 1);
+		view.setFloat32(42, 1);
+		view.setFloat32(46, 0);
+		// group end
+		view.setUint16(52, 0xc002);
+		view.setUint32(54, 0);
+		expect(parseASE(bytes)).toEqual([{ r: 255, g: 0, b: 0 }]);
+	});
+});
+
+describe("extractPaletteFromImage", () => {
+	// 8 shades of red (4 px each) and 8 shades of blue (1 px each)
+	const createReference = (): RawImage => {
+		const width = 40;
+		const data = new Uint8ClampedArray(width * 4);
+		for (let x = 0; x < width; x++) {
+			const c =
+				x < 32
+					? { r: 128 + (x >> 2) * 8, g: 0, b: 0 }
+					: { r: 0, g: 0, b: 128 + (x - 32) * 8 };
+			data.set([c.r, c.g, c.b, 255], x * 4);
+		}
+		return { width, height: 1, data };
+	};
+
+	it("unique returns every color when there are at most 256", () => {
+		const { colors, totalColors } = extractPaletteFromImage(
+			createReference(),
+			"unique",
+			4,
+		);
+		expect(totalColors).toBe(16);
+		expect(colors).toHaveLength(16);
+	});
+
+	it.each(["median", "kmeans"] as const)(
+		"%s reduces to the requested count",
+		(method) => {
+			const { colors, totalColors } = extractPaletteFromImage(
+				createReference(),
+				method,
+				2,
+			);
+			expect(totalColors).toBe(16);
+			expect(colors).toHaveLength(2);
+			// One red and one blue representative
+			expect(colors.some((c) => c.r > 100 && c.b === 0)).toBe(true);
+			expect(colors.some((c) => c.b > 100 && c.r === 0)).toBe(true);
+		},
+	);
+
+	it("ignores transparent pixels", () => {
+		const image: RawImage = {
+			width: 2,
+			height: 1,
+			data: new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 0]),
+		};
+		expect(extractPaletteFromImage(image, "median", 16).colors).toEqual([
+			{ r: 255, g: 0, b: 0 },
+		]);
+	});
+});
@@ -1,4 +1,16 @@
-import type { RGB } from "../shared/types";
+import { OklabKMeans } from "../core/quantizer";
+import {
+	clampInt,
+	PALETTE_FILE_FORMATS,
+	PROCESS_RANGES,
+} from "../shared/config";
+import type {
+	PaletteExtractMethod,
+	PaletteFileFormat,
+	PixelData,
+	RawImage,
+	RGB,
+} from "../shared/types";
 
 /**
  * Parses a GIMP Palette (.gpl) string and returns an array of RGB colors.
@@ -63,6 +75,446 @@ export const generateGPL = (colors: RGB[], name: string): string => {
 	return lines.join("\n");
 };
 
+const toHex = (c: RGB): string =>
+	[c.r, c.g, c.b].map((v) => v.toString(16).padStart(2, "0")).join("");
+
+const clampByte = (v: number): number =>
+	Math.max(0, Math.min(255, Math.round(v)));
+
+const parseHexColor = (value: string): RGB | null => {
+	const m = /^#?([0-9a-f]{6})$/i.exec(value.trim());
+	if (!m) return null;
+	const n = Number.parseInt(m[1], 16);
+	return { r: (n >> 16) & 0xff, g: (n >> 8) & 0xff, b: n & 0xff };
+};
+
+/**
+ * Parses a JASC-PAL (Paint Shop Pro / Aseprite .pal) string.
+ * Format: "JASC-PAL", version "0100", color count, then "R G B" lines.
+ */
+export const parseJASCPAL = (text: string): RGB[] => {
+	const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+	if (lines[0]?.trim() !== "JASC-PAL") return [];
+
+	const colors: RGB[] = [];
+	for (const line of lines.slice(3)) {
+		const parts = line.trim().split(/\s+/).map(Number);
+		if (parts.length >= 3 && parts.slice(0, 3).every(Number.isInteger)) {
+			colors.push({
+				r: clampByte(parts[0]),
+				g: clampByte(parts[1]),
+				b: clampByte(parts[2]),
+			});
+		}
+	}
+	return colors;
+};
+
+/**
+ * Generates a JASC-PAL string (CRLF line endings, as written by Paint Shop Pro).
+ */
+export const generateJASCPAL = (colors: RGB[]): string => {
+	const lines = ["JASC-PAL", "0100", String(colors.length)];
+	for (const c of colors) lines.push(`${c.r} ${c.g} ${c.b}`);
+	return `${lines.join("\r\n")}\r\n`;
+};
+
+/**
+ * Parses a Paint.NET palette (.txt): ";" comment lines and one AARRGGBB per line.
+ * Alpha is ignored.
+ */
+export const parsePaintNetTXT = (text: string): RGB[] => {
+	const colors: RGB[] = [];
+	for (const line of text.split(/\r?\n/)) {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith(";")) continue;
+		const m = /^[0-9a-f]{2}([0-9a-f]{6})$/i.exec(trimmed);
+		const color = m ? parseHexColor(m[1]) : null;
+		if (color) colors.push(color);
+	}
+	return colors;
+};
+
+/**
+ * Generates a Paint.NET palette (.txt). Paint.NET itself reads only the first 96 colors.
+ */
+export const generatePaintNetTXT = (colors: RGB[], name: string): string => {
+	const lines = [
+		"; paint.net Palette File",
+		`; ${name}`,
+		`; Colors: ${colors.length}`,
+	];
+	for (const c of colors) lines.push(`FF${toHex(c).toUpperCase()}`);
+	return `${lines.join("\n")}\n`;
+};
+
+/**
+ * Parses a plain hex list (Lospec .hex): one RRGGBB per line, "#" optional.
+ */
+export const parseHEX = (text: string): RGB[] => {
+	const colors: RGB[] = [];
+	for (const line of text.split(/\r?\n/)) {
+		const color = parseHexColor(line);
+		if (color) colors.push(color);
+	}
+	return colors;
+};
+
+/**
+ * Generates a plain hex list (lowercase RRGGBB, one per line).
+ */
+export const generateHEX = (colors: RGB[]): string =>
+	colors.map((c) => `${toHex(c)}\n`).join("");
+
+/**
+ * Parses a Lospec palette JSON ({ "name", "author", "colors": ["rrggbb", ...] }).
+ */
+export const parseLospecJSON = (text: string): RGB[] => {
+	let json: unknown;
+	try {
+		json = JSON.parse(text);
+	} catch {
+		return [];
+	}
+	const list = (json as { colors?: unknown } | null)?.colors;
+	if (!Array.isArray(list)) return [];
+
+	const colors: RGB[] = [];
+	for (const value of list) {
+		const color = typeof value === "string" ? parseHexColor(value) : null;
+		if (color) colors.push(color);
+	}
+	return colors;
+};
+
+/**
+ * Generates a Lospec palette JSON.
+ */
+export const generateLospecJSON = (colors: RGB[], name: string): string =>
+	`${JSON.stringify({ name, author: "", colors: colors.map(toHex) }, null, 2)}\n`;
+
+const hsvToRGB = (h: number, s: number, v: number): RGB => {
+	const f = (n: number) => {
+		const k = (n + h / 60) % 6;
+		return clampByte(255 * (v - v * s * Math.max(0, Math.min(k, 4 - k, 1))));
+	};
+	return { r: f(5), g: f(3), b: f(1) };
+};
+
+/**
+ * Converts one Photoshop color record (color space + four 16-bit values) to RGB.
+ * Returns null for unsupported spaces (Lab, Pantone, etc.).
+ */
+const acoToRGB = (
+	space: number,
+	w: number,
+	x: number,
+	y: number,
+	z: number,
+): RGB | null => {
+	switch (space) {
+		case 0: // RGB: 0-65535
+			return {
+				r: clampByte(w / 257),
+				g: clampByte(x / 257),
+				b: clampByte(y / 257),
+			};
+		case 1: // HSB: 0-65535
+			return hsvToRGB((w / 65536) * 360, x / 65535, y / 65535);
+		case 2: {
+			// CMYK: 0 = 100% ink, 65535 = no ink
+			const k = z / 65535;
+			return {
+				r: clampByte((w / 65535) * k * 255),
+				g: clampByte((x / 65535) * k * 255),
+				b: clampByte((y / 65535) * k * 255),
+			};
+		}
+		case 8: {
+			// Grayscale: 0-10000 (ink coverage, 10000 = black)
+			const v = clampByte(255 - (Math.min(w, 10000) / 10000) * 255);
+			return { r: v, g: v, b: v };
+		}
+		default:
+			return null;
+	}
+};
+
+const isACO = (bytes: Uint8Array): boolean => {
+	if (bytes.length < 4) return false;
+	const version = (bytes[0] << 8) | bytes[1];
+	const count = (bytes[2] << 8) | bytes[3];
+	return (
+		(version === 1 || version === 2) &&
+		count > 0 &&
+		4 + count * 10 <= bytes.length
+	);
+};
+
+/**
+ * Parses an Adobe Photoshop color swatch (.aco).
+ * Files usually hold a version 1 section followed by a version 2 section (with names);
+ * both list the same colors, so the last readable section wins.
+ */
+export const parseACO = (bytes: Uint8Array): RGB[] => {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let colors: RGB[] = [];
+	let pos = 0;
+	while (pos + 4 <= bytes.length) {
+		const version = view.getUint16(pos);
+		const count = view.getUint16(pos + 2);
+		if (version !== 1 && version !== 2) break;
+		pos += 4;
+
+		const section: RGB[] = [];
+		for (let i = 0; i < count; i++) {
+			if (pos + 10 > bytes.length) {
+				throw new Error("ACO ファイルが壊れています。");
+			}
+			const color = acoToRGB(
+				view.getUint16(pos),
+				view.getUint16(pos + 2),
+				view.getUint16(pos + 4),
+				view.getUint16(pos + 6),
+				view.getUint16(pos + 8),
+			);
+			pos += 10;
+			if (version === 2) {
+				// UTF-16 name, length in code units including the terminating null
+				if (pos + 4 > bytes.length) {
+					throw new Error("ACO ファイルが壊れています。");
+				}
+				pos += 4 + view.getUint32(pos) * 2;
+			}
+			if (color) section.push(color);
+		}
+		colors = section;
+	}
+	return colors;
+};
+
+/**
+ * Writes a UTF-16BE name with its null terminator; returns the new offset.
+ */
+const writeUTF16 = (view: DataView, pos: number, text: string): number => {
+	for (let i = 0; i < text.length; i++) {
+		view.setUint16(pos + i * 2, text.charCodeAt(i));
+	}
+	view.setUint16(pos + text.length * 2, 0);
+	return pos + (text.length + 1) * 2;
+};
+
+/**
+ * Generates an Adobe Photoshop color swatch (.aco) with version 1 and 2 sections.
+ * Colors are named "#RRGGBB".
+ */
+export const generateACO = (colors: RGB[]): Uint8Array<ArrayBuffer> => {
+	const names = colors.map((c) => `#${toHex(c).toUpperCase()}`);
+	let size = 4 + colors.length * 10 + 4;
+	for (const name of names) size += 10 + 4 + (name.length + 1) * 2;
+
+	const out = new Uint8Array(size);
+	const view = new DataView(out.buffer);
+	let pos = 0;
+	for (const version of [1, 2]) {
+		view.setUint16(pos, version);
+		view.setUint16(pos + 2, colors.length);
+		pos += 4;
+		colors.forEach((c, i) => {
+			view.setUint16(pos, 0);
+			view.setUint16(pos + 2, c.r * 257);
+			view.setUint16(pos + 4, c.g * 257);
+			view.setUint16(pos + 6, c.b * 257);
+			view.setUint16(pos + 8, 0);
+			pos += 10;
+			if (version === 2) {
+				view.setUint32(pos, names[i].length + 1);
+				pos = writeUTF16(view, pos + 4, names[i]);
+			}
+		});
+	}
+	return out;
+};
+
+const ASE_COLOR_ENTRY = 0x0001;
+
+/**
+ * Parses an Adobe Swatch Exchange (.ase) file.
+ * RGB, CMYK and Gray entries are read; Lab entries and groups are skipped.
+ */
+export const parseASE = (bytes: Uint8Array): RGB[] => {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	if (
+		bytes.length < 12 ||
+		String.fromCharCode(...bytes.subarray(0, 4)) !== "ASEF"
+	) {
+		throw new Error("ASE ファイルではありません。");
+	}
+	const blockCount = view.getUint32(8);
+	const colors: RGB[] = [];
+	let pos = 12;
+	for (let i = 0; i < blockCount && pos + 6 <= bytes.length; i++) {
+		const type = view.getUint16(pos);
+		const length = view.getUint32(pos + 2);
+		const body = pos + 6;
+		pos = body + length;
+		if (type !== ASE_COLOR_ENTRY || pos > bytes.length) continue;
+
+		const p = body + 2 + view.getUint16(body) * 2;
+		const model = String.fromCharCode(...bytes.subarray(p, p + 4));
+		const value = (k: number) => view.getFloat32(p + 4 + k * 4);
+		if (model === "RGB ") {
+			colors.push({
+				r: clampByte(value(0) * 255),
+				g: clampByte(value(1) * 255),
+				b: clampByte(value(2) * 255),
+			});
+		} else if (model === "CMYK") {
+			const k = 1 - value(3);
+			colors.push({
+				r: clampByte((1 - value(0)) * k * 255),
+				g: clampByte((1 - value(1)) * k * 255),
+				b: clampByte((1 - value(2)) * k * 255),
+			});
+		} else if (model === "Gray") {
+			const v = clampByte(value(0) * 255);
+			colors.push({ r: v, g: v, b: v });
+		}
+	}
+	return colors;
+};
+
+/**
+ * Generates an Adobe Swatch Exchange (.ase) file with one RGB entry per color,
+ * named "#RRGGBB".
+ */
+export const generateASE = (colors: RGB[]): Uint8Array<ArrayBuffer> => {
+	const names = colors.map((c) => `#${toHex(c).toUpperCase()}`);
+	// name length + name (UTF-16 + null) + model + 3 floats + color type
+	const blockLength = (name: string) => 2 + (name.length + 1) * 2 + 4 + 12 + 2;
+	let size = 12;
+	for (const name of names) size += 6 + blockLength(name);
+
+	const out = new Uint8Array(size);
+	const view = new DataView(out.buffer);
+	out.set([0x41, 0x53, 0x45, 0x46], 0); // "ASEF"
+	view.setUint16(4, 1);
+	view.setUint16(6, 0);
+	view.setUint32(8, colors.length);
+	let pos = 12;
+	colors.forEach((c, i) => {
+		view.setUint16(pos, ASE_COLOR_ENTRY);
+		view.setUint32(pos + 2, blockLength(names[i]));
+		view.setUint16(pos + 6, names[i].length + 1);
+		pos = writeUTF16(view, pos + 8, names[i]);
+		out.set([0x52, 0x47, 0x42, 0x20], pos); // "RGB "
+		view.setFloat32(pos + 4, c.r / 255);
+		view.setFloat32(pos + 8, c.g / 255);
+		view.setFloat32(pos + 12, c.b / 255);
+		view.setUint16(pos + 16, 2); // normal (not global / spot)
+		pos += 18;
+	});
+	return out;
+};
+
+/**
+ * Detects the palette file format from its content, falling back to the file extension.
+ * Returns null when the format cannot be determined.
+ */
+export const detectPaletteFormat = (
+	bytes: Uint8Array,
+	fileName = "",
+): PaletteFileFormat | null => {
+	if (
+		bytes.length >= 4 &&
+		String.fromCharCode(...bytes.subarray(0, 4)) === "ASEF"
+	) {
+		return "ase";
+	}
+	if (isACO(bytes)) return "aco";
+
+	const text = new TextDecoder()
+		.decode(bytes)
+		.replace(/^\uFEFF/, "")
+		.trim();
+	if (text.startsWith("GIMP Palette")) return "gpl";
+	if (text.startsWith("JASC-PAL")) return "pal";
+	if (text.startsWith("{")) return "json";
+
+	const lines = text
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter(Boolean);
+	const data = lines.filter((line) => !line.startsWith(";"));
+	if (data.length > 0) {
+		if (data.every((line) => /^[0-9a-f]{8}$/i.test(line))) return "txt";
+		if (data.every((line) => /^#?[0-9a-f]{6}$/i.test(line))) return "hex";
+	}
+
+	const ext = /\.([a-z0-9]+)$/i.exec(fileName)?.[1].toLowerCase();
+	return PALETTE_FILE_FORMATS.find((f) => f === ext) ?? null;
+};
+
+/**
+ * Returns true if the file name has one of the supported palette extensions.
+ */
+export const isPaletteFileName = (fileName: string): boolean => {
+	const ext = /\.([a-z0-9]+)$/i.exec(fileName)?.[1].toLowerCase();
+	return PALETTE_FILE_FORMATS.some((f) => f === ext);
+};
+
+/**
+ * Parses a palette file of any supported format (auto-detected).
+ */
+export const parsePaletteFile = (bytes: Uint8Array, fileName = ""): RGB[] => {
+	const format = detectPaletteFormat(bytes, fileName);
+	const text = () => new TextDecoder().decode(bytes);
+	switch (format) {
+		case "gpl":
+			return parseGPL(text());
+		case "ase":
+			return parseASE(bytes);
+		case "aco":
+			return parseACO(bytes);
+		case "pal":
+			return parseJASCPAL(text());
+		case "txt":
+			return parsePaintNetTXT(text());
+		case "hex":
+			return parseHEX(text());
+		case "json":
+			return parseLospecJSON(text());
+		default:
+			throw new Error("対応していないパレット形式です。");
+	}
+};
+
+/**
+ * Generates a palette file in the given format. The file extension is the format name.
+ */
+export const generatePaletteFile = (
+	colors: RGB[],
+	format: PaletteFileFormat,
+	name: string,
+): Uint8Array<ArrayBuffer> => {
+	switch (format) {
+		case "ase":
+			return generateASE(colors);
+		case "aco":
+			return generateACO(colors);
+		case "pal":
+			return new TextEncoder().encode(generateJASCPAL(colors));
+		case "txt":
+			return new TextEncoder().encode(generatePaintNetTXT(colors, name));
+		case "hex":
+			return new TextEncoder().encode(generateHEX(colors));
+		case "json":
+			return new TextEncoder().encode(generateLospecJSON(colors, name));
+		default:
+			return new TextEncoder().encode(generateGPL(colors, name));
+	}
+};
+
 /**
  * Generates a PNG blob from an array of RGB colors.
  * The image will be 1px high and Npx wide.
@@ -230,6 +682,23 @@ const getRange = (colors: RGB[], channel: "r" | "g" | "b"): number => {
 	return max - min;
 };
 
+/**
+ * Collects unique opaque colors (alpha >= 128) in the order they first appear.
+ */
+const collectUniqueColors = (data: Uint8ClampedArray): RGB[] => {
+	const colors: RGB[] = [];
+	const seen = new Set<number>();
+	for (let i = 0; i < data.length; i += 4) {
+		if (data[i + 3] < 128) continue;
+		const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+		if (!seen.has(key)) {
+			seen.add(key);
+			colors.push({ r: data[i], g: data[i + 1], b: data[i + 2] });
+		}
+	}
+	return colors;
+};
+
 /**
  * Extracts unique colors from ImageData.
  * @param imageData - The ImageData to extract colors from
@@ -240,25 +709,8 @@ export const extractColorsFromImage = (
 	imageData: ImageData,
 	maxColors?: number,
 ): { colors: RGB[]; totalColors: number } => {
-	const colors: RGB[] = [];
-	const seen = new Set<string>();
-	const data = imageData.data;
-
-	// Extract all unique colors
-	for (let i = 0; i < data.length; i += 4) {
-		// Skip transparent pixels (alpha < 128)
-		if (data[i + 3] < 128) continue;
-
-		const r = data[i];
-		const g = data[i + 1];
-		const b = data[i + 2];
-		const key = `${r},${g},${b}`;
-
-		if (!seen.has(key)) {
-			seen.add(key);
-			colors.push({ r, g, b });
-		}
-	}
+	// Extract all unique colors, skipping transparent pixels (alpha < 128)
+	const colors = collectUniqueColors(imageData.data);
 
 	const totalColors = colors.length;
 
@@ -276,3 +728,55 @@ export const extractColorsFromImage = (
 
 	return { colors, totalColors };
 };
+
+/**
+ * Extracts a palette of up to maxColors colors from a reference image
+ * (e.g. a game's title screen).
+ * - "median": median cut over the unique colors
+ * - "kmeans": Oklab K-means weighted by how often each color appears
+ * - "unique": the exact colors when there are at most 256, otherwise median cut
+ * The result is sorted by luminance. totalColors is the number of unique colors in the image.
+ */
+export const extractPaletteFromImage = (
+	image: RawImage,
+	method: PaletteExtractMethod,
+	maxColors: number,
+): { colors: RGB[]; totalColors: number } => {
+	const range = PROCESS_RANGES.paletteExtractCount;
+	const count = clampInt(maxColors, range);
+	const unique = collectUniqueColors(image.data);
+	const totalColors = unique.length;
+
+	const limit = method === "unique" ? range.max : count;
+	if (totalColors <= limit) {
+		return { colors: sortPalette(unique), totalColors };
+	}
+
+	if (method === "kmeans") {
+		const pixels: PixelData[] = [];
+		for (let i = 0; i < image.data.length; i += 4) {
+			if (image.data[i + 3] < 128) continue;
+			pixels.push({
+				r: image.data[i],
+				g: image.data[i + 1],
+				b: image.data[i + 2],
+				alpha: 255,
+			});
+		}
+		const seen = new Set<number>();
+		const colors: RGB[] = [];
+		for (const p of new OklabKMeans(count).quantize(pixels)) {
+			const r = Math.min(255, p.r);
+			const g = Math.min(255, p.g);
+			const b = Math.min(255, p.b);
+			const key = (r << 16) | (g << 8) | b;
+			if (!seen.has(key)) {
+				seen.add(key);
+				colors.push({ r, g, b });
+			}
+		}
+		return { colors: sortPalette(colors), totalColors };
+	}
+
+	return { colors: sortPalette(medianCut(unique, count)), totalColors };
+};
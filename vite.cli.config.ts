@@ -0,0 +1,12 @@
+import { defineConfig } from "vite";
+
+// Node 向け CLI (src/cli/main.ts) のビルド設定
+export default defineConfig({
+	build: {
+		ssr: "src/cli/main.ts",
+		outDir: "dist-cli",
+		emptyOutDir: true,
+		copyPublicDir: false,
+		target: "node18",
+	},
+});